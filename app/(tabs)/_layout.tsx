@@ -7,6 +7,7 @@ import { IconSymbol } from '@/components/ui/IconSymbol';
 import TabBarBackground from '@/components/ui/TabBarBackground';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/context/auth-context';
+import { useNotificationInbox } from '@/context/notification-inbox-context';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
 
 export const UserDataContext = createContext<any>(null);
@@ -16,6 +17,7 @@ export default function TabLayout() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const { user, loading } = useAuth();
+  const { unreadCount } = useNotificationInbox();
 
   if (loading) {
     return (
@@ -63,6 +65,14 @@ export default function TabLayout() {
             tabBarIcon: ({ color }) => <IconSymbol size={24} name="calendar.badge.clock" color={color} />,
           }}
         />
+        <Tabs.Screen
+          name="notifications"
+          options={{
+            title: 'Notifikasi',
+            tabBarIcon: ({ color }) => <IconSymbol size={24} name="bell.fill" color={color} />,
+            tabBarBadge: unreadCount > 0 ? (unreadCount > 99 ? '99+' : unreadCount) : undefined,
+          }}
+        />
         <Tabs.Screen
           name="profile"
           options={{
@@ -7,18 +7,24 @@ import { useFocusEffect } from '@react-navigation/native';
 import { router } from 'expo-router';
 
 // Local components
+import { OpenVisitBanner } from '@/components/OpenVisitBanner';
 import { PermissionBottomSheet } from '@/components/PermissionBottomSheet';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 
 // Constants & utilities
 import { Colors } from '@/constants/Colors';
+import { CompliancePlan, computeCompliance, formatRate } from '@/services/plan-compliance';
+import { queryKey, QUERY_TTL } from '@/services/query-cache';
 
 // Hooks & contexts
 import { useNetwork } from '@/context/network-context';
-import { usePlanVisit } from '@/hooks/data/usePlanVisit';
-import { useVisit } from '@/hooks/data/useVisit';
+import { useOpenVisit } from '@/context/open-visit-context';
+import type { Visit as VisitAPI } from '@/hooks/data/useVisit';
+import { useApiClient } from '@/hooks/utils/useApiClient';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useDailyRoute } from '@/hooks/utils/useDailyRoute';
 import { usePermissionWithModal } from '@/hooks/utils/usePermission';
+import { useQuery } from '@/hooks/utils/useQuery';
 import { useUserData } from './_layout';
 
 // Types
@@ -27,16 +33,17 @@ interface Visit {
   visit_date: string;
   checkin_time?: string | null;
   checkout_time?: string | null;
+  auto_closed_at?: string | null;
   outlet?: {
     id?: string | number;
     name?: string;
     code?: string;
     owner_name?: string;
     address?: string;
-    location?: string;
+    location?: string | null;
     district?: string;
     status?: string;
-    radius?: number;
+    radius?: number | null;
   };
   outlet_id?: string | number;
   user_id?: string | number;
@@ -69,12 +76,7 @@ const useDateTime = () => {
 
 // Updated hook to fetch both plan visits and today visits using correct hooks
 const useVisitData = () => {
-  const { fetchVisits } = useVisit();
-  const { fetchPlanVisits } = usePlanVisit();
-  const [planVisits, setPlanVisits] = useState<Visit[]>([]);
-  const [todayVisits, setTodayVisits] = useState<Visit[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const api = useApiClient();
 
   // Get today's date string
   const getTodayDateString = useCallback(() => {
@@ -85,57 +87,52 @@ const useVisitData = () => {
     return `${yyyy}-${mm}-${dd}`;
   }, []);
 
-  // Fetch both plan visits and today visits
-  const fetchAllVisits = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const todayStr = getTodayDateString();
-      
-      // Fetch plan visits using usePlanVisit hook with correct parameter format
-      const planResult = await fetchPlanVisits({ 
-        date: todayStr  // Plan visit menggunakan parameter 'date' untuk filter hari ini
-      });
-      
-      // Fetch today visits using useVisit hook
-      const todayResult = await fetchVisits({ 
-        'filters[date]': todayStr  // Visit menggunakan format 'filters[date]'
-      });
-      
-      if (planResult.success && todayResult.success) {
-        // Convert PlanVisit to Visit format for consistency
-        const convertedPlanVisits = (planResult.data || []).map((planVisit: any) => ({
-          ...planVisit,
-          checkin_time: null,
-          checkout_time: null,
-        }));
-        
-        setPlanVisits(convertedPlanVisits);
-        setTodayVisits(todayResult.data || []);
-      } else {
-        setError(planResult.error || todayResult.error || 'Failed to fetch visits');
-      }
-    } catch (err: any) {
-      setError('Failed to fetch visit data');
-    } finally {
-      setLoading(false);
-    }
-  }, [fetchVisits, fetchPlanVisits, getTodayDateString]);
+  const todayStr = getTodayDateString();
 
-  // Auto-refresh when screen focused
+  // Plan visit memakai parameter 'date', visit memakai format 'filters[date]'.
+  // Data terakhir langsung tampil dari cache, lalu di-revalidate di background.
+  const planQuery = useQuery(
+    queryKey('/plan-visits', { date: todayStr }),
+    () => api.planVisits.list({ date: todayStr }),
+    { ttl: QUERY_TTL.SHORT }
+  );
+  const visitQuery = useQuery(
+    queryKey('/visits', { 'filters[date]': todayStr }),
+    () => api.visits.list({ 'filters[date]': todayStr }),
+    { ttl: QUERY_TTL.SHORT }
+  );
+  const { revalidate: revalidatePlans } = planQuery;
+  const { revalidate: revalidateVisits } = visitQuery;
+
+  // Convert PlanVisit to Visit format for consistency
+  const planVisits = useMemo<Visit[]>(() => (planQuery.data?.data || []).map((planVisit: any) => ({
+    ...planVisit,
+    checkin_time: null,
+    checkout_time: null,
+  })), [planQuery.data]);
+  // Urutan plan mengikuti rute hari ini jika sudah disusun
+  const { ordered: routedPlanVisits } = useDailyRoute(todayStr, planVisits);
+  const todayVisits = useMemo<VisitAPI[]>(() => visitQuery.data?.data || [], [visitQuery.data]);
+
+  // Pull to refresh: selalu ambil ulang dari server
+  const refreshData = useCallback(async () => {
+    await Promise.all([revalidatePlans(true), revalidateVisits(true)]);
+  }, [revalidatePlans, revalidateVisits]);
+
+  // Saat screen difocus hanya revalidate jika data sudah stale
   useFocusEffect(
     useCallback(() => {
-      fetchAllVisits();
-    }, [fetchAllVisits])
+      revalidatePlans();
+      revalidateVisits();
+    }, [revalidatePlans, revalidateVisits])
   );
 
   return {
-    planVisits,
+    planVisits: routedPlanVisits,
     todayVisits,
-    loading,
-    error,
-    refreshData: fetchAllVisits,
+    loading: planQuery.loading || visitQuery.loading,
+    error: planQuery.error || visitQuery.error,
+    refreshData,
   };
 };
 
@@ -200,7 +197,10 @@ const VisitCard = React.memo(function VisitCard({
     return { bg: '#f3f4f6', text: '#6b7280', label: 'UNKNOWN' };
   };
 
-  const statusColors = getStatusColor(visit.checkin_time, visit.checkout_time);
+  // Ditutup tanpa check-out (lupa check-out): jangan tampil sebagai ON VISIT terus-menerus
+  const statusColors = visit.auto_closed_at
+    ? { bg: '#e5e7eb', text: '#4b5563', label: 'AUTO CLOSED' }
+    : getStatusColor(visit.checkin_time, visit.checkout_time);
   const visitDate = new Date(visit.visit_date);
   const isToday = new Date().toDateString() === visitDate.toDateString();
 
@@ -227,11 +227,11 @@ const VisitCard = React.memo(function VisitCard({
     if (!visit.checkin_time && !visit.checkout_time) {
       return onStartPress; // PLANNED -> Start visit
     }
-    if (visit.checkin_time && !visit.checkout_time) {
+    if (visit.checkin_time && !visit.checkout_time && !visit.auto_closed_at) {
       return onCheckOutPress; // ON VISIT -> Check out
     }
-    return onViewPress; // COMPLETED -> View detail
-  }, [visit.checkin_time, visit.checkout_time, onStartPress, onCheckOutPress, onViewPress]);
+    return onViewPress; // COMPLETED / AUTO CLOSED -> View detail
+  }, [visit.checkin_time, visit.checkout_time, visit.auto_closed_at, onStartPress, onCheckOutPress, onViewPress]);
 
   return (
     <View className="px-4 mb-3">
@@ -616,6 +616,72 @@ const VisitsEmptyState = React.memo(function VisitsEmptyState({
   );
 });
 
+// Pintasan ke layar rute di atas daftar plan
+const RouteShortcut = React.memo(function RouteShortcut({
+  planCount,
+  colors,
+}: {
+  planCount: number;
+  colors: any;
+}) {
+  return (
+    <TouchableOpacity
+      onPress={() => router.push('/plan-visit/route')}
+      className="mx-4 mb-3 px-4 py-3 rounded-xl flex-row items-center bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700"
+      accessibilityRole="button"
+      accessibilityLabel="Lihat rute kunjungan hari ini"
+    >
+      <IconSymbol name="map" size={20} color={colors.primary} />
+      <View className="flex-1 ml-3">
+        <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+          Rute Hari Ini
+        </Text>
+        <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-600 dark:text-neutral-400">
+          Urutan kunjungan efisien untuk {planCount} outlet
+        </Text>
+      </View>
+      <IconSymbol name="chevron.right" size={18} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+});
+
+// Ringkasan plan vs aktual hari ini, membuka dashboard kepatuhan
+const ComplianceShortcut = React.memo(function ComplianceShortcut({
+  planVisits,
+  todayVisits,
+  colors,
+}: {
+  planVisits: Visit[];
+  todayVisits: VisitAPI[];
+  colors: any;
+}) {
+  const summary = useMemo(() => {
+    const today = new Date();
+    const key = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    return computeCompliance(planVisits as CompliancePlan[], todayVisits, { from: key, to: key }, key);
+  }, [planVisits, todayVisits]);
+
+  return (
+    <TouchableOpacity
+      onPress={() => router.push('/plan-visit/compliance')}
+      className="mx-4 mb-3 px-4 py-3 rounded-xl flex-row items-center bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700"
+      accessibilityRole="button"
+      accessibilityLabel="Lihat kepatuhan plan"
+    >
+      <IconSymbol name="chart.bar.fill" size={20} color={colors.primary} />
+      <View className="flex-1 ml-3">
+        <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+          Kepatuhan Hari Ini
+        </Text>
+        <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-600 dark:text-neutral-400">
+          {summary.visited}/{summary.planned} plan dikunjungi • {summary.extra} di luar plan • Strike rate {formatRate(summary.strikeRate)}
+        </Text>
+      </View>
+      <IconSymbol name="chevron.right" size={18} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+});
+
 // Sticky Quick Actions Section (not floating, stays after header)
 const StickyQuickActions = React.memo(function StickyQuickActions({
   handleQuickActions,
@@ -663,6 +729,12 @@ export default function HomeScreen() {
   // Custom hooks
   const { formatDate, getGreeting } = useDateTime();
   const { planVisits, todayVisits, loading, error, refreshData } = useVisitData();
+  const { syncWithVisits } = useOpenVisit();
+
+  // Samakan pelacak kunjungan terbuka dengan data visit hari ini dari server
+  useEffect(() => {
+    syncWithVisits(todayVisits);
+  }, [todayVisits, syncWithVisits]);
   
   // Tab state with auto-select logic
   const [activeTab, setActiveTab] = useState<'plan' | 'today'>('plan');
@@ -758,6 +830,8 @@ export default function HomeScreen() {
         colors={colors}
       />
 
+      <OpenVisitBanner />
+
       {/* Tab Header */}
       <TabHeader
         activeTab={activeTab}
@@ -787,6 +861,16 @@ export default function HomeScreen() {
         )}
         contentContainerStyle={{ paddingTop: 16, paddingBottom: 32 }}
         style={{ backgroundColor: 'transparent' }}
+        ListHeaderComponent={
+          <>
+            {(planVisits.length > 0 || todayVisits.length > 0) && (
+              <ComplianceShortcut planVisits={planVisits} todayVisits={todayVisits} colors={colors} />
+            )}
+            {activeTab === 'plan' && planVisits.length > 1 && (
+              <RouteShortcut planCount={planVisits.length} colors={colors} />
+            )}
+          </>
+        }
         ListEmptyComponent={
           <VisitsEmptyState
             loading={loading}
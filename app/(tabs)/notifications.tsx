@@ -0,0 +1,309 @@
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Text, TouchableOpacity, View } from 'react-native';
+import Swipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Card } from '@/components/ui/Card';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useNetwork } from '@/context/network-context';
+import { useNotificationInbox } from '@/context/notification-inbox-context';
+import { AppNotification, NotificationReadFilter, useNotifications } from '@/hooks/data/useNotifications';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+
+const PER_PAGE = 20;
+
+const FILTERS: { label: string; value: NotificationReadFilter }[] = [
+  { label: 'Semua', value: 'all' },
+  { label: 'Belum Dibaca', value: 'unread' },
+  { label: 'Dibaca', value: 'read' },
+];
+
+const formatNotificationTime = (dateString: string) => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (diffMinutes < 1) return 'Baru saja';
+  if (diffMinutes < 60) return `${diffMinutes} menit lalu`;
+  if (diffMinutes < 60 * 24) return `${Math.floor(diffMinutes / 60)} jam lalu`;
+  return date.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const FilterChips = React.memo(function FilterChips({
+  selected,
+  onSelect,
+}: {
+  selected: NotificationReadFilter;
+  onSelect: (value: NotificationReadFilter) => void;
+}) {
+  return (
+    <View className="flex-row px-4 pb-3">
+      {FILTERS.map(filter => {
+        const isActive = filter.value === selected;
+        return (
+          <TouchableOpacity
+            key={filter.value}
+            onPress={() => onSelect(filter.value)}
+            className={`px-3 py-1.5 rounded-full mr-2 border ${isActive ? 'bg-primary-500 border-primary-500' : 'border-neutral-200 dark:border-neutral-700'}`}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text
+              style={{ fontFamily: 'Inter' }}
+              className={`text-sm font-medium ${isActive ? 'text-white' : 'text-neutral-600 dark:text-neutral-400'}`}
+            >
+              {filter.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+});
+
+const DeleteAction = React.memo(function DeleteAction({ onPress }: { onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className="bg-danger-500 rounded-xl mb-3 ml-2 px-5 items-center justify-center"
+      accessibilityRole="button"
+      accessibilityLabel="Hapus notifikasi"
+    >
+      <IconSymbol name="trash" size={22} color="#fff" />
+      <Text style={{ fontFamily: 'Inter' }} className="text-white text-xs mt-1">
+        Hapus
+      </Text>
+    </TouchableOpacity>
+  );
+});
+
+const NotificationCard = React.memo(function NotificationCard({
+  item,
+  colors,
+  onPress,
+  onDelete,
+}: {
+  item: AppNotification;
+  colors: any;
+  onPress: (item: AppNotification) => void;
+  onDelete: (item: AppNotification) => void;
+}) {
+  const isUnread = !item.read_at;
+
+  return (
+    <Swipeable
+      friction={2}
+      rightThreshold={40}
+      renderRightActions={() => <DeleteAction onPress={() => onDelete(item)} />}
+    >
+      <TouchableOpacity
+        onPress={() => onPress(item)}
+        className={`rounded-xl p-4 mb-3 border ${isUnread ? 'bg-primary-50 border-primary-200' : 'bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-700'}`}
+        activeOpacity={0.7}
+      >
+        <View className="flex-row items-start">
+          <View
+            className="w-9 h-9 rounded-lg items-center justify-center mr-3"
+            style={{ backgroundColor: colors.primary + '20' }}
+          >
+            <IconSymbol name="bell.fill" size={18} color={colors.primary} />
+          </View>
+          <View className="flex-1">
+            <View className="flex-row items-center justify-between">
+              <Text
+                style={{ fontFamily: 'Inter' }}
+                className={`flex-1 text-base text-neutral-900 dark:text-neutral-100 ${isUnread ? 'font-bold' : 'font-medium'}`}
+                numberOfLines={1}
+              >
+                {item.title}
+              </Text>
+              {isUnread && <View className="w-2 h-2 rounded-full bg-primary-500 ml-2" />}
+            </View>
+            <Text
+              style={{ fontFamily: 'Inter' }}
+              className="text-sm text-neutral-600 dark:text-neutral-400 mt-1"
+              numberOfLines={2}
+            >
+              {item.message}
+            </Text>
+            <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-500 mt-2">
+              {formatNotificationTime(item.created_at)}
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Swipeable>
+  );
+});
+
+const EmptyState = React.memo(function EmptyState({
+  loading,
+  filter,
+  colors,
+}: {
+  loading: boolean;
+  filter: NotificationReadFilter;
+  colors: any;
+}) {
+  if (loading) {
+    return (
+      <View className="items-center py-8">
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={{ fontFamily: 'Inter' }} className="mt-3 text-base text-neutral-600 dark:text-neutral-400">
+          Memuat notifikasi...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className="items-center py-12">
+      <View
+        className="w-16 h-16 rounded-full items-center justify-center mb-4"
+        style={{ backgroundColor: colors.primary + '20' }}
+      >
+        <IconSymbol name="bell.fill" size={32} color={colors.primary} />
+      </View>
+      <Text style={{ fontFamily: 'Inter' }} className="text-lg font-semibold text-neutral-900 dark:text-neutral-100 mb-2">
+        Tidak ada notifikasi
+      </Text>
+      <Text style={{ fontFamily: 'Inter' }} className="text-base text-neutral-600 dark:text-neutral-400 text-center">
+        {filter === 'unread' ? 'Semua notifikasi sudah dibaca.' : 'Notifikasi baru akan muncul di sini.'}
+      </Text>
+    </View>
+  );
+});
+
+export default function NotificationsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+  const { isConnected } = useNetwork();
+  const { unreadCount, refreshUnreadCount } = useNotificationInbox();
+  const {
+    notifications,
+    meta,
+    loading,
+    fetchNotifications,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  } = useNotifications();
+
+  const [filter, setFilter] = useState<NotificationReadFilter>('all');
+  const [page, setPage] = useState(1);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadPage = useCallback((newPage: number) => {
+    setPage(newPage);
+    return fetchNotifications({ page: newPage, per_page: PER_PAGE, status: filter });
+  }, [fetchNotifications, filter]);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  // Keep the tab badge in sync when coming back from the detail screen
+  useFocusEffect(
+    useCallback(() => {
+      refreshUnreadCount();
+    }, [refreshUnreadCount])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([loadPage(1), refreshUnreadCount()]);
+    setRefreshing(false);
+  }, [loadPage, refreshUnreadCount]);
+
+  const handleEndReached = useCallback(() => {
+    if (loading || !meta || page >= meta.last_page) return;
+    loadPage(page + 1);
+  }, [loading, meta, page, loadPage]);
+
+  const handlePress = useCallback(async (item: AppNotification) => {
+    if (!item.read_at) {
+      await markAsRead(item.id);
+      refreshUnreadCount();
+    }
+    router.push(`/notification/${encodeURIComponent(String(item.id))}`);
+  }, [markAsRead, refreshUnreadCount]);
+
+  const handleDelete = useCallback(async (item: AppNotification) => {
+    const result = await deleteNotification(item.id);
+    if (!result.success) {
+      Alert.alert('Gagal', result.error || 'Notifikasi gagal dihapus');
+      return;
+    }
+    refreshUnreadCount();
+  }, [deleteNotification, refreshUnreadCount]);
+
+  const handleMarkAllRead = useCallback(async () => {
+    const result = await markAllAsRead();
+    if (!result.success) {
+      Alert.alert('Gagal', result.error || 'Gagal menandai semua notifikasi');
+      return;
+    }
+    refreshUnreadCount();
+    if (filter === 'unread') {
+      loadPage(1);
+    }
+  }, [markAllAsRead, refreshUnreadCount, filter, loadPage]);
+
+  return (
+    <View className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      {/* Header */}
+      <View
+        className="bg-white dark:bg-neutral-950 border-b border-neutral-200 dark:border-neutral-800"
+        style={{ paddingTop: isConnected ? insets.top + 8 : 8 }}
+      >
+        <View className="flex-row items-center justify-between px-4 pb-3">
+          <Text style={{ fontFamily: 'Inter' }} className="text-xl font-semibold text-neutral-900 dark:text-neutral-100">
+            Notifikasi
+          </Text>
+          <TouchableOpacity
+            onPress={handleMarkAllRead}
+            disabled={unreadCount === 0 || loading}
+            style={{ opacity: unreadCount === 0 || loading ? 0.5 : 1 }}
+            accessibilityRole="button"
+            accessibilityLabel="Tandai semua dibaca"
+          >
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm font-medium text-primary-500">
+              Tandai semua dibaca
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <FilterChips selected={filter} onSelect={setFilter} />
+      </View>
+
+      <FlatList
+        data={notifications}
+        keyExtractor={(item) => String(item.id)}
+        showsVerticalScrollIndicator={false}
+        onRefresh={handleRefresh}
+        refreshing={refreshing}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.3}
+        renderItem={({ item }) => (
+          <NotificationCard
+            item={item}
+            colors={colors}
+            onPress={handlePress}
+            onDelete={handleDelete}
+          />
+        )}
+        contentContainerStyle={{ padding: 16, paddingBottom: 100 }}
+        ListFooterComponent={
+          loading && page > 1 ? <ActivityIndicator className="py-4" color={colors.primary} /> : null
+        }
+        ListEmptyComponent={
+          <Card className="mt-10 p-6 items-center justify-center border-0 shadow-sm">
+            <EmptyState loading={loading} filter={filter} colors={colors} />
+          </Card>
+        }
+      />
+    </View>
+  );
+}
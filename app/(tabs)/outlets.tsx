@@ -8,16 +8,26 @@ import { useDebounce } from 'use-debounce';
 import { AdvancedFilterBottomSheet, type AdvancedFilterBottomSheetRef } from '@/components/AdvancedFilterBottomSheet';
 import { HeaderSearchFilter } from '@/components/HeaderSearchFilter';
 import OutletItem from '@/components/OutletItem';
+import { OutletMap } from '@/components/OutletMap';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 
 import { Colors } from '@/constants/Colors';
 import { useNetwork } from '@/context/network-context';
-import { useOutlet } from '@/hooks/data/useOutlet';
+import { OutletAPI, useOutlet } from '@/hooks/data/useOutlet';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useCurrentLocation } from '@/hooks/utils/useCurrentLocation';
+import { sortByDistance } from '@/utils/geo';
 
-type SortColumn = 'name'|'code'|'district'|'status';
+// 'distance' diurutkan di client dari posisi user (backend tidak tahu lokasi user),
+// jadi hanya berlaku untuk outlet di halaman yang sedang dimuat
+type SortColumn = 'name'|'code'|'district'|'status'|'distance';
+type ViewMode = 'list'|'map';
+type OutletListItem = OutletAPI & { distance?: number | null };
+
+// Mode peta & urut jarak memuat lebih banyak outlet per halaman agar yang terdekat ikut terlihat
+const NEARBY_PAGE_SIZE = 100;
 
 const useOutletFilters = () => {
   const [inputValue, setInputValue] = useState('');
@@ -80,29 +90,32 @@ const useOutletFilters = () => {
 };
 
 const useOutletActions = (fetchOutletsAdvanced: any, page: number, perPage: number, sortColumn: SortColumn, sortDirection: 'asc'|'desc', searchQuery: string, filters: Record<string, any>) => {
+  const backendSortColumn = sortColumn === 'distance' ? 'name' : sortColumn;
+  const backendSortDirection = sortColumn === 'distance' ? 'asc' : sortDirection;
+
   // Fetch with advanced params
   const fetchPage = useCallback((newPage: number) => {
     fetchOutletsAdvanced({
       page: newPage,
       per_page: perPage,
-      sort_column: sortColumn,
-      sort_direction: sortDirection,
+      sort_column: backendSortColumn,
+      sort_direction: backendSortDirection,
       search: searchQuery,
       filters,
     });
-  }, [fetchOutletsAdvanced, perPage, sortColumn, sortDirection, searchQuery, filters]);
+  }, [fetchOutletsAdvanced, perPage, backendSortColumn, backendSortDirection, searchQuery, filters]);
 
   // Fetch on mount and when params change
   React.useEffect(() => {
     fetchOutletsAdvanced({
       page,
       per_page: perPage,
-      sort_column: sortColumn,
-      sort_direction: sortDirection,
+      sort_column: backendSortColumn,
+      sort_direction: backendSortDirection,
       search: searchQuery,
       filters,
     });
-  }, [page, perPage, sortColumn, sortDirection, searchQuery, filters, fetchOutletsAdvanced]);
+  }, [page, perPage, backendSortColumn, backendSortDirection, searchQuery, filters, fetchOutletsAdvanced]);
 
   // Handle pull-to-refresh
   const handleRefresh = useCallback(async (setRefreshing: (value: boolean) => void, setPage: (value: number) => void) => {
@@ -239,9 +252,11 @@ export default function OutletsScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const { isConnected } = useNetwork();
+  const { location: userLocation, requestPermission: requestLocation } = useCurrentLocation();
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
 
   // Get outlets data from the hook
-  const { outlets, loading, meta, fetchOutletsAdvanced } = useOutlet('');
+  const { outlets, loading, meta, fetchOutletsAdvanced } = useOutlet();
 
   // Custom hooks for state management
   const {
@@ -264,16 +279,39 @@ export default function OutletsScreen() {
     hasActiveFilters,
   } = useOutletFilters();
 
+  const needsLocation = viewMode === 'map' || sortColumn === 'distance';
+
   const { fetchPage, handleRefresh } = useOutletActions(
     fetchOutletsAdvanced, 
     page, 
-    perPage, 
+    needsLocation ? NEARBY_PAGE_SIZE : perPage, 
     sortColumn, 
     sortDirection, 
     searchQuery, 
     filters
   );
 
+  // Minta lokasi saat pertama kali butuh (peta / urut jarak)
+  useEffect(() => {
+    if (needsLocation && !userLocation) {
+      requestLocation();
+    }
+  }, [needsLocation, userLocation, requestLocation]);
+
+  const sortedByDistance = sortColumn === 'distance' && !!userLocation;
+  const displayedOutlets = React.useMemo((): OutletListItem[] => {
+    if (sortColumn !== 'distance' || !userLocation) return outlets;
+    return sortByDistance(outlets, userLocation, outlet => outlet.location);
+  }, [outlets, sortColumn, userLocation]);
+
+  const handleToggleViewMode = useCallback(() => {
+    setViewMode(prev => (prev === 'list' ? 'map' : 'list'));
+  }, []);
+
+  const handleOutletPress = useCallback((outlet: { id: string | number }) => {
+    router.push({ pathname: '/outlet/[id]/view', params: { id: String(outlet.id) } });
+  }, []);
+
   // Advanced filter bottom sheet ref
   const filterBottomSheetRef = React.useRef<AdvancedFilterBottomSheetRef>(null);
 
@@ -356,6 +394,7 @@ export default function OutletsScreen() {
         { label: 'Kode Outlet', value: 'code' },
         { label: 'Wilayah', value: 'district' },
         { label: 'Status', value: 'status' },
+        { label: 'Terdekat (outlet yang dimuat)', value: 'distance' },
       ],
       selectedValue: sortColumn,
     },
@@ -381,11 +420,31 @@ export default function OutletsScreen() {
         placeholder="Cari outlet..."
         hasActiveFilter={hasActiveFilters()}
         showAdvancedFilter={true}
+        accessory={
+          <TouchableOpacity
+            onPress={handleToggleViewMode}
+            className="w-12 h-12 rounded-xl items-center justify-center border border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-900 mr-3"
+            accessibilityRole="button"
+            accessibilityLabel={viewMode === 'list' ? 'Tampilkan peta' : 'Tampilkan daftar'}
+          >
+            <IconSymbol name={viewMode === 'list' ? 'map' : 'list.bullet'} size={20} color={colors.primary} />
+          </TouchableOpacity>
+        }
       />
       
-      {/* Outlet List */}
+      {viewMode === 'map' ? (
+        <View className="flex-1">
+          <OutletMap outlets={outlets} userLocation={userLocation} onOutletPress={handleOutletPress} />
+          {loading && (
+            <View className="absolute top-4 right-4 bg-white dark:bg-neutral-900 rounded-full p-2">
+              <ActivityIndicator size="small" color={colors.primary} />
+            </View>
+          )}
+        </View>
+      ) : (
+      /* Outlet List */
       <FlatList
-        data={outlets}
+        data={displayedOutlets}
         keyExtractor={(item) => String(item.id)}
         showsVerticalScrollIndicator={false}
         initialNumToRender={10}
@@ -394,8 +453,13 @@ export default function OutletsScreen() {
         onRefresh={handleRefreshWrapper}
         refreshing={refreshing}
         renderItem={({ item }) => (
-          <OutletItem outlet={item} />
+          <OutletItem outlet={item} distance={item.distance} />
         )}
+        ListHeaderComponent={sortedByDistance && outlets.length > 0 ? (
+          <Text className="mx-4 mb-2 text-xs text-neutral-500 dark:text-neutral-400" style={{ fontFamily: 'Inter' }}>
+            Diurutkan dari {outlets.length} outlet yang dimuat di halaman ini, belum tentu yang terdekat dari seluruh outlet.
+          </Text>
+        ) : null}
         contentContainerStyle={{ paddingTop: 16, paddingBottom: 100 }}
         ListFooterComponent={
           <Pagination
@@ -418,6 +482,7 @@ export default function OutletsScreen() {
           </View>
         }
       />
+      )}
 
       {/* Advanced Filter Bottom Sheet */}
       <AdvancedFilterBottomSheet
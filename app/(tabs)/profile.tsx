@@ -4,9 +4,13 @@ import { useAuth } from '@/context/auth-context';
 import { useNetwork } from '@/context/network-context';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
 import { usePermission } from '@/hooks/utils/usePermission';
+import { shareDiagnostics } from '@/services/diagnostics';
+import { isSupervisor } from '@/services/team-activity';
+import type { UserScope } from '@/types/common';
+import { error as logError } from '@/utils/logger';
 import { useRouter } from 'expo-router';
 import React, { useCallback, useState } from 'react';
-import { Image, Linking, Pressable, ScrollView, Text, View } from 'react-native';
+import { Alert, Image, Linking, Pressable, ScrollView, Text, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useUserData } from './_layout';
 
@@ -15,6 +19,9 @@ const ICONS = {
   lock: 'lock.fill',
   chevronRight: 'chevron.right',
   escape: 'escape',
+  review: 'checkmark.seal.fill',
+  users: 'person.2.fill',
+  shield: 'shield.fill',
 } as const;
 
 interface User {
@@ -23,6 +30,7 @@ interface User {
   photo?: string;
   role?: string | { name: string };
   role_id?: string;
+  user_scopes?: UserScope[] | UserScope;
 }
 
 type IconType = keyof typeof ICONS;
@@ -48,7 +56,8 @@ const useProfileData = (user: User | null) => {
 
 const useProfileActions = () => {
   const router = useRouter();
-  const { logout } = useAuth();
+  const { logout, user } = useAuth();
+  const { isConnected } = useNetwork();
   const [loading, setLoading] = useState(false);
 
   const handleLogout = useCallback(async () => {
@@ -67,6 +76,10 @@ const useProfileActions = () => {
     router.push('/add-user');
   }, [router]);
 
+  const handleManageUsers = useCallback(() => {
+    router.push('/users');
+  }, [router]);
+
   const handlePersonalInfo = useCallback(() => {
     router.push('/personal-info');
   }, [router]);
@@ -75,16 +88,45 @@ const useProfileActions = () => {
     router.push('/change-password');
   }, [router]);
 
+  const handlePendingOutletChanges = useCallback(() => {
+    router.push('/outlet/pending');
+  }, [router]);
+
+  const handleVerifyPhoto = useCallback(() => {
+    router.push('/visit/verify-photo');
+  }, [router]);
+
+  const handleTeam = useCallback(() => {
+    router.push('/team');
+  }, [router]);
+
+  const handleSendDiagnostics = useCallback(async () => {
+    try {
+      await shareDiagnostics({ userId: user?.id, username: user?.username, isConnected });
+    } catch (err) {
+      logError('[DIAGNOSTICS] Failed to share report:', err);
+      Alert.alert('Gagal', 'Tidak dapat menyiapkan data diagnostik. Silakan coba lagi.');
+    }
+  }, [user, isConnected]);
+
   const handleReportIssue = useCallback(() => {
-    Linking.openURL('https://tally.so/r/nGXRvL');
-  }, []);
+    Alert.alert('Laporkan Masalah', 'Kirim data diagnostik (log aplikasi & info perangkat) agar tim bisa menelusuri masalah.', [
+      { text: 'Isi Formulir', onPress: () => Linking.openURL('https://tally.so/r/nGXRvL') },
+      { text: 'Kirim Diagnostik', onPress: handleSendDiagnostics },
+      { text: 'Batal', style: 'cancel' },
+    ]);
+  }, [handleSendDiagnostics]);
 
   return {
     loading,
     handleLogout,
     handleAddUser,
+    handleManageUsers,
     handlePersonalInfo,
     handleChangePassword,
+    handlePendingOutletChanges,
+    handleVerifyPhoto,
+    handleTeam,
     handleReportIssue,
   };
 };
@@ -237,9 +279,12 @@ export default function ProfileScreen() {
   const user = useUserData();
   const { isConnected } = useNetwork();
   const canCreateUser = usePermission('create_user');
+  const canApproveOutletChanges = usePermission('approve_outlet_history');
+  const { permissions } = useAuth();
+  const canViewTeam = isSupervisor(user?.user_scopes, permissions);
 
   const { displayName, displayRole, profileImage } = useProfileData(user);
-  const { loading, handleLogout, handleAddUser, handlePersonalInfo, handleChangePassword, handleReportIssue } = useProfileActions();
+  const { loading, handleLogout, handleAddUser, handleManageUsers, handlePersonalInfo, handleChangePassword, handlePendingOutletChanges, handleVerifyPhoto, handleTeam, handleReportIssue } = useProfileActions();
 
   return (
     <SafeAreaView 
@@ -284,6 +329,39 @@ export default function ProfileScreen() {
                 badge="Admin"
               />
             )}
+            {canCreateUser && (
+              <MenuItem
+                icon="users"
+                title="Kelola User"
+                colors={colors}
+                onPress={handleManageUsers}
+                badge="Admin"
+              />
+            )}
+            {canApproveOutletChanges && (
+              <MenuItem
+                icon="review"
+                title="Perubahan Outlet"
+                colors={colors}
+                onPress={handlePendingOutletChanges}
+                badge="Supervisor"
+              />
+            )}
+            {canViewTeam && (
+              <MenuItem
+                icon="users"
+                title="Tim Saya"
+                colors={colors}
+                onPress={handleTeam}
+                badge="Supervisor"
+              />
+            )}
+            <MenuItem
+              icon="shield"
+              title="Verifikasi Foto"
+              colors={colors}
+              onPress={handleVerifyPhoto}
+            />
             <MenuItem
               icon="escape"
               title="Pengaduan Masalah"
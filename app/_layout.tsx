@@ -1,11 +1,13 @@
 import { AuthGuard } from '@/components/AuthGuard';
 import { NetworkBanner } from '@/components/NetworkBanner';
+import { OutboxBanner } from '@/components/OutboxBanner';
 import { AppProvider } from '@/context/app-provider';
 import '@/global.css';
+import { initLogger } from '@/utils/logger';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import React from 'react';
+import React, { useEffect } from 'react';
 import { ActivityIndicator, Text, View } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
@@ -36,6 +38,11 @@ export default function RootLayout() {
     SpaceMono: require('@/assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  // Rotasi file log: log sesi sebelumnya disimpan untuk diagnostik
+  useEffect(() => {
+    initLogger();
+  }, []);
+
   if (!loaded) {
     return <LoadingScreen />;
   }
@@ -45,6 +52,7 @@ export default function RootLayout() {
       <AppProvider>
         <AuthGuard>
           <NetworkBanner />
+          <OutboxBanner />
           <Stack screenOptions={{ headerShown: false }}>
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen name="+not-found" />
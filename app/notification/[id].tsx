@@ -0,0 +1,223 @@
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useNotificationInbox } from '@/context/notification-inbox-context';
+import { AppNotification, useNotifications } from '@/hooks/data/useNotifications';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const Header = memo(function Header({
+  colors,
+  onBack,
+  onDelete,
+}: {
+  colors: any;
+  onBack: () => void;
+  onDelete?: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+
+  const headerStyle = useMemo(() => ({
+    paddingTop: insets.top + 12,
+    backgroundColor: colors.primary
+  }), [insets.top, colors.primary]);
+
+  return (
+    <View className="px-4 pb-4" style={headerStyle}>
+      <View className="flex-row justify-between items-center">
+        <TouchableOpacity
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Detail Notifikasi
+          </Text>
+        </View>
+        {onDelete ? (
+          <TouchableOpacity
+            onPress={onDelete}
+            className="w-8 h-8 items-center justify-center"
+            accessibilityRole="button"
+            accessibilityLabel="Hapus notifikasi"
+          >
+            <IconSymbol name="trash" size={22} color="#fff" />
+          </TouchableOpacity>
+        ) : (
+          <View className="w-8 h-8" />
+        )}
+      </View>
+    </View>
+  );
+});
+
+export default memo(function NotificationDetailPage() {
+  const colorScheme = useColorScheme();
+  const colors = useMemo(() => Colors[colorScheme ?? 'light'], [colorScheme]);
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { fetchNotification, markAsRead, deleteNotification } = useNotifications();
+  const { refreshUnreadCount } = useNotificationInbox();
+  const [notification, setNotification] = useState<AppNotification | null>(null);
+  const [fetching, setFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    let active = true;
+
+    const load = async () => {
+      setFetching(true);
+      const res = await fetchNotification(id as string);
+      if (!active) return;
+
+      if (res.success && res.data) {
+        setNotification(res.data);
+        // Opening the detail counts as reading it
+        if (!res.data.read_at) {
+          await markAsRead(res.data.id);
+          refreshUnreadCount();
+        }
+      } else {
+        setError(res.error || 'Notifikasi tidak ditemukan.');
+      }
+      setFetching(false);
+    };
+
+    load();
+    return () => {
+      active = false;
+    };
+  }, [id, fetchNotification, markAsRead, refreshUnreadCount]);
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/notifications');
+    }
+  }, [router]);
+
+  const handleDelete = useCallback(() => {
+    if (!notification) return;
+    Alert.alert('Hapus Notifikasi', 'Yakin ingin menghapus notifikasi ini?', [
+      { text: 'Batal', style: 'cancel' },
+      {
+        text: 'Hapus',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteNotification(notification.id);
+          if (!result.success) {
+            Alert.alert('Gagal', result.error || 'Notifikasi gagal dihapus');
+            return;
+          }
+          refreshUnreadCount();
+          handleBack();
+        },
+      },
+    ]);
+  }, [notification, deleteNotification, refreshUnreadCount, handleBack]);
+
+  const createdAt = useMemo(() =>
+    notification?.created_at ? new Date(notification.created_at).toLocaleString('id-ID', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }) : '-',
+    [notification?.created_at]
+  );
+
+  const visitId = notification?.data?.visit_id;
+  const outletId = notification?.data?.outlet_id;
+
+  if (fetching) {
+    return (
+      <View className="flex-1" style={{ backgroundColor: colors.background }}>
+        <Header colors={colors} onBack={handleBack} />
+        <View className="flex-1 justify-center items-center px-6">
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text className="mt-4 text-base" style={{ fontFamily: 'Inter_400Regular', color: colors.textSecondary }}>
+            Memuat notifikasi...
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (error || !notification) {
+    return (
+      <View className="flex-1" style={{ backgroundColor: colors.background }}>
+        <Header colors={colors} onBack={handleBack} />
+        <View className="flex-1 justify-center items-center px-6">
+          <View className="w-16 h-16 rounded-full items-center justify-center mb-4" style={{ backgroundColor: colors.danger + '20' }}>
+            <IconSymbol name="exclamationmark.triangle" size={32} color={colors.danger} />
+          </View>
+          <Text className="text-lg font-semibold text-center mb-2" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+            Data Tidak Ditemukan
+          </Text>
+          <Text className="text-sm text-center mb-6" style={{ fontFamily: 'Inter_400Regular', color: colors.textSecondary }}>
+            {error || 'Notifikasi tidak ditemukan.'}
+          </Text>
+          <Button title="Kembali" variant="primary" onPress={handleBack} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={handleBack} onDelete={handleDelete} />
+
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+        <View
+          className="rounded-lg border p-4 mb-4 shadow-sm"
+          style={{ backgroundColor: colors.card, borderColor: colors.border }}
+        >
+          <View className="flex-row items-center mb-3">
+            <View className="w-9 h-9 rounded-lg items-center justify-center mr-3" style={{ backgroundColor: colors.primary + '20' }}>
+              <IconSymbol name="bell.fill" size={18} color={colors.primary} />
+            </View>
+            <Text className="flex-1 text-lg font-semibold" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+              {notification.title}
+            </Text>
+          </View>
+          <Text className="text-xs mb-3" style={{ fontFamily: 'Inter_400Regular', color: colors.textSecondary }}>
+            {createdAt}
+          </Text>
+          <Text className="text-base" style={{ fontFamily: 'Inter_400Regular', color: colors.text }}>
+            {notification.message}
+          </Text>
+        </View>
+
+        {visitId ? (
+          <Button
+            title="Lihat Kunjungan"
+            variant="primary"
+            fullWidth
+            onPress={() => router.push(`/visit/view?id=${encodeURIComponent(String(visitId))}`)}
+          />
+        ) : null}
+        {outletId ? (
+          <View className="mt-3">
+            <Button
+              title="Lihat Outlet"
+              variant="outline"
+              fullWidth
+              onPress={() => router.push(`/outlet/${encodeURIComponent(String(outletId))}/view` as any)}
+            />
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+});
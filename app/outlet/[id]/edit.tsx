@@ -4,9 +4,14 @@ import { IconSymbol } from '@/components/ui/IconSymbol';
 import { Input } from '@/components/ui/Input';
 import { Colors } from '@/constants/Colors';
 import { useNetwork } from '@/context/network-context';
-import { useOutlet } from '@/hooks/data/useOutlet';
+import { outletUploadId, useOutlet } from '@/hooks/data/useOutlet';
+import { buildOutletChanges, useOutletHistory } from '@/hooks/data/useOutletHistory';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useUploadTransfer } from '@/hooks/utils/useUploadTransfer';
 import { useVideoCompressor } from '@/hooks/utils/useVideoCompressor';
+import { clearUploadTransfer, UploadFile } from '@/services/upload-manager';
+import { parseLatLong } from '@/utils/geo';
+import { describeGeofenceDistance, evaluateGeofence, MAX_GEOFENCE_ACCURACY } from '@/utils/geofence';
 import { log } from '@/utils/logger';
 import { Camera } from 'expo-camera';
 import Constants from 'expo-constants';
@@ -15,8 +20,8 @@ import * as ImageManipulator from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, Switch, Text, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 interface FormData {
@@ -37,6 +42,9 @@ interface FormErrors {
 
 type PhotoField = 'photo_shop_sign' | 'photo_front' | 'photo_left' | 'photo_right';
 
+// Media yang sudah tersimpan di server (bukan file lokal hasil kamera)
+const isRemoteUri = (uri: string) => /^https?:\/\//.test(uri);
+
 // Stepper Component
 const StepIndicator = React.memo(function StepIndicator({
   currentStep,
@@ -195,6 +203,8 @@ const useEditOutletForm = (outlet: any) => {
 };
 
 const useLocationManager = () => {
+  const [accuracy, setAccuracy] = useState<number | null>(null);
+
   const getCurrentLocation = useCallback(async () => {
     try {
       let { status } = await Location.requestForegroundPermissionsAsync();
@@ -206,6 +216,7 @@ const useLocationManager = () => {
         accuracy: Location.Accuracy.High,
       });
       if (loc && loc.coords) {
+        setAccuracy(loc.coords.accuracy ?? null);
         return `${loc.coords.latitude},${loc.coords.longitude}`;
       }
       return null;
@@ -216,7 +227,7 @@ const useLocationManager = () => {
     }
   }, []);
 
-  return { getCurrentLocation };
+  return { getCurrentLocation, accuracy };
 };
 
 const useMediaManager = () => {
@@ -472,15 +483,24 @@ export default React.memo(function OutletEditPage() {
   const colors = Colors[colorScheme ?? 'light'];
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { outlet, loading, error, fetchOutlet, updateOutlet, updateOutletWithFile } = useOutlet('');
+  const { outlet, loading, error, fetchOutlet, updateOutlet, uploadOutletFiles } = useOutlet();
+  const outletUpload = useUploadTransfer(outlet ? outletUploadId(outlet.id) : null);
+  // uri asli -> file hasil kompresi, dipakai ulang saat upload dicoba lagi
+  const processedUris = useRef<Record<string, UploadFile>>({});
+  const handleUpdateRef = useRef<() => Promise<void>>(async () => {});
   const { isConnected } = useNetwork();
+  const { loading: submittingReview, submitHistoryChanges } = useOutletHistory();
+
+  // Ajukan perubahan lewat history-change (review supervisor) alih-alih menimpa data outlet
+  const [submitForReview, setSubmitForReview] = useState(false);
+  const [reviewReason, setReviewReason] = useState('');
 
   // Stepper state
   const [currentStep, setCurrentStep] = useState(1);
   const totalSteps = 2;
 
   const { form, formErrors, handleChange, setForm, validateForm } = useEditOutletForm(outlet);
-  const { getCurrentLocation } = useLocationManager();
+  const { getCurrentLocation, accuracy: locationAccuracy } = useLocationManager();
   const { takePhoto, takeVideo } = useMediaManager();
 
   useEffect(() => {
@@ -527,6 +547,20 @@ export default React.memo(function OutletEditPage() {
   }, [currentStep]);
 
   // Validation for each step
+  // Koordinat baru dibandingkan dengan area outlet yang tersimpan
+  const locationCheck = useMemo(() => {
+    const position = parseLatLong(form.location);
+    if (!outlet || !position || form.location === outlet.location) return null;
+    const result = evaluateGeofence(outlet, { ...position, accuracy: locationAccuracy });
+    if (result.status === 'outside') {
+      return `Koordinat baru di luar area outlet saat ini (${describeGeofenceDistance(result)}). Pastikan Anda berada di outlet.`;
+    }
+    if (locationAccuracy !== null && locationAccuracy > MAX_GEOFENCE_ACCURACY) {
+      return `Akurasi GPS rendah (±${Math.round(locationAccuracy)} m). Tekan tombol lokasi untuk mencoba lagi.`;
+    }
+    return null;
+  }, [outlet, form.location, locationAccuracy]);
+
   const isStep1Valid = useMemo(() => {
     return form.owner_name.trim() !== '' && form.owner_phone.trim() !== '' && form.location.trim() !== '';
   }, [form.owner_name, form.owner_phone, form.location]);
@@ -544,8 +578,8 @@ export default React.memo(function OutletEditPage() {
     return isStep1Valid && isStep2Valid && form.location.trim() !== '';
   }, [isStep1Valid, isStep2Valid, form.location]);
 
-  const prepareFormData = useCallback(async () => {
-    console.log('=== PREPARE FORM DATA START ===');
+  const prepareUpload = useCallback(async (): Promise<{ fields: Record<string, string>; files: UploadFile[] } | null> => {
+    console.log('=== PREPARE UPLOAD START ===');
     
     // Validate required basic fields
     if (!form.location || !form.location.trim()) {
@@ -563,13 +597,14 @@ export default React.memo(function OutletEditPage() {
       return null;
     }
     
-    const formData = new FormData();
-    
-    // Add basic fields first
-    formData.append('code', form.code);
-    formData.append('location', form.location.trim());
-    formData.append('owner_name', form.owner_name.trim());
-    formData.append('owner_phone', form.owner_phone.trim());
+    // Field dikirim bersama setiap file; transfer manager mengunggah file lokal satu per satu di background
+    const fields: Record<string, string> = {
+      code: form.code,
+      location: form.location.trim(),
+      owner_name: form.owner_name.trim(),
+      owner_phone: form.owner_phone.trim(),
+    };
+    const files: UploadFile[] = [];
     
     console.log('Basic fields added:', {
       code: form.code,
@@ -581,6 +616,18 @@ export default React.memo(function OutletEditPage() {
     const processImage = async (uri: string, fieldName: string) => {
       if (!uri) return;
       console.log(`Processing image ${fieldName}:`, uri);
+
+      // Media lama dari server tidak perlu diunggah ulang
+      if (isRemoteUri(uri)) {
+        fields[fieldName] = uri;
+        return;
+      }
+
+      // Pakai hasil kompresi sebelumnya agar retry mengirim file yang sama
+      if (processedUris.current[uri]) {
+        files.push(processedUris.current[uri]);
+        return;
+      }
       
       let processedUri = uri;
       const name = uri.split('/').pop() || `${fieldName}.jpg`;
@@ -608,15 +655,10 @@ export default React.memo(function OutletEditPage() {
         // Use original if compression fails
       }
       
-      // Create file object with proper structure
-      const fileObj = {
-        uri: processedUri,
-        name,
-        type
-      };
-      
-      formData.append(fieldName, fileObj as any);
-      console.log(`Image ${fieldName} added to FormData`);
+      const file = { field: fieldName, uri: processedUri, name, type };
+      processedUris.current[uri] = file;
+      files.push(file);
+      console.log(`Image ${fieldName} added to upload`);
     };
 
     // Only process images that exist
@@ -625,7 +667,9 @@ export default React.memo(function OutletEditPage() {
     if (form.photo_left) await processImage(form.photo_left, 'photo_left');
     if (form.photo_right) await processImage(form.photo_right, 'photo_right');
 
-    if (form.video) {
+    if (form.video && isRemoteUri(form.video)) {
+      fields.video = form.video;
+    } else if (form.video) {
       console.log('Processing video:', form.video);
       const uri = form.video;
       // Force MP4 extension - works for both compressed (native) and original (Expo Go) videos
@@ -668,15 +712,8 @@ export default React.memo(function OutletEditPage() {
         
         console.log(`Video file valid: ${name}, size: ${info.size} bytes, type: ${type}`);
         
-        // Create file object with proper structure  
-        const videoObj = {
-          uri,
-          name,
-          type
-        };
-        
-        formData.append('video', videoObj as any);
-        console.log('Video added to FormData');
+        files.push({ field: 'video', uri, name, type });
+        console.log('Video added to upload');
       } catch (e) {
         console.error('Error checking video file:', e);
         Alert.alert('Error', 'Tidak dapat memvalidasi file video. Silakan coba lagi.');
@@ -684,8 +721,8 @@ export default React.memo(function OutletEditPage() {
       }
     }
 
-    console.log('=== FORM DATA PREPARED SUCCESSFULLY ===');
-    return formData;
+    console.log('=== UPLOAD PREPARED SUCCESSFULLY ===');
+    return { fields, files };
   }, [form]);
 
   const handleUpdate = useCallback(async () => {
@@ -715,74 +752,75 @@ export default React.memo(function OutletEditPage() {
     }
 
     try {
-      const hasFile = !!(form.photo_shop_sign || form.photo_front || form.photo_left || form.photo_right || form.video);
-      
-      console.log('Has file:', hasFile);
-      
-      if (hasFile) {
-        console.log('Preparing form data with files...');
-        const formData = await prepareFormData();
-        if (!formData) return;
-
-        console.log('Sending formData to API...');
-        log('[OUTLET][UPDATE][FORMDATA]', 'FormData with files');
-        const result = await updateOutletWithFile(outlet.id.toString(), formData);
-        log('[OUTLET][UPDATE][RESULT]', result);
-        
-        if (result.success) {
-          Alert.alert('Sukses', 'Outlet berhasil diperbarui!', [
-            { text: 'OK', onPress: () => router.back() }
-          ]);
-        } else {
-          log('[OUTLET][UPDATE][ERROR]', result.error);
-          // Handle specific error types
-          if (result.error && result.error.includes('Request timeout')) {
-            Alert.alert(
-              'Upload Timeout', 
-              'Upload video membutuhkan waktu terlalu lama. Coba:\n\n1. Pastikan koneksi internet stabil\n2. Rekam video lebih pendek (< 5 detik)\n3. Gunakan Wi-Fi jika memungkinkan', 
-              [{ text: 'OK' }]
-            );
-          } else if (result.error && result.error.includes('validation.uploaded') && result.error.includes('video')) {
-            Alert.alert('Error Video', 'File video tidak valid atau gagal di-upload. Silakan rekam ulang video.');
-          } else if (result.error && result.error.includes('Network request failed')) {
-            Alert.alert('Koneksi Bermasalah', 'Tidak dapat terhubung ke server. Periksa koneksi internet Anda.');
-          } else {
-            Alert.alert('Error', result.error || 'Gagal memperbarui outlet');
-          }
-        }
+      const upload = await prepareUpload();
+      if (!upload) return;
+
+      const outletId = outlet.id.toString();
+      log('[OUTLET][UPDATE][UPLOAD]', { fields: upload.fields, files: upload.files.map(file => file.field) });
+      // Tanpa file lokal baru cukup update biasa
+      const result = upload.files.length > 0
+        ? await uploadOutletFiles(outletId, upload.fields, upload.files)
+        : await updateOutlet(outletId, upload.fields);
+      log('[OUTLET][UPDATE][RESULT]', result);
+
+      if (result.success) {
+        processedUris.current = {};
+        clearUploadTransfer(outletUploadId(outletId));
+        Alert.alert('Sukses', 'Outlet berhasil diperbarui!', [
+          { text: 'OK', onPress: () => router.back() }
+        ]);
+        return;
+      }
+
+      log('[OUTLET][UPDATE][ERROR]', result.error);
+      if (result.error && result.error.includes('validation.uploaded') && result.error.includes('video')) {
+        Alert.alert('Error Video', 'File video tidak valid atau gagal di-upload. Silakan rekam ulang video.');
+      } else if (result.error && result.error.includes('Network request failed')) {
+        // File yang sudah terkirim tidak diunggah ulang saat dicoba lagi
+        Alert.alert('Koneksi Bermasalah', 'Upload terhenti. Periksa koneksi internet Anda lalu coba lagi.', [
+          { text: 'Batal', style: 'cancel' },
+          { text: 'Coba Lagi', onPress: () => handleUpdateRef.current() },
+        ]);
       } else {
-        console.log('Sending regular payload...');
-        const payload = {
-          code: form.code,
-          location: form.location,
-          owner_name: form.owner_name,
-          owner_phone: form.owner_phone,
-          photo_shop_sign: form.photo_shop_sign,
-          photo_front: form.photo_front,
-          photo_left: form.photo_left,
-          photo_right: form.photo_right,
-          video: form.video,
-        };
-        
-        console.log('Payload:', payload);
-        log('[OUTLET][UPDATE][PAYLOAD]', payload);
-        const result = await updateOutlet(outlet.id.toString(), payload);
-        log('[OUTLET][UPDATE][RESULT]', result);
-        
-        if (result.success) {
-          Alert.alert('Sukses', 'Outlet berhasil diperbarui!', [
-            { text: 'OK', onPress: () => router.back() }
-          ]);
-        } else {
-          log('[OUTLET][UPDATE][ERROR]', result.error);
-          Alert.alert('Error', result.error || 'Gagal memperbarui outlet');
-        }
+        Alert.alert('Error', result.error || 'Gagal memperbarui outlet');
       }
     } catch (error) {
       console.error('Update error:', error);
       Alert.alert('Error', 'Terjadi kesalahan saat memperbarui outlet');
     }
-  }, [outlet, isAllValid, form, prepareFormData, updateOutletWithFile, updateOutlet, router]);
+  }, [outlet, isAllValid, form, prepareUpload, uploadOutletFiles, updateOutlet, router]);
+  handleUpdateRef.current = handleUpdate;
+
+  const handleSubmitForReview = useCallback(async () => {
+    if (!outlet) {
+      Alert.alert('Error', 'Data outlet tidak ditemukan');
+      return;
+    }
+
+    const changes = buildOutletChanges(outlet, {
+      owner_name: form.owner_name,
+      owner_phone: form.owner_phone,
+      location: form.location,
+    }, reviewReason.trim() || undefined);
+
+    if (changes.length === 0) {
+      Alert.alert('Tidak Ada Perubahan', 'Data yang diisi sama dengan data outlet saat ini.');
+      return;
+    }
+
+    log('[OUTLET][HISTORY_CHANGE]', changes.map(c => c.field));
+    const result = await submitHistoryChanges(outlet.id, changes);
+
+    if (result.success) {
+      Alert.alert('Perubahan Diajukan', 'Perubahan outlet menunggu persetujuan supervisor.', [
+        { text: 'OK', onPress: () => router.back() }
+      ]);
+    } else {
+      // Sebagian field mungkin sudah terkirim sebelum error
+      const partial = result.data ? `\n\n${result.data} dari ${changes.length} perubahan sudah terkirim.` : '';
+      Alert.alert('Error', `${result.error || 'Gagal mengajukan perubahan'}${partial}`);
+    }
+  }, [outlet, form.owner_name, form.owner_phone, form.location, reviewReason, submitHistoryChanges, router]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -913,6 +951,42 @@ export default React.memo(function OutletEditPage() {
                     Tekan tombol lokasi untuk mengambil koordinat
                   </Text>
                 )}
+                {locationCheck && (
+                  <Text className="mt-1 text-xs text-warning-600" style={{ fontFamily: 'Inter' }}>
+                    {locationCheck}
+                  </Text>
+                )}
+              </View>
+
+              {/* Review Mode */}
+              <View className="p-3 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800">
+                <View className="flex-row items-center">
+                  <View className="flex-1 mr-3">
+                    <Text className="text-sm font-medium text-neutral-900 dark:text-neutral-100" style={{ fontFamily: 'Inter' }}>
+                      Ajukan untuk persetujuan
+                    </Text>
+                    <Text className="text-xs text-neutral-500 dark:text-neutral-400 mt-1" style={{ fontFamily: 'Inter' }}>
+                      Perubahan data dikirim ke supervisor tanpa menimpa data outlet. Media tidak ikut diajukan.
+                    </Text>
+                  </View>
+                  <Switch
+                    value={submitForReview}
+                    onValueChange={setSubmitForReview}
+                    trackColor={{ true: colors.primary }}
+                    accessibilityLabel="Ajukan untuk persetujuan"
+                  />
+                </View>
+                {submitForReview && (
+                  <View className="mt-3">
+                    <Input
+                      label="Alasan Perubahan (opsional)"
+                      placeholder="Contoh: pemilik outlet berganti"
+                      value={reviewReason}
+                      onChangeText={setReviewReason}
+                      maxLength={255}
+                    />
+                  </View>
+                )}
               </View>
             </View>
           )}
@@ -1004,7 +1078,19 @@ export default React.memo(function OutletEditPage() {
               </View>
             )}
             
-            {currentStep < totalSteps ? (
+            {submitForReview ? (
+              <View className="flex-1">
+                <Button
+                  title="Ajukan Perubahan"
+                  variant="primary"
+                  size="lg"
+                  fullWidth={true}
+                  loading={submittingReview}
+                  onPress={handleSubmitForReview}
+                  disabled={!isStep1Valid || submittingReview}
+                />
+              </View>
+            ) : currentStep < totalSteps ? (
               <View className="flex-1">
                 <Button
                   title="Selanjutnya"
@@ -1018,7 +1104,7 @@ export default React.memo(function OutletEditPage() {
             ) : (
               <View className="flex-1">
                 <Button
-                  title={loading ? 'Uploading... (Mohon Tunggu)' : 'Update Outlet'}
+                  title={loading ? `Uploading ${Math.round(outletUpload.progress * 100)}%` : 'Update Outlet'}
                   variant="primary"
                   size="lg"
                   fullWidth={true}
@@ -1026,7 +1112,11 @@ export default React.memo(function OutletEditPage() {
                   onPress={handleUpdate}
                   disabled={!isAllValid || loading}
                 />
-                {loading && (
+                {outletUpload.isUploading ? (
+                  <Text className="text-xs text-center mt-2 text-neutral-500 dark:text-neutral-400" style={{ fontFamily: 'Inter' }}>
+                    Mengunggah file {outletUpload.filesDone}/{outletUpload.filesTotal} · {Math.round(outletUpload.progress * 100)}%
+                  </Text>
+                ) : loading && (
                   <Text className="text-xs text-center mt-2 text-neutral-500 dark:text-neutral-400" style={{ fontFamily: 'Inter' }}>
                     🚀 Video sedang di-upload. Proses ini membutuhkan waktu...
                   </Text>
@@ -1,6 +1,6 @@
 // React & React Native
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Alert, FlatList, ScrollView, Text, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 // Third-party libraries
@@ -18,19 +18,24 @@ import { Colors } from '@/constants/Colors';
 // Hooks & contexts
 import { useNetwork } from '@/context/network-context';
 import { useOutlet } from '@/hooks/data/useOutlet';
+import { getOutletFieldLabel, OutletHistory, useOutletHistory } from '@/hooks/data/useOutletHistory';
+import { useOutletVisits } from '@/hooks/data/useOutletVisits';
+import type { Visit } from '@/hooks/data/useVisit';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
-import { usePermissionWithModal } from '@/hooks/utils/usePermission';
+import { usePermission, usePermissionWithModal } from '@/hooks/utils/usePermission';
+import { parseServerTime } from '@/services/location-integrity';
+import { formatDaysAgo, formatVisitDuration, formatVisitFrequency, getVisitDurationMinutes, VisitSummary } from '@/services/visit-stats';
 
 // Constants
 const BASE_URL_STORAGE = process.env.EXPO_PUBLIC_BASE_URL_STORAGE;
 
 // Types
-type ActiveTab = 'info' | 'location' | 'media';
+type ActiveTab = 'info' | 'location' | 'media' | 'visits' | 'history';
 type MediaImage = { label: string; uri: string };
 
 // Custom hooks for separation of concerns
 const useOutletView = (id: string | undefined) => {
-  const { outlet, loading, error, fetchOutlet } = useOutlet('');
+  const { outlet, loading, error, fetchOutlet } = useOutlet();
 
   useEffect(() => {
     if (id) fetchOutlet(id as string);
@@ -243,6 +248,8 @@ const TabNavigation = React.memo(function TabNavigation({
     { id: 'info' as ActiveTab, label: 'Info' },
     { id: 'location' as ActiveTab, label: 'Lokasi' },
     { id: 'media' as ActiveTab, label: 'Media' },
+    { id: 'visits' as ActiveTab, label: 'Kunjungan' },
+    { id: 'history' as ActiveTab, label: 'Riwayat' },
   ], []);
 
   const borderBottomStyle = useMemo(() => ({ 
@@ -409,6 +416,272 @@ const MediaSection = React.memo(function MediaSection({
   );
 });
 
+const HISTORY_STATUS_LABEL: Record<string, string> = {
+  pending: 'Menunggu',
+  approved: 'Disetujui',
+  rejected: 'Ditolak',
+};
+
+const getHistoryStatusColor = (status: string | undefined, colors: any) => {
+  switch (status) {
+    case 'approved':
+      return colors.success;
+    case 'rejected':
+      return colors.danger;
+    case 'pending':
+      return colors.warning;
+    default:
+      return colors.textSecondary;
+  }
+};
+
+const HistoryItem = React.memo(function HistoryItem({ 
+  history, 
+  colors 
+}: { 
+  history: OutletHistory; 
+  colors: any; 
+}) {
+  const changedAt = useMemo(() => {
+    const date = new Date(history.changed_at);
+    return isNaN(date.getTime())
+      ? history.changed_at
+      : date.toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  }, [history.changed_at]);
+
+  return (
+    <View className="py-3 border-b" style={{ borderBottomColor: colors.border + '40' }}>
+      <View className="flex-row justify-between items-center mb-1">
+        <Text className="text-sm font-semibold flex-1" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+          {getOutletFieldLabel(history.field)}
+        </Text>
+        {history.status && (
+          <StatusBadge 
+            status={HISTORY_STATUS_LABEL[history.status] || history.status} 
+            color={getHistoryStatusColor(history.status, colors)} 
+          />
+        )}
+      </View>
+      <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+        {history.old_value ?? '-'} → <Text style={{ color: colors.text }}>{history.new_value ?? '-'}</Text>
+      </Text>
+      <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+        {history.user?.name || history.changed_by} • {changedAt}
+      </Text>
+      {history.reason ? (
+        <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          Alasan: {history.reason}
+        </Text>
+      ) : null}
+    </View>
+  );
+});
+
+const HistorySection = React.memo(function HistorySection({ 
+  outletId, 
+  colors,
+  onReviewPending 
+}: { 
+  outletId: string; 
+  colors: any;
+  onReviewPending?: () => void;
+}) {
+  const { histories, loading, error, fetchOutletHistory } = useOutletHistory();
+
+  useEffect(() => {
+    fetchOutletHistory(outletId);
+  }, [outletId, fetchOutletHistory]);
+
+  const hasPending = useMemo(() => histories.some(h => h.status === 'pending'), [histories]);
+
+  if (loading) {
+    return (
+      <View className="items-center py-8">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {hasPending && onReviewPending && (
+        <View className="mb-4">
+          <Button title="Tinjau Perubahan Tertunda" variant="outline" fullWidth onPress={onReviewPending} />
+        </View>
+      )}
+      <InfoCard title="Riwayat Perubahan" colors={colors}>
+        {histories.length > 0 ? (
+          histories.map(history => (
+            <HistoryItem key={String(history.id)} history={history} colors={colors} />
+          ))
+        ) : (
+          <Text style={{ fontFamily: 'Inter', color: colors.textSecondary }} className="text-sm">
+            {error || 'Belum ada riwayat perubahan.'}
+          </Text>
+        )}
+      </InfoCard>
+    </View>
+  );
+});
+
+const formatVisitTime = (value: string | null) => {
+  const time = parseServerTime(value);
+  return time !== null ? new Date(time).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' }) : '-';
+};
+
+const VisitStatsCard = React.memo(function VisitStatsCard({ 
+  summary, 
+  colors 
+}: { 
+  summary: VisitSummary | null; 
+  colors: any; 
+}) {
+  const stats = useMemo(() => [
+    { label: 'Kunjungan Terakhir', value: formatDaysAgo(summary?.lastVisitAt ?? null) },
+    { label: 'Frekuensi', value: formatVisitFrequency(summary?.visitsPerMonth ?? null) },
+    { label: 'Konversi Transaksi', value: summary?.conversionRate != null ? `${Math.round(summary.conversionRate)}%` : '-' },
+    { label: 'Rata-rata Durasi', value: formatVisitDuration(summary?.averageDurationMinutes ?? null) },
+  ], [summary]);
+
+  return (
+    <InfoCard title={`Ringkasan Kunjungan${summary ? ` (${summary.total})` : ''}`} colors={colors}>
+      <View className="flex-row flex-wrap -mx-1">
+        {stats.map(stat => (
+          <View key={stat.label} className="w-1/2 px-1 mb-2">
+            <View className="rounded-lg p-3" style={{ backgroundColor: colors.primary + '10' }}>
+              <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+                {stat.label}
+              </Text>
+              <Text className="text-base font-semibold mt-1" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+                {stat.value}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    </InfoCard>
+  );
+});
+
+const OutletVisitItem = React.memo(function OutletVisitItem({ 
+  visit, 
+  colors, 
+  onPress 
+}: { 
+  visit: Visit; 
+  colors: any; 
+  onPress: (visit: Visit) => void; 
+}) {
+  const visitDate = useMemo(() => {
+    const time = parseServerTime(visit.visit_date);
+    return time !== null
+      ? new Date(time).toLocaleDateString('id-ID', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })
+      : visit.visit_date;
+  }, [visit.visit_date]);
+
+  const outcome = useMemo(() => {
+    if (visit.auto_closed_at && !visit.checkout_time) return { label: 'Ditutup Otomatis', color: colors.warning };
+    if (!visit.checkout_time) return { label: 'Berlangsung', color: colors.info };
+    return visit.transaction === 'YES'
+      ? { label: 'Transaksi', color: colors.success }
+      : { label: 'Tanpa Transaksi', color: colors.textSecondary };
+  }, [visit.auto_closed_at, visit.checkout_time, visit.transaction, colors]);
+
+  return (
+    <TouchableOpacity
+      className="flex-row py-3 border-b"
+      style={{ borderBottomColor: colors.border + '40' }}
+      onPress={() => onPress(visit)}
+      accessibilityRole="button"
+      accessibilityLabel={`Kunjungan ${visitDate} oleh ${visit.user?.name ?? '-'}`}
+    >
+      <View className="items-center mr-3 pt-1">
+        <View className="w-3 h-3 rounded-full" style={{ backgroundColor: outcome.color }} />
+      </View>
+      <View className="flex-1">
+        <View className="flex-row justify-between items-center">
+          <Text className="text-base flex-1" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+            {visitDate}
+          </Text>
+          <StatusBadge status={outcome.label} color={outcome.color} />
+        </View>
+        <Text className="text-sm mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          {visit.user?.name ?? '-'} • {visit.type}
+        </Text>
+        <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          {formatVisitTime(visit.checkin_time)} – {formatVisitTime(visit.checkout_time)} • {formatVisitDuration(getVisitDurationMinutes(visit))}
+        </Text>
+      </View>
+      <View className="justify-center ml-2">
+        <IconSymbol name="chevron.right" size={16} color={colors.textSecondary} />
+      </View>
+    </TouchableOpacity>
+  );
+});
+
+// FlatList sendiri (bukan di dalam ScrollView halaman) agar bisa infinite scroll
+const OutletVisitsSection = React.memo(function OutletVisitsSection({ 
+  outletId, 
+  colors,
+  onOpenVisit 
+}: { 
+  outletId: string; 
+  colors: any;
+  onOpenVisit: (visit: Visit) => void;
+}) {
+  const { visits, meta, summary, loading, error, fetchPage, fetchSummary } = useOutletVisits(outletId);
+  const [page, setPage] = useState(1);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    setPage(1);
+    fetchPage(1);
+    fetchSummary();
+  }, [fetchPage, fetchSummary]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    setPage(1);
+    await Promise.all([fetchPage(1), fetchSummary()]);
+    setRefreshing(false);
+  }, [fetchPage, fetchSummary]);
+
+  const handleEndReached = useCallback(() => {
+    if (loading || !meta || page >= meta.last_page) return;
+    setPage(page + 1);
+    fetchPage(page + 1);
+  }, [loading, meta, page, fetchPage]);
+
+  return (
+    <FlatList
+      data={visits}
+      keyExtractor={item => String(item.id)}
+      showsVerticalScrollIndicator={false}
+      onRefresh={handleRefresh}
+      refreshing={refreshing}
+      onEndReached={handleEndReached}
+      onEndReachedThreshold={0.3}
+      contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+      ListHeaderComponent={<VisitStatsCard summary={summary} colors={colors} />}
+      renderItem={({ item }) => <OutletVisitItem visit={item} colors={colors} onPress={onOpenVisit} />}
+      ListFooterComponent={
+        loading && page > 1 ? <ActivityIndicator className="py-4" color={colors.primary} /> : null
+      }
+      ListEmptyComponent={
+        loading ? (
+          <View className="items-center py-8">
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <Text style={{ fontFamily: 'Inter', color: colors.textSecondary }} className="text-sm text-center py-8">
+            {error || 'Belum ada kunjungan ke outlet ini.'}
+          </Text>
+        )
+      }
+    />
+  );
+});
+
 export default React.memo(function OutletViewPage() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
@@ -416,6 +689,7 @@ export default React.memo(function OutletViewPage() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const [activeTab, setActiveTab] = useState<ActiveTab>('info');
   const { isConnected } = useNetwork();
+  const canApproveChanges = usePermission('approve_outlet_history');
 
   // Permission modal hook
   const {
@@ -456,6 +730,14 @@ export default React.memo(function OutletViewPage() {
     router.push(`/outlet/${outlet?.id}/edit`);
   }, [router, outlet?.id, requestLocationWithModal, requestCameraWithModal]);
 
+  const handleReviewPending = useCallback(() => {
+    router.push('/outlet/pending');
+  }, [router]);
+
+  const handleOpenVisit = useCallback((visit: Visit) => {
+    router.push({ pathname: '/visit/view', params: { id: String(visit.id) } });
+  }, [router]);
+
   const handleTabChange = useCallback((tab: ActiveTab) => {
     setActiveTab(tab);
   }, []);
@@ -502,6 +784,9 @@ export default React.memo(function OutletViewPage() {
         colors={colors}
       />
 
+      {activeTab === 'visits' ? (
+        <OutletVisitsSection outletId={String(outlet!.id)} colors={colors} onOpenVisit={handleOpenVisit} />
+      ) : (
       <ScrollView 
         className="flex-1 px-4"
         showsVerticalScrollIndicator={false}
@@ -597,8 +882,17 @@ export default React.memo(function OutletViewPage() {
               </View>
             </View>
           )}
+
+          {activeTab === 'history' && (
+            <HistorySection
+              outletId={String(outlet!.id)}
+              colors={colors}
+              onReviewPending={canApproveChanges ? handleReviewPending : undefined}
+            />
+          )}
         </View>
       </ScrollView>
+      )}
     </View>
   );
 });
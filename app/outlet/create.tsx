@@ -309,7 +309,7 @@ export default React.memo(function RegisterOutletScreen() {
   } = useCurrentLocation();
   
   // Outlet hook untuk API calls
-  const { createOutlet } = useOutlet('');
+  const { createOutlet } = useOutlet();
   
   // Fetch dynamic form structure
   const { data: sections, loading, error } = useOutletLevelFields(activeTab);
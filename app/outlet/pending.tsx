@@ -0,0 +1,419 @@
+// React & React Native
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Modal, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// Third-party libraries
+import { useRouter } from 'expo-router';
+
+// Local components
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Input } from '@/components/ui/Input';
+
+// Constants & utilities
+import { Colors } from '@/constants/Colors';
+
+// Hooks & contexts
+import { OutletAPI } from '@/hooks/data/useOutlet';
+import {
+  getOutletFieldLabel,
+  getOutletFieldValue,
+  OutletHistory,
+  ProcessHistoryAction,
+  useOutletHistory,
+} from '@/hooks/data/useOutletHistory';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { usePermission } from '@/hooks/utils/usePermission';
+
+// Types
+type OutletChangeGroup = {
+  outletId: string;
+  outlet?: OutletHistory['outlet'];
+  changes: OutletHistory[];
+};
+
+const formatValue = (value: any) => (value === null || value === undefined || value === '' ? '-' : String(value));
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return '-';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+// Kelompokkan perubahan per outlet, urutan sesuai data dari server
+const groupByOutlet = (histories: OutletHistory[]): OutletChangeGroup[] => {
+  const groups = new Map<string, OutletChangeGroup>();
+  histories.forEach(history => {
+    const key = String(history.outlet_id);
+    if (!groups.has(key)) {
+      groups.set(key, { outletId: key, outlet: history.outlet, changes: [] });
+    }
+    groups.get(key)!.changes.push(history);
+  });
+  return Array.from(groups.values());
+};
+
+const Header = React.memo(function Header({
+  colors,
+  onBack,
+}: {
+  colors: any;
+  onBack: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+
+  const headerStyle = useMemo(() => ({
+    paddingTop: insets.top + 12,
+    backgroundColor: colors.primary
+  }), [insets.top, colors.primary]);
+
+  return (
+    <View className="px-4 pb-4" style={headerStyle}>
+      <View className="flex-row justify-between items-center">
+        <TouchableOpacity
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Perubahan Tertunda
+          </Text>
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const DiffRow = React.memo(function DiffRow({
+  change,
+  currentOutlet,
+  colors,
+  processing,
+  onProcess,
+}: {
+  change: OutletHistory;
+  currentOutlet?: OutletAPI;
+  colors: any;
+  processing: boolean;
+  onProcess: (change: OutletHistory, action: ProcessHistoryAction) => void;
+}) {
+  // Bandingkan dengan data outlet terkini; fallback ke old_value jika outlet belum termuat
+  const currentValue = currentOutlet ? getOutletFieldValue(currentOutlet, change.field) : formatValue(change.old_value);
+  const isStale = !!currentOutlet && formatValue(change.old_value) !== formatValue(currentValue);
+
+  return (
+    <View className="py-3 border-t border-neutral-200 dark:border-neutral-700">
+      <Text className="text-sm font-semibold mb-2" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+        {getOutletFieldLabel(change.field)}
+      </Text>
+      <View className="flex-row gap-2">
+        <View className="flex-1 rounded-md p-2 bg-danger-50">
+          <Text className="text-xs mb-1 text-neutral-500" style={{ fontFamily: 'Inter' }}>Saat ini</Text>
+          <Text className="text-sm text-danger-600" style={{ fontFamily: 'Inter_500Medium' }}>
+            {formatValue(currentValue)}
+          </Text>
+        </View>
+        <View className="flex-1 rounded-md p-2 bg-success-50">
+          <Text className="text-xs mb-1 text-neutral-500" style={{ fontFamily: 'Inter' }}>Diajukan</Text>
+          <Text className="text-sm text-success-700" style={{ fontFamily: 'Inter_500Medium' }}>
+            {formatValue(change.new_value)}
+          </Text>
+        </View>
+      </View>
+      {isStale && (
+        <Text className="text-xs mt-1 text-warning-600" style={{ fontFamily: 'Inter' }}>
+          Data outlet sudah berubah sejak diajukan (sebelumnya: {formatValue(change.old_value)})
+        </Text>
+      )}
+      {change.reason ? (
+        <Text className="text-xs mt-1 text-neutral-500" style={{ fontFamily: 'Inter' }}>
+          Alasan: {change.reason}
+        </Text>
+      ) : null}
+      <View className="flex-row gap-2 mt-2">
+        <View className="flex-1">
+          <Button title="Tolak" variant="outline" size="sm" fullWidth disabled={processing} onPress={() => onProcess(change, 'reject')} />
+        </View>
+        <View className="flex-1">
+          <Button title="Setujui" variant="primary" size="sm" fullWidth disabled={processing} onPress={() => onProcess(change, 'approve')} />
+        </View>
+      </View>
+    </View>
+  );
+});
+
+const ChangeGroupCard = React.memo(function ChangeGroupCard({
+  group,
+  currentOutlet,
+  colors,
+  processingIds,
+  onProcess,
+  onApproveAll,
+}: {
+  group: OutletChangeGroup;
+  currentOutlet?: OutletAPI;
+  colors: any;
+  processingIds: string[];
+  onProcess: (change: OutletHistory, action: ProcessHistoryAction) => void;
+  onApproveAll: (group: OutletChangeGroup) => void;
+}) {
+  const submitter = group.changes[0]?.user?.name || String(group.changes[0]?.changed_by ?? '-');
+
+  return (
+    <Card className="mb-4 p-4">
+      <View className="flex-row justify-between items-start mb-2">
+        <View className="flex-1 mr-3">
+          <Text className="text-base font-semibold" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }} numberOfLines={1}>
+            {group.outlet?.name || currentOutlet?.name || `Outlet #${group.outletId}`}
+          </Text>
+          <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            {group.outlet?.code || currentOutlet?.code || '-'} • oleh {submitter} • {formatDate(group.changes[0]?.changed_at)}
+          </Text>
+        </View>
+        {group.changes.length > 1 && (
+          <TouchableOpacity
+            onPress={() => onApproveAll(group)}
+            accessibilityRole="button"
+            accessibilityLabel="Setujui semua perubahan outlet ini"
+          >
+            <Text className="text-sm font-medium text-primary-500" style={{ fontFamily: 'Inter' }}>
+              Setujui semua
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {group.changes.map(change => (
+        <DiffRow
+          key={String(change.id)}
+          change={change}
+          currentOutlet={currentOutlet}
+          colors={colors}
+          processing={processingIds.includes(String(change.id))}
+          onProcess={onProcess}
+        />
+      ))}
+    </Card>
+  );
+});
+
+const RejectReasonModal = React.memo(function RejectReasonModal({
+  visible,
+  onCancel,
+  onSubmit,
+}: {
+  visible: boolean;
+  onCancel: () => void;
+  onSubmit: (reason: string) => void;
+}) {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!visible) setReason('');
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View className="flex-1 justify-center px-6" style={{ backgroundColor: 'rgba(0,0,0,0.4)' }}>
+        <View className="bg-white dark:bg-neutral-900 rounded-xl p-4">
+          <Text className="text-lg font-semibold mb-3 text-neutral-900 dark:text-neutral-100" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Tolak Perubahan
+          </Text>
+          <Input
+            label="Alasan (opsional)"
+            placeholder="Contoh: nomor telepon tidak valid"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+            maxLength={255}
+          />
+          <View className="flex-row gap-2 mt-4">
+            <View className="flex-1">
+              <Button title="Batal" variant="secondary" fullWidth onPress={onCancel} />
+            </View>
+            <View className="flex-1">
+              <Button title="Tolak" variant="danger" fullWidth onPress={() => onSubmit(reason.trim())} />
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+});
+
+export default React.memo(function PendingOutletChangesPage() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const router = useRouter();
+  const canApprove = usePermission('approve_outlet_history');
+  const { pendingHistories, meta, loading, error, fetchPendingHistories, processHistory, fetchCurrentOutlet } = useOutletHistory();
+
+  const [page, setPage] = useState(1);
+  const [refreshing, setRefreshing] = useState(false);
+  const [currentOutlets, setCurrentOutlets] = useState<Record<string, OutletAPI>>({});
+  const [processingIds, setProcessingIds] = useState<string[]>([]);
+  const [rejecting, setRejecting] = useState<OutletHistory | null>(null);
+  const requestedOutletIds = useRef(new Set<string>());
+
+  const groups = useMemo(() => groupByOutlet(pendingHistories), [pendingHistories]);
+
+  const loadPage = useCallback((newPage: number) => {
+    setPage(newPage);
+    return fetchPendingHistories({ page: newPage });
+  }, [fetchPendingHistories]);
+
+  useEffect(() => {
+    if (canApprove) loadPage(1);
+  }, [canApprove, loadPage]);
+
+  // Muat data outlet terkini sekali untuk setiap outlet di daftar
+  useEffect(() => {
+    const missing = groups.map(g => g.outletId).filter(outletId => !requestedOutletIds.current.has(outletId));
+    if (missing.length === 0) return;
+    missing.forEach(outletId => requestedOutletIds.current.add(outletId));
+
+    Promise.all(missing.map(outletId => fetchCurrentOutlet(outletId).then(res => [outletId, res] as const)))
+      .then(results => {
+        setCurrentOutlets(prev => {
+          const next = { ...prev };
+          results.forEach(([outletId, res]) => {
+            if (res.success && res.data) next[outletId] = res.data;
+          });
+          return next;
+        });
+      });
+  }, [groups, fetchCurrentOutlet]);
+
+  const forgetOutlets = useCallback((outletIds: string[]) => {
+    outletIds.forEach(outletId => requestedOutletIds.current.delete(outletId));
+    setCurrentOutlets(prev => Object.fromEntries(Object.entries(prev).filter(([outletId]) => !outletIds.includes(outletId))));
+  }, []);
+
+  const handleGoBack = useCallback(() => router.back(), [router]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    forgetOutlets(Object.keys(currentOutlets));
+    await loadPage(1);
+    setRefreshing(false);
+  }, [forgetOutlets, currentOutlets, loadPage]);
+
+  const handleEndReached = useCallback(() => {
+    if (loading || !meta || page >= meta.last_page) return;
+    loadPage(page + 1);
+  }, [loading, meta, page, loadPage]);
+
+  const runProcess = useCallback(async (changes: OutletHistory[], action: ProcessHistoryAction, reason?: string) => {
+    const ids = changes.map(c => String(c.id));
+    setProcessingIds(prev => [...prev, ...ids]);
+    const failures: string[] = [];
+    for (const change of changes) {
+      const result = await processHistory(change.id, action, reason);
+      if (!result.success) failures.push(`${getOutletFieldLabel(change.field)}: ${result.error}`);
+    }
+    setProcessingIds(prev => prev.filter(id => !ids.includes(id)));
+
+    // Data outlet berubah setelah approve, muat ulang untuk perubahan yang tersisa
+    if (action === 'approve') {
+      forgetOutlets(Array.from(new Set(changes.map(c => String(c.outlet_id)))));
+    }
+
+    if (failures.length > 0) {
+      Alert.alert('Gagal', failures.join('\n'));
+    }
+  }, [processHistory, forgetOutlets]);
+
+  const handleProcess = useCallback((change: OutletHistory, action: ProcessHistoryAction) => {
+    if (action === 'reject') {
+      setRejecting(change);
+      return;
+    }
+    runProcess([change], 'approve');
+  }, [runProcess]);
+
+  const handleApproveAll = useCallback((group: OutletChangeGroup) => {
+    Alert.alert(
+      'Setujui Semua',
+      `Setujui ${group.changes.length} perubahan untuk ${group.outlet?.name || 'outlet ini'}?`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        { text: 'Setujui', onPress: () => runProcess(group.changes, 'approve') },
+      ]
+    );
+  }, [runProcess]);
+
+  const handleRejectSubmit = useCallback((reason: string) => {
+    const change = rejecting;
+    setRejecting(null);
+    if (change) runProcess([change], 'reject', reason || undefined);
+  }, [rejecting, runProcess]);
+
+  if (!canApprove) {
+    return (
+      <View className="flex-1" style={{ backgroundColor: colors.background }}>
+        <Header colors={colors} onBack={handleGoBack} />
+        <View className="flex-1 justify-center items-center px-6">
+          <IconSymbol name="lock.fill" size={40} color={colors.textSecondary} />
+          <Text className="text-base text-center mt-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            Anda tidak memiliki akses untuk meninjau perubahan outlet.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={handleGoBack} />
+
+      <FlatList
+        data={groups}
+        keyExtractor={(item) => item.outletId}
+        showsVerticalScrollIndicator={false}
+        onRefresh={handleRefresh}
+        refreshing={refreshing}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.3}
+        renderItem={({ item }) => (
+          <ChangeGroupCard
+            group={item}
+            currentOutlet={currentOutlets[item.outletId]}
+            colors={colors}
+            processingIds={processingIds}
+            onProcess={handleProcess}
+            onApproveAll={handleApproveAll}
+          />
+        )}
+        contentContainerStyle={{ padding: 16, paddingBottom: 48 }}
+        ListFooterComponent={loading && page > 1 ? <ActivityIndicator color={colors.primary} /> : null}
+        ListEmptyComponent={
+          loading ? (
+            <View className="items-center py-8">
+              <ActivityIndicator size="large" color={colors.primary} />
+            </View>
+          ) : (
+            <View className="items-center py-12">
+              <IconSymbol name="checkmark.seal.fill" size={40} color={colors.primary} />
+              <Text className="text-base text-center mt-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+                {error || 'Tidak ada perubahan outlet yang menunggu persetujuan.'}
+              </Text>
+            </View>
+          )
+        }
+      />
+
+      <RejectReasonModal
+        visible={!!rejecting}
+        onCancel={() => setRejecting(null)}
+        onSubmit={handleRejectSubmit}
+      />
+    </View>
+  );
+});
@@ -0,0 +1,456 @@
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, Text, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector, ScrollView } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue } from 'react-native-reanimated';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { usePlanCalendar } from '@/hooks/data/usePlanCalendar';
+import type { PlanVisit } from '@/hooks/data/usePlanVisit';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import {
+  addDays,
+  checkPlanDate,
+  DAILY_PLAN_LIMIT,
+  getDayWarnings,
+  groupPlansByDate,
+  monthGrid,
+  parseDateKey,
+  PlanDayWarning,
+  toDateKey,
+  WEEKDAY_SHORT_LABELS,
+  weekDates,
+} from '@/services/plan-schedule';
+
+type CalendarMode = 'week' | 'month';
+type ZoneRect = { date: string; x: number; y: number; width: number; height: number };
+
+// Urutan kolom Senin..Minggu
+const WEEK_HEADER = [1, 2, 3, 4, 5, 6, 0].map(day => WEEKDAY_SHORT_LABELS[day]);
+
+const formatDayLabel = (key: string) =>
+  parseDateKey(key).toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'short' });
+
+const Header = React.memo(function Header({ colors, onBack, onTemplates }: {
+  colors: any;
+  onBack: () => void;
+  onTemplates: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Kalender Plan
+          </Text>
+        </View>
+        <Pressable
+          onPress={onTemplates}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Jadwal berulang"
+        >
+          <IconSymbol name="repeat" size={22} color="#fff" />
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+const ModeToggle = React.memo(function ModeToggle({ mode, onChange, colors }: {
+  mode: CalendarMode;
+  onChange: (mode: CalendarMode) => void;
+  colors: any;
+}) {
+  return (
+    <View className="flex-row rounded-lg p-1 mb-3" style={{ backgroundColor: colors.border + '60' }}>
+      {([['week', 'Minggu'], ['month', 'Bulan']] as [CalendarMode, string][]).map(([value, label]) => (
+        <TouchableOpacity
+          key={value}
+          onPress={() => onChange(value)}
+          className="flex-1 py-2 rounded-md"
+          style={{ backgroundColor: mode === value ? colors.card : 'transparent' }}
+          accessibilityRole="button"
+          accessibilityState={{ selected: mode === value }}
+        >
+          <Text className="text-center text-sm" style={{ fontFamily: 'Inter_600SemiBold', color: mode === value ? colors.text : colors.textSecondary }}>
+            {label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+});
+
+const PeriodNavigator = React.memo(function PeriodNavigator({ label, onPrev, onNext, onToday, colors }: {
+  label: string;
+  onPrev: () => void;
+  onNext: () => void;
+  onToday: () => void;
+  colors: any;
+}) {
+  return (
+    <View className="flex-row items-center mb-2">
+      <TouchableOpacity onPress={onPrev} className="p-2" accessibilityRole="button" accessibilityLabel="Sebelumnya">
+        <IconSymbol name="chevron.left" size={20} color={colors.primary} />
+      </TouchableOpacity>
+      <Text className="flex-1 text-center text-base" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+        {label}
+      </Text>
+      <TouchableOpacity onPress={onNext} className="p-2" accessibilityRole="button" accessibilityLabel="Berikutnya">
+        <IconSymbol name="chevron.right" size={20} color={colors.primary} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onToday} className="ml-1 px-3 py-1 rounded-md border" style={{ borderColor: colors.primary }} accessibilityRole="button">
+        <Text className="text-sm" style={{ fontFamily: 'Inter_500Medium', color: colors.primary }}>Hari ini</Text>
+      </TouchableOpacity>
+    </View>
+  );
+});
+
+const DayWarningText = React.memo(function DayWarningText({ warning, colors }: { warning?: PlanDayWarning; colors: any }) {
+  if (!warning || (!warning.overloaded && warning.duplicates.length === 0)) return null;
+  return (
+    <View className="mt-1">
+      {warning.overloaded && (
+        <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.danger }}>
+          Overload: {warning.count} plan (batas {DAILY_PLAN_LIMIT}/hari)
+        </Text>
+      )}
+      {warning.duplicates.length > 0 && (
+        <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.warning }}>
+          Bentrok: {warning.duplicates.join(', ')} dijadwalkan lebih dari sekali
+        </Text>
+      )}
+    </View>
+  );
+});
+
+// Tekan lama lalu geser; posisi jari diteruskan ke layar untuk ghost dan drop
+const DraggablePlanChip = React.memo(function DraggablePlanChip({ plan, draggable, dimmed, colors, onDragStart, onDragMove, onDrop, onDragCancel }: {
+  plan: PlanVisit;
+  draggable: boolean;
+  dimmed: boolean;
+  colors: any;
+  onDragStart: (plan: PlanVisit, x: number, y: number) => void;
+  onDragMove: (x: number, y: number) => void;
+  onDrop: (plan: PlanVisit, x: number, y: number) => void;
+  onDragCancel: () => void;
+}) {
+  const gesture = useMemo(() => Gesture.Pan()
+    .runOnJS(true)
+    .enabled(draggable)
+    .activateAfterLongPress(250)
+    .onStart(event => onDragStart(plan, event.absoluteX, event.absoluteY))
+    .onUpdate(event => onDragMove(event.absoluteX, event.absoluteY))
+    .onEnd(event => onDrop(plan, event.absoluteX, event.absoluteY))
+    .onFinalize((_, success) => {
+      if (!success) onDragCancel();
+    }), [plan, draggable, onDragStart, onDragMove, onDrop, onDragCancel]);
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View
+        className="px-3 py-2 rounded-lg mr-2 mb-2 border"
+        style={{ backgroundColor: colors.card, borderColor: draggable ? colors.primary + '60' : colors.border, opacity: dimmed ? 0.3 : 1 }}
+        accessibilityLabel={`${plan.outlet.name}${draggable ? ', tekan lama untuk memindahkan' : ''}`}
+      >
+        <Text className="text-sm" style={{ fontFamily: 'Inter_500Medium', color: colors.text }} numberOfLines={1}>
+          {plan.outlet.name}
+        </Text>
+        <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          {plan.outlet.code}
+        </Text>
+      </View>
+    </GestureDetector>
+  );
+});
+
+/**
+ * Kalender plan visit mingguan/bulanan. Plan dipindah tanggal dengan tekan lama lalu
+ * geser ke hari lain (PUT /plan-visits/:id), dengan peringatan bentrok dan overload per hari.
+ */
+export default React.memo(function PlanCalendarScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const today = useMemo(() => toDateKey(new Date()), []);
+
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [anchor, setAnchor] = useState(today);
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [dragging, setDragging] = useState<PlanVisit | null>(null);
+
+  const { plans, loading, error, fetchRange, reschedule } = usePlanCalendar();
+
+  const dates = useMemo(() => {
+    if (mode === 'week') return weekDates(anchor);
+    const date = parseDateKey(anchor);
+    return monthGrid(date.getFullYear(), date.getMonth());
+  }, [mode, anchor]);
+
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchRange(from, to);
+    }, [fetchRange, from, to])
+  );
+
+  const grouped = useMemo(() => groupPlansByDate(plans), [plans]);
+  const warnings = useMemo(() => getDayWarnings(plans), [plans]);
+
+  const periodLabel = useMemo(() => {
+    if (mode === 'month') return parseDateKey(anchor).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+    const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short' };
+    return `${parseDateKey(from).toLocaleDateString('id-ID', options)} – ${parseDateKey(to).toLocaleDateString('id-ID', { ...options, year: 'numeric' })}`;
+  }, [mode, anchor, from, to]);
+
+  const handleShift = useCallback((direction: -1 | 1) => {
+    if (mode === 'week') {
+      setAnchor(prev => addDays(prev, direction * 7));
+      return;
+    }
+    const date = parseDateKey(anchor);
+    setAnchor(toDateKey(new Date(date.getFullYear(), date.getMonth() + direction, 1)));
+  }, [mode, anchor]);
+
+  const handleToday = useCallback(() => {
+    setAnchor(today);
+    setSelectedDate(today);
+  }, [today]);
+
+  // ---- Drag & drop ----
+  const rootRef = useRef<View>(null);
+  const zonesRef = useRef(new Map<string, View | null>());
+  const rectsRef = useRef<ZoneRect[]>([]);
+  const rootOffset = useSharedValue({ x: 0, y: 0 });
+  const dragX = useSharedValue(0);
+  const dragY = useSharedValue(0);
+
+  const ghostStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: dragX.value - rootOffset.value.x - 80 },
+      { translateY: dragY.value - rootOffset.value.y - 24 },
+    ],
+  }));
+
+  const registerZone = useCallback((date: string) => (view: View | null) => {
+    zonesRef.current.set(date, view);
+  }, []);
+
+  const handleDragStart = useCallback((plan: PlanVisit, x: number, y: number) => {
+    dragX.value = x;
+    dragY.value = y;
+    setDragging(plan);
+    rootRef.current?.measureInWindow((rootX, rootY) => {
+      rootOffset.value = { x: rootX, y: rootY };
+    });
+    // Posisi zona diukur saat drag mulai (setelah scroll terakhir)
+    rectsRef.current = [];
+    zonesRef.current.forEach((view, date) => {
+      view?.measureInWindow((zoneX, zoneY, width, height) => {
+        rectsRef.current.push({ date, x: zoneX, y: zoneY, width, height });
+      });
+    });
+  }, [dragX, dragY, rootOffset]);
+
+  const handleDragMove = useCallback((x: number, y: number) => {
+    dragX.value = x;
+    dragY.value = y;
+  }, [dragX, dragY]);
+
+  const handleDragCancel = useCallback(() => setDragging(null), []);
+
+  const moveTo = useCallback(async (plan: PlanVisit, date: string) => {
+    const result = await reschedule(plan, date);
+    if (!result.success) {
+      Alert.alert('Gagal Memindahkan', result.error || 'Plan visit tidak dapat dipindahkan.');
+    }
+  }, [reschedule]);
+
+  const handleDrop = useCallback((plan: PlanVisit, x: number, y: number) => {
+    setDragging(null);
+    const target = rectsRef.current.find(rect => x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height);
+    if (!target || target.date === plan.visit_date.slice(0, 10)) return;
+
+    if (target.date < today) {
+      Alert.alert('Tanggal Tidak Valid', 'Plan visit tidak bisa dipindahkan ke tanggal yang sudah lewat.');
+      return;
+    }
+
+    const check = checkPlanDate(plans, { id: plan.id, outlet_id: plan.outlet_id, visit_date: target.date });
+    if (check.duplicate) {
+      Alert.alert('Jadwal Bentrok', `${plan.outlet.name} sudah punya plan pada ${formatDayLabel(target.date)}.`);
+      return;
+    }
+    if (check.overloaded) {
+      Alert.alert(
+        'Hari Terlalu Padat',
+        `${formatDayLabel(target.date)} akan berisi ${check.count} plan (batas ${DAILY_PLAN_LIMIT}/hari). Tetap pindahkan?`,
+        [
+          { text: 'Batal', style: 'cancel' },
+          { text: 'Pindahkan', onPress: () => moveTo(plan, target.date) },
+        ]
+      );
+      return;
+    }
+    moveTo(plan, target.date);
+  }, [plans, today, moveTo]);
+
+  const renderChips = (dayPlans: PlanVisit[] = []) => (
+    <View className="flex-row flex-wrap mt-2">
+      {dayPlans.map(plan => (
+        <DraggablePlanChip
+          key={plan.id}
+          plan={plan}
+          draggable={plan.visit_date.slice(0, 10) >= today}
+          dimmed={dragging?.id === plan.id}
+          colors={colors}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          onDrop={handleDrop}
+          onDragCancel={handleDragCancel}
+        />
+      ))}
+    </View>
+  );
+
+  const selectedMonth = parseDateKey(anchor).getMonth();
+
+  return (
+    <View ref={rootRef} className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={() => router.back()} onTemplates={() => router.push('/plan-visit/templates')} />
+
+      <ScrollView scrollEnabled={!dragging} contentContainerStyle={{ padding: 16, paddingBottom: 32 }}>
+        <ModeToggle mode={mode} onChange={setMode} colors={colors} />
+        <PeriodNavigator
+          label={periodLabel}
+          onPrev={() => handleShift(-1)}
+          onNext={() => handleShift(1)}
+          onToday={handleToday}
+          colors={colors}
+        />
+        <Text className="text-xs mb-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          Tekan lama lalu geser plan ke hari lain untuk menjadwalkan ulang.
+        </Text>
+
+        {error ? (
+          <Text className="text-sm mb-3" style={{ fontFamily: 'Inter', color: colors.danger }}>{error}</Text>
+        ) : null}
+        {loading && plans.length === 0 ? (
+          <ActivityIndicator className="py-4" color={colors.primary} />
+        ) : null}
+
+        {mode === 'week' ? (
+          dates.map(date => {
+            const warning = warnings[date];
+            const isToday = date === today;
+            return (
+              <View
+                key={date}
+                ref={registerZone(date)}
+                collapsable={false}
+                className="rounded-lg border p-3 mb-2"
+                style={{
+                  backgroundColor: colors.card,
+                  borderColor: warning?.overloaded ? colors.danger : isToday ? colors.primary : colors.border,
+                  opacity: date < today ? 0.6 : 1,
+                }}
+              >
+                <View className="flex-row items-center justify-between">
+                  <Text className="text-sm" style={{ fontFamily: 'Inter_600SemiBold', color: isToday ? colors.primary : colors.text }}>
+                    {formatDayLabel(date)}
+                  </Text>
+                  <Text className="text-xs" style={{ fontFamily: 'Inter_500Medium', color: warning?.overloaded ? colors.danger : colors.textSecondary }}>
+                    {warning?.count ?? 0} plan
+                  </Text>
+                </View>
+                <DayWarningText warning={warning} colors={colors} />
+                {renderChips(grouped[date])}
+              </View>
+            );
+          })
+        ) : (
+          <View>
+            <View className="flex-row">
+              {WEEK_HEADER.map(label => (
+                <Text key={label} className="flex-1 text-center text-xs mb-1" style={{ fontFamily: 'Inter_500Medium', color: colors.textSecondary }}>
+                  {label}
+                </Text>
+              ))}
+            </View>
+            <View className="flex-row flex-wrap">
+              {dates.map(date => {
+                const warning = warnings[date];
+                const day = parseDateKey(date);
+                const isSelected = date === selectedDate;
+                const inMonth = day.getMonth() === selectedMonth;
+                const indicator = warning?.overloaded ? colors.danger : warning?.duplicates.length ? colors.warning : colors.primary;
+                return (
+                  <View key={date} ref={registerZone(date)} collapsable={false} style={{ width: `${100 / 7}%` }} className="p-0.5">
+                    <TouchableOpacity
+                      onPress={() => setSelectedDate(date)}
+                      className="h-14 rounded-md items-center justify-center border"
+                      style={{
+                        borderColor: isSelected ? colors.primary : date === today ? colors.primary + '60' : colors.border,
+                        backgroundColor: isSelected ? colors.primary + '15' : colors.card,
+                        opacity: inMonth ? 1 : 0.4,
+                      }}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${formatDayLabel(date)}, ${warning?.count ?? 0} plan`}
+                    >
+                      <Text className="text-sm" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>{day.getDate()}</Text>
+                      {warning ? (
+                        <View className="px-1.5 rounded-full mt-0.5" style={{ backgroundColor: indicator }}>
+                          <Text className="text-white" style={{ fontFamily: 'Inter_600SemiBold', fontSize: 10 }}>{warning.count}</Text>
+                        </View>
+                      ) : null}
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+
+            <View className="rounded-lg border p-3 mt-3" style={{ backgroundColor: colors.card, borderColor: colors.border }}>
+              <Text className="text-sm" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+                {formatDayLabel(selectedDate)}
+              </Text>
+              <DayWarningText warning={warnings[selectedDate]} colors={colors} />
+              {grouped[selectedDate]?.length ? (
+                renderChips(grouped[selectedDate])
+              ) : (
+                <Text className="text-sm mt-2" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+                  Tidak ada plan di tanggal ini.
+                </Text>
+              )}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      {dragging && (
+        <Animated.View
+          pointerEvents="none"
+          className="absolute left-0 top-0 px-3 py-2 rounded-lg"
+          style={[{ width: 160, backgroundColor: colors.primary, elevation: 6, shadowColor: '#000', shadowOpacity: 0.2, shadowRadius: 6, shadowOffset: { width: 0, height: 3 } }, ghostStyle]}
+        >
+          <Text className="text-sm text-white" style={{ fontFamily: 'Inter_600SemiBold' }} numberOfLines={1}>
+            {dragging.outlet.name}
+          </Text>
+        </Animated.View>
+      )}
+    </View>
+  );
+});
@@ -0,0 +1,361 @@
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, RefreshControl, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { usePlanCompliance } from '@/hooks/data/usePlanCompliance';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import {
+  COMPLIANCE_PERIODS,
+  CompliancePeriod,
+  ComplianceSummary,
+  computeCompliance,
+  DailyCompliance,
+  describePeriod,
+  formatClock,
+  formatRate,
+  getPeriodRange,
+  shiftPeriod,
+} from '@/services/plan-compliance';
+import { parseDateKey, toDateKey, WEEKDAY_SHORT_LABELS } from '@/services/plan-schedule';
+import { formatVisitDuration } from '@/services/visit-stats';
+
+const CHART_HEIGHT = 120;
+// Daftar terlewat/tambahan dibatasi agar tampilan bulanan tetap ringkas
+const LIST_LIMIT = 20;
+
+const formatShortDate = (key: string) =>
+  parseDateKey(key).toLocaleDateString('id-ID', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const Header = React.memo(function Header({ colors, onBack }: { colors: any; onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Kepatuhan Plan
+          </Text>
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const PeriodSelector = React.memo(function PeriodSelector({ period, label, colors, onPeriodChange, onShift }: {
+  period: CompliancePeriod;
+  label: string;
+  colors: any;
+  onPeriodChange: (period: CompliancePeriod) => void;
+  onShift: (step: number) => void;
+}) {
+  return (
+    <View className="px-4 pt-4">
+      <View className="flex-row rounded-lg p-1" style={{ backgroundColor: colors.border + '60' }}>
+        {COMPLIANCE_PERIODS.map(option => {
+          const selected = option.key === period;
+          return (
+            <TouchableOpacity
+              key={option.key}
+              onPress={() => onPeriodChange(option.key)}
+              className="flex-1 py-2 rounded-md items-center"
+              style={{ backgroundColor: selected ? colors.card : 'transparent' }}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+            >
+              <Text className="text-sm" style={{ fontFamily: 'Inter_500Medium', color: selected ? colors.primary : colors.textSecondary }}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View className="flex-row items-center justify-between mt-3">
+        <TouchableOpacity onPress={() => onShift(-1)} className="p-2" accessibilityRole="button" accessibilityLabel="Periode sebelumnya">
+          <IconSymbol name="chevron.left" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <Text className="text-base" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>{label}</Text>
+        <TouchableOpacity onPress={() => onShift(1)} className="p-2" accessibilityRole="button" accessibilityLabel="Periode berikutnya">
+          <IconSymbol name="chevron.right" size={20} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+});
+
+const StatTile = ({ label, value, caption, color, colors }: { label: string; value: string; caption?: string; color?: string; colors: any }) => (
+  <View className="rounded-lg border p-3 mb-2" style={{ width: '48.5%', borderColor: colors.border, backgroundColor: colors.card }}>
+    <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{label}</Text>
+    <Text className="text-xl mt-1" style={{ fontFamily: 'Inter_600SemiBold', color: color ?? colors.text }}>{value}</Text>
+    {caption ? (
+      <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{caption}</Text>
+    ) : null}
+  </View>
+);
+
+const SummaryTiles = React.memo(function SummaryTiles({ summary, multiDay, colors }: {
+  summary: ComplianceSummary;
+  multiDay: boolean;
+  colors: any;
+}) {
+  const timePrefix = multiDay ? 'Rata-rata ' : '';
+
+  return (
+    <View className="flex-row flex-wrap justify-between">
+      <StatTile
+        label="Kepatuhan Plan"
+        value={formatRate(summary.complianceRate)}
+        caption={`${summary.visited} dari ${summary.visited + summary.missed} plan`}
+        color={colors.primary}
+        colors={colors}
+      />
+      <StatTile
+        label="Strike Rate"
+        value={formatRate(summary.strikeRate)}
+        caption={`${summary.productiveVisits} kunjungan bertransaksi`}
+        color={colors.success}
+        colors={colors}
+      />
+      <StatTile label="Total Kunjungan" value={String(summary.totalVisits)} caption={`${summary.extra} di luar plan`} colors={colors} />
+      <StatTile label="Rata-rata Durasi" value={formatVisitDuration(summary.averageDurationMinutes)} colors={colors} />
+      <StatTile label={`${timePrefix}Check-in Pertama`} value={formatClock(summary.averageFirstCheckIn)} colors={colors} />
+      <StatTile label={`${timePrefix}Check-out Terakhir`} value={formatClock(summary.averageLastCheckOut)} colors={colors} />
+    </View>
+  );
+});
+
+// Komposisi plan: dikunjungi / terlewat / belum dikunjungi, plus extra call
+const BreakdownBar = React.memo(function BreakdownBar({ summary, colors }: { summary: ComplianceSummary; colors: any }) {
+  const segments = [
+    { label: 'Dikunjungi', value: summary.visited, color: colors.success },
+    { label: 'Terlewat', value: summary.missed, color: colors.danger },
+    { label: 'Belum', value: summary.pending, color: colors.border },
+    { label: 'Di luar plan', value: summary.extra, color: colors.info },
+  ];
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+
+  return (
+    <View className="rounded-lg border p-3 mt-2" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+      <Text className="text-sm mb-2" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>
+        Plan vs Aktual
+      </Text>
+      <View className="flex-row h-3 rounded-full overflow-hidden" style={{ backgroundColor: colors.border + '60' }}>
+        {total > 0 && segments.map(segment => (
+          segment.value > 0 ? <View key={segment.label} style={{ flex: segment.value, backgroundColor: segment.color }} /> : null
+        ))}
+      </View>
+      <View className="flex-row flex-wrap mt-2">
+        {segments.map(segment => (
+          <View key={segment.label} className="flex-row items-center mr-4 mt-1">
+            <View className="w-2.5 h-2.5 rounded-full mr-1" style={{ backgroundColor: segment.color }} />
+            <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+              {segment.label} {segment.value}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+});
+
+const dayLabel = (date: string, count: number) => {
+  const day = parseDateKey(date);
+  // Bulanan: label setiap 5 hari agar tidak bertumpuk
+  if (count > 7) return day.getDate() === 1 || day.getDate() % 5 === 0 ? String(day.getDate()) : '';
+  return WEEKDAY_SHORT_LABELS[day.getDay()];
+};
+
+/**
+ * Grafik batang harian sederhana: batang belakang = total, batang depan = bagian yang tercapai.
+ */
+const DailyBarChart = React.memo(function DailyBarChart({ title, days, total, achieved, legend, colors }: {
+  title: string;
+  days: DailyCompliance[];
+  total: (day: DailyCompliance) => number;
+  achieved: (day: DailyCompliance) => number;
+  legend: [string, string];
+  colors: any;
+}) {
+  const max = Math.max(1, ...days.map(total));
+
+  return (
+    <View className="rounded-lg border p-3 mt-2" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+      <Text className="text-sm mb-3" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>{title}</Text>
+      <View className="flex-row items-end" style={{ height: CHART_HEIGHT }}>
+        {days.map(day => (
+          <View key={day.date} className="flex-1 items-center justify-end" style={{ height: CHART_HEIGHT, paddingHorizontal: days.length > 7 ? 1 : 6 }}>
+            <View className="w-full rounded-t justify-end" style={{ height: (total(day) / max) * CHART_HEIGHT, backgroundColor: colors.border }}>
+              <View className="w-full rounded-t" style={{ height: (achieved(day) / max) * CHART_HEIGHT, backgroundColor: colors.primary }} />
+            </View>
+          </View>
+        ))}
+      </View>
+      <View className="flex-row mt-1">
+        {days.map(day => (
+          <Text key={day.date} className="flex-1 text-center" style={{ fontFamily: 'Inter', fontSize: 10, color: colors.textSecondary }}>
+            {dayLabel(day.date, days.length)}
+          </Text>
+        ))}
+      </View>
+      <View className="flex-row mt-2">
+        <View className="flex-row items-center mr-4">
+          <View className="w-2.5 h-2.5 rounded-full mr-1" style={{ backgroundColor: colors.border }} />
+          <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{legend[0]}</Text>
+        </View>
+        <View className="flex-row items-center">
+          <View className="w-2.5 h-2.5 rounded-full mr-1" style={{ backgroundColor: colors.primary }} />
+          <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{legend[1]}</Text>
+        </View>
+      </View>
+    </View>
+  );
+});
+
+const OutletList = React.memo(function OutletList({ title, items, colors, onPress }: {
+  title: string;
+  items: { key: string; name: string; date: string; id?: string | number }[];
+  colors: any;
+  onPress?: (id: string | number) => void;
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <View className="mt-4">
+      <Text className="text-base mb-2" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>
+        {title} ({items.length})
+      </Text>
+      <View className="rounded-lg border" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+        {items.slice(0, LIST_LIMIT).map(item => (
+          <TouchableOpacity
+            key={item.key}
+            disabled={!onPress || item.id === undefined}
+            onPress={() => item.id !== undefined && onPress?.(item.id)}
+            className="flex-row items-center justify-between px-3 py-2 border-b"
+            style={{ borderBottomColor: colors.border + '60' }}
+          >
+            <Text className="text-sm flex-1 mr-2" style={{ fontFamily: 'Inter', color: colors.text }} numberOfLines={1}>
+              {item.name}
+            </Text>
+            <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{formatShortDate(item.date)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {items.length > LIST_LIMIT && (
+        <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          dan {items.length - LIST_LIMIT} lainnya
+        </Text>
+      )}
+    </View>
+  );
+});
+
+/**
+ * Dashboard plan vs aktual: plan yang dikunjungi, terlewat, extra call, strike rate,
+ * durasi rata-rata, dan jam check-in/check-out per hari, minggu, atau bulan.
+ */
+export default React.memo(function PlanComplianceScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const today = useMemo(() => toDateKey(new Date()), []);
+
+  const { plans, visits, loading, error, fetchPeriod } = usePlanCompliance();
+  const [period, setPeriod] = useState<CompliancePeriod>('day');
+  const [anchor, setAnchor] = useState(today);
+
+  const range = useMemo(() => getPeriodRange(period, anchor), [period, anchor]);
+  const summary = useMemo(() => computeCompliance(plans, visits, range, today), [plans, visits, range, today]);
+
+  useEffect(() => {
+    fetchPeriod(range.from, range.to);
+  }, [fetchPeriod, range.from, range.to]);
+
+  const handleShift = useCallback((step: number) => {
+    setAnchor(prev => shiftPeriod(period, prev, step));
+  }, [period]);
+
+  const handleRefresh = useCallback(() => {
+    fetchPeriod(range.from, range.to);
+  }, [fetchPeriod, range.from, range.to]);
+
+  const handleOpenVisit = useCallback((id: string | number) => {
+    router.push({ pathname: '/visit/view', params: { id: String(id) } });
+  }, []);
+
+  const missedItems = useMemo(() => summary.missedPlans.map(plan => ({
+    key: `${plan.id ?? plan.outlet_id}-${plan.visit_date}`,
+    name: plan.outlet?.name ?? `Outlet ${plan.outlet_id}`,
+    date: plan.visit_date.slice(0, 10),
+  })), [summary.missedPlans]);
+
+  const extraItems = useMemo(() => summary.extraVisits.map(visit => ({
+    key: String(visit.id),
+    id: visit.id,
+    name: visit.outlet.name ?? `Outlet ${visit.outlet.id}`,
+    date: visit.visit_date.slice(0, 10),
+  })), [summary.extraVisits]);
+
+  const multiDay = period !== 'day';
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={() => router.back()} />
+      <PeriodSelector
+        period={period}
+        label={describePeriod(period, range)}
+        colors={colors}
+        onPeriodChange={setPeriod}
+        onShift={handleShift}
+      />
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+        refreshControl={<RefreshControl refreshing={loading && visits.length > 0} onRefresh={handleRefresh} />}
+      >
+        {loading && visits.length === 0 && plans.length === 0 ? (
+          <ActivityIndicator color={colors.primary} style={{ marginTop: 32 }} />
+        ) : error ? (
+          <Text className="text-sm text-center mt-8" style={{ fontFamily: 'Inter', color: colors.danger }}>{error}</Text>
+        ) : (
+          <>
+            <SummaryTiles summary={summary} multiDay={multiDay} colors={colors} />
+            <BreakdownBar summary={summary} colors={colors} />
+            {multiDay && (
+              <>
+                <DailyBarChart
+                  title="Plan Dikunjungi per Hari"
+                  days={summary.days}
+                  total={day => day.planned}
+                  achieved={day => day.visited}
+                  legend={['Plan', 'Dikunjungi']}
+                  colors={colors}
+                />
+                <DailyBarChart
+                  title="Kunjungan Bertransaksi per Hari"
+                  days={summary.days}
+                  total={day => day.visits}
+                  achieved={day => day.productive}
+                  legend={['Kunjungan', 'Transaksi']}
+                  colors={colors}
+                />
+              </>
+            )}
+            <OutletList title="Plan Terlewat" items={missedItems} colors={colors} />
+            <OutletList title="Kunjungan di Luar Plan" items={extraItems} colors={colors} onPress={handleOpenVisit} />
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+});
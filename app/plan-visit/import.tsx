@@ -0,0 +1,412 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { router } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Alert, Pressable, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { usePlanCalendar } from '@/hooks/data/usePlanCalendar';
+import { PlanImportResult, usePlanImport } from '@/hooks/data/usePlanImport';
+import type { PlanVisit } from '@/hooks/data/usePlanVisit';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import {
+  buildImportErrorReport,
+  guessPlanMapping,
+  ImportUserRef,
+  MAX_IMPORT_FILE_BYTES,
+  PLAN_IMPORT_FIELDS,
+  PlanImportField,
+  PlanImportMapping,
+  PlanImportSheet,
+  PlanImportStatus,
+  parsePlanSheet,
+  readPlanRows,
+  shareImportErrorReport,
+  summarizePlanImport,
+  ValidatedPlanRow,
+  validatePlanRows,
+} from '@/services/plan-import';
+import { parseDateKey, toDateKey } from '@/services/plan-schedule';
+
+// application/vnd.ms-excel tetap diterima karena sebagian perangkat memberi tipe ini untuk file CSV
+const FILE_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Preview dibatasi agar file ratusan baris tetap ringan dirender
+const PREVIEW_LIMIT = 200;
+
+const formatDate = (key: string) =>
+  parseDateKey(key).toLocaleDateString('id-ID', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const Header = React.memo(function Header({ colors, onBack }: { colors: any; onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Import Plan Visit
+          </Text>
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const SectionLabel = ({ children, colors }: { children: React.ReactNode; colors: any }) => (
+  <Text className="text-base mb-2 mt-4" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>
+    {children}
+  </Text>
+);
+
+const Chip = ({ label, selected, onPress, colors }: { label: string; selected: boolean; onPress: () => void; colors: any }) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className="px-3 py-2 rounded-lg mr-2 mb-2 border"
+    style={{ borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary : colors.card }}
+    accessibilityRole="button"
+    accessibilityState={{ selected }}
+  >
+    <Text className="text-sm" style={{ fontFamily: 'Inter_500Medium', color: selected ? '#fff' : colors.text }}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+const ColumnMapper = React.memo(function ColumnMapper({ headers, mapping, colors, onChange }: {
+  headers: string[];
+  mapping: PlanImportMapping;
+  colors: any;
+  onChange: (field: PlanImportField, index: number | null) => void;
+}) {
+  return (
+    <>
+      {PLAN_IMPORT_FIELDS.map(field => (
+        <View key={field.key}>
+          <Text className="text-sm mt-2 mb-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            {field.label}{field.required ? ' *' : ' (opsional)'}
+          </Text>
+          <View className="flex-row flex-wrap">
+            {!field.required && (
+              <Chip label="Tidak dipakai" selected={mapping[field.key] === null} onPress={() => onChange(field.key, null)} colors={colors} />
+            )}
+            {headers.map((header, index) => (
+              <Chip
+                key={`${field.key}-${index}`}
+                label={header || `Kolom ${index + 1}`}
+                selected={mapping[field.key] === index}
+                onPress={() => onChange(field.key, index)}
+                colors={colors}
+              />
+            ))}
+          </View>
+        </View>
+      ))}
+    </>
+  );
+});
+
+const ImportSummary = React.memo(function ImportSummary({ summary, colors }: {
+  summary: Record<PlanImportStatus, number>;
+  colors: any;
+}) {
+  const items = [
+    { label: 'Valid', value: summary.valid, color: colors.success },
+    { label: 'Error', value: summary.invalid, color: colors.danger },
+    { label: 'Duplikat', value: summary.duplicate, color: colors.warning },
+  ];
+
+  return (
+    <View className="flex-row rounded-lg border" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+      {items.map(item => (
+        <View key={item.label} className="flex-1 items-center py-3">
+          <Text className="text-xl" style={{ fontFamily: 'Inter_600SemiBold', color: item.color }}>{item.value}</Text>
+          <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{item.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+const PreviewRow = React.memo(function PreviewRow({ row, colors }: { row: ValidatedPlanRow; colors: any }) {
+  const statusColor = row.status === 'valid' ? colors.success : row.status === 'duplicate' ? colors.warning : colors.danger;
+  const statusLabel = row.status === 'valid' ? 'Valid' : row.status === 'duplicate' ? 'Duplikat' : 'Error';
+
+  return (
+    <View className="px-3 py-2 border-b" style={{ borderBottomColor: colors.border + '60' }}>
+      <View className="flex-row items-center justify-between">
+        <Text className="text-sm flex-1 mr-2" style={{ fontFamily: 'Inter_500Medium', color: colors.text }} numberOfLines={1}>
+          {row.row}. {row.outlet ? `${row.outlet.name} (${row.outlet.code})` : row.outlet_code || '-'}
+        </Text>
+        <Text className="text-xs" style={{ fontFamily: 'Inter_500Medium', color: statusColor }}>{statusLabel}</Text>
+      </View>
+      <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+        {row.visit_date ? formatDate(row.visit_date) : row.date_text || 'Tanpa tanggal'}
+        {row.user ? ` • ${row.user}` : ''}
+      </Text>
+      {row.errors.map(message => (
+        <Text key={message} className="text-xs" style={{ fontFamily: 'Inter', color: statusColor }}>
+          {message}
+        </Text>
+      ))}
+    </View>
+  );
+});
+
+const ProgressBar = ({ done, total, colors }: { done: number; total: number; colors: any }) => (
+  <View className="mt-4">
+    <View className="h-2 rounded-full overflow-hidden" style={{ backgroundColor: colors.border }}>
+      <View className="h-2" style={{ width: `${total > 0 ? Math.round((done / total) * 100) : 0}%`, backgroundColor: colors.primary }} />
+    </View>
+    <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+      Membuat plan {done} dari {total}...
+    </Text>
+  </View>
+);
+
+/**
+ * Import journey plan dari spreadsheet (CSV/XLSX): pilih file, petakan kolom,
+ * cek hasil validasi per baris, lalu buat plan visit secara massal.
+ */
+export default React.memo(function PlanImportScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const today = useMemo(() => toDateKey(new Date()), []);
+
+  const { resolving, importing, progress, resolveOutlets, resolveUsers, createPlans } = usePlanImport();
+  const { fetchRange } = usePlanCalendar();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<PlanImportSheet | null>(null);
+  const [mapping, setMapping] = useState<PlanImportMapping | null>(null);
+  const [rows, setRows] = useState<ValidatedPlanRow[] | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(false);
+  const [result, setResult] = useState<PlanImportResult | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  const summary = useMemo(() => (rows ? summarizePlanImport(rows) : null), [rows]);
+  const visibleRows = useMemo(
+    () => (rows ?? []).filter(row => !issuesOnly || row.status !== 'valid').slice(0, PREVIEW_LIMIT),
+    [rows, issuesOnly]
+  );
+  const hasReport = !!rows && ((summary?.invalid ?? 0) + (summary?.duplicate ?? 0) > 0 || (result?.failures.length ?? 0) > 0);
+
+  const handlePickFile = useCallback(async () => {
+    const picked = await DocumentPicker.getDocumentAsync({ type: FILE_TYPES, copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.[0]) return;
+
+    const asset = picked.assets[0];
+    if (asset.size && asset.size > MAX_IMPORT_FILE_BYTES) {
+      Alert.alert('File Terlalu Besar', `Ukuran file maksimal ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB.`);
+      return;
+    }
+    try {
+      const base64 = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.Base64 });
+      const parsed = parsePlanSheet(base64);
+      if (parsed.rows.length === 0) {
+        Alert.alert('File Kosong', 'Tidak ada baris data di sheet pertama file ini.');
+        return;
+      }
+      setFileName(asset.name);
+      setSheet(parsed);
+      setMapping(guessPlanMapping(parsed.headers));
+      setRows(null);
+      setResult(null);
+    } catch (e: any) {
+      Alert.alert('Gagal Membaca File', e.message || 'Pastikan file berformat CSV atau XLSX.');
+    }
+  }, []);
+
+  const handleMappingChange = useCallback((field: PlanImportField, index: number | null) => {
+    setMapping(prev => (prev ? { ...prev, [field]: index } : prev));
+    // Hasil validasi tidak berlaku lagi jika pemetaan kolom berubah
+    setRows(null);
+    setResult(null);
+  }, []);
+
+  const handleValidate = useCallback(async () => {
+    if (!sheet || !mapping) return;
+    if (mapping.outlet_code === null || mapping.visit_date === null) {
+      Alert.alert('Kolom Belum Lengkap', 'Pilih kolom untuk kode outlet dan tanggal.');
+      return;
+    }
+
+    setValidating(true);
+    try {
+      const parsedRows = readPlanRows(sheet, mapping);
+      const outlets = await resolveOutlets(parsedRows.map(row => row.outlet_code));
+      if (!outlets.success) {
+        Alert.alert('Gagal', outlets.error || 'Kode outlet tidak dapat dicek.');
+        return;
+      }
+
+      let users: Map<string, ImportUserRef> | undefined;
+      const userValues = parsedRows.map(row => row.user).filter(Boolean);
+      if (userValues.length > 0) {
+        const resolved = await resolveUsers(userValues);
+        if (!resolved.success) {
+          Alert.alert('Gagal', resolved.error || 'User tidak dapat dicek.');
+          return;
+        }
+        users = resolved.data;
+      }
+
+      // Plan yang sudah ada di rentang file, untuk menandai duplikat
+      const dates = parsedRows.map(row => row.visit_date).filter((date): date is string => !!date && date >= today).sort();
+      let existing: PlanVisit[] = [];
+      if (dates.length > 0) {
+        const range = await fetchRange(dates[0], dates[dates.length - 1]);
+        if (!range.success) {
+          Alert.alert('Gagal', range.error || 'Plan visit yang sudah ada tidak dapat dimuat.');
+          return;
+        }
+        existing = range.data ?? [];
+      }
+
+      setRows(validatePlanRows(parsedRows, { outlets: outlets.data!, users, existing, today }));
+      setResult(null);
+    } finally {
+      setValidating(false);
+    }
+  }, [sheet, mapping, resolveOutlets, resolveUsers, fetchRange, today]);
+
+  const handleImport = useCallback(() => {
+    if (!rows || !summary || summary.valid === 0) return;
+    const skipped = summary.invalid + summary.duplicate;
+
+    Alert.alert(
+      'Buat Plan Visit',
+      `${summary.valid} plan visit akan dibuat.${skipped > 0 ? `\n${skipped} baris dilewati karena error atau duplikat.` : ''}`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Buat',
+          onPress: async () => {
+            const outcome = await createPlans(rows);
+            setResult(outcome);
+            const failedText = outcome.failures.length > 0 ? `\n${outcome.failures.length} baris gagal dibuat.` : '';
+            Alert.alert(outcome.created > 0 ? 'Import Selesai' : 'Gagal', `${outcome.created} plan visit dibuat.${failedText}`);
+          },
+        },
+      ]
+    );
+  }, [rows, summary, createPlans]);
+
+  const handleShareReport = useCallback(async () => {
+    if (!rows) return;
+    try {
+      const shared = await shareImportErrorReport(buildImportErrorReport(rows, result?.failures));
+      if (!shared) Alert.alert('Tidak Tersedia', 'Fitur berbagi file tidak tersedia di perangkat ini.');
+    } catch (e: any) {
+      Alert.alert('Gagal', e.message || 'Laporan error tidak dapat dibuat.');
+    }
+  }, [rows, result]);
+
+  const busy = validating || resolving || importing;
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={() => router.back()} />
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 16, paddingBottom: 32 }}>
+        <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          Gunakan file CSV atau XLSX (maks. 2 MB) dengan kolom kode outlet, tanggal (YYYY-MM-DD atau DD/MM/YYYY), dan user (opsional). Baris pertama dianggap header.
+        </Text>
+        <View className="mt-4">
+          <Button
+            title={fileName ? 'Ganti File' : 'Pilih File'}
+            variant="outline"
+            fullWidth
+            onPress={handlePickFile}
+            disabled={busy}
+          />
+        </View>
+
+        {sheet && mapping && (
+          <>
+            <SectionLabel colors={colors}>
+              {fileName} • {sheet.rows.length} baris
+            </SectionLabel>
+            <ColumnMapper headers={sheet.headers} mapping={mapping} colors={colors} onChange={handleMappingChange} />
+            <View className="mt-4">
+              <Button
+                title="Validasi Data"
+                variant="primary"
+                fullWidth
+                onPress={handleValidate}
+                loading={validating}
+                disabled={busy}
+              />
+            </View>
+          </>
+        )}
+
+        {rows && summary && (
+          <>
+            <SectionLabel colors={colors}>Hasil Validasi</SectionLabel>
+            <ImportSummary summary={summary} colors={colors} />
+
+            <View className="flex-row mt-3">
+              <Chip label="Semua" selected={!issuesOnly} onPress={() => setIssuesOnly(false)} colors={colors} />
+              <Chip label="Bermasalah" selected={issuesOnly} onPress={() => setIssuesOnly(true)} colors={colors} />
+            </View>
+            <View className="rounded-lg border" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+              {visibleRows.length === 0 ? (
+                <Text className="text-sm p-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+                  Tidak ada baris bermasalah.
+                </Text>
+              ) : (
+                visibleRows.map(row => <PreviewRow key={row.row} row={row} colors={colors} />)
+              )}
+            </View>
+            {rows.length > PREVIEW_LIMIT && (
+              <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+                Menampilkan {PREVIEW_LIMIT} baris pertama. Semua baris bermasalah ada di laporan error.
+              </Text>
+            )}
+
+            {importing && <ProgressBar done={progress.done} total={progress.total} colors={colors} />}
+
+            {result && (
+              <Text className="text-sm mt-4" style={{ fontFamily: 'Inter_500Medium', color: result.failures.length > 0 ? colors.danger : colors.success }}>
+                {result.created} plan visit dibuat{result.failures.length > 0 ? `, ${result.failures.length} gagal` : ''}.
+              </Text>
+            )}
+
+            <View className="mt-4">
+              <Button
+                title={`Buat ${summary.valid} Plan Visit`}
+                variant="primary"
+                fullWidth
+                onPress={handleImport}
+                loading={importing}
+                disabled={busy || summary.valid === 0 || !!result}
+              />
+            </View>
+            {hasReport && (
+              <View className="mt-2">
+                <Button title="Unduh Laporan Error" variant="outline" fullWidth onPress={handleShareReport} disabled={busy} />
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+});
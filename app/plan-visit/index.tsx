@@ -111,7 +111,7 @@ const usePlanVisitFetch = () => {
   }, []);
 
   const executeFetch = useCallback(async (
-    fetchFunction: (params: any) => Promise<any>,
+    fetchFunction: (params: any, options: { signal?: AbortSignal }) => Promise<any>,
     apiParams: Record<string, any>,
     forceRefresh = false
   ) => {
@@ -132,6 +132,7 @@ const usePlanVisitFetch = () => {
     }
 
     abortController.current = new AbortController();
+    const { signal } = abortController.current;
 
     setFetchState(prev => ({
       ...prev,
@@ -145,11 +146,11 @@ const usePlanVisitFetch = () => {
         fetchTimeoutRef.current = setTimeout(resolve, 100) as any;
       });
 
-      if (!mounted.current) return;
+      if (!mounted.current || signal.aborted) return;
 
-      await fetchFunction(apiParams);
+      await fetchFunction(apiParams, { signal });
 
-      if (mounted.current) {
+      if (mounted.current && !signal.aborted) {
         setFetchState(prev => ({
           ...prev,
           loading: false,
@@ -242,11 +243,15 @@ const Header = React.memo(function Header({
   colors, 
   insets, 
   onBack, 
+  onCalendar,
+  onImport,
   onCreate 
 }: { 
   colors: any; 
   insets: any; 
   onBack: () => void;
+  onCalendar: () => void;
+  onImport: () => void;
   onCreate: () => void;
 }) {
   const headerStyle = useMemo(() => ({ 
@@ -270,14 +275,32 @@ const Header = React.memo(function Header({
             Plan Visit
           </Text>
         </View>
-        <Pressable 
-          onPress={onCreate} 
-          className="w-8 h-8 items-center justify-center" 
-          accessibilityRole="button"
-          accessibilityLabel="Tambah plan visit"
-        >
-          <IconSymbol name="plus" size={24} color="#fff" />
-        </Pressable>
+        <View className="flex-row">
+          <Pressable 
+            onPress={onCalendar} 
+            className="w-8 h-8 items-center justify-center mr-1" 
+            accessibilityRole="button"
+            accessibilityLabel="Kalender plan visit"
+          >
+            <IconSymbol name="calendar" size={22} color="#fff" />
+          </Pressable>
+          <Pressable 
+            onPress={onImport} 
+            className="w-8 h-8 items-center justify-center mr-1" 
+            accessibilityRole="button"
+            accessibilityLabel="Import plan visit dari file"
+          >
+            <IconSymbol name="square.and.arrow.down" size={22} color="#fff" />
+          </Pressable>
+          <Pressable 
+            onPress={onCreate} 
+            className="w-8 h-8 items-center justify-center" 
+            accessibilityRole="button"
+            accessibilityLabel="Tambah plan visit"
+          >
+            <IconSymbol name="plus" size={24} color="#fff" />
+          </Pressable>
+        </View>
       </View>
     </View>
   );
@@ -510,6 +533,14 @@ export default React.memo(function PlanVisitListScreen() {
     router.back();
   }, []);
 
+  const handleCalendar = useCallback(() => {
+    router.push('/plan-visit/calendar');
+  }, []);
+
+  const handleImport = useCallback(() => {
+    router.push('/plan-visit/import');
+  }, []);
+
   const fetchData = useCallback(async (pageNum: number, filters: FilterParams, forceRefresh = false) => {
     const apiParams = getApiParams(filters, pageNum, perPage);
     await executeFetch(fetchPlanVisits, apiParams, forceRefresh);
@@ -736,6 +767,8 @@ export default React.memo(function PlanVisitListScreen() {
         colors={colors}
         insets={insets}
         onBack={handleBack}
+        onCalendar={handleCalendar}
+        onImport={handleImport}
         onCreate={handleCreate}
       />
 
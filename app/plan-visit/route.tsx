@@ -0,0 +1,305 @@
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { ActivityIndicator, FlatList, Platform, Pressable, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { PlanVisit, usePlanVisit } from '@/hooks/data/usePlanVisit';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useCurrentLocation } from '@/hooks/utils/useCurrentLocation';
+import { useDailyRoute } from '@/hooks/utils/useDailyRoute';
+import { getRouteDate } from '@/services/daily-route';
+import { formatDistance, LatLng, parseLatLong, regionForPoints } from '@/utils/geo';
+import { routeLegs } from '@/utils/route';
+
+// Ruas menuju satu outlet; null jika outlet tidak punya koordinat
+type RouteLeg = { distance: number | null; fromOrigin: boolean };
+
+const Header = React.memo(function Header({ colors, onBack, onRefresh }: {
+  colors: any;
+  onBack: () => void;
+  onRefresh: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Rute Hari Ini
+          </Text>
+        </View>
+        <Pressable
+          onPress={onRefresh}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Muat ulang plan dan lokasi"
+        >
+          <IconSymbol name="arrow.clockwise" size={22} color="#fff" />
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+const RouteMap = React.memo(function RouteMap({
+  origin,
+  stops,
+  colors
+}: {
+  origin: LatLng | null;
+  stops: { id: string; number: number; name: string; coords: LatLng }[];
+  colors: any;
+}) {
+  const path = useMemo(() => [...(origin ? [origin] : []), ...stops.map(stop => stop.coords)], [origin, stops]);
+  const region = useMemo(() => regionForPoints(path, 1.4, 0.01), [path]);
+
+  if (!region) return null;
+
+  return (
+    <View className="h-64 rounded-lg overflow-hidden mb-4">
+      <MapView
+        key={`${region.latitude}:${region.longitude}:${region.latitudeDelta}`}
+        style={{ flex: 1 }}
+        provider={Platform.OS === 'android' ? PROVIDER_GOOGLE : undefined}
+        initialRegion={region}
+        showsUserLocation={!!origin}
+        toolbarEnabled={false}
+      >
+        {path.length > 1 && <Polyline coordinates={path} strokeColor={colors.primary} strokeWidth={3} />}
+        {stops.map(stop => (
+          <Marker key={stop.id} coordinate={stop.coords} title={`${stop.number}. ${stop.name}`}>
+            <View className="w-7 h-7 rounded-full items-center justify-center border-2 border-white" style={{ backgroundColor: colors.primary }}>
+              <Text className="text-white text-xs" style={{ fontFamily: 'Inter_600SemiBold' }}>{stop.number}</Text>
+            </View>
+          </Marker>
+        ))}
+      </MapView>
+    </View>
+  );
+});
+
+const RouteStopItem = React.memo(function RouteStopItem({
+  planVisit,
+  number,
+  leg,
+  isFirst,
+  isLast,
+  locked,
+  colors,
+  onMove
+}: {
+  planVisit: PlanVisit;
+  number: number;
+  leg: RouteLeg | null;
+  isFirst: boolean;
+  isLast: boolean;
+  locked: boolean;
+  colors: any;
+  onMove: (id: string | number, direction: -1 | 1) => void;
+}) {
+  return (
+    <View className="flex-row items-center p-3 mb-2 rounded-lg border" style={{ backgroundColor: colors.card, borderColor: colors.border }}>
+      <View className="w-8 h-8 rounded-full items-center justify-center mr-3" style={{ backgroundColor: colors.primary }}>
+        <Text className="text-white text-sm" style={{ fontFamily: 'Inter_600SemiBold' }}>{number}</Text>
+      </View>
+      <View className="flex-1">
+        <Text className="text-base" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }} numberOfLines={1}>
+          {planVisit.outlet.name}
+        </Text>
+        <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }} numberOfLines={1}>
+          {planVisit.outlet.code} • {planVisit.outlet.district || planVisit.outlet.address}
+        </Text>
+        {leg === null ? (
+          <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.warning }}>
+            Koordinat outlet tidak tersedia
+          </Text>
+        ) : leg.distance !== null ? (
+          <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            {formatDistance(leg.distance)} dari {leg.fromOrigin ? 'posisi Anda' : 'outlet sebelumnya'}
+          </Text>
+        ) : null}
+      </View>
+      {!locked && (
+        <View className="ml-2">
+          <TouchableOpacity
+            onPress={() => onMove(planVisit.id, -1)}
+            disabled={isFirst}
+            className="p-1"
+            accessibilityRole="button"
+            accessibilityLabel={`Pindahkan ${planVisit.outlet.name} ke atas`}
+          >
+            <IconSymbol name="chevron.up" size={22} color={isFirst ? colors.border : colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onMove(planVisit.id, 1)}
+            disabled={isLast}
+            className="p-1"
+            accessibilityRole="button"
+            accessibilityLabel={`Pindahkan ${planVisit.outlet.name} ke bawah`}
+          >
+            <IconSymbol name="chevron.down" size={22} color={isLast ? colors.border : colors.primary} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+});
+
+/**
+ * Urutan kunjungan plan hari ini dari posisi sekarang (nearest neighbour + 2-opt di perangkat).
+ * Urutan bisa diubah manual dan dikunci untuk hari ini; home dan check-in mengikuti urutan ini.
+ */
+export default React.memo(function DailyRouteScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const today = useMemo(() => getRouteDate(), []);
+
+  const { planVisits, loading, error, fetchPlanVisits } = usePlanVisit();
+  const { location, loading: locating, permissionStatus, getLocation, requestPermission } = useCurrentLocation();
+  const { route, loaded, ordered, locked, optimize, move, setLocked } = useDailyRoute(today, planVisits);
+
+  const origin = useMemo<LatLng | null>(
+    () => (location ? { latitude: location.latitude, longitude: location.longitude } : null),
+    [location]
+  );
+
+  const loadData = useCallback(() => {
+    fetchPlanVisits({
+      per_page: 100,
+      'filters[date]': today,
+      sort_column: 'visit_date',
+      sort_direction: 'asc'
+    });
+    getLocation();
+  }, [fetchPlanVisits, getLocation, today]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    if (permissionStatus && permissionStatus !== 'granted') requestPermission();
+  }, [permissionStatus, requestPermission]);
+
+  // Belum ada rute tersimpan hari ini: optimasi otomatis sekali setelah plan dan lokasi siap
+  const autoOptimizedRef = useRef(false);
+  useEffect(() => {
+    if (autoOptimizedRef.current || !loaded || route || loading || locating || planVisits.length === 0) return;
+    autoOptimizedRef.current = true;
+    optimize(origin);
+  }, [loaded, route, loading, locating, planVisits.length, origin, optimize]);
+
+  const stops = useMemo(() => ordered.map((planVisit, index) => ({
+    planVisit,
+    number: index + 1,
+    coords: parseLatLong(planVisit.outlet.location),
+  })), [ordered]);
+
+  // Jarak dihitung antar outlet yang punya koordinat; outlet tanpa koordinat dilewati
+  const { legs, total } = useMemo(() => {
+    const located = stops.filter(stop => stop.coords !== null);
+    const result = routeLegs(origin, located.map(stop => stop.coords!));
+    const byId = new Map<string, RouteLeg>(located.map((stop, index) => [
+      String(stop.planVisit.id),
+      { distance: origin || index > 0 ? result.legs[index] : null, fromOrigin: index === 0 },
+    ]));
+    return { legs: byId, total: result.total };
+  }, [stops, origin]);
+
+  const mapStops = useMemo(() => stops
+    .filter(stop => stop.coords !== null)
+    .map(stop => ({ id: String(stop.planVisit.id), number: stop.number, name: stop.planVisit.outlet.name, coords: stop.coords! })), [stops]);
+
+  const handleOptimize = useCallback(() => optimize(origin), [optimize, origin]);
+  const handleToggleLock = useCallback(() => setLocked(!locked), [setLocked, locked]);
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={() => router.back()} onRefresh={loadData} />
+      <FlatList
+        data={stops}
+        keyExtractor={item => String(item.planVisit.id)}
+        contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+        ListHeaderComponent={
+          <View>
+            <RouteMap origin={origin} stops={mapStops} colors={colors} />
+            <View className="flex-row items-center justify-between mb-1">
+              <Text className="text-base" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+                {stops.length} outlet • {formatDistance(total)}
+              </Text>
+              {locked && (
+                <View className="flex-row items-center">
+                  <IconSymbol name="lock.fill" size={14} color={colors.warning} />
+                  <Text className="text-sm ml-1" style={{ fontFamily: 'Inter_500Medium', color: colors.warning }}>Terkunci</Text>
+                </View>
+              )}
+            </View>
+            <Text className="text-xs mb-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+              {origin
+                ? 'Perkiraan jarak garis lurus dari posisi Anda, jarak tempuh di jalan bisa lebih jauh.'
+                : 'Lokasi Anda belum tersedia, rute dihitung mulai dari outlet pertama.'}
+            </Text>
+            <View className="flex-row mb-4" style={{ gap: 8 }}>
+              <View className="flex-1">
+                <Button
+                  title="Optimalkan Rute"
+                  variant="primary"
+                  size="sm"
+                  fullWidth
+                  onPress={handleOptimize}
+                  disabled={locked || locating || stops.length < 2}
+                />
+              </View>
+              <View className="flex-1">
+                <Button
+                  title={locked ? 'Buka Kunci' : 'Kunci Urutan'}
+                  variant="outline"
+                  size="sm"
+                  fullWidth
+                  onPress={handleToggleLock}
+                  disabled={stops.length === 0}
+                />
+              </View>
+            </View>
+          </View>
+        }
+        renderItem={({ item, index }) => (
+          <RouteStopItem
+            planVisit={item.planVisit}
+            number={item.number}
+            leg={legs.get(String(item.planVisit.id)) ?? null}
+            isFirst={index === 0}
+            isLast={index === stops.length - 1}
+            locked={locked}
+            colors={colors}
+            onMove={move}
+          />
+        )}
+        ListEmptyComponent={
+          loading ? (
+            <View className="items-center py-8">
+              <ActivityIndicator size="large" color={colors.primary} />
+            </View>
+          ) : (
+            <Text className="text-sm text-center py-8" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+              {error || 'Belum ada plan visit untuk hari ini.'}
+            </Text>
+          )
+        }
+      />
+    </View>
+  );
+});
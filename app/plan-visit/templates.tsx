@@ -0,0 +1,403 @@
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { OutletDropdown } from '@/components/OutletDropdown';
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useOutlet } from '@/hooks/data/useOutlet';
+import { usePlanCalendar } from '@/hooks/data/usePlanCalendar';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { usePlanTemplates } from '@/hooks/utils/usePlanTemplates';
+import {
+  addDays,
+  createPlanTemplate,
+  DAILY_PLAN_LIMIT,
+  describeTemplate,
+  parseDateKey,
+  PlanTemplate,
+  previewTemplatePlans,
+  SchedulablePlan,
+  TemplatePlanPreview,
+  toDateKey,
+  WEEKDAY_SHORT_LABELS,
+} from '@/services/plan-schedule';
+
+// Senin..Minggu (nilai Date.getDay)
+const WEEKDAY_OPTIONS = [1, 2, 3, 4, 5, 6, 0];
+const INTERVAL_OPTIONS = [1, 2, 3, 4];
+const HORIZON_OPTIONS = [4, 8, 12];
+
+const formatDate = (key: string) =>
+  parseDateKey(key).toLocaleDateString('id-ID', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+// Rentang generate: mulai hari ini (atau tanggal mulai template) selama `weeks` minggu
+const generationRange = (template: Pick<PlanTemplate, 'start_date'>, weeks: number, today: string) => {
+  const from = template.start_date > today ? template.start_date : today;
+  return { from, to: addDays(from, weeks * 7 - 1) };
+};
+
+const Header = React.memo(function Header({ colors, onBack }: { colors: any; onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Jadwal Berulang
+          </Text>
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const ChipGroup = React.memo(function ChipGroup({ options, isSelected, onToggle, colors }: {
+  options: { value: number; label: string }[];
+  isSelected: (value: number) => boolean;
+  onToggle: (value: number) => void;
+  colors: any;
+}) {
+  return (
+    <View className="flex-row flex-wrap">
+      {options.map(option => {
+        const selected = isSelected(option.value);
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            onPress={() => onToggle(option.value)}
+            className="px-3 py-2 rounded-lg mr-2 mb-2 border"
+            style={{ borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary : colors.card }}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <Text className="text-sm" style={{ fontFamily: 'Inter_500Medium', color: selected ? '#fff' : colors.text }}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+});
+
+const SectionLabel = ({ children, colors }: { children: React.ReactNode; colors: any }) => (
+  <Text className="text-base mb-2 mt-4" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>
+    {children}
+  </Text>
+);
+
+const PreviewList = React.memo(function PreviewList({ preview, colors }: { preview: TemplatePlanPreview[]; colors: any }) {
+  if (preview.length === 0) {
+    return (
+      <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+        Tidak ada tanggal dalam rentang ini.
+      </Text>
+    );
+  }
+
+  return (
+    <View className="rounded-lg border" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+      {preview.map(item => {
+        const status = item.duplicate
+          ? { label: 'Sudah ada, dilewati', color: colors.textSecondary }
+          : item.overloaded
+            ? { label: `Overload (${item.dayCount}/${DAILY_PLAN_LIMIT})`, color: colors.danger }
+            : { label: `${item.dayCount} plan hari itu`, color: colors.success };
+        return (
+          <View key={item.date} className="flex-row items-center justify-between px-3 py-2 border-b" style={{ borderBottomColor: colors.border + '60' }}>
+            <Text className="text-sm" style={{ fontFamily: 'Inter', color: item.duplicate ? colors.textSecondary : colors.text }}>
+              {formatDate(item.date)}
+            </Text>
+            <Text className="text-xs" style={{ fontFamily: 'Inter_500Medium', color: status.color }}>
+              {status.label}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+});
+
+const TemplateCard = React.memo(function TemplateCard({ template, busy, colors, onGenerate, onDelete }: {
+  template: PlanTemplate;
+  busy: boolean;
+  colors: any;
+  onGenerate: (template: PlanTemplate) => void;
+  onDelete: (template: PlanTemplate) => void;
+}) {
+  return (
+    <View className="rounded-lg border p-3 mb-2" style={{ backgroundColor: colors.card, borderColor: colors.border }}>
+      <View className="flex-row items-start justify-between">
+        <View className="flex-1">
+          <Text className="text-base" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }} numberOfLines={1}>
+            {template.outlet_name}
+          </Text>
+          <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            {template.outlet_code} • {describeTemplate(template)}
+          </Text>
+          <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            Mulai {formatDate(template.start_date)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => onDelete(template)} className="p-1" accessibilityRole="button" accessibilityLabel={`Hapus template ${template.outlet_name}`}>
+          <IconSymbol name="trash" size={20} color={colors.danger} />
+        </TouchableOpacity>
+      </View>
+      <View className="mt-2">
+        <Button title="Buat Plan" variant="outline" size="sm" onPress={() => onGenerate(template)} loading={busy} disabled={busy} />
+      </View>
+    </View>
+  );
+});
+
+/**
+ * Template jadwal berulang per outlet (mis. setiap Selasa, atau setiap 2 minggu Senin & Kamis)
+ * yang menghasilkan plan visit konkret untuk beberapa minggu ke depan.
+ */
+export default React.memo(function PlanTemplatesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const today = useMemo(() => toDateKey(new Date()), []);
+
+  const { templates, loading: templatesLoading, save, remove } = usePlanTemplates();
+  // Plan di rentang template baru (preview) dan di rentang template tersimpan dimuat terpisah
+  const { plans, loading: plansLoading, fetchRange, createBatch } = usePlanCalendar();
+  const { fetchRange: fetchSavedRange, createBatch: createSavedBatch } = usePlanCalendar();
+
+  const [outletSearch, setOutletSearch] = useState('');
+  const { outlets } = useOutlet(outletSearch);
+  const [showDropdown, setShowDropdown] = useState(false);
+  const [outletId, setOutletId] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [intervalWeeks, setIntervalWeeks] = useState(1);
+  const [startDate, setStartDate] = useState(today);
+  const [weeks, setWeeks] = useState(HORIZON_OPTIONS[0]);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const outletOptions = useMemo(() => outlets.map(outlet => ({ id: String(outlet.id), name: outlet.name, code: outlet.code })), [outlets]);
+  const selectedOutlet = outletOptions.find(outlet => outlet.id === outletId) ?? null;
+
+  const draft = useMemo(() => selectedOutlet && weekdays.length > 0 ? createPlanTemplate({
+    outlet_id: Number(selectedOutlet.id),
+    outlet_name: selectedOutlet.name,
+    outlet_code: selectedOutlet.code,
+    weekdays,
+    interval_weeks: intervalWeeks,
+    start_date: startDate,
+  }) : null, [selectedOutlet, weekdays, intervalWeeks, startDate]);
+
+  const range = useMemo(() => generationRange({ start_date: startDate }, weeks, today), [startDate, weeks, today]);
+
+  // Plan yang sudah ada di rentang generate, untuk cek bentrok dan overload
+  useEffect(() => {
+    fetchRange(range.from, range.to);
+  }, [fetchRange, range.from, range.to]);
+
+  const preview = useMemo(
+    () => (draft ? previewTemplatePlans(draft, range.from, range.to, plans) : []),
+    [draft, range, plans]
+  );
+
+  // Konfirmasi dengan ringkasan peringatan sebelum membuat plan
+  const confirmGenerate = useCallback((
+    template: PlanTemplate,
+    items: TemplatePlanPreview[],
+    create: typeof createBatch,
+    onDone?: () => void
+  ) => {
+    const dates = items.filter(item => !item.duplicate).map(item => item.date);
+    if (dates.length === 0) {
+      Alert.alert('Tidak Ada Plan Baru', 'Semua tanggal dalam rentang ini sudah punya plan untuk outlet ini.');
+      return;
+    }
+    const toCreate = dates.length;
+    const skipped = items.length - toCreate;
+    const overloaded = items.filter(item => item.overloaded).length;
+    const lines = [
+      `${toCreate} plan visit akan dibuat untuk ${template.outlet_name} (${describeTemplate(template)}).`,
+      skipped > 0 ? `${skipped} tanggal dilewati karena sudah ada plan.` : null,
+      overloaded > 0 ? `${overloaded} hari melebihi ${DAILY_PLAN_LIMIT} plan.` : null,
+    ].filter(Boolean);
+
+    Alert.alert('Buat Plan Visit', lines.join('\n'), [
+      { text: 'Batal', style: 'cancel' },
+      {
+        text: 'Buat',
+        onPress: async () => {
+          setBusyId(template.id);
+          try {
+            const result = await create(dates.map(date => ({ outlet_id: template.outlet_id, visit_date: date })));
+            const failedText = result.failed.length > 0
+              ? `\n${result.failed.length} gagal: ${result.failed.map(item => item.data.visit_date).join(', ')}`
+              : '';
+            Alert.alert(result.created.length > 0 ? 'Berhasil' : 'Gagal', `${result.created.length} plan visit dibuat.${failedText}`);
+            if (result.created.length > 0) onDone?.();
+          } finally {
+            setBusyId(null);
+          }
+        },
+      },
+    ]);
+  }, []);
+
+  const handleSaveDraft = useCallback(async () => {
+    if (!draft) {
+      Alert.alert('Data Belum Lengkap', 'Pilih outlet dan minimal satu hari kunjungan.');
+      return;
+    }
+    await save(draft);
+    confirmGenerate(draft, preview, createBatch, () => {
+      setOutletId('');
+      setWeekdays([]);
+    });
+  }, [draft, preview, save, confirmGenerate, createBatch]);
+
+  const handleGenerateSaved = useCallback(async (template: PlanTemplate) => {
+    const { from, to } = generationRange(template, weeks, today);
+    setBusyId(template.id);
+    const existing = await fetchSavedRange(from, to);
+    setBusyId(null);
+    if (!existing.success) {
+      Alert.alert('Gagal', existing.error || 'Plan visit yang sudah ada tidak dapat dimuat.');
+      return;
+    }
+    const items = previewTemplatePlans(template, from, to, (existing.data ?? []) as SchedulablePlan[]);
+    // Preview template baru ikut diperbarui karena plan yang dibuat bisa jatuh di rentangnya
+    confirmGenerate(template, items, createSavedBatch, () => fetchRange(range.from, range.to));
+  }, [weeks, today, fetchSavedRange, createSavedBatch, confirmGenerate, fetchRange, range]);
+
+  const handleDelete = useCallback((template: PlanTemplate) => {
+    Alert.alert('Hapus Template', `Hapus jadwal ${template.outlet_name}? Plan visit yang sudah dibuat tidak ikut terhapus.`, [
+      { text: 'Batal', style: 'cancel' },
+      { text: 'Hapus', style: 'destructive', onPress: () => remove(template.id) },
+    ]);
+  }, [remove]);
+
+  const handleDateChange = useCallback((_: any, selected?: Date) => {
+    setShowDatePicker(false);
+    if (selected) setStartDate(toDateKey(selected));
+  }, []);
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={() => router.back()} />
+      <ScrollView className="flex-1" keyboardShouldPersistTaps="handled" contentContainerStyle={{ padding: 16, paddingBottom: 32 }}>
+        <SectionLabel colors={colors}>Buat untuk</SectionLabel>
+        <ChipGroup
+          options={HORIZON_OPTIONS.map(value => ({ value, label: `${value} minggu` }))}
+          isSelected={value => value === weeks}
+          onToggle={setWeeks}
+          colors={colors}
+        />
+
+        <SectionLabel colors={colors}>Template Tersimpan</SectionLabel>
+        {templatesLoading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : templates.length === 0 ? (
+          <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            Belum ada template. Buat jadwal berulang di bawah.
+          </Text>
+        ) : (
+          templates.map(template => (
+            <TemplateCard
+              key={template.id}
+              template={template}
+              busy={busyId === template.id}
+              colors={colors}
+              onGenerate={handleGenerateSaved}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+
+        <Text className="text-lg mt-6" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+          Template Baru
+        </Text>
+
+        <SectionLabel colors={colors}>Outlet</SectionLabel>
+        <OutletDropdown
+          outlets={outletOptions}
+          selectedOutletId={outletId || null}
+          onSelect={id => {
+            setOutletId(id);
+            setShowDropdown(false);
+          }}
+          onSearchChange={setOutletSearch}
+          showDropdown={showDropdown}
+          setShowDropdown={setShowDropdown}
+        />
+
+        <SectionLabel colors={colors}>Hari Kunjungan</SectionLabel>
+        <ChipGroup
+          options={WEEKDAY_OPTIONS.map(value => ({ value, label: WEEKDAY_SHORT_LABELS[value] }))}
+          isSelected={value => weekdays.includes(value)}
+          onToggle={value => setWeekdays(prev => (prev.includes(value) ? prev.filter(day => day !== value) : [...prev, value]))}
+          colors={colors}
+        />
+
+        <SectionLabel colors={colors}>Ulangi</SectionLabel>
+        <ChipGroup
+          options={INTERVAL_OPTIONS.map(value => ({ value, label: value === 1 ? 'Setiap minggu' : `Tiap ${value} minggu` }))}
+          isSelected={value => value === intervalWeeks}
+          onToggle={setIntervalWeeks}
+          colors={colors}
+        />
+
+        <SectionLabel colors={colors}>Mulai</SectionLabel>
+        <Pressable
+          className="rounded-lg border px-4 py-3 flex-row items-center justify-between"
+          style={{ borderColor: colors.border, backgroundColor: colors.card }}
+          onPress={() => setShowDatePicker(true)}
+          accessibilityRole="button"
+        >
+          <Text className="text-base" style={{ fontFamily: 'Inter', color: colors.text }}>{formatDate(startDate)}</Text>
+          <IconSymbol name="calendar" size={20} color={colors.textSecondary} />
+        </Pressable>
+        {showDatePicker && (
+          <DateTimePicker
+            value={parseDateKey(startDate)}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            onChange={handleDateChange}
+            minimumDate={new Date()}
+          />
+        )}
+
+        {draft && (
+          <>
+            <SectionLabel colors={colors}>
+              {describeTemplate(draft)} • {formatDate(range.from)} – {formatDate(range.to)}
+            </SectionLabel>
+            {plansLoading ? <ActivityIndicator color={colors.primary} /> : <PreviewList preview={preview} colors={colors} />}
+          </>
+        )}
+
+        <View className="mt-6">
+          <Button
+            title="Simpan & Buat Plan"
+            variant="primary"
+            fullWidth
+            onPress={handleSaveDraft}
+            disabled={!draft || plansLoading || busyId !== null}
+            loading={busyId !== null && busyId === draft?.id}
+          />
+        </View>
+      </ScrollView>
+    </View>
+  );
+});
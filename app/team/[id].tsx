@@ -0,0 +1,229 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Platform, Pressable, RefreshControl, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { usePlanCompliance } from '@/hooks/data/usePlanCompliance';
+import type { PlanVisit } from '@/hooks/data/usePlanVisit';
+import type { Visit } from '@/hooks/data/useVisit';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { parseServerTime } from '@/services/location-integrity';
+import { computeCompliance, describePeriod, formatRate, getPeriodRange, shiftPeriod } from '@/services/plan-compliance';
+import { toDateKey } from '@/services/plan-schedule';
+import { parseLatLong, regionForPoints } from '@/utils/geo';
+
+const formatTime = (value: string | null) => {
+  const time = parseServerTime(value);
+  return time !== null ? new Date(time).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' }) : '-';
+};
+
+const Header = React.memo(function Header({ title, colors, onBack }: { title: string; colors: any; onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }} numberOfLines={1}>
+            {title}
+          </Text>
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const StatBox = ({ label, value, colors }: { label: string; value: string; colors: any }) => (
+  <View className="flex-1 items-center py-3">
+    <Text className="text-lg" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>{value}</Text>
+    <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{label}</Text>
+  </View>
+);
+
+// Titik check-in kunjungan rep pada hari yang dipilih, bernomor sesuai urutan
+const CheckInMap = React.memo(function CheckInMap({ visits, colors }: { visits: Visit[]; colors: any }) {
+  const points = useMemo(() => visits.flatMap((visit, index) => {
+    const coords = parseLatLong(visit.checkin_location);
+    return coords ? [{ id: String(visit.id), number: index + 1, name: visit.outlet.name, time: formatTime(visit.checkin_time), coords }] : [];
+  }), [visits]);
+  const region = useMemo(() => regionForPoints(points.map(point => point.coords), 1.4, 0.01), [points]);
+
+  if (!region) return null;
+
+  return (
+    <View className="h-56 rounded-lg overflow-hidden mt-3">
+      <MapView
+        key={`${region.latitude}:${region.longitude}:${region.latitudeDelta}`}
+        style={{ flex: 1 }}
+        provider={Platform.OS === 'android' ? PROVIDER_GOOGLE : undefined}
+        initialRegion={region}
+        toolbarEnabled={false}
+      >
+        {points.map(point => (
+          <Marker key={point.id} coordinate={point.coords} title={`${point.number}. ${point.name}`} description={`Check-in ${point.time}`}>
+            <View className="w-7 h-7 rounded-full items-center justify-center border-2 border-white" style={{ backgroundColor: colors.primary }}>
+              <Text className="text-white text-xs" style={{ fontFamily: 'Inter_600SemiBold' }}>{point.number}</Text>
+            </View>
+          </Marker>
+        ))}
+      </MapView>
+    </View>
+  );
+});
+
+const VisitRow = React.memo(function VisitRow({ visit, colors, onPress }: { visit: Visit; colors: any; onPress: (id: string | number) => void }) {
+  const open = !!visit.checkin_time && !visit.checkout_time && !visit.auto_closed_at;
+
+  return (
+    <TouchableOpacity
+      onPress={() => onPress(visit.id)}
+      className="flex-row items-center px-3 py-2 border-b"
+      style={{ borderBottomColor: colors.border + '60' }}
+      accessibilityRole="button"
+    >
+      <View className="flex-1 mr-2">
+        <Text className="text-sm" style={{ fontFamily: 'Inter_500Medium', color: colors.text }} numberOfLines={1}>{visit.outlet.name}</Text>
+        <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          {formatTime(visit.checkin_time)} – {open ? 'sedang berlangsung' : formatTime(visit.checkout_time ?? visit.auto_closed_at ?? null)}
+          {visit.transaction === 'YES' ? ' • Transaksi' : ''}
+        </Text>
+      </View>
+      <IconSymbol name="chevron.right" size={16} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+});
+
+const PlanRow = React.memo(function PlanRow({ plan, visited, past, colors }: { plan: PlanVisit; visited: boolean; past: boolean; colors: any }) {
+  const status = visited
+    ? { label: 'Dikunjungi', color: colors.success }
+    : past
+      ? { label: 'Terlewat', color: colors.danger }
+      : { label: 'Belum', color: colors.textSecondary };
+
+  return (
+    <View className="flex-row items-center justify-between px-3 py-2 border-b" style={{ borderBottomColor: colors.border + '60' }}>
+      <Text className="text-sm flex-1 mr-2" style={{ fontFamily: 'Inter', color: colors.text }} numberOfLines={1}>
+        {plan.outlet?.name ?? `Outlet ${plan.outlet_id}`}
+      </Text>
+      <Text className="text-xs" style={{ fontFamily: 'Inter_500Medium', color: status.color }}>{status.label}</Text>
+    </View>
+  );
+});
+
+const SectionTitle = ({ children, colors }: { children: React.ReactNode; colors: any }) => (
+  <Text className="text-base mt-4 mb-2" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>{children}</Text>
+);
+
+/**
+ * Kunjungan dan plan visit satu rep per hari, dilihat oleh supervisor.
+ */
+export default React.memo(function TeamMemberScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { id, name } = useLocalSearchParams<{ id: string; name?: string }>();
+  const today = useMemo(() => toDateKey(new Date()), []);
+
+  const { plans, visits, loading, error, fetchPeriod } = usePlanCompliance(id);
+  const [date, setDate] = useState(today);
+
+  const range = useMemo(() => getPeriodRange('day', date), [date]);
+  const summary = useMemo(() => computeCompliance(plans, visits, range, today), [plans, visits, range, today]);
+  const dayVisits = useMemo(
+    () => [...visits].sort((a, b) => (parseServerTime(a.checkin_time) ?? 0) - (parseServerTime(b.checkin_time) ?? 0)),
+    [visits]
+  );
+  const visitedOutlets = useMemo(() => new Set(visits.map(visit => String(visit.outlet.id))), [visits]);
+
+  useEffect(() => {
+    if (id) fetchPeriod(range.from, range.to);
+  }, [id, fetchPeriod, range.from, range.to]);
+
+  const handleRefresh = useCallback(() => {
+    fetchPeriod(range.from, range.to);
+  }, [fetchPeriod, range.from, range.to]);
+
+  const handleOpenVisit = useCallback((visitId: string | number) => {
+    router.push({ pathname: '/visit/view', params: { id: String(visitId) } });
+  }, []);
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header title={name || 'Aktivitas Rep'} colors={colors} onBack={() => router.back()} />
+      <View className="flex-row items-center justify-between px-4 pt-3">
+        <TouchableOpacity onPress={() => setDate(prev => shiftPeriod('day', prev, -1))} className="p-2" accessibilityRole="button" accessibilityLabel="Hari sebelumnya">
+          <IconSymbol name="chevron.left" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <Text className="text-base" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>{describePeriod('day', range)}</Text>
+        <TouchableOpacity
+          onPress={() => setDate(prev => shiftPeriod('day', prev, 1))}
+          disabled={date >= today}
+          className="p-2"
+          accessibilityRole="button"
+          accessibilityLabel="Hari berikutnya"
+        >
+          <IconSymbol name="chevron.right" size={20} color={date >= today ? colors.border : colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+        refreshControl={<RefreshControl refreshing={loading && visits.length > 0} onRefresh={handleRefresh} />}
+      >
+        {loading && visits.length === 0 && plans.length === 0 ? (
+          <ActivityIndicator color={colors.primary} style={{ marginTop: 32 }} />
+        ) : error ? (
+          <Text className="text-sm text-center mt-8" style={{ fontFamily: 'Inter', color: colors.danger }}>{error}</Text>
+        ) : (
+          <>
+            <View className="flex-row rounded-lg border" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+              <StatBox label="Plan" value={`${summary.visited}/${summary.planned}`} colors={colors} />
+              <StatBox label="Kunjungan" value={String(summary.totalVisits)} colors={colors} />
+              <StatBox label="Strike Rate" value={formatRate(summary.strikeRate)} colors={colors} />
+            </View>
+
+            <CheckInMap visits={dayVisits} colors={colors} />
+
+            <SectionTitle colors={colors}>Kunjungan ({dayVisits.length})</SectionTitle>
+            <View className="rounded-lg border" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+              {dayVisits.length === 0 ? (
+                <Text className="text-sm p-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>Belum ada kunjungan.</Text>
+              ) : (
+                dayVisits.map(visit => <VisitRow key={String(visit.id)} visit={visit} colors={colors} onPress={handleOpenVisit} />)
+              )}
+            </View>
+
+            <SectionTitle colors={colors}>Plan Visit ({plans.length})</SectionTitle>
+            <View className="rounded-lg border" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+              {plans.length === 0 ? (
+                <Text className="text-sm p-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>Tidak ada plan di hari ini.</Text>
+              ) : (
+                plans.map(plan => (
+                  <PlanRow
+                    key={String(plan.id)}
+                    plan={plan}
+                    visited={visitedOutlets.has(String(plan.outlet_id))}
+                    past={date < today}
+                    colors={colors}
+                  />
+                ))
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+});
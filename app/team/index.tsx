@@ -0,0 +1,193 @@
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo } from 'react';
+import { ActivityIndicator, FlatList, Platform, Pressable, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/context/auth-context';
+import { useTeam } from '@/hooks/data/useTeam';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { toDateKey } from '@/services/plan-schedule';
+import { getSupervisedScopes, isSupervisor, RepActivity, RepDayStatus, REP_STATUS_LABELS, summarizeTeam } from '@/services/team-activity';
+import { regionForPoints } from '@/utils/geo';
+
+const statusColor = (status: RepDayStatus, colors: any) =>
+  status === 'in_visit' ? colors.warning : status === 'done' ? colors.success : colors.textSecondary;
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
+const Header = React.memo(function Header({ colors, onBack, onRefresh }: { colors: any; onBack: () => void; onRefresh: () => void }) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Tim Saya
+          </Text>
+        </View>
+        <Pressable
+          onPress={onRefresh}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Muat ulang aktivitas tim"
+        >
+          <IconSymbol name="arrow.clockwise" size={22} color="#fff" />
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+// Posisi check-in terakhir tiap rep hari ini
+const TeamMap = React.memo(function TeamMap({ activity, colors }: { activity: RepActivity[]; colors: any }) {
+  const points = useMemo(() => activity.flatMap(item =>
+    item.lastCheckIn?.location ? [{ item, coords: item.lastCheckIn.location }] : []
+  ), [activity]);
+  const region = useMemo(() => regionForPoints(points.map(point => point.coords), 1.4, 0.01), [points]);
+
+  if (!region) return null;
+
+  return (
+    <View className="h-56 rounded-lg overflow-hidden mb-3">
+      <MapView
+        key={`${region.latitude}:${region.longitude}:${region.latitudeDelta}`}
+        style={{ flex: 1 }}
+        provider={Platform.OS === 'android' ? PROVIDER_GOOGLE : undefined}
+        initialRegion={region}
+        toolbarEnabled={false}
+      >
+        {points.map(({ item, coords }) => (
+          <Marker
+            key={String(item.member.id)}
+            coordinate={coords}
+            title={item.member.name}
+            description={`${item.lastCheckIn!.outletName} • ${formatTime(item.lastCheckIn!.time)}`}
+            pinColor={statusColor(item.status, colors)}
+          />
+        ))}
+      </MapView>
+    </View>
+  );
+});
+
+const StatusSummary = React.memo(function StatusSummary({ activity, colors }: { activity: RepActivity[]; colors: any }) {
+  const summary = useMemo(() => summarizeTeam(activity), [activity]);
+  const statuses: RepDayStatus[] = ['in_visit', 'done', 'not_started'];
+
+  return (
+    <View className="flex-row rounded-lg border mb-3" style={{ borderColor: colors.border, backgroundColor: colors.card }}>
+      {statuses.map(status => (
+        <View key={status} className="flex-1 items-center py-3">
+          <Text className="text-xl" style={{ fontFamily: 'Inter_600SemiBold', color: statusColor(status, colors) }}>{summary[status]}</Text>
+          <Text className="text-xs" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>{REP_STATUS_LABELS[status]}</Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+const RepItem = React.memo(function RepItem({ item, colors, onPress }: {
+  item: RepActivity;
+  colors: any;
+  onPress: (item: RepActivity) => void;
+}) {
+  const color = statusColor(item.status, colors);
+
+  return (
+    <TouchableOpacity
+      onPress={() => onPress(item)}
+      className="flex-row items-center p-3 mb-2 rounded-lg border"
+      style={{ backgroundColor: colors.card, borderColor: colors.border }}
+      accessibilityRole="button"
+      accessibilityLabel={`Lihat aktivitas ${item.member.name}`}
+    >
+      <View className="flex-1">
+        <View className="flex-row items-center justify-between">
+          <Text className="text-base flex-1 mr-2" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }} numberOfLines={1}>
+            {item.member.name}
+          </Text>
+          <View className="px-2 py-0.5 rounded-full" style={{ backgroundColor: color + '20' }}>
+            <Text className="text-xs" style={{ fontFamily: 'Inter_500Medium', color }}>{REP_STATUS_LABELS[item.status]}</Text>
+          </View>
+        </View>
+        <Text className="text-sm" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          {item.visitCount} kunjungan • {item.visitedPlanCount}/{item.plannedCount} plan
+        </Text>
+        {item.lastCheckIn && (
+          <Text className="text-xs mt-1" style={{ fontFamily: 'Inter', color: colors.textSecondary }} numberOfLines={1}>
+            Check-in terakhir {formatTime(item.lastCheckIn.time)} di {item.lastCheckIn.outletName || '-'}
+          </Text>
+        )}
+      </View>
+      <IconSymbol name="chevron.right" size={18} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+});
+
+/**
+ * Aktivitas lapangan hari ini untuk rep dalam region/cluster supervisor.
+ */
+export default React.memo(function TeamScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { user, permissions } = useAuth();
+  const { activity, loading, error, fetchTeam } = useTeam();
+
+  const canViewTeam = isSupervisor(user?.user_scopes, permissions);
+  const scopes = useMemo(() => (canViewTeam ? getSupervisedScopes(user?.user_scopes) : []), [canViewTeam, user?.user_scopes]);
+  const userId = user?.id;
+
+  const load = useCallback(() => {
+    if (scopes.length > 0) fetchTeam(scopes, userId, toDateKey(new Date()));
+  }, [fetchTeam, scopes, userId]);
+
+  useFocusEffect(load);
+
+  const handleOpenRep = useCallback((item: RepActivity) => {
+    router.push({ pathname: '/team/[id]', params: { id: String(item.member.id), name: item.member.name } });
+  }, []);
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={() => router.back()} onRefresh={load} />
+      <FlatList
+        data={activity}
+        keyExtractor={item => String(item.member.id)}
+        renderItem={({ item }) => <RepItem item={item} colors={colors} onPress={handleOpenRep} />}
+        contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+        onRefresh={load}
+        refreshing={loading && activity.length > 0}
+        ListHeaderComponent={activity.length > 0 ? (
+          <>
+            <TeamMap activity={activity} colors={colors} />
+            <StatusSummary activity={activity} colors={colors} />
+          </>
+        ) : null}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator color={colors.primary} style={{ marginTop: 32 }} />
+          ) : (
+            <View className="items-center mt-12 px-6">
+              <IconSymbol name="person.2.fill" size={32} color={colors.textSecondary} />
+              <Text className="text-base text-center mt-3" style={{ fontFamily: 'Inter', color: error ? colors.danger : colors.textSecondary }}>
+                {error || (canViewTeam ? 'Belum ada rep di region/cluster Anda.' : 'Akun ini tidak memiliki akses ke aktivitas tim.')}
+              </Text>
+            </View>
+          )
+        }
+      />
+    </View>
+  );
+});
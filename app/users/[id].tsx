@@ -0,0 +1,341 @@
+// React & React Native
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Keyboard, KeyboardAvoidingView, Platform, ScrollView, Text, TouchableOpacity, TouchableWithoutFeedback, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// Third-party libraries
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+// Local components
+import { UserScopeFields } from '@/components/UserScopeFields';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Input } from '@/components/ui/Input';
+
+// Constants & utilities
+import { Colors } from '@/constants/Colors';
+
+// Hooks & contexts
+import { useAuth } from '@/context/auth-context';
+import { getUserRoleName, isUserActive, useUsers } from '@/hooks/data/useUsers';
+import { toUserPayload, userToFormData, useUserForm, useUserScopeFields } from '@/hooks/form/useUserForm';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { usePermission } from '@/hooks/utils/usePermission';
+
+const Header = React.memo(function Header({
+  colors,
+  onBack,
+}: {
+  colors: any;
+  onBack: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+
+  const headerStyle = useMemo(() => ({
+    paddingTop: insets.top + 12,
+    backgroundColor: colors.primary
+  }), [insets.top, colors.primary]);
+
+  return (
+    <View className="px-4 pb-4" style={headerStyle}>
+      <View className="flex-row justify-between items-center">
+        <TouchableOpacity
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Detail User
+          </Text>
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const MessageScreen = React.memo(function MessageScreen({
+  colors,
+  onBack,
+  icon,
+  message,
+  loading,
+}: {
+  colors: any;
+  onBack: () => void;
+  icon?: any;
+  message: string;
+  loading?: boolean;
+}) {
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={onBack} />
+      <View className="flex-1 justify-center items-center px-6">
+        {loading ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <IconSymbol name={icon} size={40} color={colors.textSecondary} />
+        )}
+        <Text className="text-base text-center mt-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+          {message}
+        </Text>
+      </View>
+    </View>
+  );
+});
+
+export default React.memo(function UserDetailPage() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user: currentUser } = useAuth();
+  const canManageUsers = usePermission('create_user');
+  const canDeactivateUser = usePermission('deactivate_user');
+  const canDeleteUser = usePermission('delete_user');
+
+  const { user, loading, error, fetchUser, updateUser, setUserActive, deleteUser } = useUsers();
+  const { formData, setFormData, updateField, resetDependentFields, isFormValid } = useUserForm();
+  const scope = useUserScopeFields(formData, updateField, resetDependentFields);
+  const { loadScopeOptions } = scope;
+
+  const [processing, setProcessing] = useState<'status' | 'delete' | null>(null);
+
+  const isSelf = !!currentUser && !!user && String(currentUser.id) === String(user.id);
+  const active = user ? isUserActive(user) : true;
+
+  useEffect(() => {
+    if (!id || !canManageUsers) return;
+    fetchUser(id).then(result => {
+      if (result.success && result.data) {
+        const values = userToFormData(result.data);
+        setFormData(values);
+        loadScopeOptions(values);
+      }
+    });
+  }, [id, canManageUsers, fetchUser, setFormData, loadScopeOptions]);
+
+  const handleGoBack = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const handleSave = useCallback(async () => {
+    if (!user) return;
+    const result = await updateUser(user.id, toUserPayload(formData));
+    if (result.success) {
+      Alert.alert('Sukses', 'Data user berhasil diperbarui.');
+    } else {
+      Alert.alert('Gagal', result.error || 'Data user gagal diperbarui.');
+    }
+  }, [user, formData, updateUser]);
+
+  const handleToggleActive = useCallback(() => {
+    if (!user) return;
+    const nextActive = !active;
+    Alert.alert(
+      nextActive ? 'Aktifkan User' : 'Nonaktifkan User',
+      nextActive
+        ? `${user.name} akan bisa login kembali.`
+        : `${user.name} tidak akan bisa login sampai diaktifkan kembali.`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: nextActive ? 'Aktifkan' : 'Nonaktifkan',
+          style: nextActive ? 'default' : 'destructive',
+          onPress: async () => {
+            setProcessing('status');
+            const result = await setUserActive(user.id, nextActive);
+            setProcessing(null);
+            if (!result.success) {
+              Alert.alert('Gagal', result.error || 'Status user gagal diubah.');
+            }
+          },
+        },
+      ]
+    );
+  }, [user, active, setUserActive]);
+
+  const handleDelete = useCallback(() => {
+    if (!user) return;
+    Alert.alert(
+      'Hapus User',
+      `Hapus ${user.name} secara permanen? Tindakan ini tidak dapat dibatalkan.`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Hapus',
+          style: 'destructive',
+          onPress: async () => {
+            setProcessing('delete');
+            const result = await deleteUser(user.id);
+            setProcessing(null);
+            if (result.success) {
+              Alert.alert('Sukses', 'User berhasil dihapus.', [
+                { text: 'OK', onPress: handleGoBack }
+              ]);
+            } else {
+              Alert.alert('Gagal', result.error || 'User gagal dihapus.');
+            }
+          },
+        },
+      ]
+    );
+  }, [user, deleteUser, handleGoBack]);
+
+  if (!canManageUsers) {
+    return (
+      <MessageScreen
+        colors={colors}
+        onBack={handleGoBack}
+        icon="lock.fill"
+        message="Anda tidak memiliki akses untuk mengelola user."
+      />
+    );
+  }
+
+  if (!user) {
+    return (
+      <MessageScreen
+        colors={colors}
+        onBack={handleGoBack}
+        icon="exclamationmark.triangle"
+        loading={loading || !error}
+        message={error || 'Memuat data user...'}
+      />
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <Header colors={colors} onBack={handleGoBack} />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+      >
+        <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+          <ScrollView
+            className="flex-1"
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={{ paddingBottom: 32 }}
+          >
+            <View className="px-4 pt-6">
+              {/* Status */}
+              <Card className="mb-6 p-4 flex-row items-center">
+                <View
+                  className="w-10 h-10 rounded-lg items-center justify-center mr-3"
+                  style={{ backgroundColor: colors.primary + '20' }}
+                >
+                  <IconSymbol name="person.fill" size={20} color={colors.primary} />
+                </View>
+                <View className="flex-1">
+                  <Text style={{ fontFamily: 'Inter' }} className="text-base font-semibold text-neutral-900 dark:text-neutral-100" numberOfLines={1}>
+                    {user.name}
+                  </Text>
+                  <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-600 dark:text-neutral-400" numberOfLines={1}>
+                    {getUserRoleName(user)}
+                  </Text>
+                </View>
+                <View className={`px-2 py-0.5 rounded-full ${active ? 'bg-success-100' : 'bg-danger-100'}`}>
+                  <Text style={{ fontFamily: 'Inter' }} className={`text-xs font-semibold ${active ? 'text-success-700' : 'text-danger-700'}`}>
+                    {active ? 'Aktif' : 'Nonaktif'}
+                  </Text>
+                </View>
+              </Card>
+
+              {/* Personal Information */}
+              <View className="space-y-6 mb-8 w-full gap-5">
+                <Input
+                  label="Nama Lengkap"
+                  placeholder="Masukkan nama lengkap"
+                  value={formData.name}
+                  onChangeText={(value) => updateField('name', value)}
+                  size="lg"
+                  maxLength={50}
+                />
+
+                <Input
+                  label="Username"
+                  placeholder="Masukkan username"
+                  value={formData.username}
+                  onChangeText={(value) => updateField('username', value)}
+                  size="lg"
+                  autoCapitalize="none"
+                  maxLength={30}
+                />
+
+                <Input
+                  label="No. HP"
+                  placeholder="Masukkan nomor HP"
+                  value={formData.phone}
+                  onChangeText={(value) => updateField('phone', value)}
+                  size="lg"
+                  keyboardType="phone-pad"
+                  maxLength={15}
+                />
+              </View>
+
+              {/* Role & Organization */}
+              <UserScopeFields formData={formData} scope={scope} colors={colors} />
+
+              <View className="mb-4">
+                <Button
+                  title={loading ? 'Menyimpan...' : 'Simpan Perubahan'}
+                  variant="primary"
+                  size="lg"
+                  fullWidth={true}
+                  onPress={handleSave}
+                  disabled={!isFormValid || loading || processing !== null}
+                  loading={loading}
+                />
+              </View>
+
+              {/* Account actions: not available on your own account */}
+              {!isSelf && (canDeactivateUser || canDeleteUser) && (
+                <View className="mt-4 gap-3">
+                  {canDeactivateUser && (
+                    <Button
+                      title={active ? 'Nonaktifkan User' : 'Aktifkan User'}
+                      variant="outline"
+                      size="lg"
+                      fullWidth={true}
+                      onPress={handleToggleActive}
+                      disabled={processing !== null}
+                      loading={processing === 'status'}
+                      leftIcon={
+                        <IconSymbol
+                          name={active ? 'person.crop.circle.badge.xmark' : 'person.crop.circle.badge.checkmark'}
+                          size={18}
+                          color={colors.primary}
+                        />
+                      }
+                    />
+                  )}
+                  {canDeleteUser && (
+                    <Button
+                      title="Hapus User"
+                      variant="danger"
+                      size="lg"
+                      fullWidth={true}
+                      onPress={handleDelete}
+                      disabled={processing !== null}
+                      loading={processing === 'delete'}
+                      leftIcon={<IconSymbol name="trash" size={18} color="#fff" />}
+                    />
+                  )}
+                </View>
+              )}
+            </View>
+          </ScrollView>
+        </TouchableWithoutFeedback>
+      </KeyboardAvoidingView>
+    </View>
+  );
+});
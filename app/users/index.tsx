@@ -0,0 +1,238 @@
+// React & React Native
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, FlatList, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// Third-party libraries
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useDebounce } from 'use-debounce';
+
+// Local components
+import { Card } from '@/components/ui/Card';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Input } from '@/components/ui/Input';
+
+// Constants & utilities
+import { Colors } from '@/constants/Colors';
+
+// Hooks & contexts
+import { getUserRoleName, isUserActive, ManagedUser, useUsers } from '@/hooks/data/useUsers';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { usePermission } from '@/hooks/utils/usePermission';
+
+const PER_PAGE = 20;
+
+const Header = React.memo(function Header({
+  colors,
+  onBack,
+  onAdd,
+}: {
+  colors: any;
+  onBack: () => void;
+  onAdd?: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+
+  const headerStyle = useMemo(() => ({
+    paddingTop: insets.top + 12,
+    backgroundColor: colors.primary
+  }), [insets.top, colors.primary]);
+
+  return (
+    <View className="px-4 pb-4" style={headerStyle}>
+      <View className="flex-row justify-between items-center">
+        <TouchableOpacity
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Kelola User
+          </Text>
+        </View>
+        {onAdd ? (
+          <TouchableOpacity
+            onPress={onAdd}
+            className="w-8 h-8 items-center justify-center"
+            accessibilityRole="button"
+            accessibilityLabel="Tambah User"
+          >
+            <IconSymbol name="plus" size={24} color="#fff" />
+          </TouchableOpacity>
+        ) : (
+          <View className="w-8 h-8" />
+        )}
+      </View>
+    </View>
+  );
+});
+
+const UserCard = React.memo(function UserCard({
+  user,
+  colors,
+  onPress,
+}: {
+  user: ManagedUser;
+  colors: any;
+  onPress: (user: ManagedUser) => void;
+}) {
+  const active = isUserActive(user);
+
+  return (
+    <TouchableOpacity
+      onPress={() => onPress(user)}
+      className="rounded-xl p-4 mb-3 border bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-700"
+      activeOpacity={0.7}
+    >
+      <View className="flex-row items-center">
+        <View
+          className="w-10 h-10 rounded-lg items-center justify-center mr-3"
+          style={{ backgroundColor: colors.primary + '20' }}
+        >
+          <IconSymbol name="person.fill" size={20} color={colors.primary} />
+        </View>
+        <View className="flex-1">
+          <View className="flex-row items-center">
+            <Text
+              style={{ fontFamily: 'Inter' }}
+              className="flex-1 text-base font-semibold text-neutral-900 dark:text-neutral-100"
+              numberOfLines={1}
+            >
+              {user.name}
+            </Text>
+            {!active && (
+              <View className="ml-2 px-2 py-0.5 rounded-full bg-danger-100">
+                <Text style={{ fontFamily: 'Inter' }} className="text-xs font-semibold text-danger-700">
+                  Nonaktif
+                </Text>
+              </View>
+            )}
+          </View>
+          <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-600 dark:text-neutral-400 mt-0.5" numberOfLines={1}>
+            @{user.username} • {getUserRoleName(user)}
+          </Text>
+        </View>
+        <IconSymbol name="chevron.right" size={20} color={colors.textSecondary} />
+      </View>
+    </TouchableOpacity>
+  );
+});
+
+export default React.memo(function UserListPage() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const router = useRouter();
+  const canManageUsers = usePermission('create_user');
+  const { users, meta, loading, error, fetchUsers } = useUsers();
+
+  const [search, setSearch] = useState('');
+  const [debouncedSearch] = useDebounce(search, 300);
+  const [page, setPage] = useState(1);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadPage = useCallback((newPage: number) => {
+    setPage(newPage);
+    return fetchUsers({ page: newPage, per_page: PER_PAGE, search: debouncedSearch.trim() || undefined });
+  }, [fetchUsers, debouncedSearch]);
+
+  // Runs on focus and whenever the search changes, so edits made in the detail screen show up on return
+  useFocusEffect(
+    useCallback(() => {
+      if (canManageUsers) loadPage(1);
+    }, [canManageUsers, loadPage])
+  );
+
+  const handleGoBack = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const handleAdd = useCallback(() => {
+    router.push('/add-user');
+  }, [router]);
+
+  const handleOpenUser = useCallback((user: ManagedUser) => {
+    router.push(`/users/${encodeURIComponent(String(user.id))}`);
+  }, [router]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadPage(1);
+    setRefreshing(false);
+  }, [loadPage]);
+
+  const handleEndReached = useCallback(() => {
+    if (loading || !meta || page >= meta.last_page) return;
+    loadPage(page + 1);
+  }, [loading, meta, page, loadPage]);
+
+  if (!canManageUsers) {
+    return (
+      <View className="flex-1" style={{ backgroundColor: colors.background }}>
+        <Header colors={colors} onBack={handleGoBack} />
+        <View className="flex-1 justify-center items-center px-6">
+          <IconSymbol name="lock.fill" size={40} color={colors.textSecondary} />
+          <Text className="text-base text-center mt-3" style={{ fontFamily: 'Inter', color: colors.textSecondary }}>
+            Anda tidak memiliki akses untuk mengelola user.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Header colors={colors} onBack={handleGoBack} onAdd={handleAdd} />
+
+      <View className="px-4 pt-4">
+        <Input
+          placeholder="Cari nama, username, atau no. HP"
+          value={search}
+          onChangeText={setSearch}
+          autoCapitalize="none"
+          autoCorrect={false}
+          leftIcon={<IconSymbol name="magnifyingglass" size={18} color={colors.textSecondary} />}
+        />
+      </View>
+
+      <FlatList
+        data={users}
+        keyExtractor={(item) => String(item.id)}
+        showsVerticalScrollIndicator={false}
+        onRefresh={handleRefresh}
+        refreshing={refreshing}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.3}
+        keyboardShouldPersistTaps="handled"
+        renderItem={({ item }) => (
+          <UserCard user={item} colors={colors} onPress={handleOpenUser} />
+        )}
+        contentContainerStyle={{ padding: 16, paddingBottom: 100 }}
+        ListFooterComponent={
+          loading && page > 1 ? <ActivityIndicator className="py-4" color={colors.primary} /> : null
+        }
+        ListEmptyComponent={
+          <Card className="mt-10 p-6 items-center justify-center border-0 shadow-sm">
+            {loading ? (
+              <ActivityIndicator size="large" color={colors.primary} />
+            ) : (
+              <View className="items-center">
+                <IconSymbol name="person.2.fill" size={32} color={colors.primary} />
+                <Text style={{ fontFamily: 'Inter' }} className="text-base text-neutral-600 dark:text-neutral-400 text-center mt-3">
+                  {error
+                    ? error
+                    : debouncedSearch
+                      ? `Tidak ada user yang cocok dengan "${debouncedSearch}".`
+                      : 'Belum ada user.'}
+                </Text>
+              </View>
+            )}
+          </Card>
+        }
+      />
+    </View>
+  );
+});
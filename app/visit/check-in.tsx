@@ -11,21 +11,37 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import ViewShot, { captureRef } from 'react-native-view-shot';
 import { useDebounce } from 'use-debounce';
 
+import { AutoCloseVisitModal } from '@/components/AutoCloseVisitModal';
 import { LocationStatus } from '@/components/LocationStatus';
 import { Button } from '@/components/ui/Button';
 import { IconSymbol } from '@/components/ui/IconSymbol';
-import { WatermarkOverlay } from '@/components/WatermarkOverlay';
+import { WatermarkData, WatermarkOverlay } from '@/components/WatermarkOverlay';
 import { Colors } from '@/constants/Colors';
+import { useNetwork } from '@/context/network-context';
+import { useOpenVisit } from '@/context/open-visit-context';
+import { useOutbox } from '@/context/outbox-context';
 import { useOutlet } from '@/hooks/data/useOutlet';
 import { usePlanVisit } from '@/hooks/data/usePlanVisit';
-import { useVisit } from '@/hooks/data/useVisit';
+import { checkInUploadId, useVisit } from '@/hooks/data/useVisit';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useDailyRoute } from '@/hooks/utils/useDailyRoute';
+import { useLocationIntegrity } from '@/hooks/utils/useLocationIntegrity';
+import { useOutletDistanceValidation } from '@/hooks/utils/useOutletDistanceValidation';
+import { usePhotoManifest } from '@/hooks/utils/usePhotoManifest';
+import { useUploadTransfer } from '@/hooks/utils/useUploadTransfer';
+import { formatIntegrityLabel, integrityFields, LocationFix } from '@/services/location-integrity';
+import { getRouteDate } from '@/services/daily-route';
+import { isBlockedByOpenVisit } from '@/services/open-visit';
+import { parseLatLong } from '@/utils/geo';
+import { describeGeofenceDistance, GeofenceBoundary } from '@/utils/geofence';
 import { processImageWithTargetSize, validateImage } from '@/utils/imageProcessor';
 
 interface LocationCoords {
   latitude: number;
   longitude: number;
   accuracy?: number;
+  mocked?: boolean;
+  timestamp?: number;
 }
 
 interface PhotoMeta {
@@ -42,40 +58,12 @@ interface OutletDisplayData {
   code: string;
   district: string;
   location: string;
-  radius: number;
+  radius: number | null;
+  boundary: GeofenceBoundary | null;
   planVisitId: string | null;
   visitDate: string | null;
 }
 
-function parseLatLong(latlong: string): { latitude: number; longitude: number } | null {
-  if (!latlong) {
-    console.log('[PARSE_LATLONG] No latlong provided');
-    return null;
-  }
-  const [lat, lng] = latlong.split(',').map(Number);
-  if (isNaN(lat) || isNaN(lng)) {
-    console.log(`[PARSE_LATLONG] Invalid coordinates: ${latlong} -> lat: ${lat}, lng: ${lng}`);
-    return null;
-  }
-  console.log(`[PARSE_LATLONG] Parsed successfully: ${latlong} -> lat: ${lat}, lng: ${lng}`);
-  return { latitude: lat, longitude: lng };
-}
-
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3;
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) *
-    Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  
-  return R * c;
-}
-
 const useLocationManager = () => {
   const [currentLocation, setCurrentLocation] = useState<LocationCoords | null>(null);
   const [loadingLocation, setLoadingLocation] = useState(false);
@@ -124,6 +112,8 @@ const useLocationManager = () => {
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
         accuracy: location.coords.accuracy ?? undefined,
+        mocked: location.mocked,
+        timestamp: location.timestamp,
       });
     } catch (error) {
       console.error('Error getting location:', error);
@@ -150,17 +140,20 @@ const useOutletManager = () => {
   const [outletSearch, setOutletSearch] = useState('');
   const [debouncedSearch] = useDebounce(outletSearch, 400);
 
-  const { outlets, loading: loadingOutlets, fetchOutletsAdvanced } = useOutlet('');
+  const { outlets, loading: loadingOutlets, fetchOutletsAdvanced } = useOutlet();
   const { planVisits, loading: loadingPlanVisits, fetchPlanVisits } = usePlanVisit();
+  // Plan hari ini mengikuti urutan rute yang disimpan di layar Rute Hari Ini
+  const { ordered: routedPlanVisits } = useDailyRoute(getRouteDate(), planVisits);
 
   const displayData: OutletDisplayData[] = visitType === 'planned' ? 
-    planVisits.map(pv => ({
+    routedPlanVisits.map(pv => ({
       id: String(pv.outlet.id),
       name: pv.outlet.name,
       code: pv.outlet.code,
       district: pv.outlet.district || '',
       location: pv.outlet.location || '',
-      radius: pv.outlet.radius || 0,
+      radius: pv.outlet.radius ?? null,
+      boundary: pv.outlet.boundary ?? null,
       planVisitId: String(pv.id),
       visitDate: pv.visit_date
     })) : 
@@ -170,7 +163,8 @@ const useOutletManager = () => {
       code: outlet.code,
       district: outlet.district || '',
       location: outlet.location || '',
-      radius: outlet.radius || 0,
+      radius: outlet.radius ?? null,
+      boundary: outlet.boundary ?? null,
       planVisitId: null,
       visitDate: null
     }));
@@ -552,7 +546,8 @@ const SimpleCameraScreen = memo(function SimpleCameraScreen({
   isProcessingPhoto,
   onTakePhoto,
   onGoBack,
-  selectedOutlet
+  selectedOutlet,
+  uploadProgress
 }: {
   hasCameraPermission: any;
   requestCameraPermission: () => void;
@@ -566,6 +561,8 @@ const SimpleCameraScreen = memo(function SimpleCameraScreen({
   onTakePhoto: () => void;
   onGoBack: () => void;
   selectedOutlet: OutletDisplayData | null;
+  // 0..1 saat foto sedang diunggah, null jika tidak ada upload
+  uploadProgress: number | null;
 }) {
   const insets = useSafeAreaInsets();
   
@@ -589,10 +586,12 @@ const SimpleCameraScreen = memo(function SimpleCameraScreen({
     [isFlashOn]
   );
   
-  const buttonTitle = useMemo(() => 
-    isProcessingPhoto ? 'Mengompresi...' : 'Kirim',
-    [isProcessingPhoto]
-  );
+  const uploadPercent = uploadProgress !== null ? Math.round(uploadProgress * 100) : null;
+
+  const buttonTitle = useMemo(() => {
+    if (uploadPercent !== null) return `Mengunggah ${uploadPercent}%`;
+    return isProcessingPhoto ? 'Mengompresi...' : 'Kirim';
+  }, [isProcessingPhoto, uploadPercent]);
   
   return (
     <View className="flex-1 bg-black">
@@ -673,9 +672,11 @@ const SimpleCameraScreen = memo(function SimpleCameraScreen({
         <View className="absolute inset-0 bg-black/50 items-center justify-center z-40">
           <View className="bg-white rounded-xl p-6 mx-8 items-center">
             <ActivityIndicator size="large" color="#f97316" />
-            <Text className="text-black text-lg font-semibold mt-4">Memproses Foto</Text>
+            <Text className="text-black text-lg font-semibold mt-4">
+              {uploadPercent !== null ? 'Mengunggah Foto' : 'Memproses Foto'}
+            </Text>
             <Text className="text-neutral-600 text-sm mt-2 text-center">
-              Sedang mengompresi gambar...
+              {uploadPercent !== null ? `${uploadPercent}% terkirim` : 'Sedang mengompresi gambar...'}
             </Text>
             <Text className="text-neutral-500 text-xs mt-2 text-center">
               Mohon tunggu, proses ini membutuhkan beberapa detik
@@ -699,7 +700,16 @@ export default memo(function CheckInScreen() {
   // Custom hooks
   const locationManager = useLocationManager();
   const outletManager = useOutletManager();
-  const { checkInVisit, checkVisitStatus } = useVisit();
+  const { checkVisitStatus } = useVisit();
+  const { submitVisitRequest } = useOutbox();
+  const { openVisit, trackCheckIn } = useOpenVisit();
+  const [showAutoClose, setShowAutoClose] = useState(false);
+  const { checkLocation, fetchPreviousVisitFix } = useLocationIntegrity();
+  const photoManifest = usePhotoManifest();
+  const checkInUpload = useUploadTransfer(
+    outletManager.selectedOutletId ? checkInUploadId(outletManager.selectedOutletId) : null
+  );
+  const { isConnected } = useNetwork();
 
   // Camera management
   const [cameraRef, setCameraRef] = useState<any>(null);
@@ -708,19 +718,14 @@ export default memo(function CheckInScreen() {
   const [isFlashOn, setIsFlashOn] = useState(false);
   const [isProcessingPhoto, setIsProcessingPhoto] = useState(false);
   const [rawPhoto, setRawPhoto] = useState<string | null>(null);
-  const [watermarkData, setWatermarkData] = useState<{ waktu: string; outlet: string; lokasi: string } | null>(null);
+  const [watermarkData, setWatermarkData] = useState<WatermarkData | null>(null);
 
   // State
   const [currentStep, setCurrentStep] = useState<number>(1);
-  const [locationValidated, setLocationValidated] = useState(false);
-  const [distance, setDistance] = useState<number | null>(null);
   const [mapRegion, setMapRegion] = useState<any>(null);
-  const [locationBlocked, setLocationBlocked] = useState(false);
   const [bottomSheetIndex, setBottomSheetIndex] = useState(1);
   const bottomSheetRef = useRef<BottomSheet>(null);
 
-  const MAX_DISTANCE = 100;
-
   // Initialize
   useEffect(() => {
     if (outletId) {
@@ -750,44 +755,8 @@ export default memo(function CheckInScreen() {
   }, [outletManager.fetchData]);
 
   // Location validation
-  useEffect(() => {
-    if (!outletManager.selectedOutlet) {
-      setLocationBlocked(false);
-      setLocationValidated(false);
-      setDistance(null);
-      return;
-    }
-
-    const outletCoords = parseLatLong(outletManager.selectedOutlet.location);
-
-    if (!outletManager.selectedOutlet.location || !outletCoords) {
-      setLocationBlocked(true);
-      setLocationValidated(false);
-      return;
-    } else {
-      setLocationBlocked(false);
-    }
-
-    if (locationManager.currentLocation && outletCoords) {
-      const calculatedDistance = calculateDistance(
-        locationManager.currentLocation.latitude,
-        locationManager.currentLocation.longitude,
-        outletCoords.latitude,
-        outletCoords.longitude
-      );
-      setDistance(calculatedDistance);
-      
-      if (outletManager.selectedOutlet.radius === 0) {
-        setLocationValidated(true);
-      } else {
-        const maxAllowedDistance = outletManager.selectedOutlet.radius || MAX_DISTANCE;
-        setLocationValidated(calculatedDistance <= maxAllowedDistance);
-      }
-    } else {
-      setLocationValidated(false);
-      setDistance(null);
-    }
-  }, [outletManager.selectedOutlet, locationManager.currentLocation]);
+  const { geofence } = useOutletDistanceValidation(outletManager.selectedOutlet, locationManager.currentLocation);
+  const locationBlocked = geofence?.reason === 'NO_OUTLET_LOCATION';
 
   // Map region update - prioritize user location, then outlet
   useEffect(() => {
@@ -867,11 +836,42 @@ export default memo(function CheckInScreen() {
       Alert.alert('Pilih Outlet', 'Silakan pilih outlet terlebih dahulu.');
       return;
     }
+
+    // Kunjungan sebelumnya di outlet lain harus check-out / ditutup dulu
+    if (openVisit && isBlockedByOpenVisit(openVisit, outletManager.selectedOutlet.id)) {
+      const openVisitId = openVisit.visitId;
+      Alert.alert(
+        'Kunjungan Belum Selesai',
+        openVisitId
+          ? `Anda belum check-out dari ${openVisit.outletName}. Check-out atau tutup kunjungan tersebut sebelum check-in di outlet lain.`
+          : `Check-in di ${openVisit.outletName} masih menunggu dikirim. Tunggu hingga terkirim lalu check-out terlebih dahulu.`,
+        openVisitId
+          ? [
+              { text: 'Batal', style: 'cancel' },
+              { text: 'Tutup Kunjungan', onPress: () => setShowAutoClose(true) },
+              { text: 'Check Out', onPress: () => router.push({ pathname: '/visit/check-out', params: { id: openVisitId } }) },
+            ]
+          : [{ text: 'OK' }]
+      );
+      return;
+    }
     
-    if (!locationValidated && (outletManager.selectedOutlet.radius || 0) > 0) {
+    if (geofence?.status === 'uncertain') {
+      Alert.alert(
+        'Lokasi Belum Pasti',
+        `${geofence.message}. Perbarui lokasi Anda lalu coba lagi.`,
+        [
+          { text: 'Batal', style: 'cancel' },
+          { text: 'Perbarui Lokasi', onPress: () => locationManager.getLocation() },
+        ]
+      );
+      return;
+    }
+
+    if (geofence?.status === 'outside') {
       Alert.alert(
         'Lokasi Terlalu Jauh',
-        `Anda berada ${Math.round(distance || 0)}m dari outlet, sedangkan maksimal jarak adalah ${outletManager.selectedOutlet.radius || 0}m. Apakah Anda ingin memperbarui lokasi outlet?`,
+        `Anda berada di luar area outlet (${describeGeofenceDistance(geofence)}). Apakah Anda ingin memperbarui lokasi outlet?`,
         [
           { text: 'Batal', style: 'cancel' },
           { text: 'Update', onPress: () => router.push(`/outlet/${outletManager.selectedOutlet!.id}/edit` as any) },
@@ -880,6 +880,12 @@ export default memo(function CheckInScreen() {
       return;
     }
     
+    // Status check needs the server; offline check-ins are validated on replay
+    if (!isConnected) {
+      changeStep(2);
+      return;
+    }
+    
     try {
       const result = await checkVisitStatus(String(outletManager.selectedOutlet.id));
       if (result?.meta?.code === 400) {
@@ -893,7 +899,7 @@ export default memo(function CheckInScreen() {
     } catch (err) {
       Alert.alert('Cek Status Gagal', 'Gagal memeriksa status kunjungan. Silakan coba lagi.');
     }
-  }, [outletManager.selectedOutlet, locationValidated, distance, checkVisitStatus, router, changeStep]);
+  }, [outletManager.selectedOutlet, openVisit, geofence, locationManager, isConnected, checkVisitStatus, router, changeStep]);
 
   const handleTakePhoto = useCallback(async () => {
     if (!hasCameraPermission || hasCameraPermission.status !== 'granted') {
@@ -911,14 +917,33 @@ export default memo(function CheckInScreen() {
 
     if (isProcessingPhoto) return;
     
-    if (!outletManager.selectedOutlet?.id) {
+    // Simpan outlet terpilih agar tetap ter-narrow di dalam callback setTimeout di bawah
+    const selectedOutlet = outletManager.selectedOutlet;
+    if (!selectedOutlet?.id) {
       Alert.alert('Error Data', 'Data outlet tidak valid. Silakan kembali dan coba lagi.');
       return;
     }
     
+    if (!locationManager.currentLocation) {
+      Alert.alert('Lokasi Tidak Tersedia', 'Lokasi belum didapatkan. Silakan perbarui lokasi dan coba lagi.');
+      return;
+    }
+    
     setIsProcessingPhoto(true);
     
     try {
+      // Step 0: Check location integrity (mock location / fake GPS)
+      const locationFix: LocationFix = {
+        ...locationManager.currentLocation,
+        timestamp: locationManager.currentLocation.timestamp ?? Date.now(),
+      };
+      const integrity = await checkLocation(locationFix, await fetchPreviousVisitFix());
+      if (integrity.status === 'reject') {
+        Alert.alert('Lokasi Tidak Valid', `${integrity.messages.join('\n')}\n\nMatikan aplikasi lokasi palsu lalu coba lagi.`);
+        setIsProcessingPhoto(false);
+        return;
+      }
+
       // Step 1: Take photo with reduced quality for performance
       const photo = await cameraRef.takePictureAsync({ 
         quality: 0.5, // Reduced quality for low-end devices
@@ -961,12 +986,12 @@ export default memo(function CheckInScreen() {
       setRawPhoto(processedImage.uri);
       const now = new Date();
       const waktu = now.toLocaleString('id-ID', { hour12: false });
-      const outletName = `${outletManager.selectedOutlet.code} • ${outletManager.selectedOutlet.name}`;
+      const outletName = `${selectedOutlet.code} • ${selectedOutlet.name}`;
       const lokasi = locationManager.currentLocation 
         ? `${locationManager.currentLocation.latitude.toFixed(6)}, ${locationManager.currentLocation.longitude.toFixed(6)}`
         : 'Lokasi tidak tersedia';
       
-      setWatermarkData({ waktu, outlet: outletName, lokasi });
+      setWatermarkData({ waktu, outlet: outletName, lokasi, integritas: formatIntegrityLabel(integrity) });
       
       // Step 4: Create watermarked image with ViewShot
       setTimeout(async () => {
@@ -996,25 +1021,59 @@ export default memo(function CheckInScreen() {
             if (!finalValidation.isValid || finalValidation.fileSizeKB < 20) {
               throw new Error(`Final image invalid or too small: ${finalValidation.fileSizeKB}KB`);
             }
+
+            // Step 7: Sign photo manifest (must be the last change to the file)
+            const signedPhoto = await photoManifest.sign(finalProcessedImage.uri, {
+              kind: 'CHECK_IN',
+              outletId: outletManager.selectedOutletId,
+              fix: locationFix,
+            });
             
-            const formData = new FormData();
-            formData.append('outlet_id', outletManager.selectedOutletId!);
-            formData.append('checkin_location', `${locationManager.currentLocation!.latitude},${locationManager.currentLocation!.longitude}`);
-            formData.append('type', outletManager.visitType.toUpperCase());
+            const fields: Record<string, string> = {
+              outlet_id: outletManager.selectedOutletId!,
+              checkin_location: `${locationManager.currentLocation!.latitude},${locationManager.currentLocation!.longitude}`,
+              type: outletManager.visitType.toUpperCase(),
+              ...integrityFields(integrity, locationFix),
+            };
+            if (signedPhoto) {
+              fields.checkin_photo_manifest = JSON.stringify(signedPhoto.signed);
+            }
             
-            if (outletManager.visitType === 'planned' && outletManager.selectedOutlet?.planVisitId) {
-              formData.append('plan_visit_id', String(outletManager.selectedOutlet.planVisitId));
+            if (outletManager.visitType === 'planned' && selectedOutlet.planVisitId) {
+              fields.plan_visit_id = String(selectedOutlet.planVisitId);
             }
             
-            formData.append('checkin_photo', {
-              uri: finalProcessedImage.uri,
-              name: `checkin-${Date.now()}.jpg`,
-              type: 'image/jpeg',
-            } as any);
+            const { queued, response: res } = await submitVisitRequest({
+              kind: 'CHECK_IN',
+              label: outletName,
+              fields,
+              photo: {
+                field: 'checkin_photo',
+                uri: signedPhoto?.uri ?? finalProcessedImage.uri,
+                name: `checkin-${Date.now()}.jpg`,
+                type: 'image/jpeg',
+              },
+            });
             
-            const res = await checkInVisit(formData);
+            if (queued || res?.meta?.code === 200) {
+              await trackCheckIn({
+                visitId: res?.data?.id ? String(res.data.id) : null,
+                outletId: outletManager.selectedOutletId!,
+                outletName,
+                outlet: {
+                  location: selectedOutlet.location,
+                  radius: selectedOutlet.radius,
+                  boundary: selectedOutlet.boundary,
+                },
+              });
+            }
             
-            if (res?.meta?.code === 200) {
+            if (queued) {
+              Alert.alert('Check In Disimpan', 'Koneksi tidak tersedia. Check-in disimpan di antrean dan akan dikirim otomatis saat online.');
+              setRawPhoto(null);
+              setWatermarkData(null);
+              router.replace({ pathname: '/(tabs)', params: { outletId: outletManager.selectedOutletId } });
+            } else if (res?.meta?.code === 200) {
               Alert.alert('Check In Berhasil', `Data berhasil disimpan dengan foto (${finalProcessedImage.fileSizeKB}KB).`);
               setRawPhoto(null);
               setWatermarkData(null);
@@ -1044,7 +1103,11 @@ export default memo(function CheckInScreen() {
     isProcessingPhoto,
     outletManager,
     locationManager,
-    checkInVisit,
+    checkLocation,
+    fetchPreviousVisitFix,
+    photoManifest,
+    submitVisitRequest,
+    trackCheckIn,
     router
   ]);
 
@@ -1103,6 +1166,7 @@ export default memo(function CheckInScreen() {
           isFlashOn={isFlashOn}
           setIsFlashOn={setIsFlashOn}
           isProcessingPhoto={isProcessingPhoto}
+          uploadProgress={checkInUpload.isUploading ? checkInUpload.progress : null}
           onTakePhoto={handleTakePhoto}
           onGoBack={() => changeStep(1)}
           selectedOutlet={outletManager.selectedOutlet}
@@ -1183,12 +1247,11 @@ export default memo(function CheckInScreen() {
           )}
         </MapView>
         
-        {outletManager.selectedOutlet && locationManager.currentLocation && (
+        {geofence && locationManager.currentLocation && (
           <View className="absolute left-4 right-4 top-4 z-10">
             <LocationStatus
-              locationValidated={locationValidated}
-              distance={distance ?? 0}
-              outletRadius={outletManager.selectedOutlet.radius ?? 0}
+              geofence={geofence}
+              onRefreshLocation={locationManager.getLocation}
               onUpdateOutlet={() => router.push(`/outlet/${outletManager.selectedOutlet!.id}/edit` as any)}
             />
           </View>
@@ -1222,9 +1285,22 @@ export default memo(function CheckInScreen() {
               />
 
               <View className="mb-3">
-                <Text className="font-bold text-lg mb-2 text-black">
-                  {outletManager.visitType === 'planned' ? 'Pilih Plan Visit Hari Ini' : 'Pilih Outlet'}
-                </Text>
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="font-bold text-lg text-black">
+                    {outletManager.visitType === 'planned' ? 'Pilih Plan Visit Hari Ini' : 'Pilih Outlet'}
+                  </Text>
+                  {outletManager.visitType === 'planned' && outletManager.displayData.length > 1 && (
+                    <TouchableOpacity
+                      onPress={() => router.push('/plan-visit/route')}
+                      className="flex-row items-center"
+                      accessibilityRole="button"
+                      accessibilityLabel="Lihat rute hari ini"
+                    >
+                      <IconSymbol name="map" size={16} color={colors.primary} />
+                      <Text className="text-sm font-semibold ml-1" style={{ color: colors.primary }}>Rute</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
                 
                 <OutletSearchInput
                   visitType={outletManager.visitType}
@@ -1258,6 +1334,8 @@ export default memo(function CheckInScreen() {
           </BottomSheetView>
         </BottomSheet>
       </View>
+
+      <AutoCloseVisitModal visible={showAutoClose} onClose={() => setShowAutoClose(false)} />
     </View>
   );
 })
\ No newline at end of file
@@ -11,10 +11,24 @@ import ViewShot, { captureRef } from 'react-native-view-shot';
 
 import { Button } from '@/components/ui/Button';
 import { IconSymbol } from '@/components/ui/IconSymbol';
-import { WatermarkOverlay } from '@/components/WatermarkOverlay';
+import { WatermarkData, WatermarkOverlay } from '@/components/WatermarkOverlay';
 import { Colors } from '@/constants/Colors';
-import { useVisit } from '@/hooks/data/useVisit';
+import { useOpenVisit } from '@/context/open-visit-context';
+import { useOutbox } from '@/context/outbox-context';
+import { checkOutUploadId, useVisit } from '@/hooks/data/useVisit';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useLocationIntegrity } from '@/hooks/utils/useLocationIntegrity';
+import { usePhotoManifest } from '@/hooks/utils/usePhotoManifest';
+import { useOrderDraft } from '@/hooks/utils/useOrderDraft';
+import { useStockAudit } from '@/hooks/utils/useStockAudit';
+import { useVisitPhotos } from '@/hooks/utils/useVisitPhotos';
+import { useOutletDistanceValidation } from '@/hooks/utils/useOutletDistanceValidation';
+import { useUploadTransfer } from '@/hooks/utils/useUploadTransfer';
+import { formatIntegrityLabel, integrityFields, LocationFix, LocationIntegrityVerdict, visitReferenceFix } from '@/services/location-integrity';
+import { buildOrderPayload, formatRupiah } from '@/services/sales-order';
+import { buildStockAuditPayload, stockAuditAttachments, validateStockAudit } from '@/services/stock-audit';
+import { buildVisitPhotosPayload, validateVisitPhotos, visitPhotoAttachments } from '@/services/visit-photos';
+import { describeGeofenceDistance, GeofenceBoundary } from '@/utils/geofence';
 import { processImageWithTargetSize, validateImage } from '@/utils/imageProcessor';
 
 interface Visit {
@@ -30,7 +44,12 @@ interface Visit {
     division: { id: string | number; name: string; };
     region: { id: string | number; name: string; };
     cluster: { id: string | number; name: string; };
+    location?: string | null;
+    radius?: number | null;
+    boundary?: GeofenceBoundary | null;
   };
+  checkin_location?: string | null;
+  checkin_time?: string | null;
 }
 
 interface CheckOutFormData {
@@ -42,6 +61,8 @@ interface LocationCoords {
   latitude: number;
   longitude: number;
   accuracy?: number;
+  mocked?: boolean;
+  timestamp?: number;
 }
 
 class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean }> {
@@ -153,19 +174,15 @@ const Header = React.memo(function Header({ currentStep, onBack, onRefresh }: {
   );
 });
 
-function parseLatLong(latlong: string): { latitude: number; longitude: number } | null {
-  if (!latlong) return null;
-  const [lat, lng] = latlong.split(',').map(Number);
-  if (isNaN(lat) || isNaN(lng)) return null;
-  return { latitude: lat, longitude: lng };
-}
-
 const TransactionSelector = React.memo(function TransactionSelector({ 
   selectedTransaction, 
-  onTransactionChange 
+  onTransactionChange,
+  locked = false
 }: { 
   selectedTransaction: 'YES' | 'NO' | null;
   onTransactionChange: (transaction: 'YES' | 'NO') => void;
+  // Order sudah berisi produk: transaksi otomatis YES
+  locked?: boolean;
 }) {
   const handleYesPress = useCallback(() => onTransactionChange('YES'), [onTransactionChange]);
   const handleNoPress = useCallback(() => onTransactionChange('NO'), [onTransactionChange]);
@@ -231,8 +248,11 @@ const TransactionSelector = React.memo(function TransactionSelector({
         <TouchableOpacity
           className={noButtonStyle}
           onPress={handleNoPress}
+          disabled={locked}
+          style={{ opacity: locked ? 0.4 : 1 }}
           accessibilityRole="button"
           accessibilityLabel="Pilih transaksi NO"
+          accessibilityState={{ disabled: locked }}
         >
           <IconSymbol 
             name="xmark.circle.fill" 
@@ -248,6 +268,39 @@ const TransactionSelector = React.memo(function TransactionSelector({
   );
 });
 
+// Aktivitas selama kunjungan (order, audit, foto) yang ikut dikirim saat check-out
+const VisitActivityRow = React.memo(function VisitActivityRow({ 
+  icon, 
+  title, 
+  description, 
+  actionLabel, 
+  onPress 
+}: { 
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  title: string;
+  description: string;
+  actionLabel: string;
+  onPress: () => void;
+}) {
+  return (
+    <View className="mb-3 flex-row items-center p-3 rounded-lg border border-neutral-200 bg-neutral-50">
+      <Ionicons name={icon} size={22} color="#f97316" />
+      <View className="flex-1 ml-2">
+        <Text className="text-base font-semibold text-black">{title}</Text>
+        <Text className="text-sm text-neutral-500">{description}</Text>
+      </View>
+      <TouchableOpacity
+        className="py-2 px-3 rounded-lg bg-primary-500"
+        onPress={onPress}
+        accessibilityRole="button"
+        accessibilityLabel={`${actionLabel} ${title}`}
+      >
+        <Text className="text-white font-semibold">{actionLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+});
+
 const NotesInput = React.memo(function NotesInput({ 
   notes, 
   onNotesChange 
@@ -292,7 +345,8 @@ const SimpleCameraScreenCheckout = ({
   isProcessingPhoto,
   onTakePhoto,
   onGoBack,
-  visit
+  visit,
+  uploadProgress
 }: {
   hasCameraPermission: any;
   requestCameraPermission: () => void;
@@ -306,8 +360,11 @@ const SimpleCameraScreenCheckout = ({
   onTakePhoto: () => void;
   onGoBack: () => void;
   visit: Visit;
+  // 0..1 saat foto sedang diunggah, null jika tidak ada upload
+  uploadProgress: number | null;
 }) => {
   const insets = useSafeAreaInsets();
+  const uploadPercent = uploadProgress !== null ? Math.round(uploadProgress * 100) : null;
   
   return (
     <View className="flex-1 bg-black">
@@ -364,7 +421,7 @@ const SimpleCameraScreenCheckout = ({
     {/* Fixed bottom button */}
     <View className="absolute bottom-0 left-0 right-0 p-4 items-center" style={{ paddingBottom: Math.max(insets.bottom, 16) }}>
       <Button
-        title={isProcessingPhoto ? 'Mengompresi...' : 'Kirim'}
+        title={uploadPercent !== null ? `Mengunggah ${uploadPercent}%` : isProcessingPhoto ? 'Mengompresi...' : 'Kirim'}
         variant="primary"
         size="lg"
         fullWidth
@@ -379,9 +436,11 @@ const SimpleCameraScreenCheckout = ({
       <View className="absolute inset-0 bg-black/50 items-center justify-center z-40">
         <View className="bg-white rounded-xl p-6 mx-8 items-center">
           <ActivityIndicator size="large" color="#f97316" />
-          <Text className="text-black text-lg font-semibold mt-4">Memproses Foto</Text>
+          <Text className="text-black text-lg font-semibold mt-4">
+            {uploadPercent !== null ? 'Mengunggah Foto' : 'Memproses Foto'}
+          </Text>
           <Text className="text-neutral-600 text-sm mt-2 text-center">
-            Sedang mengompresi gambar...
+            {uploadPercent !== null ? `${uploadPercent}% terkirim` : 'Sedang mengompresi gambar...'}
           </Text>
           <Text className="text-neutral-500 text-xs mt-2 text-center">
             Mohon tunggu, proses ini membutuhkan beberapa detik
@@ -428,7 +487,11 @@ const SimpleCameraScreenCheckout = ({
 export default function CheckOutScreen() {
   // CRITICAL: All hooks must be at the top level and in consistent order
   const { id } = useLocalSearchParams();
-  const { checkOutVisit, fetchVisit } = useVisit();
+  const { fetchVisit } = useVisit();
+  const { submitVisitRequest } = useOutbox();
+  const { checkLocation } = useLocationIntegrity();
+  const photoManifest = usePhotoManifest();
+  const { trackCheckOut } = useOpenVisit();
   const colorScheme = useColorScheme();
   const [hasCameraPermission, requestCameraPermission] = useCameraPermissions();
   const formManager = useCheckOutForm();
@@ -438,7 +501,7 @@ export default function CheckOutScreen() {
   const [loading, setLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [rawPhoto, setRawPhoto] = useState<string | null>(null);
-  const [watermarkData, setWatermarkData] = useState<{ waktu: string; outlet: string; lokasi: string } | null>(null);
+  const [watermarkData, setWatermarkData] = useState<WatermarkData | null>(null);
   const [currentLocation, setCurrentLocation] = useState<LocationCoords | null>(null);
   const [mapRegion, setMapRegion] = useState<any>(null);
   const [currentStep, setCurrentStep] = useState<number>(1);
@@ -446,6 +509,11 @@ export default function CheckOutScreen() {
   const [cameraRef, setCameraRef] = useState<any>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [isFlashOn, setIsFlashOn] = useState(false);
+  const { geofence } = useOutletDistanceValidation(visit?.outlet ?? null, currentLocation);
+  const auditScope = useMemo(
+    () => visit ? { division_id: visit.outlet.division?.id, cluster_id: visit.outlet.cluster?.id } : null,
+    [visit]
+  );
   
   // Refs
   const viewShotRef = useRef<any>(null);
@@ -457,6 +525,11 @@ export default function CheckOutScreen() {
   
   // Derived values
   const visitId = typeof id === 'string' ? id : '';
+  const checkOutUpload = useUploadTransfer(visitId ? checkOutUploadId(visitId) : null);
+  const order = useOrderDraft(visitId || null);
+  const hasOrder = order.totals.items > 0;
+  const stockAudit = useStockAudit(visitId || null, auditScope);
+  const visitPhotos = useVisitPhotos(visitId || null);
   const colors = Colors[colorScheme ?? 'light'];
 
   const getCurrentLocation = useCallback(async () => {
@@ -477,6 +550,8 @@ export default function CheckOutScreen() {
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
         accuracy: location.coords.accuracy ?? undefined,
+        mocked: location.mocked,
+        timestamp: location.timestamp,
       };
       
       setCurrentLocation(coords);
@@ -502,6 +577,47 @@ export default function CheckOutScreen() {
     });
   }, [fadeAnim]);
 
+  // Order berisi produk berarti ada transaksi
+  const { updateField } = formManager;
+  useEffect(() => {
+    if (hasOrder) updateField('transaction', 'YES');
+  }, [hasOrder, updateField]);
+
+  const handleOpenStockAudit = useCallback(() => {
+    if (!visitId || !visit) return;
+    router.push({
+      pathname: '/visit/stock-audit',
+      params: {
+        id: visitId,
+        outlet: `${visit.outlet.code} • ${visit.outlet.name}`,
+        division_id: String(visit.outlet.division?.id ?? ''),
+        cluster_id: String(visit.outlet.cluster?.id ?? ''),
+      },
+    });
+  }, [visitId, visit]);
+
+  const handleOpenPhotos = useCallback(() => {
+    if (!visitId || !visit) return;
+    router.push({
+      pathname: '/visit/photos',
+      params: {
+        id: visitId,
+        outlet_id: String(visit.outlet.id),
+        outlet_code: visit.outlet.code,
+        outlet_name: visit.outlet.name,
+        district: visit.outlet.district ?? '',
+      },
+    });
+  }, [visitId, visit]);
+
+  const handleOpenOrder = useCallback(() => {
+    if (!visitId) return;
+    router.push({
+      pathname: '/visit/order',
+      params: { id: visitId, outlet: visit ? `${visit.outlet.code} • ${visit.outlet.name}` : '' },
+    });
+  }, [visitId, visit]);
+
   useEffect(() => {
     let isMounted = true;
     
@@ -567,11 +683,46 @@ export default function CheckOutScreen() {
     if (!formManager.validateForm()) {
       return;
     }
+
+    // Audit yang sudah mulai diisi harus lengkap sebelum check-out
+    if (stockAudit.started && stockAudit.draft) {
+      const missing = validateStockAudit(stockAudit.items, stockAudit.draft);
+      if (missing.length > 0) {
+        Alert.alert(
+          'Audit Belum Lengkap',
+          `${missing.slice(0, 3).join('\n')}${missing.length > 3 ? `\n+${missing.length - 3} lainnya` : ''}`,
+          [
+            { text: 'Batal', style: 'cancel' },
+            { text: 'Lengkapi', onPress: handleOpenStockAudit },
+          ]
+        );
+        return;
+      }
+    }
+
+    const photoErrors = validateVisitPhotos(visitPhotos.photos);
+    if (photoErrors.length > 0) {
+      Alert.alert('Foto Belum Lengkap', photoErrors.join('\n'));
+      return;
+    }
     
     // Hide keyboard and go to camera step
     Keyboard.dismiss();
+
+    // Check-out tetap boleh di luar area outlet, tapi user diminta konfirmasi
+    if (geofence?.status === 'outside') {
+      Alert.alert(
+        'Di Luar Area Outlet',
+        `Anda berada di luar area outlet (${describeGeofenceDistance(geofence)}). Tetap lanjutkan check-out?`,
+        [
+          { text: 'Batal', style: 'cancel' },
+          { text: 'Lanjutkan', onPress: () => changeStep(2) },
+        ]
+      );
+      return;
+    }
     changeStep(2);
-  }, [formManager, changeStep]);
+  }, [formManager, stockAudit, handleOpenStockAudit, visitPhotos.photos, geofence, changeStep]);
 
   const handleBottomSheetAction = useCallback(() => {
     handleFormSubmit();
@@ -601,6 +752,31 @@ export default function CheckOutScreen() {
     setIsSubmitting(true);
 
     try {
+      let checkout_location = '';
+      let integrity: LocationIntegrityVerdict | null = null;
+      let integrityData: Record<string, string> = {};
+      let locationFix: LocationFix | null = null;
+      try {
+        const loc = currentLocation || await getCurrentLocation();
+        if (loc) {
+          checkout_location = `${loc.latitude},${loc.longitude}`;
+          setCurrentLocation(loc);
+
+          // Check location integrity against this visit's check-in
+          locationFix = { ...loc, timestamp: loc.timestamp ?? Date.now() };
+          integrity = await checkLocation(locationFix, visitReferenceFix(visit));
+          integrityData = integrityFields(integrity, locationFix);
+        }
+      } catch (locationError) {
+        console.warn('Failed to get location:', locationError);
+      }
+
+      if (integrity?.status === 'reject') {
+        Alert.alert('Lokasi Tidak Valid', `${integrity.messages.join('\n')}\n\nMatikan aplikasi lokasi palsu lalu coba lagi.`);
+        setIsSubmitting(false);
+        return;
+      }
+
       // Step 1: Take photo with higher quality first
       const photo = await cameraRef.takePictureAsync({ 
         quality: 0.7,
@@ -639,17 +815,6 @@ export default function CheckOutScreen() {
 
       console.log(`[CheckOut] Image processed to ${processedImage.fileSizeKB}KB (${processedImage.width}x${processedImage.height})`);
 
-      let checkout_location = '';
-      try {
-        const loc = currentLocation || await getCurrentLocation();
-        if (loc) {
-          checkout_location = `${loc.latitude},${loc.longitude}`;
-          setCurrentLocation(loc);
-        }
-      } catch (locationError) {
-        console.warn('Failed to get location:', locationError);
-      }
-
       // Prepare watermark data
       setRawPhoto(processedImage.uri);
       const now = new Date();
@@ -659,7 +824,7 @@ export default function CheckOutScreen() {
         ? `${currentLocation.latitude.toFixed(6)}, ${currentLocation.longitude.toFixed(6)}`
         : 'Lokasi tidak tersedia';
       
-      setWatermarkData({ waktu, outlet: outletName, lokasi });
+      setWatermarkData({ waktu, outlet: outletName, lokasi, integritas: integrity ? formatIntegrityLabel(integrity) : undefined });
       
       // Step 4: Create watermarked image with ViewShot
       setTimeout(async () => {
@@ -690,19 +855,68 @@ export default function CheckOutScreen() {
               throw new Error(`Final image invalid or too small: ${finalValidation.fileSizeKB}KB`);
             }
 
-            const formData = new FormData();
-            formData.append('checkout_location', checkout_location);
-            formData.append('transaction', formManager.formData.transaction!);
-            formData.append('report', formManager.formData.notes);
-            formData.append('checkout_photo', {
-              uri: finalProcessedImage.uri,
-              name: `checkout-${Date.now()}.jpg`,
-              type: 'image/jpeg',
-            } as any);
-
-            const res = await checkOutVisit(visitId, formData);
+            // Step 7: Sign photo manifest (must be the last change to the file)
+            const signedPhoto = await photoManifest.sign(finalProcessedImage.uri, {
+              kind: 'CHECK_OUT',
+              visitId,
+              outletId: visit.outlet.id,
+              fix: locationFix,
+            });
+
+            const extraFields: Record<string, string> = hasOrder && order.draft
+              ? { order: JSON.stringify(buildOrderPayload(order.draft)) }
+              : {};
+            if (signedPhoto) {
+              extraFields.checkout_photo_manifest = JSON.stringify(signedPhoto.signed);
+            }
+            const auditDraft = stockAudit.started ? stockAudit.draft : null;
+            if (auditDraft) {
+              extraFields.stock_audit = JSON.stringify(buildStockAuditPayload(stockAudit.items, auditDraft));
+            }
+            if (visitPhotos.photos.length > 0) {
+              extraFields.photos = JSON.stringify(buildVisitPhotosPayload(visitPhotos.photos));
+            }
+            // Foto kunjungan dan foto rak ikut dalam satu request check-out bersama field di atas
+            const attachments = [
+              ...(auditDraft ? stockAuditAttachments(auditDraft) : []),
+              ...visitPhotoAttachments(visitId, visitPhotos.photos),
+            ];
+
+            const { queued, response: res } = await submitVisitRequest({
+              kind: 'CHECK_OUT',
+              visitId,
+              label: outletName,
+              fields: {
+                checkout_location,
+                transaction: formManager.formData.transaction!,
+                report: formManager.formData.notes,
+                checkout_geofence: geofence ? geofence.status.toUpperCase() : '',
+                ...integrityData,
+                ...extraFields,
+              },
+              photo: {
+                field: 'checkout_photo',
+                uri: signedPhoto?.uri ?? finalProcessedImage.uri,
+                name: `checkout-${Date.now()}.jpg`,
+                type: 'image/jpeg',
+              },
+              attachments: attachments.length > 0 ? attachments : undefined,
+            });
             
-            if (res && res.meta && typeof res.meta.code === 'number') {
+            if (queued || res?.meta?.code === 200) {
+              await trackCheckOut();
+              await order.clear();
+              await stockAudit.clear();
+              await visitPhotos.clear();
+            }
+            
+            if (queued) {
+              Alert.alert('Check Out Disimpan', 'Koneksi tidak tersedia. Check-out disimpan di antrean dan akan dikirim otomatis saat online.');
+              formManager.resetForm();
+              setRawPhoto(null);
+              setWatermarkData(null);
+              router.back();
+            } else if (res && res.meta && typeof res.meta.code === 'number') {
               if (res.meta.code === 200) {
                 Alert.alert('Check Out Berhasil', `Data berhasil disimpan dengan foto (${finalProcessedImage.fileSizeKB}KB).`);
                 formManager.resetForm();
@@ -738,8 +952,16 @@ export default function CheckOutScreen() {
     visit,
     currentLocation,
     getCurrentLocation,
+    checkLocation,
+    photoManifest,
+    geofence,
     formManager,
-    checkOutVisit,
+    submitVisitRequest,
+    trackCheckOut,
+    hasOrder,
+    order,
+    stockAudit,
+    visitPhotos,
     visitId
   ]);
 
@@ -782,6 +1004,7 @@ export default function CheckOutScreen() {
             isFlashOn={isFlashOn}
             setIsFlashOn={setIsFlashOn}
             isProcessingPhoto={isSubmitting}
+            uploadProgress={checkOutUpload.isUploading ? checkOutUpload.progress : null}
             onTakePhoto={handleTakePhoto}
             onGoBack={() => changeStep(1)}
             visit={visit!}
@@ -884,7 +1107,7 @@ export default function CheckOutScreen() {
           <BottomSheet
             ref={bottomSheetRef}
             index={1}
-            snapPoints={['10%', '55%']}
+            snapPoints={['10%', '75%']}
             enableDynamicSizing={true}
             enablePanDownToClose={false}
             handleIndicatorStyle={{ backgroundColor: '#D1D5DB', width: 40, height: 4 }}
@@ -904,9 +1127,35 @@ export default function CheckOutScreen() {
                   }}>
                     <Text className="font-bold text-lg mb-4 text-black">Catatan & Transaksi</Text>
                     
+                    <VisitActivityRow
+                      icon="cart-outline"
+                      title="Order"
+                      description={hasOrder ? `${order.totals.items} produk • ${formatRupiah(order.totals.total)}` : 'Belum ada order'}
+                      actionLabel={hasOrder ? 'Ubah' : 'Buat'}
+                      onPress={handleOpenOrder}
+                    />
+                    
+                    <VisitActivityRow
+                      icon="clipboard-outline"
+                      title="Audit Rak & Stok"
+                      description={stockAudit.started ? `${stockAudit.progress.done} dari ${stockAudit.progress.total} SKU lengkap` : 'Belum diisi'}
+                      actionLabel={stockAudit.started ? 'Ubah' : 'Isi'}
+                      onPress={handleOpenStockAudit}
+                    />
+                    
+                    <VisitActivityRow
+                      icon="images-outline"
+                      title="Foto Kunjungan"
+                      description={visitPhotos.photos.length > 0 ? `${visitPhotos.photos.length} foto` : 'Belum ada foto'}
+                      actionLabel="Tambah"
+                      onPress={handleOpenPhotos}
+                    />
+                    
+                    
                     <TransactionSelector
                       selectedTransaction={formManager.formData.transaction}
                       onTransactionChange={(transaction) => formManager.updateField('transaction', transaction)}
+                      locked={hasOrder}
                     />
                     
                     <NotesInput
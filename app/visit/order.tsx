@@ -0,0 +1,359 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Pressable, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { filterProducts, Product, useProduct } from '@/hooks/data/useProduct';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useOrderDraft } from '@/hooks/utils/useOrderDraft';
+import { calculateLineTotal, formatRupiah, OrderLine } from '@/services/sales-order';
+
+type OrderTab = 'catalog' | 'lines';
+
+const Header = React.memo(function Header({ subtitle, onBack }: { subtitle?: string; onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Order Penjualan
+          </Text>
+          {subtitle ? (
+            <Text className="text-white text-sm mt-1" numberOfLines={1}>{subtitle}</Text>
+          ) : null}
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const ProductItem = React.memo(function ProductItem({
+  product,
+  orderedQuantity,
+  onAdd,
+}: {
+  product: Product;
+  orderedQuantity: number;
+  onAdd: (product: Product) => void;
+}) {
+  const unit = product.units[0];
+  return (
+    <TouchableOpacity
+      className="flex-row items-center px-4 py-3 border-b border-neutral-100"
+      onPress={() => onAdd(product)}
+      accessibilityRole="button"
+      accessibilityLabel={`Tambah ${product.name}`}
+    >
+      <View className="flex-1">
+        <Text style={{ fontFamily: 'Inter' }} className="text-base font-semibold text-neutral-900" numberOfLines={1}>
+          {product.name}
+        </Text>
+        <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-500">
+          {product.code}{product.category ? ` • ${product.category}` : ''} • {formatRupiah(unit.price)}/{unit.name}
+        </Text>
+      </View>
+      {orderedQuantity > 0 && (
+        <View className="px-2 py-0.5 mr-2 rounded-full bg-primary-100">
+          <Text style={{ fontFamily: 'Inter' }} className="text-xs font-semibold text-primary-600">{orderedQuantity}</Text>
+        </View>
+      )}
+      <Ionicons name="add-circle" size={26} color="#f97316" />
+    </TouchableOpacity>
+  );
+});
+
+// Angka dari input; kosong/tidak valid dianggap 0
+const toNumber = (text: string) => {
+  const value = Number(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : 0;
+};
+
+const OrderLineItem = React.memo(function OrderLineItem({
+  line,
+  index,
+  product,
+  onChange,
+  onRemove,
+}: {
+  line: OrderLine;
+  index: number;
+  product?: Product;
+  onChange: (index: number, changes: Partial<Pick<OrderLine, 'quantity' | 'discount' | 'unit' | 'price'>>) => void;
+  onRemove: (index: number) => void;
+}) {
+  const { gross, net } = calculateLineTotal(line);
+
+  return (
+    <View className="mx-4 mb-3 p-3 rounded-lg border border-neutral-200 bg-white">
+      <View className="flex-row items-start">
+        <View className="flex-1">
+          <Text style={{ fontFamily: 'Inter' }} className="text-base font-semibold text-neutral-900" numberOfLines={1}>
+            {line.productName}
+          </Text>
+          <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-500">
+            {line.productCode} • {formatRupiah(line.price)}/{line.unit}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => onRemove(index)} accessibilityRole="button" accessibilityLabel={`Hapus ${line.productName}`}>
+          <Ionicons name="trash-outline" size={20} color="#dc2626" />
+        </TouchableOpacity>
+      </View>
+
+      {product && product.units.length > 1 && (
+        <View className="flex-row flex-wrap mt-2">
+          {product.units.map(unit => {
+            const selected = unit.name === line.unit;
+            return (
+              <TouchableOpacity
+                key={unit.name}
+                className={`px-3 py-1 mr-2 mb-1 rounded-full ${selected ? 'bg-primary-500' : 'bg-neutral-100'}`}
+                onPress={() => onChange(index, { unit: unit.name, price: unit.price })}
+                accessibilityRole="radio"
+                accessibilityState={{ selected }}
+              >
+                <Text style={{ fontFamily: 'Inter' }} className={`text-xs font-semibold ${selected ? 'text-white' : 'text-neutral-700'}`}>
+                  {unit.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View className="flex-row items-center mt-3">
+        <TouchableOpacity
+          className="w-8 h-8 rounded-lg items-center justify-center bg-neutral-100"
+          onPress={() => onChange(index, { quantity: Math.max(0, line.quantity - 1) })}
+          accessibilityRole="button"
+          accessibilityLabel="Kurangi jumlah"
+        >
+          <Ionicons name="remove" size={18} color="#374151" />
+        </TouchableOpacity>
+        <TextInput
+          value={String(line.quantity)}
+          onChangeText={text => onChange(index, { quantity: Math.max(0, Math.floor(toNumber(text))) })}
+          keyboardType="number-pad"
+          className="w-14 mx-2 py-1 rounded-lg border border-neutral-200 text-center text-neutral-900"
+          style={{ fontFamily: 'Inter' }}
+          accessibilityLabel="Jumlah"
+        />
+        <TouchableOpacity
+          className="w-8 h-8 rounded-lg items-center justify-center bg-neutral-100"
+          onPress={() => onChange(index, { quantity: line.quantity + 1 })}
+          accessibilityRole="button"
+          accessibilityLabel="Tambah jumlah"
+        >
+          <Ionicons name="add" size={18} color="#374151" />
+        </TouchableOpacity>
+
+        <Text style={{ fontFamily: 'Inter' }} className="ml-4 text-xs text-neutral-500">Diskon</Text>
+        <TextInput
+          value={line.discount ? String(line.discount) : ''}
+          onChangeText={text => onChange(index, { discount: Math.min(100, Math.max(0, toNumber(text))) })}
+          keyboardType="decimal-pad"
+          placeholder="0"
+          placeholderTextColor="#9ca3af"
+          className="w-14 ml-2 py-1 rounded-lg border border-neutral-200 text-center text-neutral-900"
+          style={{ fontFamily: 'Inter' }}
+          accessibilityLabel="Diskon persen"
+        />
+        <Text style={{ fontFamily: 'Inter' }} className="ml-1 text-xs text-neutral-500">%</Text>
+
+        <View className="flex-1 items-end">
+          {net !== gross && (
+            <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-400 line-through">{formatRupiah(gross)}</Text>
+          )}
+          <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-neutral-900">{formatRupiah(net)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+});
+
+/**
+ * Ambil order di outlet selama kunjungan. Draft disimpan di perangkat dan
+ * dikirim bersama check-out.
+ */
+export default React.memo(function OrderScreen() {
+  const { id, outlet } = useLocalSearchParams<{ id?: string; outlet?: string }>();
+  const visitId = typeof id === 'string' ? id : null;
+  const { products, loading, error, fetchProducts } = useProduct();
+  const { draft, totals, dirty, addProduct, updateLine, removeLine, setNotes, save } = useOrderDraft(visitId);
+  const [search, setSearch] = useState('');
+  const [tab, setTab] = useState<OrderTab>('catalog');
+  const [saving, setSaving] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  const filteredProducts = useMemo(() => filterProducts(products, search), [products, search]);
+  const productsById = useMemo(() => new Map(products.map(product => [String(product.id), product])), [products]);
+  const orderedQuantity = useMemo(() => {
+    const quantities = new Map<string, number>();
+    draft?.lines.forEach(line => quantities.set(line.productId, (quantities.get(line.productId) ?? 0) + line.quantity));
+    return quantities;
+  }, [draft]);
+
+  const handleBack = useCallback(() => {
+    if (!dirty) {
+      router.back();
+      return;
+    }
+    Alert.alert('Order Belum Disimpan', 'Perubahan order akan hilang. Keluar tanpa menyimpan?', [
+      { text: 'Batal', style: 'cancel' },
+      { text: 'Keluar', style: 'destructive', onPress: () => router.back() },
+    ]);
+  }, [dirty]);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    try {
+      await save();
+      router.back();
+    } catch {
+      Alert.alert('Gagal Menyimpan', 'Draft order tidak dapat disimpan. Silakan coba lagi.');
+    } finally {
+      setSaving(false);
+    }
+  }, [save]);
+
+  if (!visitId) {
+    return (
+      <View className="flex-1 bg-white">
+        <Header onBack={() => router.back()} />
+        <View className="flex-1 items-center justify-center px-6">
+          <Text style={{ fontFamily: 'Inter' }} className="text-base text-neutral-600 text-center">
+            Order hanya bisa dibuat setelah check-in tersinkron ke server.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-neutral-50">
+      <Header subtitle={typeof outlet === 'string' ? outlet : undefined} onBack={handleBack} />
+
+      <View className="flex-row mx-4 mt-4 mb-2 p-1 rounded-lg bg-neutral-100">
+        {(['catalog', 'lines'] as OrderTab[]).map(value => {
+          const selected = tab === value;
+          return (
+            <TouchableOpacity
+              key={value}
+              className={`flex-1 py-2 rounded-md items-center ${selected ? 'bg-white' : ''}`}
+              onPress={() => setTab(value)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected }}
+            >
+              <Text style={{ fontFamily: 'Inter' }} className={`text-sm font-semibold ${selected ? 'text-primary-500' : 'text-neutral-600'}`}>
+                {value === 'catalog' ? 'Katalog' : `Order (${totals.items})`}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {tab === 'catalog' ? (
+        <View className="flex-1">
+          <View className="flex-row items-center mx-4 mb-2 px-3 rounded-lg border border-neutral-200 bg-white">
+            <Ionicons name="search" size={18} color="#9ca3af" />
+            <TextInput
+              value={search}
+              onChangeText={setSearch}
+              placeholder="Cari nama, kode atau kategori produk"
+              placeholderTextColor="#9ca3af"
+              className="flex-1 ml-2 py-2 text-neutral-900"
+              style={{ fontFamily: 'Inter' }}
+            />
+          </View>
+          {loading && products.length === 0 ? (
+            <ActivityIndicator className="mt-8" color="#f97316" />
+          ) : (
+            <FlatList
+              data={filteredProducts}
+              keyExtractor={item => String(item.id)}
+              className="bg-white"
+              keyboardShouldPersistTaps="handled"
+              renderItem={({ item }) => (
+                <ProductItem product={item} orderedQuantity={orderedQuantity.get(String(item.id)) ?? 0} onAdd={addProduct} />
+              )}
+              ListEmptyComponent={
+                <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-500 text-center mt-8 px-6">
+                  {error ?? 'Produk tidak ditemukan'}
+                </Text>
+              }
+            />
+          )}
+        </View>
+      ) : (
+        <FlatList
+          data={draft?.lines ?? []}
+          keyExtractor={(item, index) => `${item.productId}-${item.unit}-${index}`}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ paddingTop: 8 }}
+          renderItem={({ item, index }) => (
+            <OrderLineItem
+              line={item}
+              index={index}
+              product={productsById.get(item.productId)}
+              onChange={updateLine}
+              onRemove={removeLine}
+            />
+          )}
+          ListEmptyComponent={
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-500 text-center mt-8 px-6">
+              Belum ada produk. Tambahkan dari tab Katalog.
+            </Text>
+          }
+          ListFooterComponent={
+            <TextInput
+              value={draft?.notes ?? ''}
+              onChangeText={setNotes}
+              placeholder="Catatan order (opsional)"
+              placeholderTextColor="#9ca3af"
+              multiline
+              maxLength={255}
+              className="mx-4 mb-4 min-h-[64px] rounded-lg border border-neutral-200 bg-white px-3 py-2 text-neutral-900"
+              style={{ fontFamily: 'Inter', textAlignVertical: 'top' }}
+            />
+          }
+        />
+      )}
+
+      <View className="px-4 pt-3 border-t border-neutral-200 bg-white" style={{ paddingBottom: Math.max(insets.bottom, 16) }}>
+        <View className="flex-row justify-between">
+          <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-500">
+            {totals.items} produk • {totals.quantity} item
+          </Text>
+          {totals.discount > 0 && (
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm text-success-600">Diskon {formatRupiah(totals.discount)}</Text>
+          )}
+        </View>
+        <View className="flex-row justify-between items-center mt-1 mb-3">
+          <Text style={{ fontFamily: 'Inter' }} className="text-base font-semibold text-neutral-900">Total</Text>
+          <Text style={{ fontFamily: 'Inter' }} className="text-lg font-bold text-primary-500">{formatRupiah(totals.total)}</Text>
+        </View>
+        <Button title="Simpan Draft" variant="primary" fullWidth loading={saving} disabled={!draft} onPress={handleSave} />
+      </View>
+    </View>
+  );
+});
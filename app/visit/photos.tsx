@@ -0,0 +1,300 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import * as Location from 'expo-location';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useRef, useState } from 'react';
+import { Alert, FlatList, Image, Pressable, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import ViewShot, { captureRef } from 'react-native-view-shot';
+
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { WatermarkData, WatermarkOverlay } from '@/components/WatermarkOverlay';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { usePhotoManifest } from '@/hooks/utils/usePhotoManifest';
+import { useVisitPhotos } from '@/hooks/utils/useVisitPhotos';
+import type { LocationFix } from '@/services/location-integrity';
+import { getPhotoCategoryLabel, VISIT_PHOTO_CATEGORIES, VisitPhotoCategory, VisitPhotoDraft } from '@/services/visit-photos';
+import { processImageWithTargetSize } from '@/utils/imageProcessor';
+import { log } from '@/utils/logger';
+
+interface PendingPhoto {
+  uri: string;
+  watermark: WatermarkData;
+  location: LocationFix | null;
+}
+
+const Header = React.memo(function Header({ subtitle, onBack }: { subtitle?: string; onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Foto Kunjungan
+          </Text>
+          {subtitle ? (
+            <Text className="text-white text-sm mt-1" numberOfLines={1}>{subtitle}</Text>
+          ) : null}
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const PhotoItem = React.memo(function PhotoItem({
+  photo,
+  onRemove,
+}: {
+  photo: VisitPhotoDraft;
+  onRemove: (photo: VisitPhotoDraft) => void;
+}) {
+  return (
+    <View className="flex-row mx-4 mb-3 p-2 rounded-lg border border-neutral-200 bg-white">
+      <Image source={{ uri: photo.uri }} className="w-20 h-20 rounded-md" resizeMode="cover" />
+      <View className="flex-1 ml-3">
+        <Text style={{ fontFamily: 'Inter' }} className="text-xs font-semibold text-primary-500">
+          {getPhotoCategoryLabel(photo.category)}
+        </Text>
+        <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-900 mt-0.5" numberOfLines={2}>
+          {photo.caption}
+        </Text>
+        <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-500 mt-1">
+          {new Date(photo.takenAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => onRemove(photo)} accessibilityRole="button" accessibilityLabel="Hapus foto">
+        <Ionicons name="trash-outline" size={20} color="#dc2626" />
+      </TouchableOpacity>
+    </View>
+  );
+});
+
+/**
+ * Foto tambahan selama kunjungan (display, POSM, kompetitor, barang rusak).
+ * Setiap foto diberi watermark seperti foto check-in dan dikirim bersama check-out.
+ */
+export default React.memo(function VisitPhotosScreen() {
+  const { id, outlet_id, outlet_code, outlet_name, district } = useLocalSearchParams<{
+    id?: string;
+    outlet_id?: string;
+    outlet_code?: string;
+    outlet_name?: string;
+    district?: string;
+  }>();
+  const visitId = typeof id === 'string' ? id : null;
+  const { photos, addPhoto, removePhoto } = useVisitPhotos(visitId);
+  const photoManifest = usePhotoManifest();
+  const [category, setCategory] = useState<VisitPhotoCategory>('DISPLAY_BEFORE');
+  const [caption, setCaption] = useState('');
+  const [pending, setPending] = useState<PendingPhoto | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const viewShotRef = useRef<any>(null);
+  const insets = useSafeAreaInsets();
+
+  const selectedOutlet = { code: outlet_code, name: outlet_name, district };
+
+  const getLocation = useCallback(async (): Promise<LocationFix | null> => {
+    try {
+      const { granted } = await Location.getForegroundPermissionsAsync();
+      if (!granted) return null;
+      const position = await Location.getLastKnownPositionAsync() ?? await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.Balanced,
+      });
+      return {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        mocked: position.mocked,
+        timestamp: position.timestamp,
+      };
+    } catch (error) {
+      log('[VISIT_PHOTOS] Failed to get location:', error);
+      return null;
+    }
+  }, []);
+
+  const handleTakePhoto = useCallback(async () => {
+    if (!visitId || processing) return;
+    if (!caption.trim()) {
+      Alert.alert('Keterangan Wajib', 'Isi keterangan foto sebelum mengambil foto.');
+      return;
+    }
+
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Izin Kamera', 'Akses kamera diperlukan untuk foto kunjungan.');
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], allowsEditing: false, quality: 0.7 });
+    if (result.canceled || !result.assets[0]) return;
+
+    setProcessing(true);
+    try {
+      const processed = await processImageWithTargetSize({
+        uri: result.assets[0].uri,
+        targetSizeKB: 75,
+        minSizeKB: 50,
+        maxSizeKB: 100,
+        maxWidth: 1280,
+        maxHeight: 1280,
+        quality: 0.8,
+      });
+      const location = await getLocation();
+      const captionText = caption.trim();
+      setPending({
+        uri: processed.uri,
+        location,
+        watermark: {
+          waktu: new Date().toLocaleString('id-ID', { hour12: false }),
+          outlet: `${outlet_code ?? '-'} • ${outlet_name ?? '-'}`,
+          lokasi: location ? `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}` : 'Lokasi tidak tersedia',
+          kategori: `${getPhotoCategoryLabel(category)} • ${captionText}`,
+        },
+      });
+
+      // Tunggu overlay watermark ter-render sebelum di-capture (sama seperti check-in/check-out)
+      setTimeout(async () => {
+        try {
+          const watermarkedUri = await captureRef(viewShotRef, { format: 'jpg', quality: 0.8, result: 'tmpfile' });
+          const finalImage = await processImageWithTargetSize({
+            uri: watermarkedUri,
+            targetSizeKB: 80,
+            minSizeKB: 55,
+            maxSizeKB: 120,
+            maxWidth: 1280,
+            maxHeight: 1280,
+            quality: 0.7,
+          });
+          // Tanda tangan manifest harus jadi langkah terakhir agar hash foto tetap cocok
+          const signedPhoto = await photoManifest.sign(finalImage.uri, {
+            kind: 'VISIT_PHOTO',
+            visitId,
+            outletId: outlet_id,
+            fix: location,
+          });
+          await addPhoto(signedPhoto?.uri ?? finalImage.uri, category, captionText, signedPhoto?.signed ?? null);
+          setCaption('');
+        } catch (error) {
+          log('[VISIT_PHOTOS] Error processing watermarked photo:', error);
+          Alert.alert('Gagal Memproses Foto', 'Terjadi kesalahan saat memberi watermark. Silakan coba lagi.');
+        } finally {
+          setPending(null);
+          setProcessing(false);
+        }
+      }, 500);
+    } catch (error) {
+      log('[VISIT_PHOTOS] Error processing photo:', error);
+      Alert.alert('Gagal Memproses Foto', 'Terjadi kesalahan saat mengompresi foto. Silakan coba lagi.');
+      setProcessing(false);
+    }
+  }, [visitId, processing, caption, category, outlet_id, outlet_code, outlet_name, getLocation, photoManifest, addPhoto]);
+
+  const handleRemove = useCallback((photo: VisitPhotoDraft) => {
+    Alert.alert('Hapus Foto', `Hapus foto ${getPhotoCategoryLabel(photo.category)}?`, [
+      { text: 'Batal', style: 'cancel' },
+      { text: 'Hapus', style: 'destructive', onPress: () => removePhoto(photo.id) },
+    ]);
+  }, [removePhoto]);
+
+  if (!visitId) {
+    return (
+      <View className="flex-1 bg-white">
+        <Header onBack={() => router.back()} />
+        <View className="flex-1 items-center justify-center px-6">
+          <Text style={{ fontFamily: 'Inter' }} className="text-base text-neutral-600 text-center">
+            Foto hanya bisa ditambahkan setelah check-in tersinkron ke server.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-neutral-50">
+      <Header subtitle={outlet_name ? `${outlet_code ?? '-'} • ${outlet_name}` : undefined} onBack={() => router.back()} />
+
+      <FlatList
+        data={photos}
+        keyExtractor={item => item.id}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <View className="m-4 p-3 rounded-lg border border-neutral-200 bg-white">
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-neutral-900 mb-2">Kategori</Text>
+            <View className="flex-row flex-wrap">
+              {VISIT_PHOTO_CATEGORIES.map(option => {
+                const selected = category === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    className={`px-3 py-1.5 mr-2 mb-2 rounded-full ${selected ? 'bg-primary-500' : 'bg-neutral-100'}`}
+                    onPress={() => setCategory(option.value)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={{ fontFamily: 'Inter' }} className={`text-xs font-semibold ${selected ? 'text-white' : 'text-neutral-700'}`}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TextInput
+              value={caption}
+              onChangeText={setCaption}
+              placeholder="Keterangan foto (wajib)"
+              placeholderTextColor="#9ca3af"
+              maxLength={120}
+              className="mt-1 mb-3 rounded-lg border border-neutral-200 px-3 py-2 text-neutral-900"
+              style={{ fontFamily: 'Inter' }}
+              accessibilityLabel="Keterangan foto"
+            />
+            <Button
+              title={processing ? 'Memproses Foto...' : 'Ambil Foto'}
+              variant="primary"
+              fullWidth
+              loading={processing}
+              disabled={!caption.trim()}
+              onPress={handleTakePhoto}
+            />
+          </View>
+        }
+        renderItem={({ item }) => <PhotoItem photo={item} onRemove={handleRemove} />}
+        ListEmptyComponent={
+          <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-500 text-center mt-4 px-6">
+            Belum ada foto. Foto akan dikirim bersama check-out.
+          </Text>
+        }
+        contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 16) }}
+      />
+
+      {pending && (
+        <ViewShot
+          ref={viewShotRef}
+          options={{ format: 'jpg', quality: 0.8 }}
+          style={{ position: 'absolute', left: -1000, top: -1000, width: '100%', height: '100%' }}
+        >
+          <WatermarkOverlay
+            photoUri={pending.uri}
+            watermarkData={pending.watermark}
+            currentLocation={pending.location}
+            selectedOutlet={selectedOutlet}
+          />
+        </ViewShot>
+      )}
+    </View>
+  );
+});
@@ -0,0 +1,305 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Pressable, SectionList, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { useStockAudit } from '@/hooks/utils/useStockAudit';
+import {
+  getStockAuditFields,
+  groupStockAuditByShelf,
+  StockAuditField,
+  StockAuditItem,
+  StockAuditValue,
+} from '@/services/stock-audit';
+import { processImageWithTargetSize } from '@/utils/imageProcessor';
+
+const Header = React.memo(function Header({ subtitle, onBack }: { subtitle?: string; onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Audit Rak & Stok
+          </Text>
+          {subtitle ? (
+            <Text className="text-white text-sm mt-1" numberOfLines={1}>{subtitle}</Text>
+          ) : null}
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const AuditFieldInput = React.memo(function AuditFieldInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: StockAuditField;
+  value: StockAuditValue | undefined;
+  onChange: (key: string, value: StockAuditValue) => void;
+}) {
+  const label = (
+    <Text style={{ fontFamily: 'Inter' }} className="flex-1 text-sm text-neutral-700">
+      {field.label}{field.required ? <Text className="text-danger-600"> *</Text> : null}
+    </Text>
+  );
+
+  if (field.type === 'boolean') {
+    return (
+      <View className="flex-row items-center mt-2">
+        {label}
+        {[true, false].map(option => {
+          const selected = value === option;
+          return (
+            <TouchableOpacity
+              key={String(option)}
+              className={`px-3 py-1 ml-2 rounded-full ${selected ? (option ? 'bg-success-500' : 'bg-danger-500') : 'bg-neutral-100'}`}
+              // Tekan lagi untuk mengosongkan pilihan
+              onPress={() => onChange(field.key, selected ? null : option)}
+              accessibilityRole="radio"
+              accessibilityState={{ selected }}
+              accessibilityLabel={`${field.label} ${option ? 'Ya' : 'Tidak'}`}
+            >
+              <Text style={{ fontFamily: 'Inter' }} className={`text-xs font-semibold ${selected ? 'text-white' : 'text-neutral-700'}`}>
+                {option ? 'Ya' : 'Tidak'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-row items-center mt-2">
+      {label}
+      <TextInput
+        value={typeof value === 'number' ? String(value) : ''}
+        onChangeText={text => {
+          const digits = text.replace(/[^0-9]/g, '');
+          onChange(field.key, digits ? Number(digits) : null);
+        }}
+        keyboardType="number-pad"
+        placeholder="-"
+        placeholderTextColor="#9ca3af"
+        className="w-20 py-1 rounded-lg border border-neutral-200 text-center text-neutral-900"
+        style={{ fontFamily: 'Inter' }}
+        accessibilityLabel={field.label}
+      />
+    </View>
+  );
+});
+
+const AuditItemCard = React.memo(function AuditItemCard({
+  item,
+  values,
+  onChange,
+}: {
+  item: StockAuditItem;
+  values: Record<string, StockAuditValue> | undefined;
+  onChange: (itemId: string | number, key: string, value: StockAuditValue) => void;
+}) {
+  const handleChange = useCallback((key: string, value: StockAuditValue) => onChange(item.id, key, value), [item.id, onChange]);
+
+  return (
+    <View className="mx-4 mb-3 p-3 rounded-lg border border-neutral-200 bg-white">
+      <Text style={{ fontFamily: 'Inter' }} className="text-base font-semibold text-neutral-900" numberOfLines={1}>
+        {item.name}
+      </Text>
+      <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-500">{item.code}</Text>
+      {getStockAuditFields(item).map(field => (
+        <AuditFieldInput key={field.key} field={field} value={values?.[field.key]} onChange={handleChange} />
+      ))}
+    </View>
+  );
+});
+
+const ShelfHeader = React.memo(function ShelfHeader({
+  name,
+  photoUri,
+  onTakePhoto,
+  onRemovePhoto,
+}: {
+  name: string;
+  photoUri?: string;
+  onTakePhoto: (shelf: string) => void;
+  onRemovePhoto: (shelf: string) => void;
+}) {
+  return (
+    <View className="flex-row items-center px-4 pt-4 pb-2 bg-neutral-50">
+      <Text style={{ fontFamily: 'Inter' }} className="flex-1 text-sm font-semibold text-neutral-600 uppercase">{name}</Text>
+      {photoUri ? (
+        <TouchableOpacity
+          onPress={() => onTakePhoto(name)}
+          onLongPress={() => onRemovePhoto(name)}
+          accessibilityRole="button"
+          accessibilityLabel={`Foto rak ${name}`}
+          accessibilityHint="Tekan untuk foto ulang, tahan untuk menghapus"
+        >
+          <Image source={{ uri: photoUri }} className="w-11 h-11 rounded-lg" resizeMode="cover" />
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          className="flex-row items-center px-3 py-1.5 rounded-lg bg-white border border-neutral-200"
+          onPress={() => onTakePhoto(name)}
+          accessibilityRole="button"
+          accessibilityLabel={`Ambil foto rak ${name}`}
+        >
+          <Ionicons name="camera-outline" size={16} color="#f97316" />
+          <Text style={{ fontFamily: 'Inter' }} className="ml-1 text-xs font-semibold text-primary-500">Foto Rak</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+});
+
+/**
+ * Checklist ketersediaan, facing dan stok SKU di rak outlet selama kunjungan.
+ * Draft disimpan di perangkat dan dikirim bersama check-out.
+ */
+export default React.memo(function StockAuditScreen() {
+  const { id, outlet, division_id, cluster_id } = useLocalSearchParams<{
+    id?: string;
+    outlet?: string;
+    division_id?: string;
+    cluster_id?: string;
+  }>();
+  const visitId = typeof id === 'string' ? id : null;
+  const scope = useMemo(() => ({ division_id, cluster_id }), [division_id, cluster_id]);
+  const audit = useStockAudit(visitId, scope);
+  const [saving, setSaving] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  const sections = useMemo(
+    () => groupStockAuditByShelf(audit.items).map(shelf => ({ title: shelf.name, data: shelf.items })),
+    [audit.items]
+  );
+
+  const handleTakePhoto = useCallback(async (shelf: string) => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Izin Kamera', 'Akses kamera diperlukan untuk foto rak.');
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], allowsEditing: false, quality: 0.7 });
+    if (result.canceled || !result.assets[0]) return;
+
+    try {
+      const processed = await processImageWithTargetSize({
+        uri: result.assets[0].uri,
+        targetSizeKB: 100,
+        minSizeKB: 40,
+        maxSizeKB: 150,
+        maxWidth: 1280,
+        maxHeight: 1280,
+        quality: 0.7,
+      });
+      await audit.setShelfPhoto(shelf, processed.uri);
+    } catch {
+      Alert.alert('Gagal Memproses Foto', 'Terjadi kesalahan saat mengompresi foto. Silakan coba lagi.');
+    }
+  }, [audit]);
+
+  const handleRemovePhoto = useCallback((shelf: string) => {
+    Alert.alert('Hapus Foto', `Hapus foto rak ${shelf}?`, [
+      { text: 'Batal', style: 'cancel' },
+      { text: 'Hapus', style: 'destructive', onPress: () => audit.setShelfPhoto(shelf, null) },
+    ]);
+  }, [audit]);
+
+  const handleBack = useCallback(() => {
+    if (!audit.dirty) {
+      router.back();
+      return;
+    }
+    Alert.alert('Audit Belum Disimpan', 'Perubahan audit akan hilang. Keluar tanpa menyimpan?', [
+      { text: 'Batal', style: 'cancel' },
+      { text: 'Keluar', style: 'destructive', onPress: () => router.back() },
+    ]);
+  }, [audit.dirty]);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    try {
+      await audit.save();
+      router.back();
+    } catch {
+      Alert.alert('Gagal Menyimpan', 'Draft audit tidak dapat disimpan. Silakan coba lagi.');
+    } finally {
+      setSaving(false);
+    }
+  }, [audit]);
+
+  if (!visitId) {
+    return (
+      <View className="flex-1 bg-white">
+        <Header onBack={() => router.back()} />
+        <View className="flex-1 items-center justify-center px-6">
+          <Text style={{ fontFamily: 'Inter' }} className="text-base text-neutral-600 text-center">
+            Audit hanya bisa diisi setelah check-in tersinkron ke server.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-neutral-50">
+      <Header subtitle={typeof outlet === 'string' ? outlet : undefined} onBack={handleBack} />
+
+      {audit.loading && audit.items.length === 0 ? (
+        <ActivityIndicator className="mt-8" color="#f97316" />
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={item => String(item.id)}
+          keyboardShouldPersistTaps="handled"
+          stickySectionHeadersEnabled={false}
+          renderSectionHeader={({ section }) => (
+            <ShelfHeader
+              name={section.title}
+              photoUri={audit.draft?.shelfPhotos[section.title]}
+              onTakePhoto={handleTakePhoto}
+              onRemovePhoto={handleRemovePhoto}
+            />
+          )}
+          renderItem={({ item }) => (
+            <AuditItemCard item={item} values={audit.draft?.values[String(item.id)]} onChange={audit.setValue} />
+          )}
+          ListEmptyComponent={
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-500 text-center mt-8 px-6">
+              {audit.error ?? 'Tidak ada SKU untuk diaudit di outlet ini.'}
+            </Text>
+          }
+        />
+      )}
+
+      <View className="px-4 pt-3 border-t border-neutral-200 bg-white" style={{ paddingBottom: Math.max(insets.bottom, 16) }}>
+        <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-500 mb-3">
+          {audit.progress.done} dari {audit.progress.total} SKU lengkap
+        </Text>
+        <Button title="Simpan Draft" variant="primary" fullWidth loading={saving} disabled={!audit.draft} onPress={handleSave} />
+      </View>
+    </View>
+  );
+});
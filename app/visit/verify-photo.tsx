@@ -0,0 +1,190 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Pressable, ScrollView, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { usePhotoManifest } from '@/hooks/utils/usePhotoManifest';
+import { PHOTO_VERIFICATION_LABELS, PhotoVerification, PhotoVerificationStatus } from '@/services/photo-manifest';
+import { log } from '@/utils/logger';
+
+const STATUS_STYLE: Record<PhotoVerificationStatus, { icon: keyof typeof Ionicons.glyphMap; className: string; color: string }> = {
+  VALID: { icon: 'shield-checkmark', className: 'bg-success-50 border-success-500', color: '#16a34a' },
+  UNSIGNED: { icon: 'shield-outline', className: 'bg-warning-50 border-warning-500', color: '#d97706' },
+  UNVERIFIED: { icon: 'shield-outline', className: 'bg-warning-50 border-warning-500', color: '#d97706' },
+  EDITED: { icon: 'warning', className: 'bg-danger-50 border-danger-500', color: '#dc2626' },
+  REUSED: { icon: 'copy', className: 'bg-danger-50 border-danger-500', color: '#dc2626' },
+  INVALID_SIGNATURE: { icon: 'close-circle', className: 'bg-danger-50 border-danger-500', color: '#dc2626' },
+  NO_MANIFEST: { icon: 'help-circle', className: 'bg-danger-50 border-danger-500', color: '#dc2626' },
+};
+
+const Header = React.memo(function Header({ onBack }: { onBack: () => void }) {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View className="px-4 pb-4" style={{ paddingTop: insets.top + 12, backgroundColor: colors.primary }}>
+      <View className="flex-row items-center justify-between">
+        <Pressable
+          onPress={onBack}
+          className="w-8 h-8 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel="Kembali"
+        >
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </Pressable>
+        <View className="flex-1 items-center mx-4">
+          <Text className="text-white text-xl font-semibold" style={{ fontFamily: 'Inter_600SemiBold' }}>
+            Verifikasi Foto
+          </Text>
+        </View>
+        <View className="w-8 h-8" />
+      </View>
+    </View>
+  );
+});
+
+const DetailRow = React.memo(function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View className="flex-row py-1.5 border-b border-neutral-100">
+      <Text style={{ fontFamily: 'Inter' }} className="w-32 text-sm text-neutral-500">{label}</Text>
+      <Text style={{ fontFamily: 'Inter' }} className="flex-1 text-sm text-neutral-900" selectable>{value}</Text>
+    </View>
+  );
+});
+
+const VerificationResult = React.memo(function VerificationResult({ result }: { result: PhotoVerification }) {
+  const style = STATUS_STYLE[result.status];
+  const manifest = result.manifest;
+
+  return (
+    <View>
+      <View className={`flex-row items-center p-4 rounded-lg border ${style.className}`}>
+        <Ionicons name={style.icon} size={28} color={style.color} />
+        <View className="flex-1 ml-3">
+          <Text style={{ fontFamily: 'Inter_600SemiBold', color: style.color }} className="text-base font-semibold">
+            {PHOTO_VERIFICATION_LABELS[result.status]}
+          </Text>
+          {result.messages.map(message => (
+            <Text key={message} style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-700 mt-1">{message}</Text>
+          ))}
+        </View>
+      </View>
+
+      {manifest && (
+        <View className="mt-4 p-4 rounded-lg border border-neutral-200 bg-white">
+          <Text style={{ fontFamily: 'Inter_600SemiBold' }} className="text-base font-semibold text-neutral-900 mb-2">
+            Manifest Foto
+          </Text>
+          <DetailRow
+            label="Waktu ambil"
+            value={`${new Date(manifest.captured_at).toLocaleString('id-ID', { hour12: false })} (${manifest.time_source === 'server' ? 'jam server' : 'jam perangkat'})`}
+          />
+          <DetailRow
+            label="Lokasi"
+            value={manifest.latitude !== null && manifest.longitude !== null
+              ? `${manifest.latitude.toFixed(6)}, ${manifest.longitude.toFixed(6)}${manifest.accuracy ? ` (±${Math.round(manifest.accuracy)} m)` : ''}`
+              : '-'}
+          />
+          {manifest.mocked ? <DetailRow label="Lokasi palsu" value="Ya (mock location)" /> : null}
+          <DetailRow label="Kunjungan" value={manifest.visit_id ? `#${manifest.visit_id}` : '-'} />
+          <DetailRow label="Outlet" value={manifest.outlet_id ? `#${manifest.outlet_id}` : '-'} />
+          <DetailRow label="Perangkat" value={manifest.device_id} />
+          <DetailRow label="Hash SHA-256" value={manifest.image_sha256} />
+        </View>
+      )}
+    </View>
+  );
+});
+
+/**
+ * Cek keaslian foto kunjungan dari manifest bertanda tangan yang tertanam di file:
+ * foto diedit, manifest diubah, atau foto dari kunjungan/outlet lain.
+ */
+export default React.memo(function VerifyPhotoScreen() {
+  const { url, visit_id, outlet_id } = useLocalSearchParams<{ url?: string; visit_id?: string; outlet_id?: string }>();
+  const { verify } = usePhotoManifest();
+  const [uri, setUri] = useState<string | null>(null);
+  const [result, setResult] = useState<PhotoVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const runVerification = useCallback(async (localUri: string) => {
+    setUri(localUri);
+    setResult(null);
+    setVerifying(true);
+    try {
+      setResult(await verify(localUri, { visitId: visit_id, outletId: outlet_id }));
+    } catch (error) {
+      log('[VERIFY_PHOTO] Error verifying photo:', error);
+      Alert.alert('Gagal Verifikasi', 'File foto tidak dapat dibaca.');
+    } finally {
+      setVerifying(false);
+    }
+  }, [verify, visit_id, outlet_id]);
+
+  // Foto dari server diunduh utuh agar byte (dan XMP) sama dengan yang diupload
+  useEffect(() => {
+    if (!url) return;
+    setVerifying(true);
+    FileSystem.downloadAsync(url, `${FileSystem.cacheDirectory}verify-${Date.now()}.jpg`)
+      .then(download => runVerification(download.uri))
+      .catch(error => {
+        log('[VERIFY_PHOTO] Error downloading photo:', error);
+        setVerifying(false);
+        Alert.alert('Gagal Mengunduh', 'Foto tidak dapat diunduh. Periksa koneksi lalu coba lagi.');
+      });
+  }, [url, runVerification]);
+
+  const handlePick = useCallback(async () => {
+    // quality 1 + tanpa edit + representasi asli: file tidak dikompres ulang oleh picker
+    const picked = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: false,
+      quality: 1,
+      preferredAssetRepresentationMode: ImagePicker.UIImagePickerPreferredAssetRepresentationMode.Current,
+    });
+    if (picked.canceled || !picked.assets[0]) return;
+    await runVerification(picked.assets[0].uri);
+  }, [runVerification]);
+
+  return (
+    <View className="flex-1 bg-neutral-50">
+      <Header onBack={() => router.back()} />
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 16, paddingBottom: 32 }}>
+        {uri ? (
+          <Image source={{ uri }} className="w-full h-64 rounded-lg bg-neutral-200 mb-4" resizeMode="contain" />
+        ) : (
+          <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-600 mb-4">
+            Pilih foto kunjungan untuk memeriksa apakah foto asli dari aplikasi, sudah diedit, atau dipakai ulang dari kunjungan lain.
+          </Text>
+        )}
+
+        {verifying ? (
+          <View className="items-center py-6">
+            <ActivityIndicator />
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-600 mt-2">Memverifikasi foto...</Text>
+          </View>
+        ) : result ? (
+          <VerificationResult result={result} />
+        ) : null}
+
+        <View className="mt-4">
+          <Button
+            title={uri ? 'Pilih Foto Lain' : 'Pilih Foto dari Galeri'}
+            variant="outline"
+            fullWidth
+            onPress={handlePick}
+            disabled={verifying}
+          />
+        </View>
+      </ScrollView>
+    </View>
+  );
+});
@@ -1,11 +1,26 @@
+import { PhotoViewerModal } from '@/components/PhotoViewerModal';
 import { Button } from '@/components/ui/Button';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { Colors } from '@/constants/Colors';
 import { useVisit, Visit } from '@/hooks/data/useVisit';
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { getShelfName, getStockAuditFields, StockAuditValue, VisitStockAudit } from '@/services/stock-audit';
+import { getPhotoCategoryLabel, groupVisitPhotos, VisitPhoto } from '@/services/visit-photos';
+import {
+  buildVisitReport,
+  exportVisitReportPdf,
+  formatReportTime,
+  shareVisitReportPdf,
+  VisitReport,
+  VisitTimelineKind,
+} from '@/services/visit-report';
+import { formatVisitDuration } from '@/services/visit-stats';
+import { LatLng, regionForPoints } from '@/utils/geo';
+import { log } from '@/utils/logger';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Alert, Image, Platform, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Circle, Marker, Polygon, PROVIDER_GOOGLE } from 'react-native-maps';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 interface StatusBadgeProps {
@@ -95,11 +110,15 @@ const LoadingScreen = memo(function LoadingScreen({
 const Header = memo(function Header({ 
   colors, 
   visitName, 
-  onBack 
+  onBack,
+  onShare,
+  sharing = false
 }: {
   colors: any;
   visitName: string;
   onBack: () => void;
+  onShare?: () => void;
+  sharing?: boolean;
 }) {
   const insets = useSafeAreaInsets();
   
@@ -124,7 +143,19 @@ const Header = memo(function Header({
             {visitName}
           </Text>
         </View>
-        <View className="w-8 h-8" />
+        {onShare ? (
+          <TouchableOpacity
+            onPress={onShare}
+            disabled={sharing}
+            className="w-8 h-8 items-center justify-center"
+            accessibilityRole="button"
+            accessibilityLabel="Export PDF / Bagikan"
+          >
+            {sharing ? <ActivityIndicator size="small" color="#fff" /> : <IconSymbol name="square.and.arrow.up" size={22} color="#fff" />}
+          </TouchableOpacity>
+        ) : (
+          <View className="w-8 h-8" />
+        )}
       </View>
     </View>
   );
@@ -310,6 +341,348 @@ const VisitDetailsCard = memo(function VisitDetailsCard({
   );
 });
 
+const formatAuditValue = (value: StockAuditValue | undefined) => {
+  if (value === true) return 'Ya';
+  if (value === false) return 'Tidak';
+  return value === null || value === undefined ? '-' : String(value);
+};
+
+const StockAuditCard = memo(function StockAuditCard({ 
+  audit, 
+  colors 
+}: {
+  audit: VisitStockAudit;
+  colors: any;
+}) {
+  const cardStyle = useMemo(() => ({ 
+    backgroundColor: colors.card,
+    borderColor: colors.border,
+  }), [colors.card, colors.border]);
+
+  const iconBackgroundStyle = useMemo(() => ({ 
+    backgroundColor: colors.primary + '20' 
+  }), [colors.primary]);
+
+  // Rak dari daftar shelves (berisi foto) ditambah rak yang hanya muncul di item
+  const shelves = useMemo(() => {
+    const names = [...audit.shelves.map(shelf => shelf.name)];
+    audit.items.forEach(item => {
+      const name = getShelfName({ ...item, id: item.sku_id });
+      if (!names.includes(name)) names.push(name);
+    });
+    return names.map(name => ({
+      name,
+      photoUrl: audit.shelves.find(shelf => shelf.name === name)?.photo_url ?? null,
+      items: audit.items.filter(item => getShelfName({ ...item, id: item.sku_id }) === name),
+    }));
+  }, [audit]);
+
+  return (
+    <View className="rounded-lg border p-4 mb-4 shadow-sm" style={cardStyle}>
+      <View className="flex-row items-center mb-2">
+        <View className="w-9 h-9 rounded-lg items-center justify-center mr-3" style={iconBackgroundStyle}>
+          <IconSymbol name="list.bullet" size={18} color={colors.primary} />
+        </View>
+        <Text className="text-lg font-semibold" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+          Audit Rak & Stok
+        </Text>
+      </View>
+
+      {shelves.map(shelf => (
+        <View key={shelf.name} className="mt-3">
+          <View className="flex-row items-center justify-between mb-1">
+            <Text className="text-sm font-semibold uppercase" style={{ fontFamily: 'Inter_600SemiBold', color: colors.textSecondary }}>
+              {shelf.name}
+            </Text>
+            {shelf.photoUrl ? (
+              <Image source={{ uri: shelf.photoUrl }} className="w-16 h-16 rounded-lg" resizeMode="cover" />
+            ) : null}
+          </View>
+          {shelf.items.map((item, index) => (
+            <View
+              key={String(item.sku_id)}
+              className={`py-2 ${index < shelf.items.length - 1 ? 'border-b' : ''}`}
+              style={{ borderBottomColor: colors.border + '40' }}
+            >
+              <Text className="text-base" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>
+                {item.name} ({item.code})
+              </Text>
+              <Text className="text-sm" style={{ fontFamily: 'Inter_400Regular', color: colors.textSecondary }}>
+                {getStockAuditFields({ ...item, id: item.sku_id })
+                  .map(field => `${field.label}: ${formatAuditValue(item.values[field.key])}`)
+                  .join(' • ')}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+});
+
+const CardTitle = memo(function CardTitle({ icon, title, colors }: { icon: string; title: string; colors: any }) {
+  return (
+    <View className="flex-row items-center mb-3">
+      <View className="w-9 h-9 rounded-lg items-center justify-center mr-3" style={{ backgroundColor: colors.primary + '20' }}>
+        <IconSymbol name={icon as any} size={18} color={colors.primary} />
+      </View>
+      <Text className="text-lg font-semibold" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+        {title}
+      </Text>
+    </View>
+  );
+});
+
+const CheckInOutPhotosCard = memo(function CheckInOutPhotosCard({ 
+  visit, 
+  colors,
+  onVerifyPhoto
+}: {
+  visit: Visit;
+  colors: any;
+  onVerifyPhoto: (url: string) => void;
+}) {
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const photos = useMemo(() => [
+    { uri: visit.checkin_photo, title: 'Check-in', time: visit.checkin_time },
+    { uri: visit.checkout_photo, title: 'Check-out', time: visit.checkout_time },
+  ].filter((photo): photo is { uri: string; title: string; time: string | null } => !!photo.uri), [visit]);
+
+  const viewerPhotos = useMemo(() => 
+    photos.map(photo => ({ uri: photo.uri, title: photo.title, caption: photo.time })),
+    [photos]
+  );
+
+  return (
+    <View className="rounded-lg border p-4 mb-4 shadow-sm" style={{ backgroundColor: colors.card, borderColor: colors.border }}>
+      <CardTitle icon="camera.fill" title="Foto Check-in & Check-out" colors={colors} />
+      {photos.length === 0 ? (
+        <Text className="text-sm" style={{ fontFamily: 'Inter_400Regular', color: colors.textSecondary }}>
+          Belum ada foto.
+        </Text>
+      ) : (
+        <View className="flex-row">
+          {photos.map((photo, index) => (
+            <TouchableOpacity
+              key={photo.title}
+              className={`flex-1 ${index === 0 && photos.length > 1 ? 'mr-2' : ''}`}
+              onPress={() => setViewerIndex(index)}
+              accessibilityRole="imagebutton"
+              accessibilityLabel={`Foto ${photo.title}`}
+            >
+              <Image source={{ uri: photo.uri }} className="w-full h-40 rounded-lg" resizeMode="cover" />
+              <Text className="text-sm mt-1" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>
+                {photo.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <PhotoViewerModal
+        photos={viewerPhotos}
+        index={viewerIndex}
+        onClose={() => setViewerIndex(null)}
+        onVerify={photo => {
+          setViewerIndex(null);
+          onVerifyPhoto(photo.uri);
+        }}
+      />
+    </View>
+  );
+});
+
+const VisitMapCard = memo(function VisitMapCard({ 
+  report, 
+  colors 
+}: {
+  report: VisitReport;
+  colors: any;
+}) {
+  const region = useMemo(() => {
+    const points = [report.outlet, report.checkin, report.checkout, ...(report.boundary ?? [])]
+      .filter((point): point is LatLng => point !== null);
+    return regionForPoints(points, 1.8, 0.003);
+  }, [report]);
+
+  if (!region) return null;
+
+  return (
+    <View className="rounded-lg border p-4 mb-4 shadow-sm" style={{ backgroundColor: colors.card, borderColor: colors.border }}>
+      <CardTitle icon="map" title="Lokasi Kunjungan" colors={colors} />
+      <View className="h-56 rounded-lg overflow-hidden">
+        {/* Peta statis: liteMode di Android, gesture dimatikan agar tidak bentrok dengan scroll */}
+        <MapView
+          style={{ flex: 1 }}
+          provider={Platform.OS === 'android' ? PROVIDER_GOOGLE : undefined}
+          initialRegion={region}
+          liteMode
+          scrollEnabled={false}
+          zoomEnabled={false}
+          pitchEnabled={false}
+          rotateEnabled={false}
+          toolbarEnabled={false}
+        >
+          {report.boundary ? (
+            <Polygon coordinates={report.boundary} strokeColor={colors.primary} strokeWidth={2} fillColor={colors.primary + '22'} />
+          ) : report.outlet && report.radius ? (
+            <Circle center={report.outlet} radius={report.radius} strokeColor={colors.primary} strokeWidth={2} fillColor={colors.primary + '22'} />
+          ) : null}
+          {report.outlet && <Marker coordinate={report.outlet} title="Outlet" pinColor={colors.primary} />}
+          {report.checkin && <Marker coordinate={report.checkin} title="Check-in" pinColor={colors.success} />}
+          {report.checkout && <Marker coordinate={report.checkout} title="Check-out" pinColor={colors.info} />}
+        </MapView>
+      </View>
+      {[
+        { label: 'Check-in', verdict: report.checkinGeofence },
+        { label: 'Check-out', verdict: report.checkoutGeofence },
+      ].map(({ label, verdict }) => verdict ? (
+        <Text key={label} className="text-sm mt-2" style={{ fontFamily: 'Inter_400Regular', color: verdict.status === 'outside' ? colors.danger : colors.textSecondary }}>
+          {label}: {verdict.message}
+        </Text>
+      ) : null)}
+    </View>
+  );
+});
+
+const TIMELINE_COLORS: Record<VisitTimelineKind, 'success' | 'primary' | 'info' | 'warning'> = {
+  CHECK_IN: 'success',
+  PHOTO: 'primary',
+  CHECK_OUT: 'info',
+  AUTO_CLOSE: 'warning',
+};
+
+const VisitTimelineCard = memo(function VisitTimelineCard({ 
+  report, 
+  colors 
+}: {
+  report: VisitReport;
+  colors: any;
+}) {
+  return (
+    <View className="rounded-lg border p-4 mb-4 shadow-sm" style={{ backgroundColor: colors.card, borderColor: colors.border }}>
+      <View className="flex-row items-center justify-between">
+        <CardTitle icon="clock" title="Timeline" colors={colors} />
+        <Text className="text-sm mb-3" style={{ fontFamily: 'Inter_500Medium', color: colors.textSecondary }}>
+          Durasi {formatVisitDuration(report.durationMinutes)}
+        </Text>
+      </View>
+      {report.timeline.length === 0 ? (
+        <Text className="text-sm" style={{ fontFamily: 'Inter_400Regular', color: colors.textSecondary }}>
+          Belum ada aktivitas.
+        </Text>
+      ) : report.timeline.map((event, index) => {
+        const dotColor = colors[TIMELINE_COLORS[event.kind]];
+        const isLast = index === report.timeline.length - 1;
+        return (
+          <View key={`${event.kind}-${event.time}-${index}`} className="flex-row">
+            <View className="items-center mr-3" style={{ width: 12 }}>
+              <View className="w-3 h-3 rounded-full mt-1" style={{ backgroundColor: dotColor }} />
+              {!isLast && <View className="flex-1 w-0.5" style={{ backgroundColor: colors.border }} />}
+            </View>
+            <View className={`flex-1 ${isLast ? '' : 'pb-4'}`}>
+              <Text className="text-base" style={{ fontFamily: 'Inter_500Medium', color: colors.text }}>
+                {formatReportTime(event.time)} • {event.label}
+              </Text>
+              {event.description ? (
+                <Text className="text-sm" style={{ fontFamily: 'Inter_400Regular', color: colors.textSecondary }}>
+                  {event.description}
+                </Text>
+              ) : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+});
+
+const PhotoGalleryCard = memo(function PhotoGalleryCard({ 
+  photos, 
+  colors,
+  onVerifyPhoto
+}: {
+  photos: VisitPhoto[];
+  colors: any;
+  onVerifyPhoto: (url: string) => void;
+}) {
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const cardStyle = useMemo(() => ({ 
+    backgroundColor: colors.card,
+    borderColor: colors.border,
+  }), [colors.card, colors.border]);
+
+  const iconBackgroundStyle = useMemo(() => ({ 
+    backgroundColor: colors.primary + '20' 
+  }), [colors.primary]);
+
+  // start = index foto pertama grup di viewer
+  const groups = useMemo(() => {
+    let start = 0;
+    return groupVisitPhotos(photos).map(group => {
+      const entry = { ...group, start };
+      start += group.photos.length;
+      return entry;
+    });
+  }, [photos]);
+
+  // Urutan viewer mengikuti urutan tampilan per kategori
+  const viewerPhotos = useMemo(() => 
+    groups.flatMap(group => group.photos).map(photo => ({
+      uri: photo.url,
+      title: getPhotoCategoryLabel(photo.category),
+      caption: photo.caption,
+    })),
+    [groups]
+  );
+
+  return (
+    <View className="rounded-lg border p-4 mb-4 shadow-sm" style={cardStyle}>
+      <View className="flex-row items-center mb-2">
+        <View className="w-9 h-9 rounded-lg items-center justify-center mr-3" style={iconBackgroundStyle}>
+          <IconSymbol name="photo" size={18} color={colors.primary} />
+        </View>
+        <Text className="text-lg font-semibold" style={{ fontFamily: 'Inter_600SemiBold', color: colors.text }}>
+          Foto Kunjungan
+        </Text>
+      </View>
+
+      {groups.map(group => (
+        <View key={group.category} className="mt-3">
+          <Text className="text-sm font-semibold uppercase mb-2" style={{ fontFamily: 'Inter_600SemiBold', color: colors.textSecondary }}>
+            {group.label} ({group.photos.length})
+          </Text>
+          <View className="flex-row flex-wrap">
+            {group.photos.map((photo, index) => (
+              <TouchableOpacity
+                key={String(photo.id)}
+                className="mr-2 mb-2"
+                onPress={() => setViewerIndex(group.start + index)}
+                accessibilityRole="imagebutton"
+                accessibilityLabel={photo.caption || group.label}
+              >
+                <Image source={{ uri: photo.url }} className="w-24 h-24 rounded-lg" resizeMode="cover" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <PhotoViewerModal
+        photos={viewerPhotos}
+        index={viewerIndex}
+        onClose={() => setViewerIndex(null)}
+        onVerify={photo => {
+          setViewerIndex(null);
+          onVerifyPhoto(photo.uri);
+        }}
+      />
+    </View>
+  );
+});
+
 export default memo(function VisitViewPage() {
   const colorScheme = useColorScheme();
   const colors = useMemo(() => Colors[colorScheme ?? 'light'], [colorScheme]);
@@ -318,6 +691,7 @@ export default memo(function VisitViewPage() {
   const { loading, error, fetchVisit } = useVisit();
   const [visit, setVisit] = useState<Visit | null>(null);
   const [fetching, setFetching] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -349,6 +723,31 @@ export default memo(function VisitViewPage() {
     router.back();
   }, [router]);
 
+  const handleVerifyPhoto = useCallback((url: string) => {
+    if (!visit) return;
+    router.push({
+      pathname: '/visit/verify-photo',
+      params: { url, visit_id: String(visit.id), outlet_id: String(visit.outlet.id) },
+    });
+  }, [router, visit]);
+
+  const report = useMemo(() => visit ? buildVisitReport(visit) : null, [visit]);
+
+  const handleShare = useCallback(async () => {
+    if (!visit || exporting) return;
+    setExporting(true);
+    try {
+      const uri = await exportVisitReportPdf(visit);
+      const shared = await shareVisitReportPdf(uri, visit);
+      if (!shared) Alert.alert('PDF Tersimpan', `Berbagi tidak tersedia di perangkat ini. File: ${uri}`);
+    } catch (err) {
+      log('[VISIT_REPORT] Error exporting visit report:', err);
+      Alert.alert('Gagal Membuat PDF', 'Laporan kunjungan tidak dapat dibuat. Silakan coba lagi.');
+    } finally {
+      setExporting(false);
+    }
+  }, [visit, exporting]);
+
   const visitName = useMemo(() => 
     visit?.outlet?.name || 'Detail Visit',
     [visit?.outlet?.name]
@@ -395,6 +794,8 @@ export default memo(function VisitViewPage() {
         colors={colors}
         visitName={visitName}
         onBack={handleBack}
+        onShare={handleShare}
+        sharing={exporting}
       />
       
       <ScrollView 
@@ -409,6 +810,15 @@ export default memo(function VisitViewPage() {
             colors={colors}
             getStatusColor={getStatusColor}
           />
+          {report && <VisitTimelineCard report={report} colors={colors} />}
+          <CheckInOutPhotosCard visit={visit} colors={colors} onVerifyPhoto={handleVerifyPhoto} />
+          {report && <VisitMapCard report={report} colors={colors} />}
+          {visit.stock_audit && visit.stock_audit.items.length > 0 && (
+            <StockAuditCard audit={visit.stock_audit} colors={colors} />
+          )}
+          {visit.photos && visit.photos.length > 0 && (
+            <PhotoGalleryCard photos={visit.photos} colors={colors} onVerifyPhoto={handleVerifyPhoto} />
+          )}
         </View>
       </ScrollView>
     </View>
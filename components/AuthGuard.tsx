@@ -13,7 +13,7 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
   const hasRedirected = useRef(false);
 
   // Hanya redirect ke login jika tidak ada token
-  // 401/403 errors akan dihandle otomatis oleh API level auto-logout
+  // 401 di-refresh otomatis di level API; auto-logout hanya jika refresh gagal
   useEffect(() => {
     if (!loading && !token && !hasRedirected.current) {
       log('[AUTH_GUARD] No token found, redirecting to login');
@@ -0,0 +1,101 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { Button } from '@/components/ui/Button';
+import { useOpenVisit } from '@/context/open-visit-context';
+import { AUTO_CLOSE_REASONS, AutoCloseReason } from '@/services/open-visit';
+
+interface AutoCloseVisitModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onClosed?: () => void;
+}
+
+/**
+ * Tutup kunjungan terbuka tanpa check-out, dengan alasan yang dikirim ke backend.
+ */
+export const AutoCloseVisitModal = React.memo(function AutoCloseVisitModal({ visible, onClose, onClosed }: AutoCloseVisitModalProps) {
+  const { openVisit, autoClose } = useOpenVisit();
+  const [reason, setReason] = useState<AutoCloseReason | null>(null);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setNotes('');
+    }
+  }, [visible]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!reason) return;
+    if (reason === 'OTHER' && !notes.trim()) {
+      Alert.alert('Keterangan Wajib', 'Isi keterangan untuk alasan "Lainnya".');
+      return;
+    }
+    setSubmitting(true);
+    const result = await autoClose(reason, notes.trim());
+    setSubmitting(false);
+
+    if (result.success) {
+      onClose();
+      onClosed?.();
+    } else {
+      Alert.alert('Gagal Menutup Kunjungan', result.error || 'Silakan coba lagi.');
+    }
+  }, [reason, notes, autoClose, onClose, onClosed]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 justify-center px-6 bg-black/40">
+        <View className="bg-white dark:bg-neutral-900 rounded-xl p-5">
+          <Text style={{ fontFamily: 'Inter' }} className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">
+            Tutup Kunjungan
+          </Text>
+          <Text style={{ fontFamily: 'Inter' }} className="text-sm text-neutral-600 dark:text-neutral-400 mt-1 mb-4">
+            {openVisit?.outletName ?? '-'} akan ditandai selesai tanpa check-out.
+          </Text>
+
+          {AUTO_CLOSE_REASONS.map(option => {
+            const selected = reason === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                className="flex-row items-center py-2"
+                onPress={() => setReason(option.value)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected }}
+              >
+                <Ionicons name={selected ? 'radio-button-on' : 'radio-button-off'} size={20} color={selected ? '#f97316' : '#9ca3af'} />
+                <Text style={{ fontFamily: 'Inter' }} className="ml-2 text-base text-neutral-900 dark:text-neutral-100">
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TextInput
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Keterangan (opsional)"
+            placeholderTextColor="#9ca3af"
+            multiline
+            maxLength={255}
+            className="mt-3 mb-4 min-h-[64px] rounded-lg border border-neutral-300 dark:border-neutral-700 px-3 py-2 text-neutral-900 dark:text-neutral-100"
+            style={{ fontFamily: 'Inter', textAlignVertical: 'top' }}
+          />
+
+          <View className="flex-row gap-3">
+            <View className="flex-1">
+              <Button title="Batal" variant="outline" onPress={onClose} disabled={submitting} fullWidth />
+            </View>
+            <View className="flex-1">
+              <Button title="Tutup Kunjungan" variant="danger" onPress={handleSubmit} disabled={!reason} loading={submitting} fullWidth />
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+});
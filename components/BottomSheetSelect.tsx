@@ -0,0 +1,309 @@
+import { Button } from '@/components/ui/Button';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import type { BottomSheetBackdropProps } from '@gorhom/bottom-sheet';
+import BottomSheet, { BottomSheetBackdrop, BottomSheetView } from '@gorhom/bottom-sheet';
+import React, { memo, useCallback, useMemo, useRef, useState } from 'react';
+import { Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+interface SelectOption {
+  label: string;
+  value: string;
+}
+
+interface BottomSheetSelectProps {
+  label: string;
+  value: string | string[];
+  onValueChange: (value: string | string[]) => void;
+  options: SelectOption[];
+  placeholder: string;
+  colors: any;
+  multipleSelection?: boolean;
+}
+
+// BottomSheet Select Component
+export const BottomSheetSelect = memo(function BottomSheetSelect({
+  label,
+  value,
+  onValueChange,
+  options,
+  placeholder,
+  colors,
+  multipleSelection = false
+}: BottomSheetSelectProps) {
+  const [isVisible, setIsVisible] = useState(false);
+  const bottomSheetRef = useRef<BottomSheet>(null);
+  const snapPoints = useMemo(() => ['60%'], []);
+
+  // Handle both single and multiple values
+  const selectedValues = useMemo(() => {
+    if (multipleSelection) {
+      return Array.isArray(value) ? value : (value ? [value] : []);
+    }
+    return typeof value === 'string' ? value : '';
+  }, [value, multipleSelection]);
+
+  const selectedOptions = useMemo(() => {
+    if (multipleSelection) {
+      const values = Array.isArray(selectedValues) ? selectedValues : [];
+      return options.filter(option => values.includes(option.value));
+    }
+    const singleValue = typeof selectedValues === 'string' ? selectedValues : '';
+    return options.filter(option => option.value === singleValue);
+  }, [options, selectedValues, multipleSelection]);
+
+  const displayText = useMemo(() => {
+    if (selectedOptions.length === 0) return placeholder;
+    if (multipleSelection) {
+      if (selectedOptions.length === 1) return selectedOptions[0].label;
+      return `${selectedOptions.length} item dipilih`;
+    }
+    return selectedOptions[0]?.label || placeholder;
+  }, [selectedOptions, placeholder, multipleSelection]);
+
+  const handleOpen = useCallback(() => {
+    setIsVisible(true);
+    setTimeout(() => {
+      bottomSheetRef.current?.expand();
+    }, 100);
+  }, []);
+
+  const handleClose = useCallback(() => {
+    bottomSheetRef.current?.close();
+    setTimeout(() => {
+      setIsVisible(false);
+    }, 200);
+  }, []);
+
+  const handleSelect = useCallback((selectedValue: string) => {
+    if (multipleSelection) {
+      const currentValues = Array.isArray(selectedValues) ? selectedValues : [];
+      const isSelected = currentValues.includes(selectedValue);
+      
+      let newValues: string[];
+      if (isSelected) {
+        // Remove from selection
+        newValues = currentValues.filter(v => v !== selectedValue);
+      } else {
+        // Add to selection
+        newValues = [...currentValues, selectedValue];
+      }
+      
+      onValueChange(newValues);
+    } else {
+      onValueChange(selectedValue);
+      handleClose();
+    }
+  }, [multipleSelection, selectedValues, onValueChange, handleClose]);
+
+  const isOptionSelected = useCallback((optionValue: string) => {
+    if (multipleSelection) {
+      const values = Array.isArray(selectedValues) ? selectedValues : [];
+      return values.includes(optionValue);
+    }
+    return selectedValues === optionValue;
+  }, [selectedValues, multipleSelection]);
+
+  const renderBackdrop = useCallback(
+    (props: BottomSheetBackdropProps) => (
+      <BottomSheetBackdrop
+        {...props}
+        disappearsOnIndex={-1}
+        appearsOnIndex={0}
+        opacity={0.5}
+      />
+    ),
+    []
+  );
+
+  return (
+    <>
+      <View className="w-full">
+        {/* Label with improved styling */}
+        <Text className="mb-2 text-sm font-medium text-neutral-700 dark:text-neutral-200" style={{ fontFamily: 'Inter' }}>
+          {label}
+          {multipleSelection && <Text className="text-neutral-500 dark:text-neutral-400"> (Multiple)</Text>}
+        </Text>
+        
+        {/* Custom dropdown button with better styling */}
+        <TouchableOpacity
+          onPress={handleOpen}
+          className="flex-row items-center rounded-md border h-12 bg-neutral-50 dark:bg-neutral-900 border-neutral-300 dark:border-neutral-700"
+          activeOpacity={0.7}
+        >
+          <View className="flex-1 px-4 justify-center">
+            <Text 
+              className="text-base"
+              style={{ 
+                fontFamily: 'Inter',
+                color: selectedOptions.length > 0 ? '#0f172a' : '#94a3b8',
+              }}
+              numberOfLines={1}
+            >
+              {displayText}
+            </Text>
+          </View>
+          <View className="px-4 justify-center">
+            <IconSymbol 
+              name="chevron.down" 
+              size={16} 
+              color="#6b7280" 
+            />
+          </View>
+        </TouchableOpacity>
+        
+        {/* Show selected items for multiple selection */}
+        {multipleSelection && selectedOptions.length > 0 && (
+          <View className="mt-3 gap-2">
+            {selectedOptions.map((option) => (
+              <View 
+                key={option.value}
+                className="flex-row items-center justify-between px-3 py-2 rounded-lg bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800"
+              >
+                <Text 
+                  className="text-orange-700 dark:text-orange-300 text-sm flex-1"
+                  style={{ fontFamily: 'Inter' }}
+                  numberOfLines={1}
+                >
+                  {option.label}
+                </Text>
+                <TouchableOpacity 
+                  onPress={() => handleSelect(option.value)}
+                  className="w-6 h-6 rounded-full items-center justify-center bg-red-100 dark:bg-red-900/30"
+                >
+                  <IconSymbol name="xmark" size={12} color="#dc2626" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+
+      <Modal
+        visible={isVisible}
+        transparent={true}
+        statusBarTranslucent={true}
+        animationType="none"
+        onRequestClose={handleClose}
+      >
+        <View style={{ flex: 1 }}>
+          <BottomSheet
+            ref={bottomSheetRef}
+            index={0}
+            snapPoints={snapPoints}
+            enablePanDownToClose
+            onClose={handleClose}
+            backdropComponent={renderBackdrop}
+            handleIndicatorStyle={{ 
+              backgroundColor: '#9ca3af',
+              width: 32, 
+              height: 3 
+            }}
+            backgroundStyle={{ 
+              backgroundColor: '#ffffff',
+              borderTopLeftRadius: 16, 
+              borderTopRightRadius: 16,
+            }}
+          >
+            <BottomSheetView style={{ flex: 1 }}>
+              {/* Header */}
+              <View 
+                className="flex-row items-center justify-between px-4 py-4 border-b border-neutral-200"
+              >
+                <View>
+                  <Text 
+                    className="text-lg font-semibold text-neutral-900"
+                    style={{ fontFamily: 'Inter' }}
+                  >
+                    {label}
+                  </Text>
+                  {multipleSelection && (
+                    <Text 
+                      className="text-sm text-neutral-500"
+                      style={{ fontFamily: 'Inter' }}
+                    >
+                      Pilih beberapa item
+                    </Text>
+                  )}
+                </View>
+                
+                <TouchableOpacity
+                  onPress={handleClose}
+                  className="w-8 h-8 rounded-full items-center justify-center bg-neutral-100"
+                >
+                  <IconSymbol name="xmark" size={16} color="#6b7280" />
+                </TouchableOpacity>
+              </View>
+
+              {/* Options List */}
+              <ScrollView 
+                className="flex-1"
+                showsVerticalScrollIndicator={false}
+              >
+                {options.map((option) => {
+                  const isSelected = isOptionSelected(option.value);
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      onPress={() => handleSelect(option.value)}
+                      className="px-4 py-4 border-b border-neutral-100"
+                      activeOpacity={0.7}
+                    >
+                      <View className="flex-row items-center justify-between">
+                        <Text 
+                          className="text-neutral-900 text-base flex-1"
+                          style={{ fontFamily: 'Inter' }}
+                        >
+                          {option.label}
+                        </Text>
+                        {multipleSelection ? (
+                          <View 
+                            className="w-6 h-6 rounded border-2 items-center justify-center ml-3"
+                            style={{ 
+                              borderColor: isSelected ? '#f97316' : '#d1d5db',
+                              backgroundColor: isSelected ? '#f97316' : 'transparent'
+                            }}
+                          >
+                            {isSelected && (
+                              <IconSymbol 
+                                name="checkmark" 
+                                size={14} 
+                                color="#fff" 
+                              />
+                            )}
+                          </View>
+                        ) : (
+                          isSelected && (
+                            <IconSymbol 
+                              name="checkmark" 
+                              size={18} 
+                              color="#f97316" 
+                            />
+                          )
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+
+              {/* Done button for multiple selection */}
+              {multipleSelection && (
+                <View className="px-4 py-3 border-t border-neutral-200">
+                  <Button
+                    title="Selesai"
+                    variant="primary"
+                    size="lg"
+                    fullWidth={true}
+                    onPress={handleClose}
+                  />
+                </View>
+              )}
+            </BottomSheetView>
+          </BottomSheet>
+        </View>
+      </Modal>
+    </>
+  );
+});
+
+export type { BottomSheetSelectProps, SelectOption };
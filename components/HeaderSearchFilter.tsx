@@ -14,6 +14,7 @@ interface HeaderSearchFilterProps {
   hasActiveFilter?: boolean;
   showAdvancedFilter?: boolean;
   useSafeArea?: boolean; // Add option to control safe area
+  accessory?: React.ReactNode; // Tombol tambahan di kiri tombol filter (mis. toggle list/peta)
 }
 
 export const HeaderSearchFilter = React.memo(function HeaderSearchFilter({
@@ -25,6 +26,7 @@ export const HeaderSearchFilter = React.memo(function HeaderSearchFilter({
   hasActiveFilter = false,
   showAdvancedFilter = true,
   useSafeArea = true,
+  accessory,
 }: HeaderSearchFilterProps) {
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme();
@@ -99,6 +101,8 @@ export const HeaderSearchFilter = React.memo(function HeaderSearchFilter({
             ) : null}
           </View>
 
+          {accessory}
+
           {/* Advanced Filter Button */}
           {showAdvancedFilter && (
             <TouchableOpacity
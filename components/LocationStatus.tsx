@@ -3,72 +3,51 @@ import React, { useMemo } from 'react';
 import { Text, TouchableOpacity, View } from 'react-native';
 
 import { useColorScheme } from '@/hooks/utils/useColorScheme';
+import { describeGeofenceDistance, GeofenceVerdict } from '@/utils/geofence';
 
 // 1. Types first
 interface LocationStatusProps {
-  locationValidated: boolean;
-  distance: number | null;
-  outletRadius: number;
+  geofence: GeofenceVerdict;
   onUpdateOutlet: () => void;
+  onRefreshLocation?: () => void;
 }
 
+const STATUS_STYLES = {
+  inside: { iconName: 'checkmark-circle', iconColor: '#22C55E', textColor: 'text-success-500' },
+  outside: { iconName: 'close-circle', iconColor: '#EF4444', textColor: 'text-danger-500' },
+  uncertain: { iconName: 'alert-circle', iconColor: '#F59E0B', textColor: 'text-warning-500' },
+} as const;
+
 // 2. Custom hook for component logic
-const useLocationStatusLogic = ({ locationValidated, distance, outletRadius }: {
-  locationValidated: boolean;
-  distance: number | null;
-  outletRadius: number;
-}) => {
-  const isRadiusUnlimited = useMemo(() => outletRadius === 0, [outletRadius]);
-  
-  const statusConfig = useMemo(() => {
-    if (isRadiusUnlimited) {
-      return {
-        iconName: 'checkmark-circle' as 'checkmark-circle',
-        iconColor: '#22C55E',
-        textColor: 'text-success-500',
-        message: 'Validasi lokasi dilewati (radius tidak dibatasi)',
-      };
-    }
-    
-    return {
-      iconName: (locationValidated ? 'checkmark-circle' : 'close-circle') as 'checkmark-circle' | 'close-circle',
-      iconColor: locationValidated ? '#22C55E' : '#EF4444',
-      textColor: locationValidated ? 'text-success-500' : 'text-danger-500',
-      message: locationValidated ? 'Lokasi valid' : 'Lokasi terlalu jauh',
-    };
-  }, [isRadiusUnlimited, locationValidated]);
-
-  const distanceText = useMemo(() => {
-    if (distance === null || isRadiusUnlimited) return null;
-    return `Jarak: ${Math.round(distance)}m (Max: ${outletRadius}m)`;
-  }, [distance, outletRadius, isRadiusUnlimited]);
-
-  const shouldShowUpdateButton = useMemo(() => {
-    return !isRadiusUnlimited && !locationValidated;
-  }, [isRadiusUnlimited, locationValidated]);
+const useLocationStatusLogic = ({ geofence }: { geofence: GeofenceVerdict }) => {
+  const statusConfig = useMemo(() => ({
+    ...STATUS_STYLES[geofence.status],
+    message: geofence.message,
+  }), [geofence.status, geofence.message]);
+
+  const distanceText = useMemo(() => describeGeofenceDistance(geofence), [geofence]);
 
   return {
-    isRadiusUnlimited,
     statusConfig,
     distanceText,
-    shouldShowUpdateButton,
+    shouldShowUpdateButton: geofence.status === 'outside',
+    shouldShowRefreshButton: geofence.status === 'uncertain',
   };
 };
 
 // 3. Main component
 export const LocationStatus = React.memo(function LocationStatus({
-  locationValidated,
-  distance,
-  outletRadius,
+  geofence,
   onUpdateOutlet,
+  onRefreshLocation,
 }: LocationStatusProps) {
   const colorScheme = useColorScheme();
   const {
-    isRadiusUnlimited,
     statusConfig,
     distanceText,
     shouldShowUpdateButton,
-  } = useLocationStatusLogic({ locationValidated, distance, outletRadius });
+    shouldShowRefreshButton,
+  } = useLocationStatusLogic({ geofence });
 
   // ✅ PRIMARY - NativeWind classes
   const getContainerClasses = () => {
@@ -102,32 +81,6 @@ export const LocationStatus = React.memo(function LocationStatus({
     return 'text-white text-xs font-medium ml-1';
   };
 
-  if (isRadiusUnlimited) {
-    return (
-      <View 
-        className={getContainerClasses()}
-        style={{
-          // ⚠️ SECONDARY - Complex shadow styling
-          shadowColor: '#000',
-          shadowOpacity: 0.1,
-          shadowRadius: 4,
-          elevation: 2,
-        }}
-      >
-        <View className={getStatusRowClasses()}>
-          <Ionicons 
-            name={statusConfig.iconName} 
-            size={20} 
-            color={statusConfig.iconColor} 
-          />
-          <Text className={getStatusTextClasses()}>
-            {statusConfig.message}
-          </Text>
-        </View>
-      </View>
-    );
-  }
-
   return (
     <View 
       className={getContainerClasses()}
@@ -170,6 +123,21 @@ export const LocationStatus = React.memo(function LocationStatus({
           </Text>
         </TouchableOpacity>
       )}
+
+      {shouldShowRefreshButton && onRefreshLocation && (
+        <TouchableOpacity
+          className={getUpdateButtonClasses()}
+          onPress={onRefreshLocation}
+          accessibilityRole="button"
+          accessibilityLabel="Perbarui lokasi saya"
+          accessibilityHint="Ketuk untuk mengambil ulang posisi GPS"
+        >
+          <Ionicons name="refresh" size={16} color="#fff" />
+          <Text className={getUpdateButtonTextClasses()}>
+            Perbarui Lokasi
+          </Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 });
@@ -0,0 +1,107 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { AutoCloseVisitModal } from '@/components/AutoCloseVisitModal';
+import { useOpenVisit } from '@/context/open-visit-context';
+import { useOutbox } from '@/context/outbox-context';
+import { getOpenVisitDuration } from '@/services/open-visit';
+
+/**
+ * Pengingat di home untuk kunjungan yang belum check-out.
+ */
+export const OpenVisitBanner = React.memo(function OpenVisitBanner() {
+  const { openVisit, releasePending } = useOpenVisit();
+  const { entries, discard } = useOutbox();
+  const [showAutoClose, setShowAutoClose] = useState(false);
+
+  // Check-in yang belum terkirim hanya ada di perangkat: batalkan dari antrean tanpa memanggil server
+  const handleCancelPending = useCallback(() => {
+    if (!openVisit) return;
+    Alert.alert(
+      'Batalkan Check-in',
+      `Check-in di ${openVisit.outletName} yang belum terkirim akan dihapus dari antrean.`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Hapus',
+          style: 'destructive',
+          onPress: async () => {
+            const queued = entries.filter(entry => entry.kind === 'CHECK_IN' && String(entry.fields.outlet_id) === openVisit.outletId);
+            for (const entry of queued) await discard(entry.id);
+            await releasePending();
+          },
+        },
+      ]
+    );
+  }, [openVisit, entries, discard, releasePending]);
+
+  if (!openVisit) return null;
+
+  const since = new Date(openVisit.checkinAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+  const duration = getOpenVisitDuration(openVisit);
+  const durationText = duration >= 60 ? `${Math.floor(duration / 60)} jam ${duration % 60} menit` : `${duration} menit`;
+
+  return (
+    <View className="mx-4 mt-4 p-3 rounded-lg border border-warning-200 bg-warning-50">
+      <View className="flex-row items-center">
+        <Ionicons name="time-outline" size={18} color="#d97706" />
+        <View className="flex-1 ml-2">
+          <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-black" numberOfLines={1}>
+            Belum check-out • {openVisit.outletName}
+          </Text>
+          <Text style={{ fontFamily: 'Inter' }} className="text-xs text-neutral-600">
+            {openVisit.visitId
+              ? `Check-in ${since} (${durationText} lalu)${openVisit.exitWarnedAt ? ' • di luar area outlet' : ''}`
+              : 'Check-in masih menunggu dikirim'}
+          </Text>
+        </View>
+      </View>
+
+      {!openVisit.visitId && (
+        <View className="flex-row justify-end mt-2">
+          <TouchableOpacity
+            className="px-3 py-1"
+            onPress={handleCancelPending}
+            accessibilityRole="button"
+            accessibilityLabel="Batalkan check-in yang belum terkirim"
+          >
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-neutral-600">Tutup</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {openVisit.visitId && (
+        <View className="flex-row justify-end mt-2">
+          <TouchableOpacity
+            className="px-3 py-1"
+            onPress={() => setShowAutoClose(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Tutup kunjungan tanpa check-out"
+          >
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-neutral-600">Tutup</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="px-3 py-1"
+            onPress={() => router.push({ pathname: '/visit/order', params: { id: openVisit.visitId!, outlet: openVisit.outletName } })}
+            accessibilityRole="button"
+            accessibilityLabel="Ambil order"
+          >
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-neutral-600">Order</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="px-3 py-1"
+            onPress={() => router.push({ pathname: '/visit/check-out', params: { id: openVisit.visitId! } })}
+            accessibilityRole="button"
+            accessibilityLabel="Check-out sekarang"
+          >
+            <Text style={{ fontFamily: 'Inter' }} className="text-sm font-semibold text-primary-500">Check Out</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <AutoCloseVisitModal visible={showAutoClose} onClose={() => setShowAutoClose(false)} />
+    </View>
+  );
+});
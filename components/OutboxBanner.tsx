@@ -0,0 +1,121 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useNetwork } from '@/context/network-context';
+import { useOutbox } from '@/context/outbox-context';
+import type { OutboxEntry } from '@/services/visit-outbox';
+
+const KIND_LABEL: Record<OutboxEntry['kind'], string> = {
+  CHECK_IN: 'Check-in',
+  CHECK_OUT: 'Check-out',
+};
+
+const OutboxEntryRow = React.memo(function OutboxEntryRow({
+  entry,
+  onRetry,
+  onDiscard,
+}: {
+  entry: OutboxEntry;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}) {
+  const isFailed = entry.status === 'failed';
+  const createdAt = new Date(entry.createdAt).toLocaleString('id-ID', { hour12: false });
+
+  return (
+    <View className="flex-row items-center py-2 border-t border-neutral-200">
+      <Ionicons
+        name={isFailed ? 'alert-circle' : 'time-outline'}
+        size={18}
+        color={isFailed ? '#dc2626' : '#f97316'}
+      />
+      <View className="flex-1 ml-2">
+        <Text className="text-sm font-semibold text-black" numberOfLines={1}>
+          {KIND_LABEL[entry.kind]} • {entry.label}
+        </Text>
+        <Text className="text-xs text-neutral-500" numberOfLines={2}>
+          {isFailed ? entry.lastError || 'Ditolak server' : `Menunggu koneksi • ${createdAt}`}
+        </Text>
+      </View>
+      {isFailed && (
+        <>
+          <TouchableOpacity
+            className="px-2 py-1"
+            onPress={() => onRetry(entry.id)}
+            accessibilityRole="button"
+            accessibilityLabel="Kirim ulang"
+          >
+            <Ionicons name="refresh" size={18} color="#f97316" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="px-2 py-1"
+            onPress={() => onDiscard(entry.id)}
+            accessibilityRole="button"
+            accessibilityLabel="Hapus dari antrean"
+          >
+            <Ionicons name="trash-outline" size={18} color="#dc2626" />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+});
+
+/**
+ * Shows check-in/check-out requests that are waiting in the offline outbox.
+ * Collapsed it is a one-line summary; tapping it lists the queued items.
+ */
+export const OutboxBanner = React.memo(function OutboxBanner() {
+  const { isConnected } = useNetwork();
+  const { entries, isReplaying, replay, retry, discard } = useOutbox();
+  const insets = useSafeAreaInsets();
+  const [expanded, setExpanded] = useState(false);
+
+  const failedCount = useMemo(() => entries.filter(e => e.status === 'failed').length, [entries]);
+  const pendingCount = entries.length - failedCount;
+
+  const toggleExpanded = useCallback(() => setExpanded(prev => !prev), []);
+
+  if (entries.length === 0) return null;
+
+  const summary = [
+    pendingCount > 0 ? `${pendingCount} menunggu dikirim` : null,
+    failedCount > 0 ? `${failedCount} gagal` : null,
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <View
+      className={`px-4 pb-2 ${failedCount > 0 ? 'bg-danger-50' : 'bg-primary-50'}`}
+      // NetworkBanner already covers the status bar while offline
+      style={{ paddingTop: isConnected ? insets.top + 8 : 8 }}
+    >
+      <TouchableOpacity
+        className="flex-row items-center"
+        onPress={toggleExpanded}
+        accessibilityRole="button"
+        accessibilityLabel="Lihat antrean kunjungan offline"
+      >
+        {isReplaying ? (
+          <ActivityIndicator size="small" color="#f97316" />
+        ) : (
+          <Ionicons name="cloud-upload-outline" size={18} color="#f97316" />
+        )}
+        <Text className="flex-1 ml-2 text-sm font-semibold text-black">
+          Antrean kunjungan: {summary}
+        </Text>
+        {isConnected && pendingCount > 0 && !isReplaying && (
+          <TouchableOpacity onPress={replay} className="px-2" accessibilityRole="button" accessibilityLabel="Kirim sekarang">
+            <Text className="text-primary-500 text-sm font-semibold">Kirim</Text>
+          </TouchableOpacity>
+        )}
+        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={18} color="#6b7280" />
+      </TouchableOpacity>
+
+      {expanded && entries.map(entry => (
+        <OutboxEntryRow key={entry.id} entry={entry} onRetry={retry} onDiscard={discard} />
+      ))}
+    </View>
+  );
+});
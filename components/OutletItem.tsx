@@ -3,60 +3,57 @@ import React, { useCallback } from 'react';
 import { Text, TouchableOpacity, View } from 'react-native';
 
 import { OutletAPI } from '@/hooks/data/useOutlet';
+import { formatDistance } from '@/utils/geo';
 
 // Types
 interface OutletItemProps {
   outlet: OutletAPI;
+  // Jarak dari posisi user (meter), ditampilkan saat list diurutkan berdasarkan jarak
+  distance?: number | null;
 }
 
-// Custom hook for status badge logic
-const useStatusBadge = () => {
-  const getStatusConfig = useCallback((status?: string) => {
-    if (!status || typeof status !== 'string') {
+// Warna status outlet, dipakai juga oleh marker di peta outlet
+export function getOutletStatusConfig(status?: string) {
+  if (!status || typeof status !== 'string') {
+    return {
+      color: '#6b7280',
+      bgColor: '#f3f4f6',
+      label: 'Unknown'
+    };
+  }
+  
+  const normalizedStatus = status.toLowerCase();
+  switch (normalizedStatus) {
+    case 'maintain':
+      return {
+        color: '#16a34a',
+        bgColor: '#dcfce7',
+        label: 'MAINTAIN'
+      };
+    case 'unmaintain':
+      return {
+        color: '#f59e0b',
+        bgColor: '#fef3c7',
+        label: 'UNMAINTAIN'
+      };
+    case 'unproductive':
+      return {
+        color: '#dc2626',
+        bgColor: '#fecaca',
+        label: 'UNPRODUCTIVE'
+      };
+    default:
       return {
         color: '#6b7280',
         bgColor: '#f3f4f6',
-        label: 'Unknown'
+        label: status.toUpperCase()
       };
-    }
-    
-    const normalizedStatus = status.toLowerCase();
-    switch (normalizedStatus) {
-      case 'maintain':
-        return {
-          color: '#16a34a',
-          bgColor: '#dcfce7',
-          label: 'MAINTAIN'
-        };
-      case 'unmaintain':
-        return {
-          color: '#f59e0b',
-          bgColor: '#fef3c7',
-          label: 'UNMAINTAIN'
-        };
-      case 'unproductive':
-        return {
-          color: '#dc2626',
-          bgColor: '#fecaca',
-          label: 'UNPRODUCTIVE'
-        };
-      default:
-        return {
-          color: '#6b7280',
-          bgColor: '#f3f4f6',
-          label: status.toUpperCase()
-        };
-    }
-  }, []);
-
-  return { getStatusConfig };
-};
+  }
+}
 
 // OutletItem with VisitCard styling
-const OutletItem: React.FC<OutletItemProps> = React.memo(function OutletItem({ outlet }) {
-  const { getStatusConfig } = useStatusBadge();
-  
-  const statusConfig = getStatusConfig(outlet.status);
+const OutletItem: React.FC<OutletItemProps> = React.memo(function OutletItem({ outlet, distance }) {
+  const statusConfig = getOutletStatusConfig(outlet.status);
   
   const handlePress = useCallback(() => {
     router.push({ pathname: '/outlet/[id]/view', params: { id: outlet.id } });
@@ -121,13 +118,14 @@ const OutletItem: React.FC<OutletItemProps> = React.memo(function OutletItem({ o
             </Text>
           </View>
 
-          {/* Right: Level */}
+          {/* Right: Level (+ jarak) */}
           <View className="flex-row items-center">
             <Text 
               style={{ fontFamily: 'Inter' }} 
               className="text-sm text-neutral-600 dark:text-neutral-400"
             >
               Level: {(outlet as any).level || '-'}
+              {distance != null ? ` • ${formatDistance(distance)}` : ''}
             </Text>
           </View>
         </View>
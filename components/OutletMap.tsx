@@ -0,0 +1,138 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker, PROVIDER_GOOGLE, Region } from 'react-native-maps';
+
+import { getOutletStatusConfig } from '@/components/OutletItem';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { OutletAPI } from '@/hooks/data/useOutlet';
+import { clusterByRegion, LatLng, MapRegion, parseLatLong, regionForPoints } from '@/utils/geo';
+
+interface OutletMapProps {
+  outlets: OutletAPI[];
+  userLocation: LatLng | null;
+  onOutletPress: (outlet: OutletAPI) => void;
+}
+
+// Tengah Indonesia, dipakai jika belum ada outlet/lokasi user
+const DEFAULT_REGION: MapRegion = {
+  latitude: -2.5,
+  longitude: 118,
+  latitudeDelta: 20,
+  longitudeDelta: 20,
+};
+
+const LEGEND = ['maintain', 'unmaintain', 'unproductive'];
+
+export const OutletMap = React.memo(function OutletMap({ outlets, userLocation, onOutletPress }: OutletMapProps) {
+  const mapRef = useRef<MapView>(null);
+
+  const initialRegion = useMemo(() => {
+    const points = outlets
+      .map(outlet => parseLatLong(outlet.location))
+      .filter((point): point is LatLng => point !== null);
+    return regionForPoints(userLocation ? [...points, userLocation] : points) ?? DEFAULT_REGION;
+    // Hanya untuk render pertama; selanjutnya region mengikuti gesture user
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const [region, setRegion] = useState<MapRegion>(initialRegion);
+
+  const clusters = useMemo(
+    () => clusterByRegion(outlets, region, outlet => outlet.location),
+    [outlets, region]
+  );
+
+  const handleRegionChange = useCallback((next: Region) => {
+    setRegion(next);
+  }, []);
+
+  // Cluster ditekan: zoom ke area yang memuat semua outlet di cluster tersebut
+  const handleClusterPress = useCallback((items: OutletAPI[]) => {
+    const points = items
+      .map(outlet => parseLatLong(outlet.location))
+      .filter((point): point is LatLng => point !== null);
+    const target = regionForPoints(points, 1.6, 0.002);
+    if (target) mapRef.current?.animateToRegion(target, 300);
+  }, []);
+
+  const handleLocateMe = useCallback(() => {
+    if (!userLocation) return;
+    mapRef.current?.animateToRegion({ ...userLocation, latitudeDelta: 0.05, longitudeDelta: 0.05 }, 300);
+  }, [userLocation]);
+
+  return (
+    <View className="flex-1">
+      <MapView
+        ref={mapRef}
+        style={{ flex: 1 }}
+        provider={PROVIDER_GOOGLE}
+        initialRegion={initialRegion}
+        onRegionChangeComplete={handleRegionChange}
+        showsUserLocation
+        showsMyLocationButton={false}
+        toolbarEnabled={false}
+        pitchEnabled={false}
+        rotateEnabled={false}
+      >
+        {clusters.map(cluster => {
+          if (cluster.items.length === 1) {
+            const outlet = cluster.items[0];
+            return (
+              <Marker
+                key={`outlet-${outlet.id}`}
+                coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+                title={outlet.name}
+                description={outlet.code}
+                pinColor={getOutletStatusConfig(outlet.status).color}
+                onPress={() => onOutletPress(outlet)}
+              />
+            );
+          }
+          return (
+            <Marker
+              key={`cluster-${cluster.id}`}
+              coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+              onPress={() => handleClusterPress(cluster.items)}
+              tracksViewChanges={false}
+            >
+              <View
+                className="items-center justify-center rounded-full border-2 border-white"
+                style={{ backgroundColor: '#f97316', minWidth: 36, height: 36, paddingHorizontal: 6 }}
+              >
+                <Text style={{ fontFamily: 'Inter', color: '#ffffff', fontWeight: '700', fontSize: 13 }}>
+                  {cluster.items.length}
+                </Text>
+              </View>
+            </Marker>
+          );
+        })}
+      </MapView>
+
+      {/* Legenda warna status */}
+      <View className="absolute left-4 top-4 bg-white/90 dark:bg-neutral-900/90 rounded-lg px-3 py-2">
+        {LEGEND.map(status => {
+          const config = getOutletStatusConfig(status);
+          return (
+            <View key={status} className="flex-row items-center my-0.5">
+              <View className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: config.color }} />
+              <Text style={{ fontFamily: 'Inter', fontSize: 11 }} className="text-neutral-700 dark:text-neutral-300">
+                {config.label}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {userLocation && (
+        <TouchableOpacity
+          onPress={handleLocateMe}
+          className="absolute right-4 bottom-28 w-12 h-12 rounded-full bg-white dark:bg-neutral-900 items-center justify-center shadow"
+          accessibilityRole="button"
+          accessibilityLabel="Ke lokasi saya"
+        >
+          <IconSymbol name="location.fill" size={20} color="#f97316" />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+});
@@ -0,0 +1,171 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Dimensions, Modal, Text, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+export interface PhotoViewerItem {
+  uri: string;
+  title?: string;
+  caption?: string | null;
+}
+
+interface PhotoViewerModalProps {
+  photos: PhotoViewerItem[];
+  // Index foto yang dibuka; null = modal tertutup
+  index: number | null;
+  onClose: () => void;
+  // Tampilkan tombol verifikasi keaslian foto
+  onVerify?: (photo: PhotoViewerItem) => void;
+}
+
+const MAX_SCALE = 4;
+
+/**
+ * Foto layar penuh: pinch untuk zoom, geser saat di-zoom, ketuk dua kali untuk zoom/reset.
+ */
+const ZoomableImage = React.memo(function ZoomableImage({ uri }: { uri: string }) {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const reset = () => {
+    'worklet';
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate(event => {
+      scale.value = Math.min(Math.max(savedScale.value * event.scale, 1), MAX_SCALE);
+    })
+    .onEnd(() => {
+      if (scale.value <= 1) {
+        reset();
+      } else {
+        savedScale.value = scale.value;
+      }
+    });
+
+  const pan = Gesture.Pan()
+    .averageTouches(true)
+    .onUpdate(event => {
+      if (savedScale.value <= 1) return;
+      translateX.value = savedTranslateX.value + event.translationX;
+      translateY.value = savedTranslateY.value + event.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        reset();
+      } else {
+        scale.value = withTiming(2);
+        savedScale.value = 2;
+      }
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  const { width, height } = Dimensions.get('window');
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+      <Animated.Image
+        source={{ uri }}
+        style={[{ width, height: height * 0.75 }, animatedStyle]}
+        resizeMode="contain"
+        accessibilityRole="image"
+      />
+    </GestureDetector>
+  );
+});
+
+export const PhotoViewerModal = React.memo(function PhotoViewerModal({ photos, index, onClose, onVerify }: PhotoViewerModalProps) {
+  const insets = useSafeAreaInsets();
+  const [current, setCurrent] = useState(index ?? 0);
+
+  useEffect(() => {
+    if (index !== null) setCurrent(index);
+  }, [index]);
+
+  const photo = photos[current];
+  if (index === null || !photo) return null;
+
+  return (
+    <Modal visible transparent={false} animationType="fade" onRequestClose={onClose}>
+      <GestureHandlerRootView className="flex-1 bg-black">
+        <View className="flex-row items-center px-4" style={{ paddingTop: insets.top + 8 }}>
+          <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Tutup foto">
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+          <Text style={{ fontFamily: 'Inter' }} className="flex-1 text-center text-white text-sm">
+            {current + 1} / {photos.length}
+          </Text>
+          {onVerify ? (
+            <TouchableOpacity onPress={() => onVerify(photo)} accessibilityRole="button" accessibilityLabel="Verifikasi foto">
+              <Ionicons name="shield-checkmark-outline" size={26} color="#fff" />
+            </TouchableOpacity>
+          ) : (
+            <View className="w-7" />
+          )}
+        </View>
+
+        <View className="flex-1 items-center justify-center">
+          {/* key: zoom di-reset setiap pindah foto */}
+          <ZoomableImage key={photo.uri} uri={photo.uri} />
+        </View>
+
+        <View className="px-4" style={{ paddingBottom: Math.max(insets.bottom, 16) }}>
+          {photo.title ? (
+            <Text style={{ fontFamily: 'Inter' }} className="text-warning-500 text-sm font-semibold">{photo.title}</Text>
+          ) : null}
+          {photo.caption ? (
+            <Text style={{ fontFamily: 'Inter' }} className="text-white text-base mt-1">{photo.caption}</Text>
+          ) : null}
+          {photos.length > 1 && (
+            <View className="flex-row justify-between mt-3">
+              <TouchableOpacity
+                onPress={() => setCurrent(value => Math.max(0, value - 1))}
+                disabled={current === 0}
+                style={{ opacity: current === 0 ? 0.3 : 1 }}
+                accessibilityRole="button"
+                accessibilityLabel="Foto sebelumnya"
+              >
+                <Ionicons name="chevron-back-circle" size={36} color="#fff" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setCurrent(value => Math.min(photos.length - 1, value + 1))}
+                disabled={current === photos.length - 1}
+                style={{ opacity: current === photos.length - 1 ? 0.3 : 1 }}
+                accessibilityRole="button"
+                accessibilityLabel="Foto berikutnya"
+              >
+                <Ionicons name="chevron-forward-circle" size={36} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+});
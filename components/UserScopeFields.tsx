@@ -0,0 +1,82 @@
+import React from 'react';
+import { View } from 'react-native';
+
+import { BottomSheetSelect } from '@/components/BottomSheetSelect';
+import type { UserFormData, UserScopeFieldsState } from '@/hooks/form/useUserForm';
+
+interface UserScopeFieldsProps {
+  formData: UserFormData;
+  scope: UserScopeFieldsState;
+  colors: any;
+}
+
+export const UserScopeFields = React.memo(function UserScopeFields({
+  formData,
+  scope,
+  colors,
+}: UserScopeFieldsProps) {
+  const { roleScope, getIsMultipleField } = scope;
+
+  return (
+    <View className="space-y-6 mb-8 w-full gap-5">
+      <BottomSheetSelect
+        label="Role"
+        value={formData.role}
+        onValueChange={scope.handleRoleChange}
+        options={scope.roleOptions}
+        placeholder="Pilih Role"
+        colors={colors}
+      />
+
+      {roleScope.required.includes('badan_usaha_id') && (
+        <BottomSheetSelect
+          label="Badan Usaha"
+          value={formData.badanusaha}
+          onValueChange={scope.handleBadanUsahaChange}
+          options={scope.badanUsahaOptions}
+          placeholder="Pilih Badan Usaha"
+          colors={colors}
+          multipleSelection={getIsMultipleField('badan_usaha_id')}
+        />
+      )}
+
+      {roleScope.required.includes('division_id') && (
+        <BottomSheetSelect
+          label="Divisi"
+          value={formData.divisi}
+          onValueChange={scope.handleDivisiChange}
+          options={scope.divisionOptions}
+          placeholder="Pilih Divisi"
+          colors={colors}
+          multipleSelection={getIsMultipleField('division_id')}
+        />
+      )}
+
+      {roleScope.required.includes('region_id') && (
+        <BottomSheetSelect
+          label="Region"
+          value={formData.region}
+          onValueChange={scope.handleRegionChange}
+          options={scope.regionOptions}
+          placeholder="Pilih Region"
+          colors={colors}
+          multipleSelection={getIsMultipleField('region_id')}
+        />
+      )}
+
+      {roleScope.required.includes('cluster_id') && (
+        <BottomSheetSelect
+          label="Cluster"
+          value={formData.cluster}
+          onValueChange={scope.handleClusterChange}
+          options={scope.clusterOptions}
+          placeholder="Pilih Cluster"
+          colors={colors}
+          multipleSelection={getIsMultipleField('cluster_id')}
+        />
+      )}
+    </View>
+  );
+});
+
+export type { UserScopeFieldsProps };
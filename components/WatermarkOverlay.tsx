@@ -5,6 +5,10 @@ interface WatermarkData {
   waktu: string;
   outlet: string;
   lokasi: string;
+  // Hasil pemeriksaan integritas lokasi, mis. "GPS: OK"
+  integritas?: string;
+  // Kategori + keterangan untuk foto kunjungan tambahan, mis. "POSM • Banner baru"
+  kategori?: string;
 }
 
 interface WatermarkOverlayProps {
@@ -110,6 +114,14 @@ export const WatermarkOverlay = React.memo(function WatermarkOverlay({
     return 'text-white/70 text-xs font-medium font-sans';
   };
 
+  const getCategoryTextClasses = () => {
+    return 'text-white text-xs font-semibold mb-1 font-sans';
+  };
+
+  const getIntegrityTextClasses = () => {
+    return 'text-white/60 text-[10px] mt-1 font-sans';
+  };
+
   if (!isDataAvailable) {
     return (
       <View className={getErrorContainerClasses()}>
@@ -145,6 +157,12 @@ export const WatermarkOverlay = React.memo(function WatermarkOverlay({
             {outletDisplayText}
           </Text>
           
+          {watermarkData?.kategori && (
+            <Text className={getCategoryTextClasses()}>
+              {watermarkData.kategori}
+            </Text>
+          )}
+
           {selectedOutlet?.district && (
             <Text className={getDistrictTextClasses()}>
               {selectedOutlet.district}
@@ -159,6 +177,12 @@ export const WatermarkOverlay = React.memo(function WatermarkOverlay({
               {locationDisplayText}
             </Text>
           </View>
+
+          {watermarkData?.integritas && (
+            <Text className={getIntegrityTextClasses()}>
+              {watermarkData.integritas}
+            </Text>
+          )}
         </View>
       </View>
     </>
@@ -65,6 +65,17 @@ const MAPPING: IconMapping = {
   'checkmark.seal.fill': 'verified',
   'calendar.badge.plus': 'event-available',
   'plus.circle.fill': 'add-circle',
+  'person.2.fill': 'group',
+  'person.crop.circle.badge.xmark': 'person-off',
+  'person.crop.circle.badge.checkmark': 'how-to-reg',
+  'location.fill': 'my-location',
+  'map': 'map',
+  'list.bullet': 'list',
+  'square.and.arrow.up': 'share',
+  'square.and.arrow.down': 'upload-file',
+  'clock': 'schedule',
+  'repeat': 'repeat',
+  'chart.bar.fill': 'bar-chart',
 } as unknown as IconMapping;
 
 /**
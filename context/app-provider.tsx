@@ -1,7 +1,10 @@
 import React from 'react';
 import { AuthProvider } from './auth-context';
 import { NetworkProvider } from './network-context';
+import { NotificationInboxProvider } from './notification-inbox-context';
 import { NotifIdProvider } from './notifid-context';
+import { OpenVisitProvider } from './open-visit-context';
+import { OutboxProvider } from './outbox-context';
 
 interface AppProviderProps {
   children: React.ReactNode;
@@ -17,7 +20,13 @@ export function AppProvider({ children }: AppProviderProps) {
     <NetworkProvider>
       <NotifIdProvider>
         <AuthProvider>
-          {children}
+          <OutboxProvider>
+            <OpenVisitProvider>
+              <NotificationInboxProvider>
+                {children}
+              </NotificationInboxProvider>
+            </OpenVisitProvider>
+          </OutboxProvider>
         </AuthProvider>
       </NotifIdProvider>
     </NetworkProvider>
@@ -1,16 +1,21 @@
 import { useAuth as useAuthHook } from '@/hooks/auth/useAuth';
+import { isTokenExpiring } from '@/hooks/auth/useAuthData';
 import type { User } from '@/types/common';
-import { setAutoLogoutCallback } from '@/utils/api';
+import { refreshSession, setAutoLogoutCallback, setSessionRefreshHandler } from '@/utils/api';
 import React, { createContext, useContext, useEffect } from 'react';
+import { AppState } from 'react-native';
 
 interface AuthContextProps {
   user: User | null;
   token: string | null;
+  // Epoch ms saat token kedaluwarsa, null jika backend tidak mengirim expires_in
+  tokenExpiresAt: number | null;
   loading: boolean;
   permissions: string[];
   login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  refreshSession: () => Promise<string | null>;
   loginWithToken: (token: string, user: User, permissions?: string[]) => Promise<void>;
   requestOtp: (phone: string) => Promise<any>;
   verifyOtp: (phone: string, otp: string) => Promise<any>;
@@ -29,6 +34,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   }, [authHook.logout]);
 
+  // Setup token refresh for API: 401 di-refresh dan di-retry sebelum auto logout
+  useEffect(() => {
+    setSessionRefreshHandler(() => authHook.refreshSession());
+  }, [authHook.refreshSession]);
+
+  // Refresh token yang hampir kedaluwarsa saat app dibuka / kembali aktif
+  const { token, tokenExpiresAt } = authHook;
+  useEffect(() => {
+    if (!token) return;
+
+    const refreshIfExpiring = () => {
+      if (isTokenExpiring(tokenExpiresAt)) refreshSession();
+    };
+
+    refreshIfExpiring();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') refreshIfExpiring();
+    });
+    return () => subscription.remove();
+  }, [token, tokenExpiresAt]);
+
   return (
     <AuthContext.Provider value={authHook}>
       {children}
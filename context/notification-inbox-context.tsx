@@ -0,0 +1,89 @@
+import { useAuth } from '@/context/auth-context';
+import { useNotifications } from '@/hooks/data/useNotifications';
+import { createNotificationService, NotificationOpenedPayload } from '@/services/notification-service';
+import { log } from '@/utils/logger';
+import { router } from 'expo-router';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+
+interface NotificationInboxContextProps {
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+}
+
+const NotificationInboxContext = createContext<NotificationInboxContextProps | undefined>(undefined);
+
+/**
+ * Resolve the route a tapped push should open. The backend sends the inbox
+ * record id as `notification_id`; older pushes may only carry a visit id.
+ */
+export function getNotificationRoute(data: Record<string, any>): string {
+  if (data.notification_id) {
+    return `/notification/${encodeURIComponent(String(data.notification_id))}`;
+  }
+  if (data.visit_id) {
+    return `/visit/view?id=${encodeURIComponent(String(data.visit_id))}`;
+  }
+  return '/notifications';
+}
+
+export const NotificationInboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { token } = useAuth();
+  const { fetchUnreadCount } = useNotifications();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [service] = useState(() => createNotificationService());
+  // Pushes tapped before login finishes are opened once a token is available
+  const pendingRoute = useRef<string | null>(null);
+
+  const refreshUnreadCount = useCallback(async () => {
+    const result = await fetchUnreadCount();
+    if (result.success && typeof result.data === 'number') {
+      setUnreadCount(result.data);
+    }
+  }, [fetchUnreadCount]);
+
+  const openRoute = useCallback((route: string) => {
+    if (!token) {
+      pendingRoute.current = route;
+      return;
+    }
+    router.push(route as any);
+  }, [token]);
+
+  useEffect(() => {
+    if (token) {
+      refreshUnreadCount();
+    } else {
+      setUnreadCount(0);
+    }
+  }, [token, refreshUnreadCount]);
+
+  useEffect(() => {
+    if (token && pendingRoute.current) {
+      const route = pendingRoute.current;
+      pendingRoute.current = null;
+      router.push(route as any);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    const unsubscribe = service.addNotificationOpenedListener((payload: NotificationOpenedPayload) => {
+      const route = getNotificationRoute(payload.additionalData);
+      log('[NOTIFICATION_INBOX] Opening push notification route:', route);
+      openRoute(route);
+      refreshUnreadCount();
+    });
+    return unsubscribe;
+  }, [service, openRoute, refreshUnreadCount]);
+
+  return (
+    <NotificationInboxContext.Provider value={{ unreadCount, refreshUnreadCount }}>
+      {children}
+    </NotificationInboxContext.Provider>
+  );
+};
+
+export const useNotificationInbox = () => {
+  const ctx = useContext(NotificationInboxContext);
+  if (!ctx) throw new Error('useNotificationInbox must be used within NotificationInboxProvider');
+  return ctx;
+};
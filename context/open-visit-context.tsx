@@ -0,0 +1,146 @@
+import { useAuth } from '@/context/auth-context';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import {
+  AutoCloseReason,
+  closeOpenVisit,
+  DEFAULT_OPEN_VISIT_POLICY,
+  getOpenVisit,
+  initOpenVisitNotifications,
+  normalizeOpenVisitPolicy,
+  notifyOutletExit,
+  OpenVisit,
+  OpenVisitInput,
+  OpenVisitPolicy,
+  releasePendingOpenVisit,
+  startOpenVisit,
+  subscribeOpenVisit,
+  syncOpenVisit,
+  updateOpenVisit,
+} from '@/services/open-visit';
+import type { ApiResult } from '@/types/common';
+import type { Visit } from '@/types/visit';
+import { evaluateGeofence } from '@/utils/geofence';
+import { log } from '@/utils/logger';
+import * as Location from 'expo-location';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+
+interface OpenVisitContextProps {
+  openVisit: OpenVisit | null;
+  trackCheckIn: (input: OpenVisitInput) => Promise<void>;
+  trackCheckOut: () => Promise<void>;
+  syncWithVisits: (visits: Visit[]) => Promise<void>;
+  autoClose: (reason: AutoCloseReason, notes?: string) => Promise<ApiResult<Visit>>;
+  releasePending: () => Promise<void>;
+}
+
+const OpenVisitContext = createContext<OpenVisitContextProps | undefined>(undefined);
+
+/**
+ * Lacak kunjungan yang belum check-out: pengingat lokal, peringatan keluar area outlet
+ * (saat app terbuka) dan penutupan otomatis dengan alasan.
+ */
+export const OpenVisitProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { token } = useAuth();
+  const api = useApiClient();
+  const [openVisit, setOpenVisit] = useState<OpenVisit | null>(null);
+  const [policy, setPolicy] = useState<OpenVisitPolicy>(DEFAULT_OPEN_VISIT_POLICY);
+  const openVisitRef = useRef<OpenVisit | null>(null);
+  openVisitRef.current = openVisit;
+
+  useEffect(() => {
+    initOpenVisitNotifications();
+    getOpenVisit().then(setOpenVisit);
+    return subscribeOpenVisit(setOpenVisit);
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+    api.references.openVisitPolicy()
+      .then(json => setPolicy(normalizeOpenVisitPolicy(json.data)))
+      .catch(error => log('[OPEN_VISIT] Policy unavailable, using default:', error));
+  }, [token, api]);
+
+  // Pantau posisi selama ada kunjungan terbuka; izin lokasi tidak diminta dari sini
+  const outletKey = openVisit ? openVisit.outletId : null;
+  useEffect(() => {
+    if (!outletKey) return;
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    const watch = async () => {
+      const { granted } = await Location.getForegroundPermissionsAsync();
+      if (!granted || cancelled) return;
+      subscription = await Location.watchPositionAsync(
+        { accuracy: Location.Accuracy.Balanced, distanceInterval: 50, timeInterval: 60000 },
+        position => {
+          const visit = openVisitRef.current;
+          if (!visit) return;
+          const geofence = evaluateGeofence(visit.outlet, {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+          });
+          if (geofence.status === 'outside' && !visit.exitWarnedAt) {
+            log('[OPEN_VISIT] Left outlet area', { outletId: visit.outletId, distance: geofence.distance });
+            notifyOutletExit(visit);
+            updateOpenVisit({ exitWarnedAt: Date.now() });
+          } else if (geofence.status === 'inside' && visit.exitWarnedAt) {
+            updateOpenVisit({ exitWarnedAt: null });
+          }
+        }
+      );
+      if (cancelled) subscription.remove();
+    };
+
+    watch().catch(error => log('[OPEN_VISIT] Failed to watch position:', error));
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [outletKey]);
+
+  const trackCheckIn = useCallback(async (input: OpenVisitInput) => {
+    await startOpenVisit(input, policy);
+  }, [policy]);
+
+  const trackCheckOut = useCallback(async () => {
+    await closeOpenVisit();
+  }, []);
+
+  const syncWithVisits = useCallback(async (visits: Visit[]) => {
+    await syncOpenVisit(visits, policy);
+  }, [policy]);
+
+  const autoClose = useCallback(async (reason: AutoCloseReason, notes?: string): Promise<ApiResult<Visit>> => {
+    const visit = openVisitRef.current;
+    if (!visit?.visitId) {
+      return { success: false, error: 'Check-in sebelumnya belum tersinkron ke server.' };
+    }
+    try {
+      const json = await api.visits.autoClose(visit.visitId, { reason, notes: notes || undefined });
+      await closeOpenVisit();
+      return { success: true, data: json.data, meta: json.meta };
+    } catch (e: any) {
+      log('[AUTO_CLOSE_VISIT] error:', e.message);
+      return { success: false, error: e.message || 'Gagal menutup kunjungan' };
+    }
+  }, [api]);
+
+  // Tutup lokal untuk check-in yang belum punya id server (tidak ada yang dikirim ke backend)
+  const releasePending = useCallback(async () => {
+    const visit = openVisitRef.current;
+    if (visit) await releasePendingOpenVisit(visit.outletId);
+  }, []);
+
+  return (
+    <OpenVisitContext.Provider value={{ openVisit, trackCheckIn, trackCheckOut, syncWithVisits, autoClose, releasePending }}>
+      {children}
+    </OpenVisitContext.Provider>
+  );
+};
+
+export const useOpenVisit = () => {
+  const ctx = useContext(OpenVisitContext);
+  if (!ctx) throw new Error('useOpenVisit must be used within OpenVisitProvider');
+  return ctx;
+};
@@ -0,0 +1,139 @@
+import { useAuth } from '@/context/auth-context';
+import { useNetwork } from '@/context/network-context';
+import { useVisit } from '@/hooks/data/useVisit';
+import { attachOpenVisitId, releasePendingOpenVisit } from '@/services/open-visit';
+import {
+  enqueueVisitRequest,
+  isQueueableError,
+  loadOutbox,
+  OutboxEntry,
+  removeOutboxEntry,
+  replayOutbox,
+  updateOutboxEntry,
+  VisitOutboxRequest,
+} from '@/services/visit-outbox';
+import { log } from '@/utils/logger';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+export interface SubmitResult {
+  queued: boolean;
+  response?: any;
+}
+
+interface OutboxContextProps {
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+  submitVisitRequest: (request: VisitOutboxRequest) => Promise<SubmitResult>;
+  replay: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+const OutboxContext = createContext<OutboxContextProps | undefined>(undefined);
+
+export const OutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { token } = useAuth();
+  const { isConnected } = useNetwork();
+  const { checkInWithUpload, checkOutWithUpload } = useVisit();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setEntries(await loadOutbox());
+  }, []);
+
+  // Dikirim lewat transfer manager (progress + background upload); field & foto dibaca dari request
+  const send = useCallback(async (request: VisitOutboxRequest) => {
+    if (request.kind === 'CHECK_OUT') {
+      return checkOutWithUpload(request.label, request.visitId || '', request.fields, request.photo, request.attachments);
+    }
+    const response = await checkInWithUpload(request.label, request.fields, request.photo);
+    // Check-in dari outbox baru mendapat id visit di sini
+    if (response?.data?.id) {
+      await attachOpenVisitId(request.fields.outlet_id, response.data.id);
+    }
+    return response;
+  }, [checkInWithUpload, checkOutWithUpload]);
+
+  // Check-in yang ditolak server atau dihapus tidak boleh terus memblokir check-in di outlet lain
+  const releaseCheckIn = useCallback(async (entry: OutboxEntry) => {
+    if (entry.kind === 'CHECK_IN') {
+      await releasePendingOpenVisit(entry.fields.outlet_id);
+    }
+  }, []);
+
+  const replay = useCallback(async () => {
+    if (!token) return;
+    setIsReplaying(true);
+    try {
+      const summary = await replayOutbox(send);
+      log('[OUTBOX] Replay finished', summary);
+      if (summary.failed > 0) {
+        const failed = (await loadOutbox()).filter(entry => entry.status === 'failed');
+        for (const entry of failed) await releaseCheckIn(entry);
+      }
+    } finally {
+      await refresh();
+      setIsReplaying(false);
+    }
+  }, [token, send, refresh, releaseCheckIn]);
+
+  /**
+   * Send immediately when online; fall back to the outbox when offline
+   * or when the request never reached the server.
+   */
+  const submitVisitRequest = useCallback(async (request: VisitOutboxRequest): Promise<SubmitResult> => {
+    if (!isConnected) {
+      await enqueueVisitRequest(request);
+      await refresh();
+      return { queued: true };
+    }
+
+    try {
+      const response = await send(request);
+      return { queued: false, response };
+    } catch (error) {
+      if (!isQueueableError(error)) throw error;
+      await enqueueVisitRequest(request);
+      await refresh();
+      return { queued: true };
+    }
+  }, [isConnected, send, refresh]);
+
+  const retry = useCallback(async (id: string) => {
+    await updateOutboxEntry(id, { status: 'pending', lastError: null });
+    await refresh();
+    if (isConnected) {
+      await replay();
+    }
+  }, [isConnected, refresh, replay]);
+
+  const discard = useCallback(async (id: string) => {
+    const entry = entries.find(item => item.id === id);
+    setEntries(await removeOutboxEntry(id));
+    if (entry) await releaseCheckIn(entry);
+  }, [entries, releaseCheckIn]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Replay whenever connectivity comes back (and once on startup if already online)
+  useEffect(() => {
+    if (isConnected && token) {
+      replay();
+    }
+  }, [isConnected, token, replay]);
+
+  return (
+    <OutboxContext.Provider value={{ entries, isReplaying, submitVisitRequest, replay, retry, discard }}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
+
+export const useOutbox = () => {
+  const ctx = useContext(OutboxContext);
+  if (!ctx) throw new Error('useOutbox must be used within OutboxProvider');
+  return ctx;
+};
@@ -7,7 +7,7 @@ import { useAuthActions } from './useAuthActions';
  * while internally using simplified, single-responsibility hooks
  */
 export function useAuth() {
-  const { user, token, permissions, loading, refresh } = useAuthData();
+  const { user, token, tokenExpiresAt, permissions, loading, refresh, updateToken } = useAuthData();
   const { 
     actionLoading, 
     login, 
@@ -15,6 +15,7 @@ export function useAuth() {
     requestOtp, 
     verifyOtp, 
     refreshProfile,
+    requestTokenRefresh,
     loginWithToken 
   } = useAuthActions();
 
@@ -29,10 +30,18 @@ export function useAuth() {
     await refreshProfile(token);
   };
 
+  // Perbarui token sesi tanpa logout; null jika sesi tidak bisa diperpanjang
+  const refreshSession = async (): Promise<string | null> => {
+    const session = await requestTokenRefresh();
+    await updateToken(session);
+    return session.access_token;
+  };
+
   return {
     // State
     user,
     token,
+    tokenExpiresAt,
     permissions,
     loading: isLoading,
     
@@ -42,6 +51,7 @@ export function useAuth() {
     requestOtp,
     verifyOtp,
     refreshUser,
+    refreshSession,
     loginWithToken,
     
     // Additional data actions
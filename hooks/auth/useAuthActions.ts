@@ -1,9 +1,10 @@
 import { useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNotifId } from '@/context/notifid-context';
 import { useAuthData } from './useAuthData';
 import { useErrorHandler } from '@/utils/error-handler';
 import { apiRequest } from '@/utils/api';
-import type { LoginResponse, OtpResponse, SendOtpResponse, UserResponse, User } from '@/types/common';
+import type { LoginResponse, OtpResponse, RefreshTokenResponse, SendOtpResponse, SessionToken, UserResponse, User } from '@/types/common';
 import { log } from '@/utils/logger';
 
 const BASE_URL = process.env.EXPO_PUBLIC_BASE_URL;
@@ -44,7 +45,7 @@ export function useAuthActions() {
         permissions: userPermissions
       };
 
-      await saveAuthData(response.data.access_token, userWithPermissions, userPermissions);
+      await saveAuthData(response.data.access_token, userWithPermissions, userPermissions, response.data);
       log('[LOGIN] Login successful');
     } catch (error) {
       const errorMessage = handleError(error, 'LOGIN');
@@ -99,9 +100,10 @@ export function useAuthActions() {
 
       log('[OTP] Request successful');
       return response;
-    } catch (error) {
+    } catch (error: any) {
       const errorMessage = handleError(error, 'REQUEST_OTP');
-      throw new Error(errorMessage);
+      // Pertahankan status dan Retry-After agar form bisa menampilkan waktu tunggu (429)
+      throw Object.assign(new Error(errorMessage), { httpStatus: error?.httpStatus, retryAfter: error?.retryAfter });
     } finally {
       setActionLoading(false);
     }
@@ -143,7 +145,7 @@ export function useAuthActions() {
         permissions: userPermissions
       };
 
-      await saveAuthData(response.data.access_token, userWithPermissions, userPermissions);
+      await saveAuthData(response.data.access_token, userWithPermissions, userPermissions, response.data);
       log('[OTP] Login successful');
       return response;
     } catch (error) {
@@ -182,6 +184,32 @@ export function useAuthActions() {
     }
   };
 
+  /**
+   * Minta access token baru memakai token tersimpan (dan refresh_token jika backend memberikannya).
+   * Tidak menyimpan hasilnya; penyimpanan dilakukan oleh pemanggil (lihat useAuth.refreshSession).
+   */
+  const requestTokenRefresh = async (): Promise<SessionToken> => {
+    const [currentToken, refreshToken] = await Promise.all([
+      AsyncStorage.getItem('token'),
+      AsyncStorage.getItem('refresh_token')
+    ]);
+    if (!currentToken) {
+      throw new Error('No authentication token available');
+    }
+
+    const response: RefreshTokenResponse = await apiRequest({
+      url: `${BASE_URL}/refresh-token`,
+      method: 'POST',
+      body: refreshToken ? { refresh_token: refreshToken } : null,
+      logLabel: 'REFRESH_TOKEN',
+      token: currentToken,
+      skipAuthRefresh: true
+    });
+
+    log('[REFRESH_TOKEN] Token refreshed');
+    return response.data;
+  };
+
   const loginWithToken = async (token: string, user: User, permissions?: string[]): Promise<void> => {
     const userPermissions = permissions || user?.role?.permissions?.map((p: any) => p.name) || [];
     await saveAuthData(token, user, userPermissions);
@@ -198,6 +226,7 @@ export function useAuthActions() {
     requestOtp,
     verifyOtp,
     refreshProfile,
+    requestTokenRefresh,
     loginWithToken,
   };
 }
\ No newline at end of file
@@ -1,8 +1,22 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { User } from '@/types/common';
+import { clearQueryCache } from '@/services/query-cache';
+import type { SessionToken, User } from '@/types/common';
 import { log } from '@/utils/logger';
 
+// Refresh token lebih awal jika sisa masa berlaku di bawah margin ini
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000;
+
+/**
+ * Hitung waktu kedaluwarsa token (epoch ms) dari expires_in (detik).
+ * Null jika backend tidak mengirim expires_in.
+ */
+export const getTokenExpiresAt = (session?: Pick<SessionToken, 'expires_in'>): number | null =>
+  session?.expires_in ? Date.now() + session.expires_in * 1000 : null;
+
+export const isTokenExpiring = (expiresAt: number | null, margin: number = TOKEN_REFRESH_MARGIN) =>
+  expiresAt !== null && Date.now() >= expiresAt - margin;
+
 /**
  * Simple hook for managing authentication data (user, token, permissions)
  * Follows single responsibility principle - only handles data persistence
@@ -10,6 +24,7 @@ import { log } from '@/utils/logger';
 export function useAuthData() {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
   const [permissions, setPermissions] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -21,14 +36,16 @@ export function useAuthData() {
   const loadAuthData = async () => {
     setLoading(true);
     try {
-      const [storedToken, storedUser, storedPermissions] = await Promise.all([
+      const [storedToken, storedUser, storedPermissions, storedExpiresAt] = await Promise.all([
         AsyncStorage.getItem('token'),
         AsyncStorage.getItem('user'),
-        AsyncStorage.getItem('permissions')
+        AsyncStorage.getItem('permissions'),
+        AsyncStorage.getItem('token_expires_at')
       ]);
 
       if (storedToken && storedUser) {
         setToken(storedToken);
+        setTokenExpiresAt(storedExpiresAt ? Number(storedExpiresAt) : null);
         const parsedUser = JSON.parse(storedUser);
         setUser(parsedUser);
 
@@ -53,16 +70,32 @@ export function useAuthData() {
     }
   };
 
+  // Simpan masa berlaku dan refresh token (jika ada) milik token aktif
+  const persistSession = async (session?: Omit<SessionToken, 'access_token' | 'token_type'>) => {
+    const expiresAt = getTokenExpiresAt(session);
+    await Promise.all([
+      expiresAt
+        ? AsyncStorage.setItem('token_expires_at', String(expiresAt))
+        : AsyncStorage.removeItem('token_expires_at'),
+      session?.refresh_token
+        ? AsyncStorage.setItem('refresh_token', session.refresh_token)
+        : Promise.resolve(),
+    ]);
+    setTokenExpiresAt(expiresAt);
+  };
+
   const saveAuthData = async (
     newToken: string, 
     newUser: User, 
-    newPermissions: string[]
+    newPermissions: string[],
+    session?: Omit<SessionToken, 'access_token' | 'token_type'>
   ) => {
     try {
       await Promise.all([
         AsyncStorage.setItem('token', newToken),
         AsyncStorage.setItem('user', JSON.stringify(newUser)),
-        AsyncStorage.setItem('permissions', JSON.stringify(newPermissions))
+        AsyncStorage.setItem('permissions', JSON.stringify(newPermissions)),
+        persistSession(session)
       ]);
 
       setToken(newToken);
@@ -76,15 +109,35 @@ export function useAuthData() {
     }
   };
 
+  // Ganti token setelah refresh tanpa mengubah user dan permission
+  const updateToken = async (session: SessionToken) => {
+    try {
+      await Promise.all([
+        AsyncStorage.setItem('token', session.access_token),
+        persistSession(session)
+      ]);
+
+      setToken(session.access_token);
+      log('[AUTH_DATA] Token refreshed successfully');
+    } catch (error) {
+      log('[AUTH_DATA] Failed to save refreshed token:', error);
+      throw new Error('Failed to save refreshed token');
+    }
+  };
+
   const clearAuthData = async () => {
     try {
       await Promise.all([
         AsyncStorage.removeItem('token'),
         AsyncStorage.removeItem('user'),
-        AsyncStorage.removeItem('permissions')
+        AsyncStorage.removeItem('permissions'),
+        AsyncStorage.removeItem('token_expires_at'),
+        AsyncStorage.removeItem('refresh_token'),
+        clearQueryCache()
       ]);
 
       setToken(null);
+      setTokenExpiresAt(null);
       setUser(null);
       setPermissions([]);
 
@@ -93,6 +146,7 @@ export function useAuthData() {
       log('[AUTH_DATA] Failed to clear auth data:', error);
       // Force clear state even if storage fails
       setToken(null);
+      setTokenExpiresAt(null);
       setUser(null);
       setPermissions([]);
     }
@@ -121,11 +175,13 @@ export function useAuthData() {
     // State
     user,
     token,
+    tokenExpiresAt,
     permissions,
     loading,
     
     // Actions
     saveAuthData,
+    updateToken,
     clearAuthData,
     updateUser,
     refresh: loadAuthData,
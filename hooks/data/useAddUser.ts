@@ -1,45 +1,14 @@
-import { useAuth } from '@/context/auth-context';
-import { BaseResponse, apiRequest } from '@/utils/api';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult } from '@/types/common';
+import type { AddUserResponse, NewUserPayload, User } from '@/types/user';
 import { log } from '@/utils/logger';
 import { useCallback, useState } from 'react';
 
-const BASE_URL = process.env.EXPO_PUBLIC_BASE_URL;
-
-export interface NewUserPayload {
-  name: string;
-  username: string;
-  phone: string;
-  role: string;
-  badanusaha?: string;
-  divisi?: string;
-  region?: string;
-  cluster?: string;
-}
-
-// User interface - extend base pattern
-export interface User {
-  id: string | number;
-  name: string;
-  username: string;
-  phone: string;
-  role: string;
-  badanusaha?: string;
-  divisi?: string;
-  region?: string;
-  cluster?: string;
-}
-
-export interface ApiResult<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  meta?: any;
-}
-
-export interface AddUserResponse extends BaseResponse<User> {}
+export type { NewUserPayload, User, AddUserResponse } from '@/types/user';
+export type { ApiResult };
 
 export function useAddUser() {
-  const { token } = useAuth();
+  const api = useApiClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -50,13 +19,7 @@ export function useAddUser() {
     log('[ADD_USER] payload', payload);
 
     try {
-      const response: AddUserResponse = await apiRequest({
-        url: `${BASE_URL}/user`,
-        method: 'POST',
-        body: payload,
-        logLabel: 'ADD_USER',
-        token
-      });
+      const response: AddUserResponse = await api.users.create(payload);
 
       return { success: true, data: response.data, meta: response.meta };
     } catch (e: any) {
@@ -67,7 +30,7 @@ export function useAddUser() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [api]);
 
   return {
     // State
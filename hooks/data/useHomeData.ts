@@ -1,17 +1,16 @@
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import { useQuery } from '@/hooks/utils/useQuery';
+import { queryKey, QUERY_TTL } from '@/services/query-cache';
 import { log } from '@/utils/logger';
 import { useFocusEffect } from '@react-navigation/native';
-import { useCallback, useState } from 'react';
-import { useVisit } from './useVisit';
+import { useCallback } from 'react';
 
 /**
  * Custom hook untuk menangani data dan logic di Home Screen
  * Mengikuti best practice: UI-agnostic, reusable, handle loading/error/success state
  */
 export function useHomeData() {
-  const { fetchVisits } = useVisit();
-  const [todayVisits, setTodayVisits] = useState<any[]>([]);
-  const [loadingVisits, setLoadingVisits] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const api = useApiClient();
 
   /**
    * Format tanggal hari ini ke format yyyy-mm-dd
@@ -24,61 +23,35 @@ export function useHomeData() {
     return `${yyyy}-${mm}-${dd}`;
   }, []);
 
+  const todayStr = getTodayDateString();
+
   /**
-   * Fetch visits untuk hari ini
+   * Visits hari ini: data cache langsung tampil, revalidate di background
    */
-  const fetchTodayVisits = useCallback(async () => {
-    setLoadingVisits(true);
-    setError(null);
-    
-    try {
-      const todayStr = getTodayDateString();
-      log('[useHomeData] Fetching visits for today:', todayStr);
-      
-      const result = await fetchVisits({ 'filters[date]': todayStr });
-      
-      if (result.success) {
-        setTodayVisits(result.data || []);
-        log('[useHomeData] Successfully fetched today visits:', result.data?.length || 0);
-      } else {
-        setError(result.error || 'Failed to fetch today visits');
-        log('[useHomeData] Failed to fetch today visits:', result.error);
-      }
-    } catch (err: any) {
-      // Parse error sesuai StandardResponse format
-      let errorMessage = 'Unexpected error occurred';
-      if (err?.response?.data?.meta?.message) {
-        errorMessage = err.response.data.meta.message;
-      } else if (err?.meta?.message) {
-        errorMessage = err.meta.message;
-      } else if (err?.code === 'NETWORK_ERROR' || err?.message?.includes('Network')) {
-        errorMessage = 'Tidak dapat terhubung ke server. Periksa koneksi internet Anda.';
-      }
-      
-      setError(errorMessage);
-      log('[useHomeData] Exception while fetching today visits:', err);
-    } finally {
-      setLoadingVisits(false);
-    }
-  }, [fetchVisits, getTodayDateString]);
+  const { data, loading: loadingVisits, error, revalidate } = useQuery(
+    queryKey('/visits', { 'filters[date]': todayStr }),
+    () => api.visits.list({ 'filters[date]': todayStr }),
+    { ttl: QUERY_TTL.SHORT }
+  );
+  const todayVisits = data?.data || [];
 
   /**
-   * Refresh data - dapat dipanggil dari UI
+   * Refresh data - dapat dipanggil dari UI, selalu ambil ulang dari server
    */
   const refreshData = useCallback(async () => {
     log('[useHomeData] Refreshing home data');
-    await fetchTodayVisits();
-  }, [fetchTodayVisits]);
+    await revalidate(true);
+  }, [revalidate]);
 
   /**
-   * Load data setiap kali screen difocus (termasuk saat kembali dari screen lain)
-   * Menggunakan useFocusEffect agar data selalu fresh saat user kembali ke home
+   * Saat screen difocus (termasuk kembali dari screen lain) revalidate jika data sudah stale.
+   * Check-in/check-out meng-invalidate cache visits sehingga data tetap fresh.
    */
   useFocusEffect(
     useCallback(() => {
-      log('[useHomeData] Screen focused, refreshing data');
-      fetchTodayVisits();
-    }, [fetchTodayVisits])
+      log('[useHomeData] Screen focused, revalidating data');
+      revalidate();
+    }, [revalidate])
   );
 
   return {
@@ -86,11 +59,11 @@ export function useHomeData() {
     todayVisits,
     loadingVisits,
     error,
-    
+
     // Actions
     refreshData,
-    
+
     // Utilities
     getTodayDateString,
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,188 @@
+import { useAuth } from '@/context/auth-context';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult } from '@/types/common';
+import type { AppNotification, NotificationListParams, NotificationListResponse, NotificationResponse, UnreadCountResponse } from '@/types/notification';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+export type { NotificationType, AppNotification, NotificationReadFilter, NotificationListParams, NotificationListResponse, NotificationResponse, UnreadCountResponse } from '@/types/notification';
+export type { ApiResult };
+
+export function useNotifications() {
+  const { token } = useAuth();
+  const api = useApiClient();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [meta, setMeta] = useState<any>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch notifications; page > 1 appends to the current list (infinite scroll)
+  const fetchNotifications = useCallback(async (params: NotificationListParams = {}): Promise<ApiResult<AppNotification[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[FETCH_NOTIFICATIONS] params', params);
+
+    try {
+      const page = params.page || 1;
+      const response: NotificationListResponse = await api.notifications.list(params);
+
+      if (Array.isArray(response.data)) {
+        setNotifications(prev => (page > 1 ? [...prev, ...response.data] : response.data));
+        setMeta(response.meta);
+        return { success: true, data: response.data, meta: response.meta };
+      } else {
+        setError('Invalid data format in response');
+        return { success: false, error: 'Invalid data format in response' };
+      }
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch notifications';
+      setError(errorMessage);
+      log('[FETCH_NOTIFICATIONS] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Fetch single notification
+  const fetchNotification = useCallback(async (id: string | number): Promise<ApiResult<AppNotification>> => {
+    setLoading(true);
+    setError(null);
+    log('[FETCH_NOTIFICATION] id', id);
+
+    try {
+      const response: NotificationResponse = await api.notifications.get(id);
+
+      return { success: true, data: response.data, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch notification';
+      setError(errorMessage);
+      log('[FETCH_NOTIFICATION] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Fetch unread count (used for the tab bar badge)
+  const fetchUnreadCount = useCallback(async (): Promise<ApiResult<number>> => {
+    if (!token) {
+      return { success: false, error: 'Token tidak tersedia' };
+    }
+
+    try {
+      const response: UnreadCountResponse = await api.notifications.unreadCount();
+
+      const count = Number(response.data?.unread_count) || 0;
+      setUnreadCount(count);
+      return { success: true, data: count };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch unread count';
+      log('[FETCH_UNREAD_COUNT] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [api, token]);
+
+  // Mark single notification as read
+  const markAsRead = useCallback(async (id: string | number): Promise<ApiResult<AppNotification>> => {
+    log('[MARK_NOTIFICATION_READ] id', id);
+
+    try {
+      const response: NotificationResponse = await api.notifications.markRead(id);
+
+      const readAt = response.data?.read_at || new Date().toISOString();
+      setNotifications(prev => prev.map(n => (String(n.id) === String(id) ? { ...n, read_at: readAt } : n)));
+      setUnreadCount(prev => Math.max(0, prev - 1));
+      return { success: true, data: response.data, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to mark notification as read';
+      log('[MARK_NOTIFICATION_READ] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [api]);
+
+  // Mark all notifications as read
+  const markAllAsRead = useCallback(async (): Promise<ApiResult<void>> => {
+    setLoading(true);
+    setError(null);
+    log('[MARK_ALL_NOTIFICATIONS_READ]');
+
+    try {
+      await api.notifications.markAllRead();
+
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: readAt })));
+      setUnreadCount(0);
+      return { success: true };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to mark all notifications as read';
+      setError(errorMessage);
+      log('[MARK_ALL_NOTIFICATIONS_READ] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Delete single notification
+  const deleteNotification = useCallback(async (id: string | number): Promise<ApiResult<void>> => {
+    log('[DELETE_NOTIFICATION] id', id);
+
+    try {
+      await api.notifications.remove(id);
+
+      setNotifications(prev => {
+        const target = prev.find(n => String(n.id) === String(id));
+        if (target && !target.read_at) {
+          setUnreadCount(count => Math.max(0, count - 1));
+        }
+        return prev.filter(n => String(n.id) !== String(id));
+      });
+      return { success: true };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to delete notification';
+      log('[DELETE_NOTIFICATION] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [api]);
+
+  // Delete all read notifications
+  const deleteReadNotifications = useCallback(async (): Promise<ApiResult<void>> => {
+    setLoading(true);
+    setError(null);
+    log('[DELETE_READ_NOTIFICATIONS]');
+
+    try {
+      await api.notifications.removeRead();
+
+      setNotifications(prev => prev.filter(n => !n.read_at));
+      return { success: true };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to delete read notifications';
+      setError(errorMessage);
+      log('[DELETE_READ_NOTIFICATIONS] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  return {
+    // State
+    notifications,
+    meta,
+    unreadCount,
+    loading,
+    error,
+
+    // Operations
+    fetchNotifications,
+    fetchNotification,
+    fetchUnreadCount,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+    deleteReadNotifications,
+  };
+}
@@ -1,73 +1,22 @@
-import { useAuth } from '@/context/auth-context';
-import { BaseResponse, apiRequest } from '@/utils/api';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { UploadFile } from '@/services/upload-manager';
+import type { ApiResult, ListParams } from '@/types/common';
+import type { OutletAPI, OutletResponse, OutletsResponse } from '@/types/outlet';
 import { log } from '@/utils/logger';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
-// Interface untuk outlet photos
-export interface OutletPhotos {
-  shop_sign: string | null;
-  front: string | null;
-  left: string | null;
-  right: string | null;
-  id_card: string | null;
-}
+export type { OutletPhotos, OutletAPI, OutletsResponse, OutletResponse } from '@/types/outlet';
+export type { ApiResult };
 
-// Interface untuk outlet API sesuai backend baru
-export interface OutletAPI {
-  id: string | number;
-  code: string;
-  name: string;
-  owner_name: string | null;
-  owner_phone: string | null;
-  address: string | null;
-  location: string;
-  district: string;
-  status: string;
-  radius: number;
-  badan_usaha_id: string | number;
-  division_id: string | number;
-  region_id: string | number;
-  cluster_id: string | number;
-  badan_usaha: {
-    id: string | number;
-    name: string;
-  };
-  division: {
-    id: string | number;
-    name: string;
-  };
-  region: {
-    id: string | number;
-    name: string;
-  };
-  cluster: {
-    id: string | number;
-    name: string;
-  };
-  photos: OutletPhotos;
-  video: string | null;
-}
-
-// Interface untuk response paginated outlets
-export interface OutletsResponse extends BaseResponse<OutletAPI[]> {
-  meta: {
-    code: number;
-    status: 'success' | 'error';
-    message: string;
-    current_page: number;
-    last_page: number;
-    total: number;
-    per_page: number;
-  };
-}
+// Id transfer upload per outlet agar progress upload yang dilanjutkan tetap bisa diikuti
+export const outletUploadId = (outletId: string | number) => `outlet-${outletId}`;
 
-// Interface untuk response single outlet
-export interface OutletResponse extends BaseResponse<OutletAPI> {}
-
-const BASE_URL = process.env.EXPO_PUBLIC_BASE_URL;
-
-export function useOutlet(searchQuery: string) {
-  const { token } = useAuth();
+/**
+ * @param searchQuery Jika diisi (termasuk string kosong), list outlet otomatis di-fetch
+ * setiap query berubah (debounce 300ms). Screen detail/form cukup memanggil `useOutlet()`.
+ */
+export function useOutlet(searchQuery?: string) {
+  const api = useApiClient();
   const [outlets, setOutlets] = useState<OutletAPI[]>([]);
   const [outlet, setOutlet] = useState<OutletAPI | null>(null);
   const [loading, setLoading] = useState(false);
@@ -140,7 +89,8 @@ export function useOutlet(searchQuery: string) {
         id_card: item.photos?.id_card || item.photo_id_card || null,
       },
       video: item.video || null,
-      radius: item.radius || 0, // Default value
+      radius: item.radius ?? null,
+      boundary: item.boundary || null,
     }));
   }, []);
 
@@ -184,7 +134,8 @@ export function useOutlet(searchQuery: string) {
         id_card: item.photos?.id_card || item.photo_id_card || null,
       },
       video: item.video || null,
-      radius: item.radius || 0,
+      radius: item.radius ?? null,
+      boundary: item.boundary || null,
     };
   }, []);
 
@@ -193,7 +144,7 @@ export function useOutlet(searchQuery: string) {
     setLoading(true);
     setError(null);
     try {
-      const params: any = {
+      const params: ListParams = {
         per_page: 50, // Ambil lebih banyak untuk dropdown
         sort_column: 'name',
         sort_direction: 'asc',
@@ -204,13 +155,7 @@ export function useOutlet(searchQuery: string) {
         params.search = searchQuery.trim();
       }
       
-      const json: OutletsResponse = await apiRequest({
-        url: `${BASE_URL}/outlets?${new URLSearchParams(params).toString()}`,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_OUTLETS',
-        token
-      });
+      const json: OutletsResponse = await api.outlets.list(params);
       
       if (Array.isArray(json.data)) {
         const transformed = transformOutletData(json.data);
@@ -229,10 +174,11 @@ export function useOutlet(searchQuery: string) {
       log('[FETCH_OUTLETS] error:', errorMessage);
     }
     setLoading(false);
-  }, [token, transformOutletData]);
+  }, [api, transformOutletData]);
 
   // Effect untuk fetch outlets berdasarkan debounced search query
   useEffect(() => {
+    if (debouncedSearchQuery === undefined) return;
     fetchOutlets(debouncedSearchQuery);
   }, [debouncedSearchQuery, fetchOutlets]);
 
@@ -241,13 +187,7 @@ export function useOutlet(searchQuery: string) {
     setLoading(true);
     setError(null);
     try {
-      const json: OutletResponse = await apiRequest({
-        url: `${BASE_URL}/outlets/${encodeURIComponent(id)}`,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_OUTLET',
-        token
-      });
+      const json: OutletResponse = await api.outlets.get(id);
       
       if (json.data) {
         const mappedOutlet = transformSingleOutletData(json.data);
@@ -263,22 +203,14 @@ export function useOutlet(searchQuery: string) {
       log('[FETCH_OUTLET] error:', errorMessage);
     }
     setLoading(false);
-  }, [token, transformSingleOutletData]);
+  }, [api, transformSingleOutletData]);
 
   // Create outlet
   const createOutlet = useCallback(async (data: Partial<OutletAPI>) => {
     setLoading(true);
     setError(null);
     try {
-      await apiRequest({
-        url: `${BASE_URL}/outlets`,
-        method: 'POST',
-        body: data,
-        logLabel: 'CREATE_OUTLET',
-        token
-      });
-      
-      await fetchOutlets(''); // refresh list without search
+      await api.outlets.create(data);
       return { success: true };
     } catch (e: any) {
       const errorMessage = e.message || 'Failed to create outlet';
@@ -288,22 +220,14 @@ export function useOutlet(searchQuery: string) {
     } finally {
       setLoading(false);
     }
-  }, [token, fetchOutlets]);
+  }, [api]);
 
   // Update outlet (sesuai API dokumentasi menggunakan POST)
   const updateOutlet = useCallback(async (id: string, data: Partial<OutletAPI>) => {
     setLoading(true);
     setError(null);
     try {
-      await apiRequest({
-        url: `${BASE_URL}/outlets/${encodeURIComponent(id)}`,
-        method: 'POST',
-        body: data,
-        logLabel: 'UPDATE_OUTLET',
-        token
-      });
-      
-      await fetchOutlets(''); // refresh list without search
+      await api.outlets.update(id, data);
       return { success: true };
     } catch (e: any) {
       const errorMessage = e.message || 'Failed to update outlet';
@@ -313,67 +237,32 @@ export function useOutlet(searchQuery: string) {
     } finally {
       setLoading(false);
     }
-  }, [token, fetchOutlets]);
+  }, [api]);
 
-  // Update outlet with FormData (for file upload) - tetap menggunakan POST untuk multipart
-  const updateOutletWithFile = useCallback(async (id: string, formData: FormData) => {
+  // Update outlet dengan file lewat transfer manager: setiap file diunggah terpisah di background
+  // (progress via useUploadTransfer(outletUploadId(id)), file yang sudah terkirim tidak diulang saat dilanjutkan)
+  const uploadOutletFiles = useCallback(async (id: string, fields: Record<string, string>, files: UploadFile[]): Promise<ApiResult<OutletAPI>> => {
     setLoading(true);
     setError(null);
     try {
-      await apiRequest({
-        url: `${BASE_URL}/outlets/${encodeURIComponent(id)}`,
-        method: 'POST',
-        body: formData,
-        logLabel: 'UPDATE_OUTLET_WITH_FILE',
-        token,
-        timeout: 60000 // 60 seconds timeout for file uploads
-      });
-      
-      await fetchOutlets(''); // refresh list without search
-      return { success: true };
+      const json = await api.outlets.uploadFiles(outletUploadId(id), id, fields, files);
+      return { success: true, data: json.data, meta: json.meta };
     } catch (e: any) {
       const errorMessage = e.message || 'Failed to update outlet';
       setError(errorMessage);
-      log('[UPDATE_OUTLET_WITH_FILE] error:', errorMessage);
+      log('[UPLOAD_OUTLET_FILES] error:', errorMessage);
       return { success: false, error: errorMessage };
     } finally {
       setLoading(false);
     }
-  }, [token, fetchOutlets]);
+  }, [api]);
 
   // Fetch outlets with advanced params (with pagination support)
-  const fetchOutletsAdvanced = useCallback(async (params?: {
-    page?: number;
-    per_page?: number;
-    sort_column?: string;
-    sort_direction?: string;
-    search?: string;
-    filters?: Record<string, any>;
-  }) => {
+  const fetchOutletsAdvanced = useCallback(async (params?: ListParams) => {
     setLoading(true);
     setError(null);
     try {
-      const query = new URLSearchParams();
-      if (params?.page) query.append('page', String(params.page));
-      if (params?.per_page) query.append('per_page', String(params.per_page));
-      if (params?.sort_column) query.append('sort_column', params.sort_column);
-      if (params?.sort_direction) query.append('sort_direction', params.sort_direction);
-      if (params?.search) query.append('search', params.search);
-      if (params?.filters) {
-        Object.entries(params.filters).forEach(([key, value]) => {
-          if (value !== undefined && value !== null && value !== '') {
-            query.append(`filters[${key}]`, String(value));
-          }
-        });
-      }
-      
-      const json: OutletsResponse = await apiRequest({
-        url: `${BASE_URL}/outlets?${query.toString()}`,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_OUTLETS_ADVANCED',
-        token
-      });
+      const json: OutletsResponse = await api.outlets.list(params, { logLabel: 'FETCH_OUTLETS_ADVANCED' });
       
       if (Array.isArray(json.data)) {
         setMeta(json.meta);
@@ -391,7 +280,7 @@ export function useOutlet(searchQuery: string) {
       log('[FETCH_OUTLETS_ADVANCED] error:', errorMessage);
     }
     setLoading(false);
-  }, [token, transformOutletData]);
+  }, [api, transformOutletData]);
 
   return {
     outlets,
@@ -404,6 +293,6 @@ export function useOutlet(searchQuery: string) {
     fetchOutlet,
     createOutlet,
     updateOutlet,
-    updateOutletWithFile,
+    uploadOutletFiles,
   };
 }
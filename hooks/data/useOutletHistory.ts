@@ -0,0 +1,193 @@
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult } from '@/types/common';
+import type { OutletAPI } from '@/types/outlet';
+import type { HistoryChangeData, OutletHistory, OutletHistoryListResponse, PendingHistoryListResponse, PendingHistoryParams, ProcessHistoryAction } from '@/types/outlet-history';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+export type { OutletHistoryStatus, ProcessHistoryAction, OutletHistory, HistoryChangeData, PendingHistoryParams, OutletHistoryListResponse, PendingHistoryListResponse } from '@/types/outlet-history';
+export type { ApiResult };
+
+// Label field outlet yang bisa diajukan lewat history-change
+export const OUTLET_FIELD_LABELS: Record<string, string> = {
+  name: 'Nama Outlet',
+  owner_name: 'Nama Pemilik',
+  owner_phone: 'No. Telepon',
+  address: 'Alamat',
+  location: 'Koordinat',
+  district: 'District',
+  status: 'Status',
+  radius: 'Radius',
+};
+
+export const getOutletFieldLabel = (field: string) => OUTLET_FIELD_LABELS[field] || field;
+
+/**
+ * Ambil nilai field dari OutletAPI dalam bentuk string untuk ditampilkan di diff.
+ * Field relasi (region_id, cluster_id, ...) ditampilkan dengan nama relasinya.
+ */
+export function getOutletFieldValue(outlet: Partial<OutletAPI> | null | undefined, field: string): string {
+  if (!outlet) return '';
+  const relation = field.endsWith('_id') ? (outlet as any)[field.slice(0, -3)] : null;
+  if (relation?.name) return String(relation.name);
+  const value = (outlet as any)[field];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Bandingkan outlet saat ini dengan nilai form, hasilkan satu perubahan per field
+ * yang berbeda. Nilai kosong di form dianggap tidak diubah.
+ */
+export function buildOutletChanges(
+  outlet: Partial<OutletAPI>,
+  values: Record<string, string | number | null | undefined>,
+  reason?: string
+): HistoryChangeData[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && String(value).trim() !== '')
+    .filter(([field, value]) => getOutletFieldValue(outlet, field) !== String(value).trim())
+    .map(([field, value]) => ({
+      field,
+      old_value: getOutletFieldValue(outlet, field) || null,
+      new_value: String(value).trim(),
+      ...(reason ? { reason } : {}),
+    }));
+}
+
+export function useOutletHistory() {
+  const api = useApiClient();
+  const [histories, setHistories] = useState<OutletHistory[]>([]);
+  const [pendingHistories, setPendingHistories] = useState<OutletHistory[]>([]);
+  const [meta, setMeta] = useState<any>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch riwayat perubahan satu outlet
+  const fetchOutletHistory = useCallback(async (outletId: string | number): Promise<ApiResult<OutletHistory[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[FETCH_OUTLET_HISTORY] outletId', outletId);
+
+    try {
+      const response: OutletHistoryListResponse = await api.outlets.history(outletId);
+
+      if (Array.isArray(response.data)) {
+        setHistories(response.data);
+        return { success: true, data: response.data, meta: response.meta };
+      } else {
+        setError('Invalid data format in response');
+        return { success: false, error: 'Invalid data format in response' };
+      }
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch outlet history';
+      setError(errorMessage);
+      log('[FETCH_OUTLET_HISTORY] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Ajukan perubahan field outlet untuk direview (tidak langsung menimpa data outlet)
+  const submitHistoryChanges = useCallback(async (outletId: string | number, changes: HistoryChangeData[]): Promise<ApiResult<number>> => {
+    if (changes.length === 0) {
+      return { success: false, error: 'Tidak ada perubahan untuk diajukan' };
+    }
+
+    setLoading(true);
+    setError(null);
+    log('[SUBMIT_OUTLET_HISTORY_CHANGE] outletId', outletId, changes.map(c => c.field));
+
+    let submitted = 0;
+    try {
+      for (const change of changes) {
+        await api.outlets.submitChange(outletId, change);
+        submitted += 1;
+      }
+      return { success: true, data: submitted };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to submit outlet change';
+      setError(errorMessage);
+      log('[SUBMIT_OUTLET_HISTORY_CHANGE] error:', errorMessage, { submitted });
+      return { success: false, error: errorMessage, data: submitted };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Fetch perubahan yang menunggu persetujuan (untuk supervisor)
+  const fetchPendingHistories = useCallback(async (params: PendingHistoryParams = {}): Promise<ApiResult<OutletHistory[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[FETCH_PENDING_OUTLET_HISTORIES] params', params);
+
+    try {
+      const page = params.page || 1;
+      const response: PendingHistoryListResponse = await api.outletHistories.pending(params);
+
+      if (Array.isArray(response.data)) {
+        setPendingHistories(prev => (page > 1 ? [...prev, ...response.data] : response.data));
+        setMeta(response.meta);
+        return { success: true, data: response.data, meta: response.meta };
+      } else {
+        setError('Invalid data format in response');
+        return { success: false, error: 'Invalid data format in response' };
+      }
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch pending outlet changes';
+      setError(errorMessage);
+      log('[FETCH_PENDING_OUTLET_HISTORIES] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Approve / reject satu perubahan
+  const processHistory = useCallback(async (
+    historyId: string | number,
+    action: ProcessHistoryAction,
+    reason?: string
+  ): Promise<ApiResult<OutletHistory>> => {
+    log('[PROCESS_OUTLET_HISTORY]', { historyId, action });
+
+    try {
+      const response = await api.outletHistories.process(historyId, action, reason);
+
+      setPendingHistories(prev => prev.filter(h => String(h.id) !== String(historyId)));
+      return { success: true, data: response.data, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to process outlet change';
+      log('[PROCESS_OUTLET_HISTORY] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [api]);
+
+  // Fetch data outlet terkini untuk dibandingkan dengan perubahan yang diajukan
+  const fetchCurrentOutlet = useCallback(async (outletId: string | number): Promise<ApiResult<OutletAPI>> => {
+    try {
+      const response = await api.outlets.get(outletId);
+      return { success: true, data: response.data };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch outlet';
+      log('[FETCH_OUTLET_FOR_HISTORY] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [api]);
+
+  return {
+    // State
+    histories,
+    pendingHistories,
+    meta,
+    loading,
+    error,
+
+    // Operations
+    fetchOutletHistory,
+    submitHistoryChanges,
+    fetchPendingHistories,
+    processHistory,
+    fetchCurrentOutlet,
+  };
+}
@@ -0,0 +1,73 @@
+import type { Visit, VisitListResponse } from '@/hooks/data/useVisit';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import { summarizeVisits, VisitSummary } from '@/services/visit-stats';
+import type { ApiResult } from '@/types/common';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+const PAGE_SIZE = 15;
+// Jumlah kunjungan terbaru yang dipakai untuk statistik
+const STATS_SAMPLE_SIZE = 100;
+
+/**
+ * Riwayat kunjungan satu outlet (infinite scroll) dan ringkasan statistiknya.
+ */
+export function useOutletVisits(outletId: string | number) {
+  const api = useApiClient();
+  const [visits, setVisits] = useState<Visit[]>([]);
+  const [meta, setMeta] = useState<VisitListResponse['meta'] | null>(null);
+  const [summary, setSummary] = useState<VisitSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (page: number = 1): Promise<ApiResult<Visit[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[FETCH_OUTLET_VISITS] params', { outletId, page });
+
+    try {
+      const response = await api.visits.list({
+        'filters[outlet_id]': outletId,
+        page,
+        per_page: PAGE_SIZE,
+        sort_column: 'visit_date',
+        sort_direction: 'desc',
+      });
+
+      if (Array.isArray(response.data)) {
+        setVisits(prev => (page > 1 ? [...prev, ...response.data] : response.data));
+        setMeta(response.meta);
+        return { success: true, data: response.data, meta: response.meta };
+      } else {
+        setError('Invalid data format in response');
+        return { success: false, error: 'Invalid data format in response' };
+      }
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch outlet visits';
+      setError(errorMessage);
+      log('[FETCH_OUTLET_VISITS] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api, outletId]);
+
+  // Statistik dihitung dari sampel terpisah agar tidak berubah saat list di-scroll
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await api.visits.list({
+        'filters[outlet_id]': outletId,
+        per_page: STATS_SAMPLE_SIZE,
+        sort_column: 'visit_date',
+        sort_direction: 'desc',
+      });
+      if (Array.isArray(response.data)) {
+        setSummary(summarizeVisits(response.data, response.meta?.total ?? response.data.length));
+      }
+    } catch (e: any) {
+      log('[FETCH_OUTLET_VISIT_SUMMARY] error:', e.message || e);
+    }
+  }, [api, outletId]);
+
+  return { visits, meta, summary, loading, error, fetchPage, fetchSummary };
+}
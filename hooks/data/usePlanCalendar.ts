@@ -0,0 +1,91 @@
+import { CreatePlanVisitData, PlanVisit, usePlanVisit } from '@/hooks/data/usePlanVisit';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import { monthsInRange } from '@/services/plan-schedule';
+import type { ApiResult, QueryParams } from '@/types/common';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+const PAGE_SIZE = 200;
+
+export interface PlanBatchResult {
+  created: PlanVisit[];
+  failed: { data: CreatePlanVisitData; error: string }[];
+}
+
+/**
+ * Plan visit dalam rentang tanggal untuk kalender, plus pindah tanggal dan
+ * pembuatan plan massal dari template berulang.
+ */
+export function usePlanCalendar() {
+  const api = useApiClient();
+  const { updatePlanVisit } = usePlanVisit();
+  const [plans, setPlans] = useState<PlanVisit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // List plan visit hanya bisa difilter per bulan: ambil tiap bulan dalam rentang lalu saring.
+  // `params` untuk filter tambahan, mis. user_id saat supervisor melihat plan rep.
+  const fetchRange = useCallback(async (from: string, to: string, params: QueryParams = {}): Promise<ApiResult<PlanVisit[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[PLAN_CALENDAR] fetchRange', { from, to, params });
+
+    try {
+      const results: PlanVisit[] = [];
+      for (const { month, year } of monthsInRange(from, to)) {
+        let page = 1;
+        let lastPage = 1;
+        do {
+          const response = await api.planVisits.list({ ...params, month, year, page, per_page: PAGE_SIZE, sort_column: 'visit_date', sort_direction: 'asc' });
+          if (Array.isArray(response.data)) results.push(...response.data);
+          lastPage = response.meta?.last_page ?? 1;
+          page++;
+        } while (page <= lastPage);
+      }
+
+      const inRange = results.filter((plan, index) => {
+        const date = plan.visit_date.slice(0, 10);
+        return date >= from && date <= to && results.findIndex(item => String(item.id) === String(plan.id)) === index;
+      });
+      setPlans(inRange);
+      return { success: true, data: inRange };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch plan visits';
+      setError(errorMessage);
+      log('[PLAN_CALENDAR] fetchRange error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  const reschedule = useCallback(async (plan: PlanVisit, date: string): Promise<ApiResult<PlanVisit>> => {
+    const previousDate = plan.visit_date;
+    // Optimistic: kartu langsung pindah, dikembalikan jika server menolak
+    setPlans(prev => prev.map(item => (item.id === plan.id ? { ...item, visit_date: date } : item)));
+    const result = await updatePlanVisit(plan.id, { outlet_id: plan.outlet_id, visit_date: date });
+    setPlans(prev => prev.map(item => {
+      if (item.id !== plan.id) return item;
+      return result.success ? { ...item, ...result.data, visit_date: result.data?.visit_date ?? date } : { ...item, visit_date: previousDate };
+    }));
+    return result;
+  }, [updatePlanVisit]);
+
+  // Dibuat satu per satu agar kegagalan satu tanggal tidak membatalkan yang lain
+  const createBatch = useCallback(async (items: CreatePlanVisitData[]): Promise<PlanBatchResult> => {
+    const result: PlanBatchResult = { created: [], failed: [] };
+    for (const data of items) {
+      try {
+        const response = await api.planVisits.create(data);
+        result.created.push(response.data);
+      } catch (e: any) {
+        result.failed.push({ data, error: e.message || 'Failed to create plan visit' });
+      }
+    }
+    log('[PLAN_CALENDAR] createBatch', { created: result.created.length, failed: result.failed.length });
+    setPlans(prev => [...prev, ...result.created]);
+    return result;
+  }, [api]);
+
+  return { plans, loading, error, fetchRange, reschedule, createBatch };
+}
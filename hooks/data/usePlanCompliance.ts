@@ -0,0 +1,66 @@
+import { usePlanCalendar } from '@/hooks/data/usePlanCalendar';
+import type { Visit } from '@/hooks/data/useVisit';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import { visitFiltersForRange } from '@/services/plan-compliance';
+import type { ApiResult } from '@/types/common';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+const PAGE_SIZE = 200;
+
+/**
+ * Plan visit dan kunjungan aktual dalam satu rentang tanggal untuk dashboard kepatuhan plan.
+ * Tanpa `userId` data milik user yang login; dengan `userId` data rep yang dilihat supervisor.
+ */
+export function usePlanCompliance(userId?: string | number) {
+  const api = useApiClient();
+  const { plans, fetchRange: fetchPlans } = usePlanCalendar();
+  const [visits, setVisits] = useState<Visit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filter per bulan mengambil visit di luar rentang juga: hasilnya disaring lagi per tanggal
+  const fetchVisits = useCallback(async (from: string, to: string): Promise<Visit[]> => {
+    const results: Visit[] = [];
+    for (const filter of visitFiltersForRange({ from, to }, userId)) {
+      let page = 1;
+      let lastPage = 1;
+      do {
+        const response = await api.visits.list({ ...filter, page, per_page: PAGE_SIZE, sort_direction: 'asc' });
+        if (Array.isArray(response.data)) results.push(...response.data);
+        lastPage = response.meta?.last_page ?? 1;
+        page++;
+      } while (page <= lastPage);
+    }
+
+    return results.filter((visit, index) => {
+      const date = visit.visit_date.slice(0, 10);
+      return date >= from && date <= to && results.findIndex(item => String(item.id) === String(visit.id)) === index;
+    });
+  }, [api, userId]);
+
+  const fetchPeriod = useCallback(async (from: string, to: string): Promise<ApiResult<Visit[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[PLAN_COMPLIANCE] fetchPeriod', { from, to, userId });
+
+    try {
+      const [planResult, periodVisits] = await Promise.all([
+        fetchPlans(from, to, userId !== undefined ? { user_id: userId } : {}),
+        fetchVisits(from, to),
+      ]);
+      if (!planResult.success) throw new Error(planResult.error);
+      setVisits(periodVisits);
+      return { success: true, data: periodVisits };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch plan compliance';
+      setError(errorMessage);
+      log('[PLAN_COMPLIANCE] fetchPeriod error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPlans, fetchVisits, userId]);
+
+  return { plans, visits, loading, error, fetchPeriod };
+}
@@ -0,0 +1,123 @@
+import { CreatePlanVisitData } from '@/hooks/data/usePlanVisit';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import { ImportOutletRef, ImportUserRef, normalizeOutletCode, PlanImportFailure, ValidatedPlanRow } from '@/services/plan-import';
+import type { ApiResult } from '@/types/common';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+// Jumlah request yang berjalan bersamaan saat resolve kode dan membuat plan
+const LOOKUP_BATCH_SIZE = 5;
+const CREATE_BATCH_SIZE = 10;
+const SEARCH_PAGE_SIZE = 20;
+
+export interface PlanImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface PlanImportResult {
+  created: number;
+  failures: PlanImportFailure[];
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+/**
+ * Import plan visit dari spreadsheet: resolve kode outlet dan user lewat API,
+ * lalu buat plan per batch sambil melaporkan progres.
+ */
+export function usePlanImport() {
+  const api = useApiClient();
+  const [resolving, setResolving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<PlanImportProgress>({ done: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  // Tidak ada endpoint lookup by code: cari per kode lalu cocokkan persis
+  const resolveOutlets = useCallback(async (codes: string[]): Promise<ApiResult<Map<string, ImportOutletRef>>> => {
+    const unique = Array.from(new Set(codes.filter(Boolean).map(normalizeOutletCode)));
+    const outlets = new Map<string, ImportOutletRef>();
+    setResolving(true);
+    setError(null);
+    log('[PLAN_IMPORT] resolveOutlets', { count: unique.length });
+
+    try {
+      for (const batch of chunk(unique, LOOKUP_BATCH_SIZE)) {
+        const responses = await Promise.all(batch.map(code => api.outlets.list({ search: code, per_page: SEARCH_PAGE_SIZE })));
+        responses.forEach((response, index) => {
+          const match = (response.data ?? []).find(outlet => normalizeOutletCode(outlet.code ?? '') === batch[index]);
+          if (match) outlets.set(batch[index], { id: match.id, code: match.code, name: match.name });
+        });
+      }
+      return { success: true, data: outlets };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to resolve outlet codes';
+      setError(errorMessage);
+      log('[PLAN_IMPORT] resolveOutlets error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setResolving(false);
+    }
+  }, [api]);
+
+  const resolveUsers = useCallback(async (values: string[]): Promise<ApiResult<Map<string, ImportUserRef>>> => {
+    const unique = Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+    const users = new Map<string, ImportUserRef>();
+    setResolving(true);
+    setError(null);
+    log('[PLAN_IMPORT] resolveUsers', { count: unique.length });
+
+    try {
+      for (const batch of chunk(unique, LOOKUP_BATCH_SIZE)) {
+        const responses = await Promise.all(batch.map(value => api.users.list({ search: value, per_page: SEARCH_PAGE_SIZE })));
+        responses.forEach((response, index) => {
+          const key = batch[index].toLowerCase();
+          const match = (response.data ?? []).find(user =>
+            String(user.id) === batch[index] || user.username?.toLowerCase() === key || user.name?.toLowerCase() === key
+          );
+          if (match) users.set(key, { id: match.id, name: match.name, username: match.username });
+        });
+      }
+      return { success: true, data: users };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to resolve users';
+      setError(errorMessage);
+      log('[PLAN_IMPORT] resolveUsers error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setResolving(false);
+    }
+  }, [api]);
+
+  // Satu baris gagal tidak membatalkan baris lain; kegagalan dicatat per nomor baris
+  const createPlans = useCallback(async (rows: ValidatedPlanRow[]): Promise<PlanImportResult> => {
+    const items = rows.filter((row): row is ValidatedPlanRow & { data: CreatePlanVisitData } => row.status === 'valid' && !!row.data);
+    const result: PlanImportResult = { created: 0, failures: [] };
+    setImporting(true);
+    setProgress({ done: 0, total: items.length });
+
+    let done = 0;
+    for (const batch of chunk(items, CREATE_BATCH_SIZE)) {
+      const settled = await Promise.allSettled(batch.map(item => api.planVisits.create(item.data)));
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          result.created++;
+        } else {
+          result.failures.push({ row: batch[index].row, error: outcome.reason?.message || 'Failed to create plan visit' });
+        }
+      });
+      done += batch.length;
+      setProgress({ done, total: items.length });
+    }
+
+    log('[PLAN_IMPORT] createPlans', { created: result.created, failed: result.failures.length });
+    setImporting(false);
+    return result;
+  }, [api]);
+
+  return { resolving, importing, progress, error, resolveOutlets, resolveUsers, createPlans };
+}
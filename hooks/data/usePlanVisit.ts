@@ -1,72 +1,14 @@
-import { useAuth } from '@/context/auth-context';
-import { BaseResponse, apiRequest } from '@/utils/api';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult, QueryParams, RequestControl } from '@/types/common';
+import type { CreatePlanVisitData, PlanVisit, PlanVisitListResponse, PlanVisitResponse, UpdatePlanVisitData } from '@/types/plan-visit';
 import { log } from '@/utils/logger';
 import { useCallback, useState } from 'react';
 
-const BASE_URL = process.env.EXPO_PUBLIC_BASE_URL;
-
-export interface PlanVisit {
-  id: string | number;
-  visit_date: string;
-  outlet_id: string | number;
-  user_id: string | number;
-  outlet: {
-    id: string | number;
-    code: string;
-    name: string;
-    owner_name: string;
-    address: string;
-    location: string;
-    district: string;
-    status: string;
-    radius?: number; // Optional karena mungkin tidak selalu ada
-    badan_usaha_id: string | number;
-    division_id: string | number;
-    region_id: string | number;
-    cluster_id: string | number;
-    badan_usaha: {
-      id: string | number;
-      name: string;
-    };
-    division: {
-      id: string | number;
-      name: string;
-    };
-    region: {
-      id: string | number;
-      name: string;
-    };
-    cluster: {
-      id: string | number;
-      name: string;
-    };
-  };
-  created_at?: string;
-  updated_at?: string;
-}
-
-export interface CreatePlanVisitData {
-  outlet_id: string | number;
-  visit_date: string;
-}
-
-export interface UpdatePlanVisitData {
-  outlet_id: string | number;
-  visit_date: string;
-}
-
-export interface ApiResult<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  meta?: any;
-}
-
-export interface PlanVisitListResponse extends BaseResponse<PlanVisit[]> {}
-export interface PlanVisitResponse extends BaseResponse<PlanVisit> {}
+export type { PlanVisit, CreatePlanVisitData, UpdatePlanVisitData, PlanVisitListResponse, PlanVisitResponse } from '@/types/plan-visit';
+export type { ApiResult };
 
 export function usePlanVisit() {
-  const { token } = useAuth();
+  const api = useApiClient();
   const [planVisits, setPlanVisits] = useState<PlanVisit[]>([]);
   const [planVisit, setPlanVisit] = useState<PlanVisit | null>(null);
   const [loading, setLoading] = useState(false);
@@ -74,31 +16,13 @@ export function usePlanVisit() {
   const [meta, setMeta] = useState<any>(null);
 
   // Fetch plan visits list
-  const fetchPlanVisits = useCallback(async (params?: Record<string, any>): Promise<ApiResult<PlanVisit[]>> => {
+  const fetchPlanVisits = useCallback(async (params?: QueryParams, options: RequestControl = {}): Promise<ApiResult<PlanVisit[]>> => {
     setLoading(true);
     setError(null);
     log('[PLAN_VISIT] fetchPlanVisits params', params);
 
     try {
-             const query = new URLSearchParams();
-       if (params) {
-         Object.entries(params).forEach(([key, value]) => {
-           if (value !== undefined && value !== null && value !== '') {
-             query.append(key, String(value));
-           }
-         });
-       }
-
-      const queryString = query.toString();
-      const url = `${BASE_URL}/plan-visits${queryString ? `?${queryString}` : ''}`;
-
-      const response: PlanVisitListResponse = await apiRequest({
-        url,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_PLANVISIT_LIST',
-        token
-      });
+      const response: PlanVisitListResponse = await api.planVisits.list(params, options);
 
       if (Array.isArray(response.data)) {
         setPlanVisits(response.data);
@@ -109,14 +33,16 @@ export function usePlanVisit() {
         return { success: false, error: 'Invalid data format in response' };
       }
     } catch (e: any) {
+      // Dibatalkan pemanggil (mis. diganti request yang lebih baru): state tidak diubah
+      if (options.signal?.aborted) return { success: false, error: e.message || 'Request aborted' };
       const errorMessage = e.message || 'Failed to fetch plan visits';
       setError(errorMessage);
       log('[FETCH_PLANVISIT_LIST] error:', errorMessage);
       return { success: false, error: errorMessage };
     } finally {
-      setLoading(false);
+      if (!options.signal?.aborted) setLoading(false);
     }
-  }, [token]);
+  }, [api]);
 
   // Fetch single plan visit
   const fetchPlanVisit = useCallback(async (id: string | number): Promise<ApiResult<PlanVisit>> => {
@@ -125,13 +51,7 @@ export function usePlanVisit() {
     log('[PLAN_VISIT] fetchPlanVisit id', id);
 
     try {
-      const response: PlanVisitResponse = await apiRequest({
-        url: `${BASE_URL}/plan-visits/${encodeURIComponent(id)}`,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_PLANVISIT_ITEM',
-        token
-      });
+      const response: PlanVisitResponse = await api.planVisits.get(id);
 
       setPlanVisit(response.data);
       return { success: true, data: response.data, meta: response.meta };
@@ -143,7 +63,7 @@ export function usePlanVisit() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [api]);
 
   // Create plan visit
   const createPlanVisit = useCallback(async (data: CreatePlanVisitData): Promise<ApiResult<PlanVisit>> => {
@@ -152,13 +72,7 @@ export function usePlanVisit() {
     log('[PLAN_VISIT] createPlanVisit data', data);
 
     try {
-      const response: PlanVisitResponse = await apiRequest({
-        url: `${BASE_URL}/plan-visits`,
-        method: 'POST',
-        body: data,
-        logLabel: 'CREATE_PLANVISIT',
-        token
-      });
+      const response: PlanVisitResponse = await api.planVisits.create(data);
 
       // Refresh list after creation
       await fetchPlanVisits();
@@ -171,7 +85,31 @@ export function usePlanVisit() {
     } finally {
       setLoading(false);
     }
-  }, [token, fetchPlanVisits]);
+  }, [api, fetchPlanVisits]);
+
+  // Update plan visit (mis. pindah tanggal); list diperbarui di tempat tanpa fetch ulang
+  const updatePlanVisit = useCallback(async (id: string | number, data: UpdatePlanVisitData): Promise<ApiResult<PlanVisit>> => {
+    setLoading(true);
+    setError(null);
+    log('[PLAN_VISIT] updatePlanVisit', { id, data });
+
+    try {
+      const response: PlanVisitResponse = await api.planVisits.update(id, data);
+
+      setPlanVisits(prev => prev.map(item => (String(item.id) === String(id) ? { ...item, ...response.data } : item)));
+      if (planVisit && String(planVisit.id) === String(id)) {
+        setPlanVisit({ ...planVisit, ...response.data });
+      }
+      return { success: true, data: response.data, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to update plan visit';
+      setError(errorMessage);
+      log('[UPDATE_PLANVISIT] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api, planVisit]);
 
   // Delete plan visit
   const deletePlanVisit = useCallback(async (id: string | number): Promise<ApiResult<void>> => {
@@ -180,13 +118,7 @@ export function usePlanVisit() {
     log('[PLAN_VISIT] deletePlanVisit id', id);
 
     try {
-      await apiRequest({
-        url: `${BASE_URL}/plan-visits/${encodeURIComponent(id)}`,
-        method: 'DELETE',
-        body: null,
-        logLabel: 'DELETE_PLANVISIT',
-        token
-      });
+      await api.planVisits.remove(id);
 
       // Refresh list after deletion
       await fetchPlanVisits();
@@ -202,7 +134,7 @@ export function usePlanVisit() {
     } finally {
       setLoading(false);
     }
-  }, [token, fetchPlanVisits, planVisit]);
+  }, [api, fetchPlanVisits, planVisit]);
 
   return {
     // State
@@ -216,6 +148,7 @@ export function usePlanVisit() {
     fetchPlanVisits,
     fetchPlanVisit,
     createPlanVisit,
+    updatePlanVisit,
     deletePlanVisit,
   };
 }
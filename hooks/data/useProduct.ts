@@ -0,0 +1,50 @@
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult } from '@/types/common';
+import type { Product, ProductListResponse } from '@/types/product';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+export type { ProductUnit, Product, ProductListResponse } from '@/types/product';
+export type { ApiResult };
+
+/**
+ * Pencarian produk dilakukan di perangkat agar katalog tetap bisa dipakai offline.
+ */
+export function filterProducts(products: Product[], search: string): Product[] {
+  const keyword = search.trim().toLowerCase();
+  if (!keyword) return products;
+  return products.filter(product =>
+    product.name.toLowerCase().includes(keyword) ||
+    product.code.toLowerCase().includes(keyword) ||
+    (product.category ?? '').toLowerCase().includes(keyword)
+  );
+}
+
+export function useProduct() {
+  const api = useApiClient();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProducts = useCallback(async (): Promise<ApiResult<Product[]>> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response: ProductListResponse = await api.products.list();
+      // Produk tanpa satuan/harga tidak bisa diorder
+      const sellable = (response.data || []).filter(product => product.units?.length > 0);
+      setProducts(sellable);
+      return { success: true, data: sellable, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Gagal memuat katalog produk';
+      setError(errorMessage);
+      log('[FETCH_PRODUCTS] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  return { products, loading, error, fetchProducts };
+}
@@ -1,43 +1,16 @@
 import { useAuth } from '@/context/auth-context';
-import { BaseResponse, apiRequest, uploadFile } from '@/utils/api';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult } from '@/types/common';
+import type { UpdatePhotoPayload, UpdatePhotoResponse, UpdateProfilePayload, UpdateProfileResponse, User } from '@/types/profile';
 import { log } from '@/utils/logger';
 import { useCallback, useState } from 'react';
 
-const BASE_URL = process.env.EXPO_PUBLIC_BASE_URL;
-
-export interface UpdateProfilePayload {
-  name?: string;
-  email?: string;
-  phone?: string;
-}
-
-export interface UpdatePhotoPayload {
-  photo: string; // File URI
-}
-
-export interface User {
-  id: string;
-  name: string;
-  username: string;
-  email: string;
-  phone: string;
-  photo: string;
-  role: any;
-  userScopes: any[];
-}
-
-export interface UpdateProfileResponse extends BaseResponse<User> {}
-export interface UpdatePhotoResponse extends BaseResponse<User> {}
-
-export interface ApiResult<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  meta?: any;
-}
+export type { UpdateProfilePayload, UpdatePhotoPayload, User, UpdateProfileResponse, UpdatePhotoResponse } from '@/types/profile';
+export type { ApiResult };
 
 export function useProfile() {
-  const { token, refreshUser } = useAuth();
+  const { refreshUser } = useAuth();
+  const api = useApiClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -48,13 +21,7 @@ export function useProfile() {
     log('[UPDATE_PROFILE] payload', payload);
 
     try {
-      const response: UpdateProfileResponse = await apiRequest({
-        url: `${BASE_URL}/profile/update`,
-        method: 'POST',
-        body: payload,
-        logLabel: 'UPDATE_PROFILE',
-        token
-      });
+      const response: UpdateProfileResponse = await api.profile.update(payload);
 
       // Refresh user data after successful update
       await refreshUser();
@@ -68,7 +35,7 @@ export function useProfile() {
     } finally {
       setLoading(false);
     }
-  }, [token, refreshUser]);
+  }, [api, refreshUser]);
 
   // Update profile photo
   const updatePhoto = useCallback(async (payload: UpdatePhotoPayload): Promise<ApiResult<User>> => {
@@ -85,13 +52,7 @@ export function useProfile() {
         name: 'profile.jpg'
       } as any);
 
-      const response: UpdatePhotoResponse = await uploadFile({
-        url: `${BASE_URL}/profile/photo`,
-        method: 'POST',
-        formData,
-        logLabel: 'UPDATE_PHOTO',
-        token
-      });
+      const response: UpdatePhotoResponse = await api.profile.updatePhoto(formData);
 
       // Refresh user data after successful update
       await refreshUser();
@@ -105,7 +66,7 @@ export function useProfile() {
     } finally {
       setLoading(false);
     }
-  }, [token, refreshUser]);
+  }, [api, refreshUser]);
 
   return {
     // State
@@ -1,70 +1,16 @@
 import { useAuth } from '@/context/auth-context';
-import { BaseResponse, apiRequest } from '@/utils/api';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult } from '@/types/common';
+import type { BadanUsahaResponse, ClustersResponse, DivisionsResponse, OutletLevelFieldSection, OutletLevelFieldsResponse, ReferenceItem, RegionsResponse, Role, RolesResponse } from '@/types/reference';
 import { log } from '@/utils/logger';
 import { useCallback, useEffect, useState } from 'react';
 
-const BASE_URL = process.env.EXPO_PUBLIC_BASE_URL;
-
-export interface Role {
-  id: string | number;
-  name: string;
-  scope_required_fields: string[];
-  scope_multiple_fields: string[];
-}
-
-export interface ReferenceItem {
-  id: string | number;
-  name: string;
-}
-
-export interface ApiResult<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  meta?: any;
-}
-
-// Interface untuk ResponseFormatter format sesuai foundation.md
-export interface RolesResponse extends BaseResponse<Role[]> {}
-export interface BadanUsahaResponse extends BaseResponse<ReferenceItem[]> {}
-export interface DivisionsResponse extends BaseResponse<ReferenceItem[]> {}
-export interface RegionsResponse extends BaseResponse<ReferenceItem[]> {}
-export interface ClustersResponse extends BaseResponse<ReferenceItem[]> {}
-
-// Tambahkan interface untuk response outlet-level-fields
-export interface OutletLevelFieldSection {
-  id: string | number | null;
-  code: string;
-  name: string;
-  type: string;
-  description?: string | null;
-  sort_order: number;
-  settings: any;
-  custom_fields: OutletLevelCustomField[];
-}
-
-export interface OutletLevelCustomField {
-  id: string | number | null;
-  code: string;
-  name: string;
-  type: string;
-  width: string;
-  lookup_type: string | null;
-  sort_order: number;
-  validation_rules: any[];
-  settings: any;
-  options: any[];
-  required: boolean;
-  model_field: boolean;
-  custom_field_found: boolean | null;
-  custom_field_note: string | null;
-  source: string;
-}
-
-export interface OutletLevelFieldsResponse extends BaseResponse<OutletLevelFieldSection[]> {}
+export type { Role, ReferenceItem, RolesResponse, BadanUsahaResponse, DivisionsResponse, RegionsResponse, ClustersResponse, OutletLevelFieldSection, OutletLevelCustomField, OutletLevelFieldsResponse } from '@/types/reference';
+export type { ApiResult };
 
 export function useReference() {
   const { token } = useAuth();
+  const api = useApiClient();
   
   // State management
   const [roles, setRoles] = useState<Role[]>([]);
@@ -86,13 +32,7 @@ export function useReference() {
     setError(null);
 
     try {
-      const response: RolesResponse = await apiRequest({
-        url: `${BASE_URL}/references/role`,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_ROLES',
-        token
-      });
+      const response: RolesResponse = await api.references.roles();
       
       if (response.data && Array.isArray(response.data)) {
         setRoles(response.data);
@@ -112,7 +52,7 @@ export function useReference() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [token, api]);
 
   // Fetch badan usaha
   const fetchBadanUsaha = useCallback(async (): Promise<ApiResult<ReferenceItem[]>> => {
@@ -124,13 +64,7 @@ export function useReference() {
     setError(null);
 
     try {
-      const response: BadanUsahaResponse = await apiRequest({
-        url: `${BASE_URL}/references/badan-usaha`,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_BADAN_USAHA',
-        token
-      });
+      const response: BadanUsahaResponse = await api.references.badanUsaha();
       
       if (response.data && Array.isArray(response.data)) {
         setBadanUsaha(response.data);
@@ -150,7 +84,7 @@ export function useReference() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [token, api]);
 
   // Fetch divisions dengan parameter badan_usaha_id
   const fetchDivisions = useCallback(async (badanUsahaId?: string): Promise<ApiResult<ReferenceItem[]>> => {
@@ -162,17 +96,7 @@ export function useReference() {
     setError(null);
 
     try {
-      const url = badanUsahaId 
-        ? `${BASE_URL}/references/division?badan_usaha_id=${badanUsahaId}`
-        : `${BASE_URL}/references/division`;
-        
-      const response: DivisionsResponse = await apiRequest({
-        url,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_DIVISIONS',
-        token
-      });
+      const response: DivisionsResponse = await api.references.divisions(badanUsahaId);
       
       if (response.data && Array.isArray(response.data)) {
         setDivisions(response.data);
@@ -192,7 +116,7 @@ export function useReference() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [token, api]);
 
   // Fetch regions dengan parameter division_id
   const fetchRegions = useCallback(async (divisionId?: string): Promise<ApiResult<ReferenceItem[]>> => {
@@ -204,17 +128,7 @@ export function useReference() {
     setError(null);
 
     try {
-      const url = divisionId 
-        ? `${BASE_URL}/references/region?division_id=${divisionId}`
-        : `${BASE_URL}/references/region`;
-        
-      const response: RegionsResponse = await apiRequest({
-        url,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_REGIONS',
-        token
-      });
+      const response: RegionsResponse = await api.references.regions(divisionId);
       
       if (response.data && Array.isArray(response.data)) {
         setRegions(response.data);
@@ -234,7 +148,7 @@ export function useReference() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [token, api]);
 
   // Fetch clusters dengan parameter region_id
   const fetchClusters = useCallback(async (regionId?: string): Promise<ApiResult<ReferenceItem[]>> => {
@@ -246,17 +160,7 @@ export function useReference() {
     setError(null);
 
     try {
-      const url = regionId 
-        ? `${BASE_URL}/references/cluster?region_id=${regionId}`
-        : `${BASE_URL}/references/cluster`;
-        
-      const response: ClustersResponse = await apiRequest({
-        url,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_CLUSTERS',
-        token
-      });
+      const response: ClustersResponse = await api.references.clusters(regionId);
       
       if (response.data && Array.isArray(response.data)) {
         setClusters(response.data);
@@ -276,7 +180,7 @@ export function useReference() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [token, api]);
 
   // Handle role change
   const onRoleChange = useCallback((roleId: number) => {
@@ -319,6 +223,7 @@ export function useReference() {
 // Custom hook untuk fetch outlet-level-fields
 export function useOutletLevelFields(level: 'LEAD' | 'NOO') {
   const { token } = useAuth();
+  const api = useApiClient();
   const [data, setData] = useState<OutletLevelFieldSection[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -332,13 +237,7 @@ export function useOutletLevelFields(level: 'LEAD' | 'NOO') {
     setLoading(true);
     setError(null);
     try {
-      const response: OutletLevelFieldsResponse = await apiRequest({
-        url: `${BASE_URL}/references/outlet-level-fields?level=${level}&include_custom_fields=true`,
-        method: 'GET',
-        body: null,
-        logLabel: 'FETCH_OUTLET_LEVEL_FIELDS',
-        token
-      });
+      const response: OutletLevelFieldsResponse = await api.references.outletLevelFields(level);
       if (response.data && Array.isArray(response.data)) {
         setData(response.data);
       } else {
@@ -351,7 +250,7 @@ export function useOutletLevelFields(level: 'LEAD' | 'NOO') {
     } finally {
       setLoading(false);
     }
-  }, [token, level]);
+  }, [token, api, level]);
 
   useEffect(() => {
     fetchFields();
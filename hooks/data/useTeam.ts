@@ -0,0 +1,78 @@
+import { isUserActive, ManagedUser } from '@/hooks/data/useUsers';
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import { isUserInScope, RepActivity, scopeUserFilter, sortTeamActivity, summarizeRepDay } from '@/services/team-activity';
+import type { ApiResult, UserScope } from '@/types/common';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+const USER_PAGE_SIZE = 100;
+const DAY_PAGE_SIZE = 100;
+// Jumlah rep yang datanya diambil bersamaan
+const MEMBER_BATCH_SIZE = 5;
+
+/**
+ * Aktivitas harian rep dalam scope supervisor: daftar user diambil dengan filter
+ * region/cluster per scope, lalu visit dan plan visit tiap rep diambil dengan filter user.
+ */
+export function useTeam() {
+  const api = useApiClient();
+  const [activity, setActivity] = useState<RepActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async (scopes: UserScope[], selfId: string | number | undefined): Promise<ManagedUser[]> => {
+    const users = new Map<string, ManagedUser>();
+    for (const scope of scopes) {
+      let page = 1;
+      let lastPage = 1;
+      do {
+        const response = await api.users.list({ page, per_page: USER_PAGE_SIZE, ...scopeUserFilter(scope) });
+        if (Array.isArray(response.data)) response.data.forEach(user => users.set(String(user.id), user));
+        lastPage = response.meta?.last_page ?? 1;
+        page++;
+      } while (page <= lastPage);
+    }
+
+    // Tetap dicek di perangkat jika backend mengabaikan sebagian filter
+    return [...users.values()].filter(user => isUserActive(user) && String(user.id) !== String(selfId) && isUserInScope(user, scopes));
+  }, [api]);
+
+  const fetchTeam = useCallback(async (
+    scopes: UserScope[],
+    selfId: string | number | undefined,
+    date: string
+  ): Promise<ApiResult<RepActivity[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[TEAM] fetchTeam', { scopes: scopes.length, date });
+
+    try {
+      const members = await fetchMembers(scopes, selfId);
+      const results: RepActivity[] = [];
+
+      for (let i = 0; i < members.length; i += MEMBER_BATCH_SIZE) {
+        const batch = members.slice(i, i + MEMBER_BATCH_SIZE);
+        const days = await Promise.all(batch.map(member => Promise.all([
+          api.visits.list({ 'filters[date]': date, 'filters[user_id]': member.id, per_page: DAY_PAGE_SIZE }),
+          api.planVisits.list({ date, user_id: member.id, per_page: DAY_PAGE_SIZE }),
+        ])));
+        days.forEach(([visits, plans], index) => {
+          results.push(summarizeRepDay(batch[index], visits.data ?? [], plans.data ?? []));
+        });
+      }
+
+      const sorted = sortTeamActivity(results);
+      setActivity(sorted);
+      return { success: true, data: sorted };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch team activity';
+      setError(errorMessage);
+      log('[TEAM] fetchTeam error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api, fetchMembers]);
+
+  return { activity, loading, error, fetchTeam };
+}
@@ -0,0 +1,151 @@
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import type { ApiResult } from '@/types/common';
+import type { ManagedUser, UpdateUserPayload, UserListParams, UserListResponse, UserResponse } from '@/types/user';
+import { log } from '@/utils/logger';
+import { useCallback, useState } from 'react';
+
+export type { ManagedUser, UpdateUserPayload, UserListParams, UserListResponse, UserResponse } from '@/types/user';
+export type { ApiResult };
+
+export const getUserRoleName = (user: Pick<ManagedUser, 'role' | 'role_id'>) => {
+  if (typeof user.role === 'string') return user.role;
+  if (user.role?.name) return user.role.name;
+  return user.role_id ? `Role ID: ${user.role_id}` : '-';
+};
+
+// User dianggap aktif kecuali backend eksplisit mengirim is_active = false
+export const isUserActive = (user: Pick<ManagedUser, 'is_active'>) => user.is_active !== false;
+
+export function useUsers() {
+  const api = useApiClient();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [user, setUser] = useState<ManagedUser | null>(null);
+  const [meta, setMeta] = useState<any>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sinkronkan perubahan satu user ke list dan detail
+  const replaceUser = useCallback((updated: ManagedUser) => {
+    setUsers(prev => prev.map(u => (String(u.id) === String(updated.id) ? { ...u, ...updated } : u)));
+    setUser(prev => (prev && String(prev.id) === String(updated.id) ? { ...prev, ...updated } : prev));
+  }, []);
+
+  // Fetch list user dengan pencarian dan pagination
+  const fetchUsers = useCallback(async (params: UserListParams = {}): Promise<ApiResult<ManagedUser[]>> => {
+    setLoading(true);
+    setError(null);
+    log('[FETCH_USERS] params', params);
+
+    try {
+      const page = params.page || 1;
+      const response: UserListResponse = await api.users.list(params);
+
+      if (Array.isArray(response.data)) {
+        setUsers(prev => (page > 1 ? [...prev, ...response.data] : response.data));
+        setMeta(response.meta);
+        return { success: true, data: response.data, meta: response.meta };
+      } else {
+        setError('Invalid data format in response');
+        return { success: false, error: 'Invalid data format in response' };
+      }
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch users';
+      setError(errorMessage);
+      log('[FETCH_USERS] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Fetch detail satu user
+  const fetchUser = useCallback(async (userId: string | number): Promise<ApiResult<ManagedUser>> => {
+    setLoading(true);
+    setError(null);
+    log('[FETCH_USER] userId', userId);
+
+    try {
+      const response: UserResponse = await api.users.get(userId);
+
+      setUser(response.data);
+      return { success: true, data: response.data, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to fetch user';
+      setError(errorMessage);
+      log('[FETCH_USER] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Update data dan scope user (payload sama dengan tambah user)
+  const updateUser = useCallback(async (userId: string | number, payload: UpdateUserPayload): Promise<ApiResult<ManagedUser>> => {
+    setLoading(true);
+    setError(null);
+    log('[UPDATE_USER] userId', userId, payload);
+
+    try {
+      const response: UserResponse = await api.users.update(userId, payload);
+
+      if (response.data) replaceUser(response.data);
+      return { success: true, data: response.data, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to update user';
+      setError(errorMessage);
+      log('[UPDATE_USER] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [api, replaceUser]);
+
+  // Aktifkan / nonaktifkan user tanpa menghapus datanya
+  const setUserActive = useCallback(async (userId: string | number, active: boolean): Promise<ApiResult<ManagedUser>> => {
+    log('[SET_USER_ACTIVE]', { userId, active });
+
+    try {
+      const response: UserResponse = await api.users.setActive(userId, active);
+
+      replaceUser({ ...(response.data || {}), id: userId, is_active: active } as ManagedUser);
+      return { success: true, data: response.data, meta: response.meta };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to update user status';
+      log('[SET_USER_ACTIVE] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [api, replaceUser]);
+
+  // Hapus user permanen
+  const deleteUser = useCallback(async (userId: string | number): Promise<ApiResult<null>> => {
+    log('[DELETE_USER] userId', userId);
+
+    try {
+      await api.users.remove(userId);
+
+      setUsers(prev => prev.filter(u => String(u.id) !== String(userId)));
+      setUser(prev => (prev && String(prev.id) === String(userId) ? null : prev));
+      return { success: true, data: null };
+    } catch (e: any) {
+      const errorMessage = e.message || 'Failed to delete user';
+      log('[DELETE_USER] error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [api]);
+
+  return {
+    // State
+    users,
+    user,
+    meta,
+    loading,
+    error,
+
+    // Operations
+    fetchUsers,
+    fetchUser,
+    updateUser,
+    setUserActive,
+    deleteUser,
+  };
+}
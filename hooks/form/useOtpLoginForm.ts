@@ -25,6 +25,14 @@ export function useOtpLoginForm() {
 
   // Parse error response sesuai StandardResponse format untuk OTP request - memoized
   const parseOtpError = useCallback((err: any): string => {
+    // 429 dari apiRequest: tampilkan waktu tunggu sesuai header Retry-After
+    if (err?.httpStatus === 429) {
+      const seconds = err.retryAfter ? Math.ceil(err.retryAfter / 1000) : null;
+      return seconds
+        ? `Terlalu banyak permintaan OTP. Silakan coba lagi dalam ${seconds} detik.`
+        : 'Terlalu banyak permintaan OTP. Silakan tunggu beberapa saat.';
+    }
+
     // Check for StandardResponse format (response.data.meta)
     if (err?.response?.data?.meta) {
       const meta = err.response.data.meta;
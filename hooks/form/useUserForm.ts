@@ -0,0 +1,216 @@
+import type { NewUserPayload } from '@/hooks/data/useAddUser';
+import { useReference } from '@/hooks/data/useReference';
+import type { ManagedUser } from '@/hooks/data/useUsers';
+import { useCallback, useMemo, useState } from 'react';
+
+export interface UserFormData {
+  name: string;
+  username: string;
+  phone: string;
+  role: string;
+  badanusaha: string | string[]; // Support multiple for badan_usaha
+  divisi: string | string[]; // Support multiple for divisi
+  region: string | string[]; // Support multiple for region
+  cluster: string | string[]; // Support multiple for cluster
+}
+
+export type UserFormField = keyof UserFormData;
+
+const EMPTY_USER_FORM: UserFormData = {
+  name: '',
+  username: '',
+  phone: '',
+  role: '',
+  badanusaha: '',
+  divisi: '',
+  region: '',
+  cluster: '',
+};
+
+// For API call, use first value if array
+const firstValue = (value: string | string[]) => (Array.isArray(value) ? value[0] : value);
+
+// Convert all potentially multiple fields to strings for API submission
+const joinValue = (value: string | string[]) => (Array.isArray(value) ? value.join(',') : value);
+
+// Scope dari backend bisa berupa id tunggal, array, atau string dipisah koma
+const toScopeFormValue = (value: unknown): string | string[] => {
+  if (value === null || value === undefined || value === '') return '';
+  const values = Array.isArray(value) ? value.map(String) : String(value).split(',').map(v => v.trim()).filter(Boolean);
+  return values.length > 1 ? values : values[0] || '';
+};
+
+export function userToFormData(user: ManagedUser): UserFormData {
+  const roleId = user.role_id ?? (typeof user.role === 'object' ? user.role?.id : undefined);
+  return {
+    name: user.name || '',
+    username: user.username || '',
+    phone: user.phone || '',
+    role: roleId !== undefined && roleId !== null ? String(roleId) : '',
+    badanusaha: toScopeFormValue(user.badan_usaha_id),
+    divisi: toScopeFormValue(user.division_id),
+    region: toScopeFormValue(user.region_id),
+    cluster: toScopeFormValue(user.cluster_id),
+  };
+}
+
+export function toUserPayload(formData: UserFormData): NewUserPayload {
+  return {
+    name: formData.name,
+    username: formData.username,
+    phone: formData.phone,
+    role: formData.role,
+    badanusaha: joinValue(formData.badanusaha),
+    divisi: joinValue(formData.divisi),
+    region: joinValue(formData.region),
+    cluster: joinValue(formData.cluster),
+  };
+}
+
+export function useUserForm() {
+  const [formData, setFormData] = useState<UserFormData>(EMPTY_USER_FORM);
+
+  const updateField = useCallback((field: UserFormField, value: string | string[]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const resetDependentFields = useCallback((fields: UserFormField[]) => {
+    setFormData(prev => {
+      const updated = { ...prev };
+      fields.forEach(field => {
+        updated[field] = ''; // Reset all dependent fields to empty string
+      });
+      return updated;
+    });
+  }, []);
+
+  const resetForm = useCallback(() => {
+    setFormData(EMPTY_USER_FORM);
+  }, []);
+
+  const isFormValid = useMemo(() => {
+    return formData.name.trim() !== '' &&
+           formData.username.trim() !== '' &&
+           formData.phone.trim() !== '' &&
+           formData.role.trim() !== '';
+  }, [formData.name, formData.username, formData.phone, formData.role]);
+
+  return {
+    formData,
+    setFormData,
+    updateField,
+    resetDependentFields,
+    resetForm,
+    isFormValid,
+  };
+}
+
+/**
+ * Cascading scope picker: role → badan usaha → divisi → region → cluster.
+ * Field yang tampil dan yang boleh multiple mengikuti scope role terpilih.
+ */
+export function useUserScopeFields(
+  formData: UserFormData,
+  updateField: (field: UserFormField, value: string | string[]) => void,
+  resetDependentFields: (fields: UserFormField[]) => void
+) {
+  const {
+    roles,
+    badanUsaha,
+    divisions,
+    regions,
+    clusters,
+    fetchDivisions,
+    fetchRegions,
+    fetchClusters,
+  } = useReference();
+
+  // Get current selected role data
+  const selectedRole = useMemo(() => {
+    return roles.find(r => String(r.id) === formData.role);
+  }, [roles, formData.role]);
+
+  // Derived from the selected role so a prefilled form shows its scope once roles load
+  const roleScope = useMemo(() => ({
+    required: selectedRole?.scope_required_fields || [],
+    multiple: selectedRole?.scope_multiple_fields || [],
+  }), [selectedRole]);
+
+  // Check which fields support multiple selection based on API response
+  const getIsMultipleField = useCallback((fieldName: string) => {
+    return roleScope.multiple.includes(fieldName);
+  }, [roleScope]);
+
+  const handleRoleChange = useCallback((value: string | string[]) => {
+    // Role is always single selection
+    updateField('role', typeof value === 'string' ? value : value[0] || '');
+    resetDependentFields(['badanusaha', 'divisi', 'region', 'cluster']);
+  }, [updateField, resetDependentFields]);
+
+  const handleBadanUsahaChange = useCallback((value: string | string[]) => {
+    updateField('badanusaha', value);
+    resetDependentFields(['divisi', 'region', 'cluster']);
+    const apiValue = firstValue(value);
+    if (apiValue) {
+      fetchDivisions(apiValue);
+    }
+  }, [updateField, resetDependentFields, fetchDivisions]);
+
+  const handleDivisiChange = useCallback((value: string | string[]) => {
+    updateField('divisi', value);
+    resetDependentFields(['region', 'cluster']);
+    const apiValue = firstValue(value);
+    if (apiValue) {
+      fetchRegions(apiValue);
+    }
+  }, [updateField, resetDependentFields, fetchRegions]);
+
+  const handleRegionChange = useCallback((value: string | string[]) => {
+    updateField('region', value);
+    resetDependentFields(['cluster']);
+    const apiValue = firstValue(value);
+    if (apiValue) {
+      fetchClusters(apiValue);
+    }
+  }, [updateField, resetDependentFields, fetchClusters]);
+
+  const handleClusterChange = useCallback((value: string | string[]) => {
+    updateField('cluster', value);
+  }, [updateField]);
+
+  // Load the dependent option lists for an existing user without resetting their scope
+  const loadScopeOptions = useCallback(async (values: UserFormData) => {
+    const badanUsahaId = firstValue(values.badanusaha);
+    const divisionId = firstValue(values.divisi);
+    const regionId = firstValue(values.region);
+    if (badanUsahaId) await fetchDivisions(badanUsahaId);
+    if (divisionId) await fetchRegions(divisionId);
+    if (regionId) await fetchClusters(regionId);
+  }, [fetchDivisions, fetchRegions, fetchClusters]);
+
+  // Transform data to options
+  const roleOptions = useMemo(() => roles.map((r) => ({ label: r.name, value: String(r.id) })), [roles]);
+  const badanUsahaOptions = useMemo(() => badanUsaha.map((item) => ({ label: item.name, value: String(item.id) })), [badanUsaha]);
+  const divisionOptions = useMemo(() => divisions.map((item) => ({ label: item.name, value: String(item.id) })), [divisions]);
+  const regionOptions = useMemo(() => regions.map((item) => ({ label: item.name, value: String(item.id) })), [regions]);
+  const clusterOptions = useMemo(() => clusters.map((item) => ({ label: item.name, value: String(item.id) })), [clusters]);
+
+  return {
+    roleScope,
+    selectedRole,
+    roleOptions,
+    badanUsahaOptions,
+    divisionOptions,
+    regionOptions,
+    clusterOptions,
+    getIsMultipleField,
+    handleRoleChange,
+    handleBadanUsahaChange,
+    handleDivisiChange,
+    handleRegionChange,
+    handleClusterChange,
+    loadScopeOptions,
+  };
+}
+
+export type UserScopeFieldsState = ReturnType<typeof useUserScopeFields>;
@@ -0,0 +1,12 @@
+import { useAuth } from '@/context/auth-context';
+import { createApiClient } from '@/services/api-client';
+import { useMemo } from 'react';
+
+/**
+ * Typed API client yang sudah terikat dengan token user yang login.
+ * Instance baru hanya dibuat ketika token berubah, aman dipakai sebagai dependency useCallback.
+ */
+export function useApiClient() {
+  const { token } = useAuth();
+  return useMemo(() => createApiClient(token), [token]);
+}
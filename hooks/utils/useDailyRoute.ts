@@ -0,0 +1,81 @@
+import {
+  applyRouteOrder,
+  createDailyRoute,
+  DailyRoute,
+  getDailyRoute,
+  moveRouteStop,
+  optimizeStopOrder,
+  saveDailyRoute,
+} from '@/services/daily-route';
+import type { LatLng } from '@/utils/geo';
+import { log } from '@/utils/logger';
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useMemo, useState } from 'react';
+
+export interface RouteItem {
+  id: string | number;
+  outlet?: { location?: string | null } | null;
+}
+
+const getId = (item: RouteItem) => item.id;
+const getLocation = (item: RouteItem) => item.outlet?.location;
+
+/**
+ * Urutan kunjungan plan visit hari ini yang disimpan di perangkat.
+ * `ordered` = `items` diurutkan sesuai rute (plan baru di akhir).
+ */
+export function useDailyRoute<T extends RouteItem>(date: string, items: T[]) {
+  const [route, setRoute] = useState<DailyRoute | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      getDailyRoute(date).then(saved => {
+        if (!active) return;
+        setRoute(saved);
+        setLoaded(true);
+      });
+      return () => {
+        active = false;
+      };
+    }, [date])
+  );
+
+  const ordered = useMemo(() => applyRouteOrder(items, route?.order, getId), [items, route]);
+
+  const persist = useCallback(async (next: DailyRoute) => {
+    setRoute(next);
+    try {
+      await saveDailyRoute(next);
+    } catch (error) {
+      log('[DAILY_ROUTE] Failed to save route:', error);
+    }
+  }, []);
+
+  // Rute terkunci tidak dioptimasi ulang
+  const optimize = useCallback(async (origin: LatLng | null) => {
+    if (route?.locked) return;
+    await persist(createDailyRoute(date, optimizeStopOrder(items, origin, getId, getLocation)));
+  }, [date, items, route?.locked, persist]);
+
+  const move = useCallback(async (id: string | number, direction: -1 | 1) => {
+    if (route?.locked) return;
+    const order = moveRouteStop(ordered.map(item => String(item.id)), id, direction);
+    await persist(createDailyRoute(date, order));
+  }, [date, ordered, route?.locked, persist]);
+
+  const setLocked = useCallback(async (locked: boolean) => {
+    await persist(createDailyRoute(date, ordered.map(item => item.id), locked));
+  }, [date, ordered, persist]);
+
+  return {
+    route,
+    loaded,
+    ordered,
+    locked: route?.locked ?? false,
+    optimize,
+    move,
+    setLocked,
+  };
+}
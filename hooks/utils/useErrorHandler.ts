@@ -1,3 +1,4 @@
+import { isPermissionError } from '@/utils/error-handler';
 import { log } from '@/utils/logger';
 import { useCallback, useState } from 'react';
 
@@ -147,6 +148,11 @@ export function useErrorHandler() {
    */
   const formatErrorForUI = useCallback((err: any): string => {
     const parsedError = parseErrorResponse(err);
+
+    // 403 dari HTTP status maupun meta.code: user tetap login, hanya aksi ini yang ditolak
+    if (isPermissionError(err) || parsedError.code === 403) {
+      return 'Anda tidak memiliki akses untuk melakukan tindakan ini.';
+    }
     
     // Handle berdasarkan HTTP status code dari meta.code
     switch (parsedError.code) {
@@ -155,8 +161,6 @@ export function useErrorHandler() {
         return parsedError.message;
       case 401:
         return 'Sesi Anda telah berakhir. Silakan login kembali.';
-      case 403:
-        return 'Anda tidak memiliki akses untuk melakukan tindakan ini.';
       case 404:
         return 'Data yang dicari tidak ditemukan.';
       case 422:
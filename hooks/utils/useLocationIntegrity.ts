@@ -0,0 +1,60 @@
+import { useCallback } from 'react';
+
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import {
+  DEFAULT_INTEGRITY_POLICY,
+  evaluateLocationIntegrity,
+  getLastLocationFix,
+  LocationFix,
+  LocationIntegrityPolicy,
+  LocationIntegrityVerdict,
+  normalizeIntegrityPolicy,
+  ReferenceFix,
+  saveLastLocationFix,
+  visitReferenceFix,
+} from '@/services/location-integrity';
+import { log } from '@/utils/logger';
+
+/**
+ * Pemeriksaan integritas lokasi (mock location / GPS palsu) sebelum check-in & check-out.
+ * Kebijakan diambil dari backend; jika gagal dipakai DEFAULT_INTEGRITY_POLICY.
+ */
+export function useLocationIntegrity() {
+  const api = useApiClient();
+
+  const fetchPolicy = useCallback(async (): Promise<LocationIntegrityPolicy> => {
+    try {
+      const json = await api.references.locationIntegrityPolicy();
+      return normalizeIntegrityPolicy(json.data);
+    } catch (error) {
+      log('[LOCATION_INTEGRITY] Policy unavailable, using default:', error);
+      return DEFAULT_INTEGRITY_POLICY;
+    }
+  }, [api]);
+
+  // Posisi terakhir dari kunjungan terbaru user (untuk check-in)
+  const fetchPreviousVisitFix = useCallback(async (): Promise<ReferenceFix | null> => {
+    try {
+      const json = await api.visits.list({ per_page: 1 });
+      return visitReferenceFix(json.data?.[0]);
+    } catch (error) {
+      log('[LOCATION_INTEGRITY] Previous visit unavailable:', error);
+      return null;
+    }
+  }, [api]);
+
+  /**
+   * Evaluasi `fix` terhadap fix terakhir di perangkat dan `previousVisit`, lalu simpan
+   * `fix` sebagai fix terakhir.
+   */
+  const checkLocation = useCallback(async (fix: LocationFix, previousVisit: ReferenceFix | null = null): Promise<LocationIntegrityVerdict> => {
+    const [policy, previousFix] = await Promise.all([fetchPolicy(), getLastLocationFix()]);
+    const verdict = evaluateLocationIntegrity(fix, { previousFix, previousVisit }, policy);
+    log('[LOCATION_INTEGRITY] verdict', verdict);
+
+    await saveLastLocationFix(fix).catch(error => log('[LOCATION_INTEGRITY] Failed to save fix:', error));
+    return verdict;
+  }, [fetchPolicy]);
+
+  return { checkLocation, fetchPreviousVisitFix };
+}
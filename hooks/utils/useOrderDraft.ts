@@ -0,0 +1,79 @@
+import type { Product, ProductUnit } from '@/hooks/data/useProduct';
+import {
+  addOrderLine,
+  calculateOrderTotals,
+  clearOrderDraft,
+  createOrderDraft,
+  getOrderDraft,
+  OrderDraft,
+  OrderLine,
+  saveOrderDraft,
+} from '@/services/sales-order';
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useMemo, useState } from 'react';
+
+/**
+ * Draft order untuk satu kunjungan. Dimuat ulang setiap layar difokuskan
+ * agar perubahan dari layar order langsung terlihat di check-out.
+ */
+export function useOrderDraft(visitId: string | null) {
+  const [draft, setDraft] = useState<OrderDraft | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!visitId) return;
+      let active = true;
+      getOrderDraft(visitId).then(saved => {
+        if (!active) return;
+        setDraft(saved ?? createOrderDraft(visitId));
+        setDirty(false);
+      });
+      return () => {
+        active = false;
+      };
+    }, [visitId])
+  );
+
+  const updateLines = useCallback((update: (lines: OrderLine[]) => OrderLine[]) => {
+    setDraft(prev => prev ? { ...prev, lines: update(prev.lines) } : prev);
+    setDirty(true);
+  }, []);
+
+  const addProduct = useCallback((product: Product, unit?: ProductUnit) => {
+    updateLines(lines => addOrderLine(lines, product, unit));
+  }, [updateLines]);
+
+  const updateLine = useCallback((index: number, changes: Partial<Pick<OrderLine, 'quantity' | 'discount' | 'unit' | 'price'>>) => {
+    updateLines(lines => lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  }, [updateLines]);
+
+  const removeLine = useCallback((index: number) => {
+    updateLines(lines => lines.filter((_, i) => i !== index));
+  }, [updateLines]);
+
+  const setNotes = useCallback((notes: string) => {
+    setDraft(prev => prev ? { ...prev, notes } : prev);
+    setDirty(true);
+  }, []);
+
+  const save = useCallback(async () => {
+    if (!draft) return null;
+    // Baris dengan quantity 0 tidak ikut disimpan
+    const saved = await saveOrderDraft({ ...draft, lines: draft.lines.filter(line => line.quantity > 0) });
+    setDraft(saved);
+    setDirty(false);
+    return saved;
+  }, [draft]);
+
+  const clear = useCallback(async () => {
+    if (!visitId) return;
+    await clearOrderDraft(visitId);
+    setDraft(createOrderDraft(visitId));
+    setDirty(false);
+  }, [visitId]);
+
+  const totals = useMemo(() => calculateOrderTotals(draft?.lines ?? []), [draft]);
+
+  return { draft, totals, dirty, addProduct, updateLine, removeLine, setNotes, save, clear };
+}
@@ -0,0 +1,63 @@
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import {
+  applyServerVerification,
+  getDeviceId,
+  getPhotoSigningKey,
+  PhotoManifestInput,
+  PhotoSigningKey,
+  PhotoVerification,
+  PhotoVerificationExpectation,
+  savePhotoSigningKey,
+  signPhotoFile,
+  SignedPhotoManifest,
+  verifyPhotoFile,
+} from '@/services/photo-manifest';
+import { log } from '@/utils/logger';
+import { useCallback } from 'react';
+
+/**
+ * Tanda tangan & verifikasi manifest foto. Kunci perangkat diminta sekali ke backend;
+ * jika gagal (offline), foto tetap dikirim dengan manifest tanpa tanda tangan.
+ */
+export function usePhotoManifest() {
+  const api = useApiClient();
+
+  const ensureKey = useCallback(async (): Promise<PhotoSigningKey | null> => {
+    const saved = await getPhotoSigningKey();
+    if (saved) return saved;
+    try {
+      const json = await api.photoManifests.signingKey(await getDeviceId());
+      if (!json.data?.key_id || !json.data?.secret) return null;
+      await savePhotoSigningKey(json.data);
+      return json.data;
+    } catch (e: any) {
+      log('[PHOTO_MANIFEST] Failed to fetch signing key:', e?.message || e);
+      return null;
+    }
+  }, [api]);
+
+  // Null jika file tidak bisa ditandatangani; pemanggil tetap memakai foto asli
+  const sign = useCallback(async (uri: string, input: PhotoManifestInput): Promise<{ uri: string; signed: SignedPhotoManifest } | null> => {
+    try {
+      return await signPhotoFile(uri, input, await ensureKey());
+    } catch (e: any) {
+      log('[PHOTO_MANIFEST] Failed to sign photo:', e?.message || e);
+      return null;
+    }
+  }, [ensureKey]);
+
+  const verify = useCallback(async (uri: string, expected: PhotoVerificationExpectation = {}): Promise<PhotoVerification> => {
+    const local = await verifyPhotoFile(uri, await getPhotoSigningKey(), expected);
+    if (!local.manifest || local.status === 'EDITED') return local;
+    try {
+      const json = await api.photoManifests.verify({ manifest: local.manifest, signature: local.signature });
+      return json.data ? applyServerVerification(local, json.data, expected) : local;
+    } catch (e: any) {
+      // Offline: pakai hasil lokal saja
+      log('[PHOTO_MANIFEST] Server verification failed:', e?.message || e);
+      return local;
+    }
+  }, [api]);
+
+  return { ensureKey, sign, verify };
+}
@@ -0,0 +1,40 @@
+import {
+  deletePlanTemplate,
+  getPlanTemplates,
+  PlanTemplate,
+  savePlanTemplate,
+} from '@/services/plan-schedule';
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+
+/**
+ * Template plan visit berulang yang disimpan di perangkat.
+ */
+export function usePlanTemplates() {
+  const [templates, setTemplates] = useState<PlanTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      getPlanTemplates().then(saved => {
+        if (!active) return;
+        setTemplates(saved);
+        setLoading(false);
+      });
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
+  const save = useCallback(async (template: PlanTemplate) => {
+    setTemplates(await savePlanTemplate(template));
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    setTemplates(await deletePlanTemplate(id));
+  }, []);
+
+  return { templates, loading, save, remove };
+}
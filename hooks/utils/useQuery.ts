@@ -0,0 +1,84 @@
+import {
+  fetchQuery,
+  hydrateQueryCache,
+  isQueryStale,
+  peekQuery,
+  QUERY_TTL,
+  subscribeQuery,
+} from '@/services/query-cache';
+import { log } from '@/utils/logger';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface UseQueryOptions {
+  ttl?: number;
+  // false = jangan fetch (mis. parameter belum siap)
+  enabled?: boolean;
+}
+
+/**
+ * Stale-while-revalidate untuk satu query key (lihat services/query-cache).
+ * Data terakhir (termasuk hasil persist dari sesi sebelumnya) langsung ditampilkan,
+ * lalu di-refresh di background jika sudah stale atau di-invalidate oleh mutasi.
+ *
+ * Fetcher harus memanggil endpoint tanpa opsi `cache` agar tidak di-cache dua kali.
+ */
+export function useQuery<T>(key: string, fetcher: () => Promise<T>, options: UseQueryOptions = {}) {
+  const { ttl = QUERY_TTL.DEFAULT, enabled = true } = options;
+  const [data, setData] = useState<T | undefined>(() => peekQuery<T>(key)?.data);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  // Revalidate: tanpa force hanya request ke server jika entry sudah stale
+  const revalidate = useCallback(async (force: boolean = false): Promise<T | undefined> => {
+    if (!enabled) return undefined;
+    setLoading(true);
+    setError(null);
+
+    try {
+      return await fetchQuery(key, () => fetcherRef.current(), { ttl, force });
+    } catch (e: any) {
+      const errorMessage = e?.message || 'Failed to fetch data';
+      setError(errorMessage);
+      log('[USE_QUERY] error:', key, errorMessage);
+      return undefined;
+    } finally {
+      setLoading(false);
+    }
+  }, [key, ttl, enabled]);
+
+  useEffect(() => {
+    let active = true;
+    setData(peekQuery<T>(key)?.data);
+
+    const unsubscribe = subscribeQuery(key, entry => {
+      if (!active) return;
+      setData(entry?.data as T | undefined);
+      // Entry di-invalidate oleh mutasi: ambil ulang di background
+      if (entry && isQueryStale(entry)) revalidate();
+    });
+
+    hydrateQueryCache().then(() => {
+      if (!active) return;
+      setData(peekQuery<T>(key)?.data);
+      revalidate();
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [key, revalidate]);
+
+  return {
+    // State
+    data,
+    loading,
+    error,
+
+    // Operations
+    revalidate,
+  };
+}
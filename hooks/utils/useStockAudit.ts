@@ -0,0 +1,117 @@
+import { useApiClient } from '@/hooks/utils/useApiClient';
+import {
+  clearStockAuditDraft,
+  countStockAuditProgress,
+  createStockAuditDraft,
+  getStockAuditDraft,
+  isStockAuditStarted,
+  persistShelfPhoto,
+  saveStockAuditDraft,
+  setStockAuditValue,
+  StockAuditDraft,
+  StockAuditItem,
+  StockAuditValue,
+} from '@/services/stock-audit';
+import { log } from '@/utils/logger';
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+export interface StockAuditScope {
+  division_id?: string | number;
+  cluster_id?: string | number;
+}
+
+/**
+ * Checklist audit rak untuk outlet + draft isian kunjungan ini (disimpan di perangkat).
+ */
+export function useStockAudit(visitId: string | null, scope: StockAuditScope | null) {
+  const api = useApiClient();
+  const [items, setItems] = useState<StockAuditItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<StockAuditDraft | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  const divisionId = scope?.division_id;
+  const clusterId = scope?.cluster_id;
+  const ready = !!scope;
+
+  useEffect(() => {
+    if (!ready) return;
+    let active = true;
+    setLoading(true);
+    setError(null);
+    api.references.stockAuditChecklist({ division_id: divisionId, cluster_id: clusterId })
+      .then(json => {
+        if (active) setItems(Array.isArray(json.data) ? json.data : []);
+      })
+      .catch((e: any) => {
+        if (!active) return;
+        const errorMessage = e.message || 'Gagal memuat checklist audit';
+        setError(errorMessage);
+        log('[FETCH_STOCK_AUDIT_CHECKLIST] error:', errorMessage);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [api, ready, divisionId, clusterId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!visitId) return;
+      let active = true;
+      getStockAuditDraft(visitId).then(saved => {
+        if (!active) return;
+        setDraft(saved ?? createStockAuditDraft(visitId));
+        setDirty(false);
+      });
+      return () => {
+        active = false;
+      };
+    }, [visitId])
+  );
+
+  const setValue = useCallback((itemId: string | number, key: string, value: StockAuditValue) => {
+    setDraft(prev => prev ? setStockAuditValue(prev, itemId, key, value) : prev);
+    setDirty(true);
+  }, []);
+
+  const setShelfPhoto = useCallback(async (shelf: string, uri: string | null) => {
+    if (!visitId) return;
+    const stored = uri ? await persistShelfPhoto(visitId, shelf, uri) : null;
+    setDraft(prev => {
+      if (!prev) return prev;
+      const shelfPhotos = { ...prev.shelfPhotos };
+      if (stored) {
+        shelfPhotos[shelf] = stored;
+      } else {
+        delete shelfPhotos[shelf];
+      }
+      return { ...prev, shelfPhotos };
+    });
+    setDirty(true);
+  }, [visitId]);
+
+  const save = useCallback(async () => {
+    if (!draft) return null;
+    const saved = await saveStockAuditDraft(draft);
+    setDraft(saved);
+    setDirty(false);
+    return saved;
+  }, [draft]);
+
+  const clear = useCallback(async () => {
+    if (!visitId) return;
+    await clearStockAuditDraft(visitId);
+    setDraft(createStockAuditDraft(visitId));
+    setDirty(false);
+  }, [visitId]);
+
+  const progress = useMemo(() => countStockAuditProgress(items, draft), [items, draft]);
+  const started = useMemo(() => isStockAuditStarted(draft), [draft]);
+
+  return { items, loading, error, draft, dirty, progress, started, setValue, setShelfPhoto, save, clear };
+}
@@ -0,0 +1,32 @@
+import {
+  getUploadProgress,
+  getUploadTransfer,
+  subscribeUploadTransfer,
+  UploadTransfer,
+} from '@/services/upload-manager';
+import { useEffect, useState } from 'react';
+
+/**
+ * Ikuti status satu transfer upload (lihat services/upload-manager).
+ * `id` null = tidak ada transfer yang diikuti.
+ */
+export function useUploadTransfer(id: string | null) {
+  const [transfer, setTransfer] = useState<UploadTransfer | undefined>(() => (id ? getUploadTransfer(id) : undefined));
+
+  useEffect(() => {
+    if (!id) {
+      setTransfer(undefined);
+      return;
+    }
+    setTransfer(getUploadTransfer(id));
+    return subscribeUploadTransfer(id, setTransfer);
+  }, [id]);
+
+  return {
+    transfer,
+    progress: getUploadProgress(transfer),
+    filesDone: transfer?.sentFiles.length ?? 0,
+    filesTotal: transfer?.files.length ?? 0,
+    isUploading: transfer?.status === 'uploading',
+  };
+}
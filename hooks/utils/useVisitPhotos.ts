@@ -0,0 +1,76 @@
+import type { SignedPhotoManifest } from '@/services/photo-manifest';
+import {
+  clearVisitPhotoDrafts,
+  deleteVisitPhoto,
+  getVisitPhotoDrafts,
+  persistVisitPhoto,
+  saveVisitPhotoDrafts,
+  VisitPhotoCategory,
+  VisitPhotoDraft,
+} from '@/services/visit-photos';
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * Foto kunjungan yang belum dikirim. Setiap perubahan langsung disimpan di perangkat
+ * sehingga foto tidak hilang jika app ditutup sebelum check-out.
+ */
+export function useVisitPhotos(visitId: string | null) {
+  const [photos, setPhotos] = useState<VisitPhotoDraft[]>([]);
+  const photosRef = useRef<VisitPhotoDraft[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!visitId) return;
+      let active = true;
+      getVisitPhotoDrafts(visitId).then(saved => {
+        if (!active) return;
+        photosRef.current = saved;
+        setPhotos(saved);
+      });
+      return () => {
+        active = false;
+      };
+    }, [visitId])
+  );
+
+  const commit = useCallback(async (next: VisitPhotoDraft[]) => {
+    photosRef.current = next;
+    setPhotos(next);
+    if (visitId) await saveVisitPhotoDrafts(visitId, next);
+  }, [visitId]);
+
+  const addPhoto = useCallback(async (
+    uri: string,
+    category: VisitPhotoCategory,
+    caption: string,
+    manifest: SignedPhotoManifest | null = null
+  ) => {
+    if (!visitId) return null;
+    const photo: VisitPhotoDraft = {
+      id: `photo_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      category,
+      caption,
+      uri: await persistVisitPhoto(visitId, uri),
+      takenAt: manifest ? Date.parse(manifest.manifest.captured_at) : Date.now(),
+      manifest,
+    };
+    await commit([...photosRef.current, photo]);
+    return photo;
+  }, [visitId, commit]);
+
+  const removePhoto = useCallback(async (id: string) => {
+    const target = photosRef.current.find(photo => photo.id === id);
+    await commit(photosRef.current.filter(photo => photo.id !== id));
+    if (target) await deleteVisitPhoto(target.uri);
+  }, [commit]);
+
+  const clear = useCallback(async () => {
+    if (!visitId) return;
+    await clearVisitPhotoDrafts(visitId);
+    photosRef.current = [];
+    setPhotos([]);
+  }, [visitId]);
+
+  return { photos, addPhoto, removePhoto, clear };
+}
@@ -18,6 +18,9 @@ module.exports = {
     '^expo-constants$': '<rootDir>/tests/mocks/expo-constants.js',
     '^@react-native-async-storage/async-storage$': '<rootDir>/tests/mocks/async-storage.js',
     '^expo-router$': '<rootDir>/tests/mocks/expo-router.js',
+    '^expo-file-system$': '<rootDir>/tests/mocks/expo-file-system.js',
+    '^expo-notifications$': '<rootDir>/tests/mocks/expo-notifications.js',
+    '^expo-secure-store$': '<rootDir>/tests/mocks/expo-secure-store.js',
   },
   // Enhanced Coverage Configuration
   collectCoverage: false, // Set to true when running coverage
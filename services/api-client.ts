@@ -0,0 +1,377 @@
+import type { LocationIntegrityPolicy } from '@/services/location-integrity';
+import type { AutoCloseReason, OpenVisitPolicy } from '@/services/open-visit';
+import type { PhotoManifestVerification, PhotoSigningKey, SignedPhotoManifest } from '@/services/photo-manifest';
+import { FetchQueryOptions, fetchQuery, invalidateQueries, queryKey, QUERY_TTL } from '@/services/query-cache';
+import type { StockAuditItem } from '@/services/stock-audit';
+import { startUploadTransfer, UploadFile } from '@/services/upload-manager';
+import type { ApiResponse, ApiResult, ListParams, PaginatedResponse, QueryParams, QueryValue } from '@/types/common';
+import type { AppNotification, NotificationListParams } from '@/types/notification';
+import type { OutletAPI } from '@/types/outlet';
+import type { HistoryChangeData, OutletHistory, PendingHistoryParams, ProcessHistoryAction } from '@/types/outlet-history';
+import type { CreatePlanVisitData, PlanVisit, UpdatePlanVisitData } from '@/types/plan-visit';
+import type { Product } from '@/types/product';
+import type { UpdateProfilePayload, User as ProfileUser } from '@/types/profile';
+import type { OutletLevelFieldSection, ReferenceItem, Role } from '@/types/reference';
+import type { ManagedUser, NewUserPayload, UpdateUserPayload, User as CreatedUser, UserListParams } from '@/types/user';
+import type { Visit, VisitListParams, VisitStatus } from '@/types/visit';
+import { apiRequest, RetryPolicy, uploadFile } from '@/utils/api';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export interface RequestOptions {
+  query?: QueryParams;
+  logLabel: string;
+  timeout?: number;
+  // GET only: serve from the query cache while fresh and share in-flight requests
+  cache?: FetchQueryOptions;
+  // Mutations only: path prefixes whose cached queries become stale on success
+  invalidates?: string[];
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy> | false;
+  // Upload only: send each file in its own background request (endpoint must be safe to repeat)
+  perFile?: boolean;
+}
+
+// Per-call overrides for resource endpoints
+export type EndpointOptions = Partial<Pick<RequestOptions, 'logLabel' | 'timeout' | 'cache' | 'signal' | 'retry'>>;
+
+const isEmpty = (value: QueryValue) => value === undefined || value === null || value === '';
+
+/**
+ * Build query string sesuai format backend Laravel:
+ * - nilai kosong (undefined, null, '') dilewati
+ * - array menjadi `key[]=a&key[]=b`
+ * - object menjadi `key[field]=value` (mis. `filters[status]`)
+ */
+export function buildQueryString(params?: QueryParams): string {
+  if (!params) return '';
+  const query = new URLSearchParams();
+
+  const append = (key: string, value: QueryValue | QueryValue[]) => {
+    if (Array.isArray(value)) {
+      value.filter(v => !isEmpty(v)).forEach(v => query.append(`${key}[]`, String(v)));
+    } else if (!isEmpty(value)) {
+      query.append(key, String(value));
+    }
+  };
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value).forEach(([field, fieldValue]) => append(`${key}[${field}]`, fieldValue));
+    } else {
+      append(key, value as QueryValue | QueryValue[]);
+    }
+  });
+
+  return query.toString();
+}
+
+export function buildApiUrl(path: string, query?: QueryParams): string {
+  const queryString = buildQueryString(query);
+  return `${process.env.EXPO_PUBLIC_BASE_URL}${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+// Encode satu segment path (id dari route params bisa berisi karakter bebas)
+const segment = (value: string | number) => encodeURIComponent(String(value));
+
+/**
+ * Bungkus request menjadi ApiResult sehingga pemanggil tidak perlu try/catch.
+ */
+export async function toApiResult<T>(
+  request: Promise<ApiResponse<T>>,
+  fallbackError: string
+): Promise<ApiResult<T>> {
+  try {
+    const response = await request;
+    return { success: true, data: response.data, meta: response.meta };
+  } catch (e: any) {
+    return { success: false, error: e?.message || fallbackError };
+  }
+}
+
+export function createHttpClient(token?: string | null) {
+  const request = <R>(method: HttpMethod, path: string, body: any, options: RequestOptions): Promise<R> =>
+    apiRequest({
+      url: buildApiUrl(path, options.query),
+      method,
+      body,
+      logLabel: options.logLabel,
+      token,
+      ...(options.timeout ? { timeout: options.timeout } : {}),
+      ...(options.signal ? { signal: options.signal } : {}),
+      ...(options.retry !== undefined ? { retry: options.retry } : {}),
+    });
+
+  const read = <R>(path: string, options: RequestOptions): Promise<R> => {
+    if (!options.cache) return request<R>('GET', path, null, options);
+    return fetchQuery(queryKey(path, options.query), () => request<R>('GET', path, null, options), options.cache);
+  };
+
+  const invalidateAfter = async <R>(response: Promise<R>, options: RequestOptions): Promise<R> => {
+    const result = await response;
+    options.invalidates?.forEach(invalidateQueries);
+    return result;
+  };
+
+  const write = <R>(method: HttpMethod, path: string, body: any, options: RequestOptions): Promise<R> =>
+    invalidateAfter(request<R>(method, path, body, options), options);
+
+  return {
+    get: <T>(path: string, options: RequestOptions) => read<ApiResponse<T>>(path, options),
+    getPage: <T>(path: string, options: RequestOptions) => read<PaginatedResponse<T>>(path, options),
+    post: <T>(path: string, body: any, options: RequestOptions) => write<ApiResponse<T>>('POST', path, body, options),
+    put: <T>(path: string, body: any, options: RequestOptions) => write<ApiResponse<T>>('PUT', path, body, options),
+    patch: <T>(path: string, body: any, options: RequestOptions) => write<ApiResponse<T>>('PATCH', path, body, options),
+    delete: <T = null>(path: string, options: RequestOptions) => write<ApiResponse<T>>('DELETE', path, null, options),
+    upload: <T>(path: string, formData: FormData, options: RequestOptions): Promise<ApiResponse<T>> =>
+      invalidateAfter(uploadFile({
+        url: buildApiUrl(path, options.query),
+        formData,
+        logLabel: options.logLabel,
+        token,
+        ...(options.timeout ? { timeout: options.timeout } : {}),
+        ...(options.signal ? { signal: options.signal } : {}),
+      }), options),
+    // Semua file dan field dalam satu request multipart lewat transfer manager (progress, background session).
+    // Tanpa `retry` transfer tidak diulang otomatis, sama seperti POST di apiRequest
+    transfer: <T>(path: string, transferId: string, label: string, fields: Record<string, string>, files: UploadFile[], options: RequestOptions): Promise<ApiResponse<T>> =>
+      invalidateAfter(startUploadTransfer({
+        id: transferId,
+        label,
+        url: buildApiUrl(path, options.query),
+        logLabel: options.logLabel,
+        token,
+        fields,
+        files,
+        ...(options.retry ? { retry: options.retry } : {}),
+        ...(options.perFile ? { perFile: true } : {}),
+      }), options),
+  };
+}
+
+export type HttpClient = ReturnType<typeof createHttpClient>;
+
+/**
+ * Typed API client. Satu tempat untuk path, method, log label dan tipe
+ * request/response setiap endpoint; hooks cukup memanggil `api.<resource>.<action>()`.
+ */
+export function createApiClient(token?: string | null) {
+  const http = createHttpClient(token);
+
+  return {
+    http,
+
+    visits: {
+      list: (params: VisitListParams = {}, options: EndpointOptions = {}) => {
+        const { sort_column, sort_direction, ...rest } = params;
+        return http.getPage<Visit>('/visits', {
+          query: { ...rest, sort_column: sort_column || 'visit_date', sort_direction: sort_direction || 'desc' } as QueryParams,
+          logLabel: 'FETCH_VISITS',
+          ...options,
+        });
+      },
+      get: (visitId: string | number) =>
+        http.get<Visit>(`/visits/${segment(visitId)}`, { logLabel: 'FETCH_VISIT' }),
+      checkIn: (formData: FormData) =>
+        http.post<Visit>('/visits', formData, { logLabel: 'CHECK_IN_VISIT', invalidates: ['/visits'] }),
+      checkOut: (visitId: string | number, formData: FormData) =>
+        http.post<Visit>(`/visits/${segment(visitId)}`, formData, { logLabel: 'CHECK_OUT_VISIT', invalidates: ['/visits'] }),
+      status: (outletId: string | number) =>
+        http.get<VisitStatus>('/visits/check', { query: { outlet_id: outletId }, logLabel: 'GET_VISIT_STATUS' }),
+      remove: (visitId: string | number) =>
+        http.delete(`/visits/${segment(visitId)}`, { logLabel: 'DELETE_VISIT', invalidates: ['/visits'] }),
+      // Tutup visit tanpa check-out (lupa check-out, outlet tutup, dll)
+      autoClose: (visitId: string | number, data: { reason: AutoCloseReason; notes?: string }) =>
+        http.post<Visit>(`/visits/${segment(visitId)}/auto-close`, data, { logLabel: 'AUTO_CLOSE_VISIT', invalidates: ['/visits'] }),
+      uploadCheckIn: (transferId: string, label: string, fields: Record<string, string>, photo: UploadFile) =>
+        http.transfer<Visit>('/visits', transferId, label, fields, [photo], { logLabel: 'CHECK_IN_VISIT', invalidates: ['/visits'] }),
+      uploadCheckOut: (
+        transferId: string,
+        label: string,
+        visitId: string | number,
+        fields: Record<string, string>,
+        photo: UploadFile,
+        attachments: UploadFile[] = []
+      ) =>
+        // Check-out tidak aman diulang: satu request berisi semua foto, bukan upload background per file
+        http.transfer<Visit>(`/visits/${segment(visitId)}`, transferId, label, fields, [photo, ...attachments], {
+          logLabel: 'CHECK_OUT_VISIT',
+          invalidates: ['/visits'],
+        }),
+    },
+
+    outlets: {
+      list: (params: ListParams = {}, options: EndpointOptions = {}) =>
+        http.getPage<OutletAPI>('/outlets', { query: params as QueryParams, logLabel: 'FETCH_OUTLETS', ...options }),
+      get: (outletId: string | number) =>
+        http.get<OutletAPI>(`/outlets/${segment(outletId)}`, { logLabel: 'FETCH_OUTLET' }),
+      create: (data: Partial<OutletAPI>) =>
+        http.post<OutletAPI>('/outlets', data, { logLabel: 'CREATE_OUTLET', invalidates: ['/outlets'] }),
+      // Backend memakai POST untuk update (termasuk multipart)
+      update: (outletId: string | number, data: Partial<OutletAPI> | FormData, options: EndpointOptions = {}) =>
+        http.post<OutletAPI>(`/outlets/${segment(outletId)}`, data, { logLabel: 'UPDATE_OUTLET', invalidates: ['/outlets'], ...options }),
+      uploadFiles: (transferId: string, outletId: string | number, fields: Record<string, string>, files: UploadFile[]) =>
+        http.transfer<OutletAPI>(`/outlets/${segment(outletId)}`, transferId, `Outlet ${outletId}`, fields, files, {
+          logLabel: 'UPLOAD_OUTLET_FILES',
+          invalidates: ['/outlets'],
+          // Update outlet menimpa nilai yang sama, aman diulang per file dan di-retry
+          perFile: true,
+          retry: {},
+        }),
+      // Perubahan field outlet diajukan lewat history dan menunggu approval
+      history: (outletId: string | number) =>
+        http.get<OutletHistory[]>(`/outlets/${segment(outletId)}/history`, { logLabel: 'FETCH_OUTLET_HISTORY' }),
+      submitChange: (outletId: string | number, change: HistoryChangeData) =>
+        http.post<OutletHistory>(`/outlets/${segment(outletId)}/history-change`, change, { logLabel: 'SUBMIT_OUTLET_HISTORY_CHANGE' }),
+    },
+
+    outletHistories: {
+      pending: (params: PendingHistoryParams = {}) =>
+        http.getPage<OutletHistory>('/outlet-histories/pending', {
+          query: { page: params.page || 1, per_page: params.per_page },
+          logLabel: 'FETCH_PENDING_OUTLET_HISTORIES',
+        }),
+      process: (historyId: string | number, action: ProcessHistoryAction, reason?: string) =>
+        http.post<OutletHistory>(`/outlet-histories/${segment(historyId)}/process`, reason ? { action, reason } : { action }, {
+          logLabel: 'PROCESS_OUTLET_HISTORY',
+          invalidates: ['/outlets'],
+        }),
+    },
+
+    notifications: {
+      list: (params: NotificationListParams = {}) =>
+        http.getPage<AppNotification>('/notifications', {
+          query: {
+            page: params.page || 1,
+            per_page: params.per_page || 20,
+            filters: { status: params.status !== 'all' ? params.status : undefined },
+          },
+          logLabel: 'FETCH_NOTIFICATIONS',
+        }),
+      get: (notificationId: string | number) =>
+        http.get<AppNotification>(`/notifications/${segment(notificationId)}`, { logLabel: 'FETCH_NOTIFICATION' }),
+      unreadCount: () =>
+        http.get<{ unread_count: number }>('/notifications/unread-count', { logLabel: 'FETCH_UNREAD_COUNT' }),
+      markRead: (notificationId: string | number) =>
+        http.post<AppNotification>(`/notifications/${segment(notificationId)}/read`, null, { logLabel: 'MARK_NOTIFICATION_READ' }),
+      markAllRead: () =>
+        http.post<null>('/notifications/mark-all-read', null, { logLabel: 'MARK_ALL_NOTIFICATIONS_READ' }),
+      remove: (notificationId: string | number) =>
+        http.delete(`/notifications/${segment(notificationId)}`, { logLabel: 'DELETE_NOTIFICATION' }),
+      removeRead: () =>
+        http.delete('/notifications/read', { logLabel: 'DELETE_READ_NOTIFICATIONS' }),
+    },
+
+    planVisits: {
+      list: (params: QueryParams = {}, options: EndpointOptions = {}) =>
+        http.getPage<PlanVisit>('/plan-visits', { query: params, logLabel: 'FETCH_PLANVISIT_LIST', ...options }),
+      get: (planVisitId: string | number) =>
+        http.get<PlanVisit>(`/plan-visits/${segment(planVisitId)}`, { logLabel: 'FETCH_PLANVISIT_ITEM' }),
+      create: (data: CreatePlanVisitData) =>
+        http.post<PlanVisit>('/plan-visits', data, { logLabel: 'CREATE_PLANVISIT', invalidates: ['/plan-visits'] }),
+      update: (planVisitId: string | number, data: UpdatePlanVisitData) =>
+        http.put<PlanVisit>(`/plan-visits/${segment(planVisitId)}`, data, { logLabel: 'UPDATE_PLANVISIT', invalidates: ['/plan-visits'] }),
+      remove: (planVisitId: string | number) =>
+        http.delete(`/plan-visits/${segment(planVisitId)}`, { logLabel: 'DELETE_PLANVISIT', invalidates: ['/plan-visits'] }),
+    },
+
+    // Katalog diambil sekaligus dan di-cache seperti data referensi agar order bisa dibuat offline
+    products: {
+      list: (params: ListParams = {}, options: EndpointOptions = {}) =>
+        http.getPage<Product>('/products', {
+          query: { per_page: 1000, ...params } as QueryParams,
+          logLabel: 'FETCH_PRODUCTS',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+          ...options,
+        }),
+    },
+
+    // Data referensi jarang berubah: cache 24 jam (ikut dipersist ke AsyncStorage)
+    references: {
+      roles: () => http.get<Role[]>('/references/role', { logLabel: 'FETCH_ROLES', cache: { ttl: QUERY_TTL.REFERENCE } }),
+      badanUsaha: () =>
+        http.get<ReferenceItem[]>('/references/badan-usaha', { logLabel: 'FETCH_BADAN_USAHA', cache: { ttl: QUERY_TTL.REFERENCE } }),
+      divisions: (badanUsahaId?: string) =>
+        http.get<ReferenceItem[]>('/references/division', {
+          query: { badan_usaha_id: badanUsahaId },
+          logLabel: 'FETCH_DIVISIONS',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+        }),
+      regions: (divisionId?: string) =>
+        http.get<ReferenceItem[]>('/references/region', {
+          query: { division_id: divisionId },
+          logLabel: 'FETCH_REGIONS',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+        }),
+      clusters: (regionId?: string) =>
+        http.get<ReferenceItem[]>('/references/cluster', {
+          query: { region_id: regionId },
+          logLabel: 'FETCH_CLUSTERS',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+        }),
+      outletLevelFields: (level: 'LEAD' | 'NOO') =>
+        http.get<OutletLevelFieldSection[]>('/references/outlet-level-fields', {
+          query: { level, include_custom_fields: true },
+          logLabel: 'FETCH_OUTLET_LEVEL_FIELDS',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+        }),
+      locationIntegrityPolicy: () =>
+        http.get<Partial<LocationIntegrityPolicy>>('/references/location-integrity-policy', {
+          logLabel: 'FETCH_LOCATION_INTEGRITY_POLICY',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+        }),
+      // Checklist SKU untuk audit rak, disesuaikan dengan divisi/cluster outlet
+      stockAuditChecklist: (params: { division_id?: string | number; cluster_id?: string | number }) =>
+        http.get<StockAuditItem[]>('/references/stock-audit-checklist', {
+          query: params,
+          logLabel: 'FETCH_STOCK_AUDIT_CHECKLIST',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+        }),
+      openVisitPolicy: () =>
+        http.get<Partial<OpenVisitPolicy>>('/references/open-visit-policy', {
+          logLabel: 'FETCH_OPEN_VISIT_POLICY',
+          cache: { ttl: QUERY_TTL.REFERENCE },
+        }),
+    },
+
+    // Kunci tanda tangan foto per perangkat dan verifikasi manifest yang ditandatangani perangkat lain
+    photoManifests: {
+      signingKey: (deviceId: string) =>
+        http.post<PhotoSigningKey>('/photo-manifests/signing-key', { device_id: deviceId }, { logLabel: 'FETCH_PHOTO_SIGNING_KEY' }),
+      verify: (signed: SignedPhotoManifest) =>
+        http.post<PhotoManifestVerification>('/photo-manifests/verify', signed, { logLabel: 'VERIFY_PHOTO_MANIFEST' }),
+    },
+
+    users: {
+      list: (params: UserListParams = {}) =>
+        http.getPage<ManagedUser>('/user', {
+          query: {
+            page: params.page || 1,
+            per_page: params.per_page,
+            search: params.search,
+            filters: { region_id: params.region_id, cluster_id: params.cluster_id },
+          },
+          logLabel: 'FETCH_USERS',
+        }),
+      get: (userId: string | number) =>
+        http.get<ManagedUser>(`/user/${segment(userId)}`, { logLabel: 'FETCH_USER' }),
+      create: (payload: NewUserPayload) =>
+        http.post<CreatedUser>('/user', payload, { logLabel: 'ADD_USER', invalidates: ['/user'] }),
+      update: (userId: string | number, payload: UpdateUserPayload) =>
+        http.put<ManagedUser>(`/user/${segment(userId)}`, payload, { logLabel: 'UPDATE_USER', invalidates: ['/user'] }),
+      setActive: (userId: string | number, active: boolean) =>
+        http.patch<ManagedUser>(`/user/${segment(userId)}`, { is_active: active }, { logLabel: 'SET_USER_ACTIVE', invalidates: ['/user'] }),
+      remove: (userId: string | number) =>
+        http.delete(`/user/${segment(userId)}`, { logLabel: 'DELETE_USER', invalidates: ['/user'] }),
+    },
+
+    profile: {
+      update: (payload: UpdateProfilePayload) =>
+        http.post<ProfileUser>('/profile/update', payload, { logLabel: 'UPDATE_PROFILE' }),
+      updatePhoto: (formData: FormData) =>
+        http.upload<ProfileUser>('/profile/photo', formData, { logLabel: 'UPDATE_PHOTO' }),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { LatLng, parseLatLong } from '@/utils/geo';
+import { log } from '@/utils/logger';
+import { optimizeRoute } from '@/utils/route';
+
+const STORAGE_KEY = 'daily_route';
+
+/**
+ * Urutan kunjungan plan visit untuk satu hari, disimpan di perangkat.
+ * Rute yang dikunci tidak diubah oleh optimasi ulang.
+ */
+export interface DailyRoute {
+  date: string;
+  // ID plan visit sesuai urutan kunjungan
+  order: string[];
+  locked: boolean;
+  updatedAt: number;
+}
+
+// Tanggal lokal perangkat (YYYY-MM-DD) sebagai kunci rute harian
+export function getRouteDate(now: Date = new Date()): string {
+  const yyyy = now.getFullYear();
+  const mm = String(now.getMonth() + 1).padStart(2, '0');
+  const dd = String(now.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function createDailyRoute(date: string, order: (string | number)[], locked: boolean = false): DailyRoute {
+  return { date, order: order.map(String), locked, updatedAt: Date.now() };
+}
+
+/**
+ * Urutkan item sesuai rute. Item yang tidak ada di rute (mis. plan baru)
+ * ditaruh di akhir dengan urutan semula.
+ */
+export function applyRouteOrder<T>(items: T[], order: string[] | null | undefined, getId: (item: T) => string | number): T[] {
+  if (!order?.length) return items;
+  const position = new Map(order.map((id, index) => [id, index]));
+  return items
+    .map((item, index) => ({ item, index, position: position.get(String(getId(item))) }))
+    .sort((a, b) => {
+      if (a.position === undefined && b.position === undefined) return a.index - b.index;
+      if (a.position === undefined) return 1;
+      if (b.position === undefined) return -1;
+      return a.position - b.position;
+    })
+    .map(({ item }) => item);
+}
+
+/**
+ * Urutan kunjungan efisien dari posisi sekarang. Item tanpa koordinat valid
+ * ditaruh di akhir dengan urutan semula.
+ */
+export function optimizeStopOrder<T>(
+  items: T[],
+  origin: LatLng | null,
+  getId: (item: T) => string | number,
+  getLocation: (item: T) => string | null | undefined
+): string[] {
+  const located = items.map(item => ({ id: String(getId(item)), coords: parseLatLong(getLocation(item)) }));
+  const stops = located.filter((stop): stop is { id: string; coords: LatLng } => stop.coords !== null);
+  const unlocated = located.filter(stop => stop.coords === null).map(stop => stop.id);
+  const order = optimizeRoute(origin, stops.map(stop => stop.coords));
+  return [...order.map(index => stops[index].id), ...unlocated];
+}
+
+/**
+ * Pindahkan satu ID ke posisi sebelum/sesudahnya.
+ */
+export function moveRouteStop(order: string[], id: string | number, direction: -1 | 1): string[] {
+  const from = order.indexOf(String(id));
+  const to = from + direction;
+  if (from < 0 || to < 0 || to >= order.length) return order;
+  const next = [...order];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+export async function getDailyRoute(date: string): Promise<DailyRoute | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const route: DailyRoute | null = raw ? JSON.parse(raw) : null;
+    // Hanya rute hari yang diminta; rute hari lain dianggap kedaluwarsa
+    return route?.date === date ? route : null;
+  } catch (error) {
+    log('[DAILY_ROUTE] Failed to load route:', error);
+    return null;
+  }
+}
+
+export async function saveDailyRoute(route: DailyRoute): Promise<DailyRoute> {
+  const saved = { ...route, updatedAt: Date.now() };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  log('[DAILY_ROUTE] Route saved', { date: saved.date, stops: saved.order.length, locked: saved.locked });
+  return saved;
+}
+
+export async function clearDailyRoute(): Promise<void> {
+  await AsyncStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,43 @@
+import Constants from 'expo-constants';
+import { Platform, Share } from 'react-native';
+
+import { loadOutbox } from '@/services/visit-outbox';
+import { exportLogs, log } from '@/utils/logger';
+
+export interface DiagnosticsContext {
+  userId?: string | number | null;
+  username?: string | null;
+  isConnected?: boolean;
+}
+
+/**
+ * Laporan diagnostik: info app/perangkat, ringkasan outbox dan log (sudah disamarkan).
+ */
+export async function buildDiagnosticsReport(context: DiagnosticsContext = {}): Promise<string> {
+  const outbox = await loadOutbox().catch(() => []);
+  const failed = outbox.filter(entry => entry.status === 'failed').length;
+
+  const lines = [
+    'SAM Diagnostics',
+    `Waktu: ${new Date().toISOString()}`,
+    `App: ${Constants.expoConfig?.version ?? '-'} (${Constants.appOwnership ?? 'standalone'})`,
+    `Platform: ${Platform.OS} ${Platform.Version}`,
+    `Perangkat: ${Constants.deviceName ?? '-'}`,
+    `User: ${context.username ?? '-'} (${context.userId ?? '-'})`,
+    `Online: ${context.isConnected === undefined ? '-' : context.isConnected ? 'ya' : 'tidak'}`,
+    `Outbox: ${outbox.length} antrean, ${failed} gagal`,
+    '',
+    await exportLogs(),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Kirim laporan lewat share sheet (email, WhatsApp, dll). Mengembalikan false jika dibatalkan.
+ */
+export async function shareDiagnostics(context: DiagnosticsContext = {}): Promise<boolean> {
+  const message = await buildDiagnosticsReport(context);
+  log('[DIAGNOSTICS] Sharing report', { length: message.length });
+  const result = await Share.share({ title: 'SAM Diagnostics', message });
+  return result.action === Share.sharedAction;
+}
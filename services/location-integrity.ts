@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { calculateDistance, LatLng, parseLatLong } from '@/utils/geo';
+import { log } from '@/utils/logger';
+
+const LAST_FIX_STORAGE_KEY = 'location_last_fix';
+
+// Lompatan di bawah jarak ini diabaikan (GPS drift / perbedaan akurasi)
+const MIN_JUMP_DISTANCE = 500;
+
+export type IntegrityAction = 'ignore' | 'warn' | 'reject';
+export type IntegritySignal = 'MOCKED' | 'IMPLAUSIBLE_ACCURACY' | 'TELEPORT' | 'PREVIOUS_VISIT_MISMATCH';
+export type IntegrityStatus = 'ok' | 'warn' | 'reject';
+
+export interface LocationFix extends LatLng {
+  accuracy?: number | null;
+  // Android: true jika posisi berasal dari mock location provider
+  mocked?: boolean;
+  timestamp: number;
+}
+
+// Posisi pembanding, mis. check-out kunjungan sebelumnya
+export interface ReferenceFix extends LatLng {
+  timestamp: number;
+}
+
+/**
+ * Kebijakan dari backend: aksi per sinyal dan ambang batasnya.
+ */
+export interface LocationIntegrityPolicy {
+  actions: Record<IntegritySignal, IntegrityAction>;
+  // Akurasi (meter) di bawah nilai ini tidak wajar untuk GPS ponsel
+  min_accuracy: number;
+  max_speed_kmh: number;
+}
+
+export interface LocationIntegrityVerdict {
+  status: IntegrityStatus;
+  signals: IntegritySignal[];
+  messages: string[];
+}
+
+export const DEFAULT_INTEGRITY_POLICY: LocationIntegrityPolicy = {
+  actions: {
+    MOCKED: 'reject',
+    IMPLAUSIBLE_ACCURACY: 'warn',
+    TELEPORT: 'warn',
+    PREVIOUS_VISIT_MISMATCH: 'warn',
+  },
+  min_accuracy: 1,
+  max_speed_kmh: 200,
+};
+
+const SIGNAL_MESSAGES: Record<IntegritySignal, string> = {
+  MOCKED: 'Lokasi berasal dari aplikasi lokasi palsu (mock location).',
+  IMPLAUSIBLE_ACCURACY: 'Akurasi GPS tidak wajar.',
+  TELEPORT: 'Perpindahan posisi terlalu cepat dari lokasi sebelumnya.',
+  PREVIOUS_VISIT_MISMATCH: 'Lokasi tidak konsisten dengan kunjungan sebelumnya.',
+};
+
+/**
+ * Gabungkan kebijakan parsial dari backend dengan default.
+ */
+export function normalizeIntegrityPolicy(data: Partial<LocationIntegrityPolicy> | null | undefined): LocationIntegrityPolicy {
+  return {
+    actions: { ...DEFAULT_INTEGRITY_POLICY.actions, ...(data?.actions ?? {}) },
+    min_accuracy: data?.min_accuracy ?? DEFAULT_INTEGRITY_POLICY.min_accuracy,
+    max_speed_kmh: data?.max_speed_kmh ?? DEFAULT_INTEGRITY_POLICY.max_speed_kmh,
+  };
+}
+
+// Format waktu backend "YYYY-MM-DD HH:mm:ss" (waktu lokal) atau ISO
+export function parseServerTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value.includes('T') ? value : value.replace(' ', 'T')).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Posisi terakhir yang tercatat pada sebuah visit: check-out jika ada, selain itu check-in.
+ */
+export function visitReferenceFix(visit: {
+  checkin_location?: string | null;
+  checkin_time?: string | null;
+  checkout_location?: string | null;
+  checkout_time?: string | null;
+} | null | undefined): ReferenceFix | null {
+  if (!visit) return null;
+  const useCheckout = !!(visit.checkout_location && visit.checkout_time);
+  const coords = parseLatLong(useCheckout ? visit.checkout_location : visit.checkin_location);
+  const timestamp = parseServerTime(useCheckout ? visit.checkout_time : visit.checkin_time);
+  return coords && timestamp ? { ...coords, timestamp } : null;
+}
+
+function impliedSpeedKmh(from: ReferenceFix, to: LocationFix): { distance: number; speed: number } | null {
+  const hours = (to.timestamp - from.timestamp) / 3600000;
+  if (hours <= 0) return null;
+  const distance = calculateDistance(from, to);
+  return { distance, speed: distance / 1000 / hours };
+}
+
+function isTooFast(from: ReferenceFix, to: LocationFix, policy: LocationIntegrityPolicy): boolean {
+  const movement = impliedSpeedKmh(from, to);
+  return !!movement && movement.distance > MIN_JUMP_DISTANCE && movement.speed > policy.max_speed_kmh;
+}
+
+// Koordinat yang persis sama dengan kunjungan lain: GPS asli selalu sedikit bergeser
+function isReplayed(from: ReferenceFix, to: LocationFix): boolean {
+  return from.latitude.toFixed(6) === to.latitude.toFixed(6)
+    && from.longitude.toFixed(6) === to.longitude.toFixed(6)
+    && to.timestamp - from.timestamp > 60 * 1000;
+}
+
+/**
+ * Nilai integritas satu fix lokasi. Status akhir = aksi terberat dari sinyal yang muncul
+ * menurut kebijakan; sinyal dengan aksi `ignore` tidak dilaporkan.
+ */
+export function evaluateLocationIntegrity(
+  fix: LocationFix,
+  context: { previousFix?: ReferenceFix | null; previousVisit?: ReferenceFix | null },
+  policy: LocationIntegrityPolicy = DEFAULT_INTEGRITY_POLICY
+): LocationIntegrityVerdict {
+  const detected: IntegritySignal[] = [];
+
+  if (fix.mocked) detected.push('MOCKED');
+  if (fix.accuracy == null || fix.accuracy < policy.min_accuracy) detected.push('IMPLAUSIBLE_ACCURACY');
+  if (context.previousFix && isTooFast(context.previousFix, fix, policy)) detected.push('TELEPORT');
+  if (context.previousVisit && (isReplayed(context.previousVisit, fix) || isTooFast(context.previousVisit, fix, policy))) {
+    detected.push('PREVIOUS_VISIT_MISMATCH');
+  }
+
+  const signals = detected.filter(signal => policy.actions[signal] !== 'ignore');
+  const actions = signals.map(signal => policy.actions[signal]);
+  const status: IntegrityStatus = actions.includes('reject') ? 'reject' : actions.includes('warn') ? 'warn' : 'ok';
+
+  return { status, signals, messages: signals.map(signal => SIGNAL_MESSAGES[signal]) };
+}
+
+/**
+ * Field tambahan untuk FormData check-in/check-out.
+ */
+export function integrityFields(verdict: LocationIntegrityVerdict, fix: LocationFix): Record<string, string> {
+  return {
+    location_integrity: verdict.status.toUpperCase(),
+    location_integrity_signals: verdict.signals.join(','),
+    location_accuracy: fix.accuracy != null ? String(Math.round(fix.accuracy)) : '',
+    location_mocked: fix.mocked ? '1' : '0',
+  };
+}
+
+// Teks singkat untuk watermark foto
+export function formatIntegrityLabel(verdict: LocationIntegrityVerdict): string {
+  if (verdict.status === 'ok') return 'GPS: OK';
+  return `GPS: ${verdict.status === 'reject' ? 'DITOLAK' : 'PERINGATAN'} (${verdict.signals.join(', ')})`;
+}
+
+export async function getLastLocationFix(): Promise<ReferenceFix | null> {
+  try {
+    const raw = await AsyncStorage.getItem(LAST_FIX_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    log('[LOCATION_INTEGRITY] Failed to read last fix:', error);
+    return null;
+  }
+}
+
+export async function saveLastLocationFix(fix: LocationFix): Promise<void> {
+  const { latitude, longitude, timestamp } = fix;
+  await AsyncStorage.setItem(LAST_FIX_STORAGE_KEY, JSON.stringify({ latitude, longitude, timestamp }));
+}
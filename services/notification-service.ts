@@ -36,9 +36,20 @@ function getOneSignalInstance() {
   }
 }
 
+/**
+ * Payload of a tapped push notification. `additionalData` is whatever the
+ * backend attached when sending (e.g. `notification_id`, `visit_id`).
+ */
+export interface NotificationOpenedPayload {
+  title?: string;
+  body?: string;
+  additionalData: Record<string, any>;
+}
+
 export interface NotificationService {
   initializeNotificationId: () => Promise<string>;
   requestPermission: () => Promise<'granted' | 'denied' | 'default'>;
+  addNotificationOpenedListener: (handler: (payload: NotificationOpenedPayload) => void) => () => void;
 }
 
 /**
@@ -144,6 +155,31 @@ export class SimpleNotificationService implements NotificationService {
       return 'denied';
     }
   }
+
+  /**
+   * Subscribe to push notification taps. Returns an unsubscribe function
+   * (a no-op when OneSignal is not available, e.g. in Expo Go).
+   */
+  addNotificationOpenedListener(handler: (payload: NotificationOpenedPayload) => void): () => void {
+    if (!this.oneSignal?.Notifications?.addEventListener) {
+      return () => {};
+    }
+
+    const listener = (event: any) => {
+      const notification = event?.notification ?? {};
+      log('[Notification] Notification opened:', notification.notificationId);
+      handler({
+        title: notification.title,
+        body: notification.body,
+        additionalData: notification.additionalData ?? {},
+      });
+    };
+
+    this.oneSignal.Notifications.addEventListener('click', listener);
+    return () => {
+      this.oneSignal.Notifications.removeEventListener?.('click', listener);
+    };
+  }
 }
 
 /**
@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+
+import { parseServerTime } from '@/services/location-integrity';
+import type { Visit } from '@/types/visit';
+import type { GeofenceTarget } from '@/utils/geofence';
+import { log } from '@/utils/logger';
+
+const STORAGE_KEY = 'open_visit';
+
+/**
+ * Kunjungan yang sudah check-in tapi belum check-out di perangkat ini.
+ */
+export interface OpenVisit {
+  // Null selama check-in masih di outbox (belum punya id dari server)
+  visitId: string | null;
+  outletId: string;
+  outletName: string;
+  outlet: GeofenceTarget;
+  checkinAt: number;
+  reminderIds: string[];
+  // Sudah diperingatkan keluar area outlet; di-reset saat kembali ke dalam area
+  exitWarnedAt: number | null;
+}
+
+export type OpenVisitInput = Pick<OpenVisit, 'visitId' | 'outletId' | 'outletName' | 'outlet'> & { checkinAt?: number };
+
+/**
+ * Kebijakan dari backend: pengingat check-out dikirim N menit setelah check-in.
+ */
+export interface OpenVisitPolicy {
+  reminder_minutes: number[];
+}
+
+export const DEFAULT_OPEN_VISIT_POLICY: OpenVisitPolicy = {
+  reminder_minutes: [60, 120, 240],
+};
+
+export type AutoCloseReason = 'FORGOT_CHECKOUT' | 'OUTLET_CLOSED' | 'DEVICE_ISSUE' | 'OTHER';
+
+export const AUTO_CLOSE_REASONS: { value: AutoCloseReason; label: string }[] = [
+  { value: 'FORGOT_CHECKOUT', label: 'Lupa check-out' },
+  { value: 'OUTLET_CLOSED', label: 'Outlet tutup / pemilik tidak ada' },
+  { value: 'DEVICE_ISSUE', label: 'Kendala HP / aplikasi' },
+  { value: 'OTHER', label: 'Lainnya' },
+];
+
+let current: OpenVisit | null | undefined;
+const listeners = new Set<(visit: OpenVisit | null) => void>();
+
+// Notifikasi lokal tetap ditampilkan saat app sedang dibuka
+export function initOpenVisitNotifications() {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+function notify() {
+  listeners.forEach(listener => listener(current ?? null));
+}
+
+async function persist(visit: OpenVisit | null) {
+  current = visit;
+  if (visit) {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(visit));
+  } else {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+  notify();
+}
+
+export function normalizeOpenVisitPolicy(data: Partial<OpenVisitPolicy> | null | undefined): OpenVisitPolicy {
+  const minutes = data?.reminder_minutes?.filter(value => value > 0);
+  return { reminder_minutes: minutes?.length ? minutes : DEFAULT_OPEN_VISIT_POLICY.reminder_minutes };
+}
+
+export async function getOpenVisit(): Promise<OpenVisit | null> {
+  if (current !== undefined) return current;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    current = raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    log('[OPEN_VISIT] Failed to load:', error);
+    current = null;
+  }
+  return current ?? null;
+}
+
+export function subscribeOpenVisit(listener: (visit: OpenVisit | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Check-in baru di outlet lain diblokir selama masih ada kunjungan terbuka.
+ */
+export function isBlockedByOpenVisit(visit: OpenVisit | null, outletId: string | number | null | undefined): boolean {
+  return !!visit && String(visit.outletId) !== String(outletId ?? '');
+}
+
+export function getOpenVisitDuration(visit: OpenVisit, now: number = Date.now()): number {
+  return Math.max(0, Math.round((now - visit.checkinAt) / 60000));
+}
+
+async function cancelReminders(visit: OpenVisit | null) {
+  if (!visit) return;
+  await Promise.all(
+    visit.reminderIds.map(id => Notifications.cancelScheduledNotificationAsync(id).catch(() => undefined))
+  );
+}
+
+async function ensureNotificationPermission(): Promise<boolean> {
+  const { granted } = await Notifications.getPermissionsAsync();
+  if (granted) return true;
+  const result = await Notifications.requestPermissionsAsync();
+  return result.granted;
+}
+
+// Pengingat yang waktunya sudah lewat (mis. kunjungan dari server) tidak dijadwalkan
+async function scheduleReminders(visit: OpenVisit, policy: OpenVisitPolicy): Promise<string[]> {
+  try {
+    if (!(await ensureNotificationPermission())) return [];
+    const now = Date.now();
+    const times = policy.reminder_minutes
+      .map(minutes => visit.checkinAt + minutes * 60000)
+      .filter(time => time > now);
+
+    return await Promise.all(times.map(time =>
+      Notifications.scheduleNotificationAsync({
+        content: {
+          title: 'Belum Check-out',
+          body: `Kunjungan di ${visit.outletName} sudah ${getOpenVisitDuration(visit, time)} menit. Jangan lupa check-out.`,
+          data: { type: 'OPEN_VISIT', visit_id: visit.visitId, outlet_id: visit.outletId },
+        },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: time },
+      })
+    ));
+  } catch (error) {
+    log('[OPEN_VISIT] Failed to schedule reminders:', error);
+    return [];
+  }
+}
+
+/**
+ * Mulai melacak kunjungan setelah check-in (langsung maupun masuk outbox).
+ */
+export async function startOpenVisit(input: OpenVisitInput, policy: OpenVisitPolicy = DEFAULT_OPEN_VISIT_POLICY): Promise<OpenVisit> {
+  await cancelReminders(await getOpenVisit());
+  const visit: OpenVisit = {
+    visitId: input.visitId,
+    outletId: String(input.outletId),
+    outletName: input.outletName,
+    outlet: input.outlet,
+    checkinAt: input.checkinAt ?? Date.now(),
+    reminderIds: [],
+    exitWarnedAt: null,
+  };
+  visit.reminderIds = await scheduleReminders(visit, policy);
+  log('[OPEN_VISIT] Tracking', { visitId: visit.visitId, outletId: visit.outletId, reminders: visit.reminderIds.length });
+  await persist(visit);
+  return visit;
+}
+
+/**
+ * Isi id visit setelah check-in dari outbox berhasil dikirim.
+ */
+export async function attachOpenVisitId(outletId: string | number, visitId: string | number): Promise<void> {
+  const visit = await getOpenVisit();
+  if (!visit || visit.visitId || visit.outletId !== String(outletId)) return;
+  await persist({ ...visit, visitId: String(visitId) });
+}
+
+/**
+ * Peringatan langsung saat user terdeteksi keluar dari area outlet tanpa check-out.
+ */
+export async function notifyOutletExit(visit: OpenVisit): Promise<void> {
+  try {
+    if (!(await ensureNotificationPermission())) return;
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Anda Meninggalkan Outlet',
+        body: `Anda sudah di luar area ${visit.outletName} tetapi belum check-out.`,
+        data: { type: 'OPEN_VISIT_EXIT', visit_id: visit.visitId, outlet_id: visit.outletId },
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    log('[OPEN_VISIT] Failed to send exit warning:', error);
+  }
+}
+
+export async function updateOpenVisit(changes: Partial<Pick<OpenVisit, 'exitWarnedAt'>>): Promise<void> {
+  const visit = await getOpenVisit();
+  if (visit) await persist({ ...visit, ...changes });
+}
+
+/**
+ * Berhenti melacak (check-out atau ditutup otomatis) dan batalkan pengingat.
+ */
+export async function closeOpenVisit(): Promise<void> {
+  const visit = await getOpenVisit();
+  if (!visit) return;
+  await cancelReminders(visit);
+  log('[OPEN_VISIT] Closed', { visitId: visit.visitId });
+  await persist(null);
+}
+
+/**
+ * Lepas kunjungan yang check-in-nya belum punya id server, mis. karena entri outbox-nya
+ * ditolak server atau dihapus user. Kunjungan yang sudah tersinkron tidak disentuh.
+ */
+export async function releasePendingOpenVisit(outletId: string | number): Promise<void> {
+  const visit = await getOpenVisit();
+  if (!visit || visit.visitId || visit.outletId !== String(outletId)) return;
+  await closeOpenVisit();
+}
+
+/**
+ * Samakan dengan data server: hentikan pelacakan jika visit sudah check-out/ditutup otomatis,
+ * atau mulai melacak visit terbuka yang belum tercatat di perangkat (mis. setelah reinstall).
+ * Kunjungan lokal tanpa id diganti oleh visit terbuka dari server jika ada.
+ */
+export async function syncOpenVisit(visits: Visit[], policy: OpenVisitPolicy = DEFAULT_OPEN_VISIT_POLICY): Promise<void> {
+  const tracked = await getOpenVisit();
+  if (tracked?.visitId) {
+    const remote = visits.find(visit => String(visit.id) === tracked.visitId);
+    if (remote && (remote.checkout_time || remote.auto_closed_at)) await closeOpenVisit();
+    return;
+  }
+
+  const open = visits.find(visit => visit.checkin_time && !visit.checkout_time && !visit.auto_closed_at);
+  if (!open) return;
+  await startOpenVisit({
+    visitId: String(open.id),
+    outletId: String(open.outlet.id),
+    outletName: `${open.outlet.code} • ${open.outlet.name}`,
+    outlet: { location: open.outlet.location, radius: open.outlet.radius, boundary: open.outlet.boundary },
+    checkinAt: parseServerTime(open.checkin_time) ?? Date.now(),
+  }, policy);
+}
@@ -0,0 +1,283 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+
+import { serverNow } from '@/services/server-clock';
+import { embedXmp, extractXmp } from '@/utils/jpeg-xmp';
+import { log } from '@/utils/logger';
+import { base64ToBytes, bytesToBase64, hmacSha256, sha256, toHex, utf8Encode } from '@/utils/sha256';
+
+const DEVICE_ID_KEY = 'device_install_id';
+const SIGNING_KEY_KEY = 'photo_signing_key';
+const XMP_NAMESPACE = 'https://app-sam/ns/photo-manifest/1.0/';
+
+export type PhotoManifestKind = 'CHECK_IN' | 'CHECK_OUT' | 'VISIT_PHOTO';
+
+/**
+ * Manifest yang ditandatangani untuk setiap foto kunjungan. Hash dihitung dari JPEG
+ * tanpa segment XMP, sehingga bisa diverifikasi ulang dari file yang sudah berisi manifest.
+ */
+export interface PhotoManifest {
+  version: 1;
+  kind: PhotoManifestKind;
+  image_sha256: string;
+  device_id: string;
+  // Null untuk foto check-in (visit belum dibuat)
+  visit_id: string | null;
+  outlet_id: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  mocked: boolean | null;
+  captured_at: string;
+  time_source: 'server' | 'device';
+  key_id: string | null;
+}
+
+export interface SignedPhotoManifest {
+  manifest: PhotoManifest;
+  // HMAC-SHA256 (hex) atas manifest kanonik; null jika perangkat belum punya kunci
+  signature: string | null;
+}
+
+// Kunci per perangkat yang diterbitkan backend; secret dalam base64
+export interface PhotoSigningKey {
+  key_id: string;
+  secret: string;
+}
+
+export interface PhotoManifestInput {
+  kind: PhotoManifestKind;
+  visitId?: string | number | null;
+  outletId?: string | number | null;
+  fix?: { latitude: number; longitude: number; accuracy?: number | null; mocked?: boolean } | null;
+}
+
+export type PhotoVerificationStatus =
+  | 'VALID'
+  | 'EDITED'
+  | 'REUSED'
+  | 'INVALID_SIGNATURE'
+  | 'UNSIGNED'
+  | 'UNVERIFIED'
+  | 'NO_MANIFEST';
+
+export interface PhotoVerification {
+  status: PhotoVerificationStatus;
+  manifest: PhotoManifest | null;
+  signature: string | null;
+  messages: string[];
+}
+
+export interface PhotoVerificationExpectation {
+  visitId?: string | number | null;
+  outletId?: string | number | null;
+}
+
+// Hasil cek backend: tanda tangan dengan kunci perangkat manapun + hash yang sudah pernah diupload
+export interface PhotoManifestVerification {
+  signature_valid: boolean;
+  // Kunjungan lain yang sudah memakai foto dengan hash yang sama
+  duplicate_visit_ids: (string | number)[];
+}
+
+export const PHOTO_VERIFICATION_LABELS: Record<PhotoVerificationStatus, string> = {
+  VALID: 'Asli',
+  EDITED: 'Foto diubah',
+  REUSED: 'Foto dipakai ulang',
+  INVALID_SIGNATURE: 'Tanda tangan tidak valid',
+  UNSIGNED: 'Tidak ditandatangani',
+  UNVERIFIED: 'Belum dapat diverifikasi',
+  NO_MANIFEST: 'Tanpa manifest',
+};
+
+// JSON dengan key terurut agar hasil tanda tangan sama di app dan backend
+export function canonicalizeManifest(manifest: PhotoManifest): string {
+  return JSON.stringify(
+    Object.keys(manifest).sort().reduce<Record<string, unknown>>((acc, key) => {
+      acc[key] = manifest[key as keyof PhotoManifest];
+      return acc;
+    }, {})
+  );
+}
+
+export function signManifest(manifest: PhotoManifest, key: PhotoSigningKey): string {
+  return toHex(hmacSha256(base64ToBytes(key.secret), utf8Encode(canonicalizeManifest(manifest))));
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
+export function buildManifestXmp(signed: SignedPhotoManifest): string {
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:sam="${XMP_NAMESPACE}"`,
+    ` sam:manifest="${escapeXml(canonicalizeManifest(signed.manifest))}"`,
+    ` sam:signature="${signed.signature ?? ''}"/>`,
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('');
+}
+
+export function parseManifestXmp(xmp: string): SignedPhotoManifest | null {
+  const manifest = xmp.match(/sam:manifest="([^"]*)"/);
+  if (!manifest) return null;
+  try {
+    const signature = xmp.match(/sam:signature="([^"]*)"/)?.[1] || null;
+    return { manifest: JSON.parse(unescapeXml(manifest[1])), signature };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Buat manifest untuk JPEG (hash dihitung dari foto tanpa XMP lama), tanda tangani
+ * dengan kunci perangkat jika ada, lalu sisipkan sebagai XMP. Tanpa kunci manifest
+ * tetap disisipkan dengan `signature` null.
+ */
+export function createSignedPhoto(
+  bytes: Uint8Array,
+  input: PhotoManifestInput,
+  context: { deviceId: string; key: PhotoSigningKey | null; now?: number }
+): { bytes: Uint8Array; signed: SignedPhotoManifest } {
+  const base = extractXmp(bytes).stripped;
+  const clock = serverNow(context.now);
+  const manifest: PhotoManifest = {
+    version: 1,
+    kind: input.kind,
+    image_sha256: toHex(sha256(base)),
+    device_id: context.deviceId,
+    visit_id: input.visitId != null && input.visitId !== '' ? String(input.visitId) : null,
+    outlet_id: input.outletId != null && input.outletId !== '' ? String(input.outletId) : null,
+    latitude: input.fix?.latitude ?? null,
+    longitude: input.fix?.longitude ?? null,
+    accuracy: input.fix?.accuracy ?? null,
+    mocked: input.fix?.mocked ?? null,
+    captured_at: new Date(clock.time).toISOString(),
+    time_source: clock.source,
+    key_id: context.key?.key_id ?? null,
+  };
+  const signed: SignedPhotoManifest = { manifest, signature: context.key ? signManifest(manifest, context.key) : null };
+  return { bytes: embedXmp(base, buildManifestXmp(signed)), signed };
+}
+
+/**
+ * Verifikasi lokal: foto diubah (hash), manifest diubah (tanda tangan) dan foto dari
+ * kunjungan/outlet lain. Tanda tangan perangkat lain hanya bisa dicek backend (UNVERIFIED).
+ */
+export function verifyPhotoBytes(
+  bytes: Uint8Array,
+  key: PhotoSigningKey | null,
+  expected: PhotoVerificationExpectation = {}
+): PhotoVerification {
+  const { xmp, stripped } = extractXmp(bytes);
+  const signed = xmp ? parseManifestXmp(xmp) : null;
+  if (!signed) {
+    return { status: 'NO_MANIFEST', manifest: null, signature: null, messages: ['Foto tidak memiliki manifest dari aplikasi.'] };
+  }
+
+  const { manifest, signature } = signed;
+  const result = (status: PhotoVerificationStatus, messages: string[]): PhotoVerification => ({ status, manifest, signature, messages });
+
+  if (toHex(sha256(stripped)) !== manifest.image_sha256) {
+    return result('EDITED', ['Isi foto tidak cocok dengan hash pada manifest (foto sudah diedit).']);
+  }
+  if (signature && key && manifest.key_id === key.key_id && signManifest(manifest, key) !== signature) {
+    return result('INVALID_SIGNATURE', ['Tanda tangan tidak cocok (manifest sudah diubah).']);
+  }
+
+  const reused: string[] = [];
+  if (expected.visitId != null && manifest.visit_id && manifest.visit_id !== String(expected.visitId)) {
+    reused.push(`Foto berasal dari kunjungan #${manifest.visit_id}.`);
+  }
+  if (expected.outletId != null && manifest.outlet_id && manifest.outlet_id !== String(expected.outletId)) {
+    reused.push(`Foto berasal dari outlet #${manifest.outlet_id}.`);
+  }
+  if (reused.length > 0) return result('REUSED', reused);
+
+  if (!signature) return result('UNSIGNED', ['Foto diambil sebelum perangkat memiliki kunci tanda tangan.']);
+  if (!key || manifest.key_id !== key.key_id) {
+    return result('UNVERIFIED', ['Foto ditandatangani perangkat lain; tanda tangan perlu dicek ke server.']);
+  }
+  return result('VALID', []);
+}
+
+/**
+ * Gabungkan hasil verifikasi lokal dengan hasil backend. Hash yang tidak cocok tetap EDITED.
+ */
+export function applyServerVerification(
+  local: PhotoVerification,
+  server: PhotoManifestVerification,
+  expected: PhotoVerificationExpectation = {}
+): PhotoVerification {
+  if (!local.manifest || local.status === 'EDITED' || local.status === 'NO_MANIFEST') return local;
+  if (local.signature && !server.signature_valid) {
+    return { ...local, status: 'INVALID_SIGNATURE', messages: ['Tanda tangan ditolak server (manifest sudah diubah).'] };
+  }
+  // Foto check-in belum punya visit_id di manifest, jadi kunjungan yang diharapkan juga dikecualikan
+  const ownVisitIds = [local.manifest.visit_id, expected.visitId != null ? String(expected.visitId) : null];
+  const duplicates = server.duplicate_visit_ids.map(String).filter(visitId => !ownVisitIds.includes(visitId));
+  if (duplicates.length > 0) {
+    const message = `Foto yang sama sudah dipakai di kunjungan #${duplicates.join(', #')}.`;
+    return { ...local, status: 'REUSED', messages: local.status === 'REUSED' ? [...local.messages, message] : [message] };
+  }
+  if (local.status === 'UNVERIFIED') return { ...local, status: 'VALID', messages: [] };
+  return local;
+}
+
+export async function getDeviceId(): Promise<string> {
+  const saved = await AsyncStorage.getItem(DEVICE_ID_KEY);
+  if (saved) return saved;
+  const random = toHex(sha256(utf8Encode(`${Date.now()}-${Math.random()}-${Math.random()}`))).slice(0, 32);
+  await AsyncStorage.setItem(DEVICE_ID_KEY, random);
+  return random;
+}
+
+// Secret HMAC cukup untuk memalsukan manifest, jadi disimpan di keychain/keystore, bukan AsyncStorage
+export async function getPhotoSigningKey(): Promise<PhotoSigningKey | null> {
+  try {
+    const raw = await SecureStore.getItemAsync(SIGNING_KEY_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    log('[PHOTO_MANIFEST] Failed to load signing key:', error);
+    return null;
+  }
+}
+
+export async function savePhotoSigningKey(key: PhotoSigningKey): Promise<void> {
+  await SecureStore.setItemAsync(SIGNING_KEY_KEY, JSON.stringify(key));
+  // Versi sebelumnya menyimpan key di AsyncStorage
+  await AsyncStorage.removeItem(SIGNING_KEY_KEY);
+}
+
+/**
+ * Tanda tangani file foto; hasilnya file baru di cache berisi manifest XMP.
+ * Harus menjadi langkah terakhir: kompresi ulang setelah ini membuat hash tidak cocok.
+ */
+export async function signPhotoFile(
+  uri: string,
+  input: PhotoManifestInput,
+  key: PhotoSigningKey | null
+): Promise<{ uri: string; signed: SignedPhotoManifest }> {
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  const { bytes, signed } = createSignedPhoto(base64ToBytes(base64), input, { deviceId: await getDeviceId(), key });
+  const target = `${FileSystem.cacheDirectory}signed-${Date.now()}-${signed.manifest.image_sha256.slice(0, 8)}.jpg`;
+  await FileSystem.writeAsStringAsync(target, bytesToBase64(bytes), { encoding: FileSystem.EncodingType.Base64 });
+  log('[PHOTO_MANIFEST] Signed', { kind: input.kind, hash: signed.manifest.image_sha256, signed: !!signed.signature });
+  return { uri: target, signed };
+}
+
+export async function verifyPhotoFile(
+  uri: string,
+  key: PhotoSigningKey | null,
+  expected: PhotoVerificationExpectation = {}
+): Promise<PhotoVerification> {
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  return verifyPhotoBytes(base64ToBytes(base64), key, expected);
+}
@@ -0,0 +1,220 @@
+import { parseServerTime } from '@/services/location-integrity';
+import { addDays, daysBetween, monthsInRange, parseDateKey, SchedulablePlan, startOfWeek, toDateKey } from '@/services/plan-schedule';
+import { getVisitDurationMinutes } from '@/services/visit-stats';
+import type { Visit, VisitListParams } from '@/types/visit';
+
+export type CompliancePeriod = 'day' | 'week' | 'month';
+
+export const COMPLIANCE_PERIODS: { key: CompliancePeriod; label: string }[] = [
+  { key: 'day', label: 'Hari' },
+  { key: 'week', label: 'Minggu' },
+  { key: 'month', label: 'Bulan' },
+];
+
+export interface PeriodRange {
+  from: string;
+  to: string;
+}
+
+export type CompliancePlan = SchedulablePlan & { outlet?: { name?: string; code?: string } | null };
+
+export type ComplianceVisit = Pick<
+  Visit,
+  'id' | 'visit_date' | 'checkin_time' | 'checkout_time' | 'auto_closed_at' | 'duration' | 'transaction'
+> & { outlet: { id: string | number; name?: string; code?: string } };
+
+export interface DailyCompliance {
+  date: string;
+  planned: number;
+  visited: number;
+  missed: number;
+  // Plan hari ini / mendatang yang belum dikunjungi (belum bisa dihitung terlewat)
+  pending: number;
+  extra: number;
+  visits: number;
+  productive: number;
+  // Menit sejak tengah malam
+  firstCheckIn: number | null;
+  lastCheckOut: number | null;
+}
+
+export interface ComplianceSummary {
+  planned: number;
+  visited: number;
+  missed: number;
+  pending: number;
+  extra: number;
+  totalVisits: number;
+  productiveVisits: number;
+  // Persentase 0-100, null jika belum ada data untuk dihitung
+  complianceRate: number | null;
+  strikeRate: number | null;
+  averageDurationMinutes: number | null;
+  averageFirstCheckIn: number | null;
+  averageLastCheckOut: number | null;
+  days: DailyCompliance[];
+  missedPlans: CompliancePlan[];
+  extraVisits: ComplianceVisit[];
+}
+
+const MONTH_FORMAT: Intl.DateTimeFormatOptions = { month: 'long', year: 'numeric' };
+
+export function getPeriodRange(period: CompliancePeriod, anchor: string): PeriodRange {
+  if (period === 'day') return { from: anchor, to: anchor };
+  if (period === 'week') {
+    const from = startOfWeek(anchor);
+    return { from, to: addDays(from, 6) };
+  }
+  const date = parseDateKey(anchor);
+  return {
+    from: toDateKey(new Date(date.getFullYear(), date.getMonth(), 1)),
+    to: toDateKey(new Date(date.getFullYear(), date.getMonth() + 1, 0)),
+  };
+}
+
+export function shiftPeriod(period: CompliancePeriod, anchor: string, step: number): string {
+  if (period === 'day') return addDays(anchor, step);
+  if (period === 'week') return addDays(anchor, step * 7);
+  const date = parseDateKey(anchor);
+  return toDateKey(new Date(date.getFullYear(), date.getMonth() + step, 1));
+}
+
+export function describePeriod(period: CompliancePeriod, range: PeriodRange): string {
+  const from = parseDateKey(range.from);
+  if (period === 'day') {
+    return from.toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  }
+  if (period === 'month') return from.toLocaleDateString('id-ID', MONTH_FORMAT);
+
+  const to = parseDateKey(range.to);
+  const start = from.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+  return `${start} – ${to.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+}
+
+/**
+ * Filter list visit untuk satu rentang: satu hari per tanggal, selain itu per bulan
+ * lengkap dengan tahunnya (minggu Desember–Januari mencakup dua tahun).
+ * Hasilnya tetap perlu disaring ke rentang tanggal oleh pemanggil.
+ */
+export function visitFiltersForRange(range: PeriodRange, userId?: string | number): VisitListParams[] {
+  const userFilter: VisitListParams = userId !== undefined ? { 'filters[user_id]': userId } : {};
+  if (range.from === range.to) return [{ ...userFilter, 'filters[date]': range.from }];
+  return monthsInRange(range.from, range.to).map(({ month, year }) => ({
+    ...userFilter,
+    'filters[month]': Number(month),
+    'filters[year]': Number(year),
+  }));
+}
+
+const minutesOfDay = (time: number) => {
+  const date = new Date(time);
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+const rate = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : null);
+
+/**
+ * Bandingkan plan dengan kunjungan aktual per hari dalam rentang.
+ * Plan dianggap terpenuhi jika outlet yang sama dikunjungi di tanggal plan; kunjungan
+ * ke outlet yang tidak di-plan hari itu dihitung sebagai extra call. Kepatuhan dihitung
+ * dari plan yang sudah jatuh tempo (dikunjungi + terlewat), dan strike rate dari
+ * kunjungan yang sudah punya hasil transaksi.
+ */
+export function computeCompliance(
+  plans: CompliancePlan[],
+  visits: ComplianceVisit[],
+  range: PeriodRange,
+  today: string = toDateKey(new Date())
+): ComplianceSummary {
+  const days: DailyCompliance[] = [];
+  const missedPlans: CompliancePlan[] = [];
+  const extraVisits: ComplianceVisit[] = [];
+  const inRange = (date: string) => date >= range.from && date <= range.to;
+  const periodPlans = plans.filter(plan => inRange(plan.visit_date.slice(0, 10)));
+  const periodVisits = visits.filter(visit => inRange(visit.visit_date.slice(0, 10)));
+
+  for (let i = 0; i <= daysBetween(range.from, range.to); i++) {
+    const date = addDays(range.from, i);
+    const dayVisits = periodVisits.filter(visit => visit.visit_date.slice(0, 10) === date);
+    const visitedOutlets = new Set(dayVisits.map(visit => String(visit.outlet.id)));
+
+    // Satu outlet hanya dihitung sekali walau ada plan ganda di hari yang sama
+    const dayPlans = new Map<string, CompliancePlan>();
+    periodPlans
+      .filter(plan => plan.visit_date.slice(0, 10) === date)
+      .forEach(plan => {
+        if (!dayPlans.has(String(plan.outlet_id))) dayPlans.set(String(plan.outlet_id), plan);
+      });
+
+    let visited = 0;
+    let missed = 0;
+    let pending = 0;
+    dayPlans.forEach((plan, outletId) => {
+      if (visitedOutlets.has(outletId)) {
+        visited++;
+      } else if (date < today) {
+        missed++;
+        missedPlans.push(plan);
+      } else {
+        pending++;
+      }
+    });
+
+    const extras = dayVisits.filter(visit => !dayPlans.has(String(visit.outlet.id)));
+    extraVisits.push(...extras);
+
+    const checkIns = dayVisits.map(visit => parseServerTime(visit.checkin_time)).filter((time): time is number => time !== null);
+    const checkOuts = dayVisits.map(visit => parseServerTime(visit.checkout_time)).filter((time): time is number => time !== null);
+
+    days.push({
+      date,
+      planned: dayPlans.size,
+      visited,
+      missed,
+      pending,
+      extra: extras.length,
+      visits: dayVisits.length,
+      productive: dayVisits.filter(visit => visit.transaction === 'YES').length,
+      firstCheckIn: checkIns.length > 0 ? minutesOfDay(Math.min(...checkIns)) : null,
+      lastCheckOut: checkOuts.length > 0 ? minutesOfDay(Math.max(...checkOuts)) : null,
+    });
+  }
+
+  const sum = (key: 'planned' | 'visited' | 'missed' | 'pending' | 'extra' | 'visits' | 'productive') =>
+    days.reduce((total, day) => total + day[key], 0);
+  const visited = sum('visited');
+  const missed = sum('missed');
+  const productiveVisits = sum('productive');
+  const withOutcome = periodVisits.filter(visit => visit.transaction === 'YES' || visit.transaction === 'NO').length;
+  const durations = periodVisits.map(getVisitDurationMinutes).filter((minutes): minutes is number => minutes !== null);
+
+  return {
+    planned: sum('planned'),
+    visited,
+    missed,
+    pending: sum('pending'),
+    extra: sum('extra'),
+    totalVisits: sum('visits'),
+    productiveVisits,
+    complianceRate: rate(visited, visited + missed),
+    strikeRate: rate(productiveVisits, withOutcome),
+    averageDurationMinutes: average(durations),
+    averageFirstCheckIn: average(days.map(day => day.firstCheckIn).filter((value): value is number => value !== null)),
+    averageLastCheckOut: average(days.map(day => day.lastCheckOut).filter((value): value is number => value !== null)),
+    days,
+    missedPlans,
+    extraVisits,
+  };
+}
+
+export function formatClock(minutes: number | null): string {
+  if (minutes === null) return '-';
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}.${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function formatRate(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value)}%`;
+}
@@ -0,0 +1,342 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as XLSX from 'xlsx';
+
+import { checkPlanDate, SchedulablePlan, toDateKey } from '@/services/plan-schedule';
+import type { CreatePlanVisitData } from '@/types/plan-visit';
+import { log } from '@/utils/logger';
+import { base64ToBytes, utf8Decode } from '@/utils/sha256';
+
+export type PlanImportField = 'outlet_code' | 'visit_date' | 'user';
+
+// Indeks kolom di file untuk tiap field; null berarti kolom tidak dipakai
+export type PlanImportMapping = Record<PlanImportField, number | null>;
+
+export const PLAN_IMPORT_FIELDS: { key: PlanImportField; label: string; required: boolean }[] = [
+  { key: 'outlet_code', label: 'Kode Outlet', required: true },
+  { key: 'visit_date', label: 'Tanggal', required: true },
+  { key: 'user', label: 'User', required: false },
+];
+
+export interface PlanImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PlanImportRow {
+  // Nomor baris di file (header = baris 1) agar mudah dicari di spreadsheet
+  row: number;
+  outlet_code: string;
+  date_text: string;
+  user: string;
+  visit_date: string | null;
+}
+
+export interface ImportOutletRef {
+  id: string | number;
+  code: string;
+  name: string;
+}
+
+export interface ImportUserRef {
+  id: string | number;
+  name: string;
+  username: string;
+}
+
+export type PlanImportStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ValidatedPlanRow extends PlanImportRow {
+  status: PlanImportStatus;
+  errors: string[];
+  outlet?: ImportOutletRef;
+  data?: CreatePlanVisitData;
+}
+
+export interface PlanImportLookups {
+  outlets: Map<string, ImportOutletRef>;
+  users?: Map<string, ImportUserRef>;
+  existing?: (SchedulablePlan & { user_id?: string | number })[];
+  today: string;
+}
+
+export interface PlanImportFailure {
+  row: number;
+  error: string;
+}
+
+const HEADER_ALIASES: Record<PlanImportField, string[]> = {
+  outlet_code: ['kode outlet', 'outlet code', 'kode', 'code', 'outlet'],
+  visit_date: ['tanggal', 'tanggal kunjungan', 'tanggal visit', 'visit date', 'date'],
+  user: ['user', 'username', 'user id', 'sales', 'salesman', 'nama sales'],
+};
+
+// Tanggal 0 pada serial tanggal Excel
+const EXCEL_EPOCH = { year: 1899, month: 11, day: 30 };
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const normalizeOutletCode = (value: string) => value.trim().toUpperCase();
+
+const normalizeUserKey = (value: string) => value.trim().toLowerCase();
+
+// File dari picker bisa apa saja: batasi ukuran sebelum di-parse
+export const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024;
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+// XLSX = arsip zip; XLS lama = dokumen OLE
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+/**
+ * Parser CSV sederhana (RFC 4180: kutip ganda, "" di dalam kutip, CRLF).
+ * Pemisah ditebak dari baris pertama: koma, titik koma (Excel locale Indonesia) atau tab.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+  return rows;
+}
+
+// Hanya sheet pertama, tanpa formula/HTML: SheetJS cukup membaca nilai sel
+function readXlsxTable(base64: string): unknown[][] {
+  const workbook = XLSX.read(base64, { type: 'base64', raw: true, sheets: 0, cellFormula: false, cellHTML: false });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName || !workbook.Sheets[sheetName]) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: false,
+  });
+}
+
+/**
+ * Baca sheet pertama dari file CSV/XLSX (base64). CSV dibaca sendiri sebagai teks
+ * apa adanya agar tanggal seperti 03/04/2026 tidak ditebak formatnya; hanya file XLSX
+ * (zip) yang diteruskan ke SheetJS. Tanggal di XLSX keluar sebagai serial Excel dan
+ * dinormalisasi di parseImportDate.
+ */
+export function parsePlanSheet(base64: string): PlanImportSheet {
+  const bytes = base64ToBytes(base64);
+  if (bytes.length > MAX_IMPORT_FILE_BYTES) {
+    throw new Error(`Ukuran file maksimal ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+  if (startsWith(bytes, OLE_SIGNATURE)) {
+    throw new Error('Format XLS lama tidak didukung. Simpan ulang sebagai XLSX atau CSV.');
+  }
+
+  const table = startsWith(bytes, ZIP_SIGNATURE) ? readXlsxTable(base64) : parseCsv(utf8Decode(bytes));
+  const cells = table
+    .map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell).trim())))
+    .filter(row => row.some(cell => cell !== ''));
+
+  const [headers = [], ...rows] = cells;
+  return { headers, rows };
+}
+
+export function guessPlanMapping(headers: string[]): PlanImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: PlanImportMapping = { outlet_code: null, visit_date: null, user: null };
+  const used = new Set<number>();
+
+  for (const field of PLAN_IMPORT_FIELDS) {
+    // Urutan alias = prioritas, jadi "kode outlet" menang atas kolom "outlet" (nama)
+    for (const alias of HEADER_ALIASES[field.key]) {
+      const index = normalized.findIndex((header, i) => header === alias && !used.has(i));
+      if (index >= 0) {
+        mapping[field.key] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+const buildDateKey = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+};
+
+/**
+ * Terima YYYY-MM-DD, DD/MM/YYYY (juga DD-MM-YYYY / DD.MM.YYYY) dan serial tanggal Excel.
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (match) return buildDateKey(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return buildDateKey(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = text.match(/^(\d{5})(?:\.\d+)?$/);
+  if (match) {
+    const date = new Date(EXCEL_EPOCH.year, EXCEL_EPOCH.month, EXCEL_EPOCH.day + Number(match[1]));
+    return toDateKey(date);
+  }
+  return null;
+}
+
+export function readPlanRows(sheet: PlanImportSheet, mapping: PlanImportMapping): PlanImportRow[] {
+  const cell = (row: string[], index: number | null) => (index === null ? '' : (row[index] ?? '').trim());
+
+  return sheet.rows.map((row, index) => {
+    const dateText = cell(row, mapping.visit_date);
+    return {
+      row: index + 2,
+      outlet_code: cell(row, mapping.outlet_code),
+      date_text: dateText,
+      user: cell(row, mapping.user),
+      visit_date: parseImportDate(dateText),
+    };
+  });
+}
+
+export function findImportUser(users: Map<string, ImportUserRef>, value: string): ImportUserRef | undefined {
+  const key = normalizeUserKey(value);
+  if (users.has(key)) return users.get(key);
+  for (const user of users.values()) {
+    if (String(user.id) === value.trim() || normalizeUserKey(user.username) === key || normalizeUserKey(user.name) === key) {
+      return user;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validasi tiap baris: outlet & user harus ditemukan, tanggal valid dan belum lewat.
+ * Baris yang sama (outlet + tanggal + user) dengan baris sebelumnya atau dengan plan
+ * yang sudah ada ditandai duplikat dan tidak ikut dibuat.
+ */
+export function validatePlanRows(rows: PlanImportRow[], lookups: PlanImportLookups): ValidatedPlanRow[] {
+  const seen = new Map<string, number>();
+
+  return rows.map(row => {
+    const errors: string[] = [];
+    const outlet = row.outlet_code ? lookups.outlets.get(normalizeOutletCode(row.outlet_code)) : undefined;
+
+    if (!row.outlet_code) errors.push('Kode outlet kosong');
+    else if (!outlet) errors.push(`Outlet dengan kode ${row.outlet_code} tidak ditemukan`);
+
+    if (!row.date_text) errors.push('Tanggal kosong');
+    else if (!row.visit_date) errors.push(`Format tanggal "${row.date_text}" tidak dikenali`);
+    else if (row.visit_date < lookups.today) errors.push('Tanggal sudah lewat');
+
+    let user: ImportUserRef | undefined;
+    if (row.user) {
+      user = lookups.users ? findImportUser(lookups.users, row.user) : undefined;
+      if (!user) errors.push(`User ${row.user} tidak ditemukan`);
+    }
+
+    if (errors.length > 0 || !outlet || !row.visit_date) {
+      return { ...row, status: 'invalid' as const, errors, outlet };
+    }
+
+    const data: CreatePlanVisitData = { outlet_id: outlet.id, visit_date: row.visit_date };
+    if (user) data.user_id = user.id;
+
+    const key = `${outlet.id}|${row.visit_date}|${user ? user.id : ''}`;
+    const firstRow = seen.get(key);
+    if (firstRow !== undefined) {
+      return { ...row, status: 'duplicate' as const, errors: [`Duplikat dengan baris ${firstRow}`], outlet, data };
+    }
+    seen.set(key, row.row);
+
+    const existing = (lookups.existing ?? []).filter(plan => !user || plan.user_id === undefined || String(plan.user_id) === String(user.id));
+    if (checkPlanDate(existing, data).duplicate) {
+      return { ...row, status: 'duplicate' as const, errors: ['Plan untuk outlet ini sudah ada di tanggal tersebut'], outlet, data };
+    }
+
+    return { ...row, status: 'valid' as const, errors: [], outlet, data };
+  });
+}
+
+export function summarizePlanImport(rows: ValidatedPlanRow[]): Record<PlanImportStatus, number> {
+  const summary: Record<PlanImportStatus, number> = { valid: 0, invalid: 0, duplicate: 0 };
+  rows.forEach(row => {
+    summary[row.status]++;
+  });
+  return summary;
+}
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const STATUS_LABELS: Record<PlanImportStatus | 'failed', string> = {
+  valid: 'Valid',
+  invalid: 'Tidak valid',
+  duplicate: 'Duplikat',
+  failed: 'Gagal dibuat',
+};
+
+/**
+ * Laporan CSV berisi baris yang tidak valid, duplikat, dan yang ditolak server saat dibuat.
+ */
+export function buildImportErrorReport(rows: ValidatedPlanRow[], failures: PlanImportFailure[] = []): string {
+  const failedByRow = new Map(failures.map(failure => [failure.row, failure.error]));
+  const lines = [['Baris', 'Kode Outlet', 'Tanggal', 'User', 'Status', 'Keterangan'].join(',')];
+
+  rows.forEach(row => {
+    const failure = failedByRow.get(row.row);
+    if (row.status === 'valid' && failure === undefined) return;
+
+    const status = failure !== undefined ? 'failed' : row.status;
+    const message = failure !== undefined ? failure : row.errors.join('; ');
+    lines.push([row.row, row.outlet_code, row.date_text, row.user, STATUS_LABELS[status], message].map(escapeCsv).join(','));
+  });
+  return lines.join('\n');
+}
+
+export async function shareImportErrorReport(csv: string): Promise<boolean> {
+  const uri = `${FileSystem.cacheDirectory}plan-import-errors-${Date.now()}.csv`;
+  await FileSystem.writeAsStringAsync(uri, csv);
+  log('[PLAN_IMPORT] error report written', { uri });
+
+  if (!(await Sharing.isAvailableAsync())) return false;
+  await Sharing.shareAsync(uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: 'Laporan Error Import Plan Visit',
+  });
+  return true;
+}
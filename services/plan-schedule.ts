@@ -0,0 +1,233 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { log } from '@/utils/logger';
+
+const STORAGE_KEY = 'plan_templates';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Jumlah plan per hari di atas batas ini ditandai overload
+export const DAILY_PLAN_LIMIT = 12;
+
+// Indeks mengikuti Date.getDay(): 0 = Minggu
+export const WEEKDAY_LABELS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+export const WEEKDAY_SHORT_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+/**
+ * Jadwal berulang satu outlet, mis. setiap Selasa atau setiap 2 minggu pada Senin & Kamis.
+ * Disimpan di perangkat; plan visit konkret dibuat dari template lewat POST /plan-visits.
+ */
+export interface PlanTemplate {
+  id: string;
+  outlet_id: string | number;
+  outlet_name: string;
+  outlet_code: string;
+  weekdays: number[];
+  interval_weeks: number;
+  // Minggu pertama siklus dihitung dari minggu tanggal ini
+  start_date: string;
+  created_at: number;
+}
+
+// Bentuk minimum plan untuk pengecekan bentrok/overload
+export interface SchedulablePlan {
+  id?: string | number;
+  outlet_id: string | number;
+  visit_date: string;
+  outlet?: { name?: string } | null;
+}
+
+export interface PlanDayWarning {
+  count: number;
+  overloaded: boolean;
+  // Nama outlet yang dijadwalkan lebih dari sekali pada hari yang sama
+  duplicates: string[];
+}
+
+export interface TemplatePlanPreview {
+  date: string;
+  // Outlet sudah punya plan di tanggal ini: dilewati saat generate
+  duplicate: boolean;
+  // Jumlah plan hari itu setelah plan ini ditambahkan
+  dayCount: number;
+  overloaded: boolean;
+}
+
+// ---- Tanggal lokal (YYYY-MM-DD) ----
+
+export function toDateKey(date: Date): string {
+  const yyyy = date.getFullYear();
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function parseDateKey(key: string): Date {
+  const [yyyy, mm, dd] = key.slice(0, 10).split('-').map(Number);
+  return new Date(yyyy, mm - 1, dd);
+}
+
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+// Selisih hari kalender (aman terhadap pergantian jam DST)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY_MS);
+}
+
+// Minggu dimulai hari Senin
+export function startOfWeek(key: string): string {
+  const day = parseDateKey(key).getDay();
+  return addDays(key, -((day + 6) % 7));
+}
+
+export function weekDates(key: string): string[] {
+  const start = startOfWeek(key);
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+}
+
+/**
+ * Tanggal untuk grid bulan: minggu penuh (Senin-Minggu) yang memuat seluruh bulan.
+ */
+export function monthGrid(year: number, month: number): string[] {
+  const first = toDateKey(new Date(year, month, 1));
+  const last = toDateKey(new Date(year, month + 1, 0));
+  const start = startOfWeek(first);
+  const end = addDays(startOfWeek(last), 6);
+  return Array.from({ length: daysBetween(start, end) + 1 }, (_, index) => addDays(start, index));
+}
+
+/**
+ * Bulan yang tercakup rentang tanggal, dalam format filter `month`/`year` list plan visit.
+ */
+export function monthsInRange(from: string, to: string): { month: string; year: string }[] {
+  const months: { month: string; year: string }[] = [];
+  const cursor = parseDateKey(from);
+  cursor.setDate(1);
+  const end = parseDateKey(to);
+  while (cursor <= end) {
+    months.push({ month: String(cursor.getMonth() + 1).padStart(2, '0'), year: String(cursor.getFullYear()) });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return months;
+}
+
+export function groupPlansByDate<T extends SchedulablePlan>(plans: T[]): Record<string, T[]> {
+  return plans.reduce<Record<string, T[]>>((groups, plan) => {
+    const key = plan.visit_date.slice(0, 10);
+    (groups[key] ??= []).push(plan);
+    return groups;
+  }, {});
+}
+
+// ---- Template berulang ----
+
+export function describeTemplate(template: Pick<PlanTemplate, 'weekdays' | 'interval_weeks'>): string {
+  // Urutan Senin..Minggu
+  const days = [...template.weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map(day => WEEKDAY_LABELS[day]);
+  if (days.length === 0) return '-';
+  const list = days.length > 1 ? `${days.slice(0, -1).join(', ')} & ${days[days.length - 1]}` : days[0];
+  return template.interval_weeks > 1 ? `Setiap ${template.interval_weeks} minggu pada ${list}` : `Setiap ${list}`;
+}
+
+/**
+ * Tanggal konkret dari template dalam rentang [from, to]. Minggu siklus dihitung
+ * dari minggu `start_date`, dan tanggal sebelum `start_date` tidak ikut.
+ */
+export function generateTemplateDates(template: Pick<PlanTemplate, 'weekdays' | 'interval_weeks' | 'start_date'>, from: string, to: string): string[] {
+  const interval = Math.max(1, Math.floor(template.interval_weeks));
+  const cycleStart = startOfWeek(template.start_date);
+  const first = from > template.start_date ? from : template.start_date;
+  const dates: string[] = [];
+
+  for (let key = first; key <= to; key = addDays(key, 1)) {
+    const week = Math.floor(daysBetween(cycleStart, key) / 7);
+    if (week % interval === 0 && template.weekdays.includes(parseDateKey(key).getDay())) dates.push(key);
+  }
+  return dates;
+}
+
+/**
+ * Peringatan per hari: jumlah plan melebihi batas, atau outlet yang dijadwalkan dobel.
+ */
+export function getDayWarnings(plans: SchedulablePlan[], limit: number = DAILY_PLAN_LIMIT): Record<string, PlanDayWarning> {
+  const warnings: Record<string, PlanDayWarning> = {};
+  Object.entries(groupPlansByDate(plans)).forEach(([date, dayPlans]) => {
+    const seen = new Map<string, number>();
+    dayPlans.forEach(plan => seen.set(String(plan.outlet_id), (seen.get(String(plan.outlet_id)) ?? 0) + 1));
+    const duplicates = Array.from(seen.entries())
+      .filter(([, count]) => count > 1)
+      .map(([outletId]) => dayPlans.find(plan => String(plan.outlet_id) === outletId)?.outlet?.name || `Outlet #${outletId}`);
+    warnings[date] = { count: dayPlans.length, overloaded: dayPlans.length > limit, duplicates };
+  });
+  return warnings;
+}
+
+/**
+ * Cek sebelum memindahkan/menambah plan ke suatu tanggal. Plan yang sedang
+ * dipindahkan (id sama) tidak dihitung.
+ */
+export function checkPlanDate(plans: SchedulablePlan[], candidate: SchedulablePlan, limit: number = DAILY_PLAN_LIMIT) {
+  const date = candidate.visit_date.slice(0, 10);
+  const dayPlans = plans.filter(plan =>
+    plan.visit_date.slice(0, 10) === date && (candidate.id === undefined || String(plan.id) !== String(candidate.id))
+  );
+  const count = dayPlans.length + 1;
+  return {
+    duplicate: dayPlans.some(plan => String(plan.outlet_id) === String(candidate.outlet_id)),
+    count,
+    overloaded: count > limit,
+  };
+}
+
+export function previewTemplatePlans(
+  template: PlanTemplate,
+  from: string,
+  to: string,
+  existing: SchedulablePlan[],
+  limit: number = DAILY_PLAN_LIMIT
+): TemplatePlanPreview[] {
+  return generateTemplateDates(template, from, to).map(date => {
+    const { duplicate, count, overloaded } = checkPlanDate(existing, { outlet_id: template.outlet_id, visit_date: date }, limit);
+    return { date, duplicate, dayCount: duplicate ? count - 1 : count, overloaded: !duplicate && overloaded };
+  });
+}
+
+// ---- Penyimpanan template ----
+
+export function createPlanTemplate(data: Omit<PlanTemplate, 'id' | 'created_at'>): PlanTemplate {
+  return {
+    ...data,
+    weekdays: [...new Set(data.weekdays)].sort((a, b) => a - b),
+    id: `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    created_at: Date.now(),
+  };
+}
+
+export async function getPlanTemplates(): Promise<PlanTemplate[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    log('[PLAN_TEMPLATE] Failed to load templates:', error);
+    return [];
+  }
+}
+
+export async function savePlanTemplate(template: PlanTemplate): Promise<PlanTemplate[]> {
+  const templates = (await getPlanTemplates()).filter(item => item.id !== template.id);
+  const next = [template, ...templates];
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  log('[PLAN_TEMPLATE] Template saved', { id: template.id, outlet_id: template.outlet_id });
+  return next;
+}
+
+export async function deletePlanTemplate(id: string): Promise<PlanTemplate[]> {
+  const next = (await getPlanTemplates()).filter(item => item.id !== id);
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { QueryParams } from '@/types/common';
+import { log } from '@/utils/logger';
+
+const QUERY_CACHE_STORAGE_KEY = 'query_cache';
+const PERSIST_DELAY = 1000;
+
+// Persisted entries older than this are dropped on hydrate instead of shown as stale data
+const MAX_PERSISTED_AGE = 7 * 24 * 60 * 60 * 1000;
+
+export const QUERY_TTL = {
+  SHORT: 60 * 1000,
+  DEFAULT: 5 * 60 * 1000,
+  REFERENCE: 24 * 60 * 60 * 1000,
+} as const;
+
+export interface QueryEntry<T = any> {
+  data: T;
+  updatedAt: number;
+  staleAt: number;
+}
+
+export interface FetchQueryOptions {
+  ttl?: number;
+  // Skip the fresh-cache shortcut (pull-to-refresh); in-flight requests are still shared
+  force?: boolean;
+}
+
+type QueryListener = (entry: QueryEntry | undefined) => void;
+
+const entries = new Map<string, QueryEntry>();
+const inflight = new Map<string, Promise<any>>();
+const listeners = new Map<string, Set<QueryListener>>();
+
+let hydration: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Key cache = path + query string yang sudah dinormalisasi (urutan key diurutkan),
+ * sehingga `{ page: 1, search: 'a' }` dan `{ search: 'a', page: 1 }` berbagi entry.
+ * Prefix path dipakai untuk invalidasi (mis. `/plan-visits`).
+ */
+export function queryKey(path: string, params?: QueryParams): string {
+  if (!params) return path;
+  const normalized = Object.keys(params)
+    .sort()
+    .filter(key => params[key] !== undefined && params[key] !== null && params[key] !== '')
+    .map(key => `${key}=${JSON.stringify(params[key])}`)
+    .join('&');
+  return normalized ? `${path}?${normalized}` : path;
+}
+
+export const isQueryStale = (entry: QueryEntry | undefined) => !entry || Date.now() >= entry.staleAt;
+
+function notify(key: string) {
+  const entry = entries.get(key);
+  listeners.get(key)?.forEach(listener => listener(entry));
+}
+
+function schedulePersist() {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const snapshot = Object.fromEntries(entries);
+    AsyncStorage.setItem(QUERY_CACHE_STORAGE_KEY, JSON.stringify(snapshot)).catch(error => {
+      log('[QUERY_CACHE] Failed to persist cache:', error);
+    });
+  }, PERSIST_DELAY);
+}
+
+/**
+ * Muat cache terakhir dari AsyncStorage (sekali per sesi) agar layar bisa
+ * langsung menampilkan data terakhir sambil revalidate di background.
+ */
+export function hydrateQueryCache(): Promise<void> {
+  if (!hydration) {
+    hydration = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(QUERY_CACHE_STORAGE_KEY);
+        const persisted: Record<string, QueryEntry> = stored ? JSON.parse(stored) : {};
+        const now = Date.now();
+        Object.entries(persisted).forEach(([key, entry]) => {
+          // Data dari network yang lebih baru menang
+          if (entries.has(key) || !entry || now - entry.updatedAt > MAX_PERSISTED_AGE) return;
+          entries.set(key, entry);
+          notify(key);
+        });
+        log('[QUERY_CACHE] Hydrated entries:', entries.size);
+      } catch (error) {
+        log('[QUERY_CACHE] Failed to hydrate cache:', error);
+      }
+    })();
+  }
+  return hydration;
+}
+
+export function peekQuery<T>(key: string): QueryEntry<T> | undefined {
+  return entries.get(key);
+}
+
+export function setQueryData<T>(key: string, data: T, ttl: number = QUERY_TTL.DEFAULT) {
+  const now = Date.now();
+  entries.set(key, { data, updatedAt: now, staleAt: now + ttl });
+  notify(key);
+  schedulePersist();
+}
+
+/**
+ * Ambil data untuk key: pakai cache selama belum stale, selain itu panggil fetcher.
+ * Request yang sedang berjalan untuk key yang sama dipakai bersama (de-dupe).
+ */
+export function fetchQuery<T>(key: string, fetcher: () => Promise<T>, options: FetchQueryOptions = {}): Promise<T> {
+  const { ttl = QUERY_TTL.DEFAULT, force = false } = options;
+
+  const entry = entries.get(key);
+  if (!force && entry && !isQueryStale(entry)) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const request = fetcher()
+    .then(data => {
+      setQueryData(key, data, ttl);
+      return data;
+    })
+    .finally(() => {
+      inflight.delete(key);
+    });
+  inflight.set(key, request);
+  return request;
+}
+
+/**
+ * Tandai semua entry dengan prefix tertentu sebagai stale. Data lama tetap
+ * ditampilkan, subscriber aktif diberi tahu supaya melakukan revalidate.
+ */
+export function invalidateQueries(prefix: string) {
+  entries.forEach((entry, key) => {
+    if (key === prefix || key.startsWith(`${prefix}?`) || key.startsWith(`${prefix}/`)) {
+      entries.set(key, { ...entry, staleAt: 0 });
+      notify(key);
+    }
+  });
+  schedulePersist();
+}
+
+export function subscribeQuery(key: string, listener: QueryListener): () => void {
+  if (!listeners.has(key)) listeners.set(key, new Set());
+  listeners.get(key)!.add(listener);
+  return () => {
+    const keyListeners = listeners.get(key);
+    keyListeners?.delete(listener);
+    if (keyListeners && keyListeners.size === 0) listeners.delete(key);
+  };
+}
+
+// Dipanggil saat logout: data cache milik user sebelumnya tidak boleh terbawa
+export async function clearQueryCache(): Promise<void> {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  entries.clear();
+  inflight.clear();
+  hydration = Promise.resolve();
+  try {
+    await AsyncStorage.removeItem(QUERY_CACHE_STORAGE_KEY);
+  } catch (error) {
+    log('[QUERY_CACHE] Failed to clear cache:', error);
+  }
+}
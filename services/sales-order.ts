@@ -0,0 +1,153 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Product, ProductUnit } from '@/types/product';
+import { log } from '@/utils/logger';
+
+const STORAGE_KEY = 'sales_order_drafts';
+
+/**
+ * Satu baris order: harga disimpan saat produk ditambahkan agar total draft
+ * tidak berubah walau katalog di-refresh.
+ */
+export interface OrderLine {
+  productId: string;
+  productCode: string;
+  productName: string;
+  unit: string;
+  price: number;
+  quantity: number;
+  // Diskon dalam persen (0-100)
+  discount: number;
+}
+
+export interface OrderDraft {
+  visitId: string;
+  lines: OrderLine[];
+  notes: string;
+  updatedAt: number;
+}
+
+export interface OrderTotals {
+  items: number;
+  quantity: number;
+  gross: number;
+  discount: number;
+  total: number;
+}
+
+// Payload `order` yang dikirim bersama check-out
+export interface OrderPayload {
+  lines: {
+    product_id: string;
+    unit: string;
+    quantity: number;
+    price: number;
+    discount_percent: number;
+    subtotal: number;
+  }[];
+  notes: string | null;
+  total_gross: number;
+  total_discount: number;
+  total: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function formatRupiah(value: number): string {
+  return `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+}
+
+export function createOrderDraft(visitId: string | number): OrderDraft {
+  return { visitId: String(visitId), lines: [], notes: '', updatedAt: Date.now() };
+}
+
+export function calculateLineTotal(line: Pick<OrderLine, 'price' | 'quantity' | 'discount'>) {
+  const gross = round(line.price * line.quantity);
+  const discount = round(gross * Math.min(Math.max(line.discount, 0), 100) / 100);
+  return { gross, discount, net: round(gross - discount) };
+}
+
+export function calculateOrderTotals(lines: OrderLine[]): OrderTotals {
+  return lines.reduce<OrderTotals>((totals, line) => {
+    const { gross, discount, net } = calculateLineTotal(line);
+    return {
+      items: totals.items + 1,
+      quantity: totals.quantity + line.quantity,
+      gross: round(totals.gross + gross),
+      discount: round(totals.discount + discount),
+      total: round(totals.total + net),
+    };
+  }, { items: 0, quantity: 0, gross: 0, discount: 0, total: 0 });
+}
+
+/**
+ * Tambah produk ke order; produk + satuan yang sama cukup menambah quantity.
+ */
+export function addOrderLine(lines: OrderLine[], product: Product, unit: ProductUnit = product.units[0]): OrderLine[] {
+  const productId = String(product.id);
+  const existing = lines.find(line => line.productId === productId && line.unit === unit.name);
+  if (existing) {
+    return lines.map(line => line === existing ? { ...line, quantity: line.quantity + 1 } : line);
+  }
+  return [...lines, {
+    productId,
+    productCode: product.code,
+    productName: product.name,
+    unit: unit.name,
+    price: unit.price,
+    quantity: 1,
+    discount: 0,
+  }];
+}
+
+export function buildOrderPayload(draft: OrderDraft): OrderPayload {
+  const totals = calculateOrderTotals(draft.lines);
+  return {
+    lines: draft.lines.map(line => ({
+      product_id: line.productId,
+      unit: line.unit,
+      quantity: line.quantity,
+      price: line.price,
+      discount_percent: line.discount,
+      subtotal: calculateLineTotal(line).net,
+    })),
+    notes: draft.notes.trim() || null,
+    total_gross: totals.gross,
+    total_discount: totals.discount,
+    total: totals.total,
+  };
+}
+
+async function readDrafts(): Promise<Record<string, OrderDraft>> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    log('[SALES_ORDER] Failed to load drafts:', error);
+    return {};
+  }
+}
+
+export async function getOrderDraft(visitId: string | number): Promise<OrderDraft | null> {
+  const drafts = await readDrafts();
+  return drafts[String(visitId)] ?? null;
+}
+
+/**
+ * Simpan draft order di perangkat sampai kunjungan di-check-out.
+ */
+export async function saveOrderDraft(draft: OrderDraft): Promise<OrderDraft> {
+  const drafts = await readDrafts();
+  const saved = { ...draft, updatedAt: Date.now() };
+  drafts[saved.visitId] = saved;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  log('[SALES_ORDER] Draft saved', { visitId: saved.visitId, lines: saved.lines.length });
+  return saved;
+}
+
+export async function clearOrderDraft(visitId: string | number): Promise<void> {
+  const drafts = await readDrafts();
+  if (!drafts[String(visitId)]) return;
+  delete drafts[String(visitId)];
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+}
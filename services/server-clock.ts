@@ -0,0 +1,32 @@
+/**
+ * Selisih jam perangkat terhadap server, dihitung dari header `Date` setiap respons API.
+ * Dipakai agar waktu pada manifest foto tidak bergantung pada jam HP yang bisa diubah user.
+ */
+
+let offsetMs: number | null = null;
+let syncedAt: number | null = null;
+
+export function recordServerDate(header: string | null | undefined, requestStartedAt: number, receivedAt: number = Date.now()) {
+  if (!header) return;
+  const serverTime = Date.parse(header);
+  if (Number.isNaN(serverTime)) return;
+  // Header Date hanya presisi detik; anggap dibuat di tengah round-trip
+  offsetMs = serverTime - (requestStartedAt + receivedAt) / 2;
+  syncedAt = receivedAt;
+}
+
+export function getServerClock(): { offsetMs: number | null; syncedAt: number | null } {
+  return { offsetMs, syncedAt };
+}
+
+/**
+ * Waktu server perkiraan; `source: 'device'` jika belum pernah sinkron di sesi ini.
+ */
+export function serverNow(now: number = Date.now()): { time: number; source: 'server' | 'device' } {
+  return offsetMs === null ? { time: now, source: 'device' } : { time: Math.round(now + offsetMs), source: 'server' };
+}
+
+export function resetServerClock() {
+  offsetMs = null;
+  syncedAt = null;
+}
@@ -0,0 +1,220 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+
+import type { VisitOutboxPhoto } from '@/services/visit-outbox';
+import { log } from '@/utils/logger';
+
+const STORAGE_KEY = 'stock_audit_drafts';
+const PHOTO_DIRECTORY = `${FileSystem.documentDirectory}stock-audit/`;
+
+export type StockAuditFieldType = 'boolean' | 'number';
+export type StockAuditValue = boolean | number | null;
+
+export interface StockAuditField {
+  key: string;
+  label: string;
+  type: StockAuditFieldType;
+  required?: boolean;
+}
+
+/**
+ * SKU dalam checklist audit. Backend menyesuaikan daftar dengan divisi/cluster outlet
+ * dan boleh mengirim field sendiri per SKU.
+ */
+export interface StockAuditItem {
+  id: string | number;
+  code: string;
+  name: string;
+  shelf?: string | null;
+  fields?: StockAuditField[] | null;
+}
+
+export const DEFAULT_STOCK_AUDIT_FIELDS: StockAuditField[] = [
+  { key: 'available', label: 'Tersedia di rak', type: 'boolean', required: true },
+  { key: 'facings', label: 'Facing', type: 'number' },
+  { key: 'stock', label: 'Stok', type: 'number' },
+];
+
+const DEFAULT_SHELF = 'Rak Utama';
+
+export interface StockAuditDraft {
+  visitId: string;
+  // Nilai per SKU: values[itemId][fieldKey]
+  values: Record<string, Record<string, StockAuditValue>>;
+  // Foto opsional per rak: shelfPhotos[shelf] = uri lokal
+  shelfPhotos: Record<string, string>;
+  updatedAt: number;
+}
+
+export interface StockAuditShelf {
+  name: string;
+  items: StockAuditItem[];
+}
+
+// Payload `stock_audit` yang dikirim bersama check-out; foto rak dikirim sebagai file terpisah
+export interface StockAuditPayload {
+  items: { sku_id: string; values: Record<string, StockAuditValue> }[];
+  shelves: { name: string; photo_field: string | null }[];
+}
+
+// Hasil audit yang dikembalikan backend pada detail visit
+export interface VisitStockAudit {
+  items: (Pick<StockAuditItem, 'code' | 'name' | 'shelf' | 'fields'> & {
+    sku_id: string | number;
+    values: Record<string, StockAuditValue>;
+  })[];
+  shelves: { name: string; photo_url: string | null }[];
+}
+
+export function createStockAuditDraft(visitId: string | number): StockAuditDraft {
+  return { visitId: String(visitId), values: {}, shelfPhotos: {}, updatedAt: Date.now() };
+}
+
+export function getStockAuditFields(item: StockAuditItem): StockAuditField[] {
+  return item.fields?.length ? item.fields : DEFAULT_STOCK_AUDIT_FIELDS;
+}
+
+export function getShelfName(item: StockAuditItem): string {
+  return item.shelf?.trim() || DEFAULT_SHELF;
+}
+
+/**
+ * Kelompokkan SKU per rak dengan urutan sesuai checklist.
+ */
+export function groupStockAuditByShelf(items: StockAuditItem[]): StockAuditShelf[] {
+  const shelves = new Map<string, StockAuditItem[]>();
+  items.forEach(item => {
+    const name = getShelfName(item);
+    shelves.set(name, [...(shelves.get(name) ?? []), item]);
+  });
+  return Array.from(shelves, ([name, shelfItems]) => ({ name, items: shelfItems }));
+}
+
+export function setStockAuditValue(
+  draft: StockAuditDraft,
+  itemId: string | number,
+  key: string,
+  value: StockAuditValue
+): StockAuditDraft {
+  const id = String(itemId);
+  return { ...draft, values: { ...draft.values, [id]: { ...draft.values[id], [key]: value } } };
+}
+
+export function isStockAuditStarted(draft: StockAuditDraft | null): boolean {
+  if (!draft) return false;
+  return Object.keys(draft.shelfPhotos).length > 0 ||
+    Object.values(draft.values).some(values => Object.values(values).some(value => value !== null && value !== undefined));
+}
+
+/**
+ * Field wajib yang belum diisi, sebagai pesan siap tampil.
+ */
+export function validateStockAudit(items: StockAuditItem[], draft: StockAuditDraft): string[] {
+  const missing: string[] = [];
+  items.forEach(item => {
+    const values = draft.values[String(item.id)] ?? {};
+    getStockAuditFields(item).forEach(field => {
+      const value = values[field.key];
+      if (field.required && (value === null || value === undefined)) {
+        missing.push(`${item.name}: ${field.label}`);
+      }
+    });
+  });
+  return missing;
+}
+
+export function countStockAuditProgress(items: StockAuditItem[], draft: StockAuditDraft | null) {
+  const done = items.filter(item => {
+    const values = draft?.values[String(item.id)] ?? {};
+    return getStockAuditFields(item).every(field => !field.required || (values[field.key] !== null && values[field.key] !== undefined));
+  }).length;
+  return { done, total: items.length };
+}
+
+const photoField = (index: number) => `stock_audit_photos[${index}]`;
+
+export function buildStockAuditPayload(items: StockAuditItem[], draft: StockAuditDraft): StockAuditPayload {
+  const shelvesWithPhoto = Object.keys(draft.shelfPhotos);
+  return {
+    items: items
+      .filter(item => draft.values[String(item.id)])
+      .map(item => ({ sku_id: String(item.id), values: draft.values[String(item.id)] })),
+    shelves: groupStockAuditByShelf(items).map(shelf => {
+      const index = shelvesWithPhoto.indexOf(shelf.name);
+      return { name: shelf.name, photo_field: index >= 0 ? photoField(index) : null };
+    }),
+  };
+}
+
+/**
+ * Foto rak sebagai file tambahan di request check-out yang sama dengan `stock_audit`;
+ * nama field-nya dirujuk lewat `photo_field` di payload.
+ */
+export function stockAuditAttachments(draft: StockAuditDraft): VisitOutboxPhoto[] {
+  return Object.values(draft.shelfPhotos).map((uri, index) => ({
+    field: photoField(index),
+    uri,
+    name: `stock-audit-${draft.visitId}-${index}.jpg`,
+    type: 'image/jpeg',
+  }));
+}
+
+async function readDrafts(): Promise<Record<string, StockAuditDraft>> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    log('[STOCK_AUDIT] Failed to load drafts:', error);
+    return {};
+  }
+}
+
+export async function getStockAuditDraft(visitId: string | number): Promise<StockAuditDraft | null> {
+  const drafts = await readDrafts();
+  return drafts[String(visitId)] ?? null;
+}
+
+export async function saveStockAuditDraft(draft: StockAuditDraft): Promise<StockAuditDraft> {
+  const drafts = await readDrafts();
+  const saved = { ...draft, updatedAt: Date.now() };
+  drafts[saved.visitId] = saved;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  log('[STOCK_AUDIT] Draft saved', { visitId: saved.visitId, items: Object.keys(saved.values).length });
+  return saved;
+}
+
+/**
+ * Salin foto rak dari cache kamera agar tidak dihapus OS sebelum check-out.
+ */
+export async function persistShelfPhoto(visitId: string, shelf: string, uri: string): Promise<string> {
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(PHOTO_DIRECTORY);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(PHOTO_DIRECTORY, { intermediates: true });
+    }
+    const target = `${PHOTO_DIRECTORY}${visitId}-${Date.now()}-${shelf.replace(/[^a-z0-9]/gi, '_')}.jpg`;
+    await FileSystem.copyAsync({ from: uri, to: target });
+    return target;
+  } catch (error) {
+    log('[STOCK_AUDIT] Failed to persist shelf photo, keeping original uri:', error);
+    return uri;
+  }
+}
+
+export async function deleteShelfPhoto(uri: string): Promise<void> {
+  if (!uri.startsWith(PHOTO_DIRECTORY)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    log('[STOCK_AUDIT] Failed to delete shelf photo:', error);
+  }
+}
+
+export async function clearStockAuditDraft(visitId: string | number): Promise<void> {
+  const drafts = await readDrafts();
+  const draft = drafts[String(visitId)];
+  if (!draft) return;
+  await Promise.all(Object.values(draft.shelfPhotos).map(deleteShelfPhoto));
+  delete drafts[String(visitId)];
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+}
@@ -0,0 +1,123 @@
+import { parseServerTime } from '@/services/location-integrity';
+import type { SchedulablePlan } from '@/services/plan-schedule';
+import type { UserScope } from '@/types/common';
+import type { ManagedUser } from '@/types/user';
+import type { Visit } from '@/types/visit';
+import { LatLng, parseLatLong } from '@/utils/geo';
+
+export type RepDayStatus = 'not_started' | 'in_visit' | 'done';
+
+export const REP_STATUS_LABELS: Record<RepDayStatus, string> = {
+  not_started: 'Belum mulai',
+  in_visit: 'Sedang visit',
+  done: 'Selesai',
+};
+
+// Urutan tampil: yang sedang di lapangan dulu, yang belum mulai paling bawah
+const STATUS_ORDER: RepDayStatus[] = ['in_visit', 'done', 'not_started'];
+
+export type TeamMember = Pick<ManagedUser, 'id' | 'name' | 'username' | 'region_id' | 'cluster_id' | 'is_active'>;
+
+type TeamVisit = Pick<Visit, 'id' | 'checkin_time' | 'checkout_time' | 'checkin_location' | 'auto_closed_at'> & {
+  outlet: { id: string | number; name?: string };
+};
+
+export interface RepCheckIn {
+  time: number;
+  location: LatLng | null;
+  outletName: string;
+}
+
+export interface RepActivity {
+  member: TeamMember;
+  status: RepDayStatus;
+  visitCount: number;
+  completedCount: number;
+  plannedCount: number;
+  visitedPlanCount: number;
+  lastCheckIn: RepCheckIn | null;
+}
+
+export function normalizeScopes(scopes: UserScope[] | UserScope | null | undefined): UserScope[] {
+  if (!scopes) return [];
+  return Array.isArray(scopes) ? scopes : [scopes];
+}
+
+// Rep biasa juga punya scope region/cluster, jadi akses tim butuh permission ini dari role-nya
+export const TEAM_VIEW_PERMISSION = 'view_team_activity';
+
+/**
+ * Scope yang mencakup satu region atau cluster penuh: rep di region/cluster tersebut
+ * yang diawasi oleh user dengan TEAM_VIEW_PERMISSION.
+ */
+export function getSupervisedScopes(scopes: UserScope[] | UserScope | null | undefined): UserScope[] {
+  return normalizeScopes(scopes).filter(scope => scope.region_id != null || scope.cluster_id != null);
+}
+
+export function isSupervisor(
+  scopes: UserScope[] | UserScope | null | undefined,
+  permissions: string[] | null | undefined
+): boolean {
+  return !!permissions?.includes(TEAM_VIEW_PERMISSION) && getSupervisedScopes(scopes).length > 0;
+}
+
+// Filter list user untuk satu scope; cluster lebih spesifik dari region
+export function scopeUserFilter(scope: UserScope): { region_id?: number; cluster_id?: number } {
+  if (scope.cluster_id != null) return { cluster_id: scope.cluster_id };
+  if (scope.region_id != null) return { region_id: scope.region_id };
+  return {};
+}
+
+// Scope user dari backend bisa berupa satu nilai atau array nilai
+const scopeValues = (value: TeamMember['region_id']) =>
+  (Array.isArray(value) ? value : value == null ? [] : [value]).map(String);
+
+// Scope cluster lebih spesifik dari region, jadi dicek lebih dulu
+export function isUserInScope(member: Pick<TeamMember, 'region_id' | 'cluster_id'>, scopes: UserScope[]): boolean {
+  return scopes.some(scope => {
+    if (scope.cluster_id != null) return scopeValues(member.cluster_id).includes(String(scope.cluster_id));
+    if (scope.region_id != null) return scopeValues(member.region_id).includes(String(scope.region_id));
+    return false;
+  });
+}
+
+const isOpenVisit = (visit: TeamVisit) => !!visit.checkin_time && !visit.checkout_time && !visit.auto_closed_at;
+
+/**
+ * Status harian satu rep dari visit dan plan visit-nya di tanggal tersebut.
+ */
+export function summarizeRepDay(member: TeamMember, visits: TeamVisit[], plans: SchedulablePlan[]): RepActivity {
+  const visitedOutlets = new Set(visits.map(visit => String(visit.outlet.id)));
+  const plannedOutlets = new Set(plans.map(plan => String(plan.outlet_id)));
+
+  let lastCheckIn: RepCheckIn | null = null;
+  for (const visit of visits) {
+    const time = parseServerTime(visit.checkin_time);
+    if (time === null || (lastCheckIn && lastCheckIn.time >= time)) continue;
+    lastCheckIn = { time, location: parseLatLong(visit.checkin_location), outletName: visit.outlet.name ?? '' };
+  }
+
+  return {
+    member,
+    status: visits.some(isOpenVisit) ? 'in_visit' : visits.length > 0 ? 'done' : 'not_started',
+    visitCount: visits.length,
+    completedCount: visits.filter(visit => !isOpenVisit(visit)).length,
+    plannedCount: plannedOutlets.size,
+    visitedPlanCount: Array.from(plannedOutlets).filter(outletId => visitedOutlets.has(outletId)).length,
+    lastCheckIn,
+  };
+}
+
+export function sortTeamActivity(activity: RepActivity[]): RepActivity[] {
+  return [...activity].sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.member.name.localeCompare(b.member.name)
+  );
+}
+
+export function summarizeTeam(activity: RepActivity[]): Record<RepDayStatus, number> {
+  const summary: Record<RepDayStatus, number> = { not_started: 0, in_visit: 0, done: 0 };
+  activity.forEach(item => {
+    summary[item.status]++;
+  });
+  return summary;
+}
@@ -0,0 +1,300 @@
+import * as FileSystem from 'expo-file-system';
+
+import {
+  createAbortError,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isAbortError,
+  isRetryableError,
+  refreshSession,
+  RetryPolicy,
+} from '@/utils/api';
+import { log } from '@/utils/logger';
+
+export interface UploadFile {
+  field: string;
+  uri: string;
+  name: string;
+  type: string;
+}
+
+export type UploadTransferStatus = 'uploading' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadTransfer {
+  id: string;
+  label: string;
+  status: UploadTransferStatus;
+  files: UploadFile[];
+  // Jumlah request: 1, atau satu per file untuk transfer `perFile`
+  parts: number;
+  // File yang sudah diterima server (lihat fileKey); dilewati saat transfer dilanjutkan
+  sentFiles: string[];
+  // Byte request yang sedang berjalan
+  bytesSent: number;
+  bytesTotal: number;
+  error: string | null;
+  response: any;
+}
+
+/**
+ * Default: satu transfer = satu request multipart berisi semua `fields` dan semua `files`,
+ * sehingga endpoint non-idempotent (check-in, check-out) hanya diproses sekali. Request
+ * multi-file ini lewat XHR: berhenti jika app di-background dan dikirim ulang utuh.
+ *
+ * Dengan `perFile` (hanya untuk endpoint yang aman diulang, mis. update outlet) setiap file
+ * dikirim dengan upload task background sendiri bersama semua `fields`, dan transfer yang
+ * gagal dilanjutkan dari file yang belum terkirim.
+ */
+export interface UploadTransferRequest {
+  // Id stabil (mis. `outlet-12`) agar UI tetap mengikuti transfer yang dikirim ulang
+  id: string;
+  label: string;
+  url: string;
+  logLabel: string;
+  token?: string | null;
+  fields: Record<string, string>;
+  files: UploadFile[];
+  perFile?: boolean;
+  // Opt-in seperti apiRequest: upload selalu POST, jadi hanya di-retry untuk endpoint yang aman diulang
+  retry?: Partial<RetryPolicy>;
+}
+
+interface UploadResult {
+  status: number;
+  body: string;
+}
+
+type UploadProgressHandler = (bytesSent: number, bytesTotal: number) => void;
+type TransferListener = (transfer: UploadTransfer | undefined) => void;
+
+const transfers = new Map<string, UploadTransfer>();
+const activeTasks = new Map<string, { cancelAsync: () => Promise<void> }>();
+const listeners = new Map<string, Set<TransferListener>>();
+
+function notify(id: string) {
+  const transfer = transfers.get(id);
+  listeners.get(id)?.forEach(listener => listener(transfer));
+}
+
+function updateTransfer(id: string, patch: Partial<UploadTransfer>) {
+  const transfer = transfers.get(id);
+  if (!transfer) return;
+  transfers.set(id, { ...transfer, ...patch });
+  notify(id);
+}
+
+// Samakan bentuk error dengan apiRequest (message, code, httpStatus, errors)
+function toUploadError(status: number, data: any): Error {
+  let message = data?.meta?.message || `Upload failed (${status})`;
+  if (data?.errors) {
+    message += `: ${Object.values(data.errors).flat().join(', ')}`;
+  }
+  return Object.assign(new Error(message), {
+    code: data?.meta?.code || status,
+    httpStatus: status,
+    errors: data?.errors,
+  });
+}
+
+const authHeaders = (token?: string | null): Record<string, string> => ({
+  Accept: 'application/json',
+  ...(token ? { Authorization: `Bearer ${token}` } : {}),
+});
+
+// Satu file: upload task native yang tetap berjalan saat app di-background (iOS; Android selalu background)
+function sendSingleFile(request: UploadTransferRequest, onProgress: UploadProgressHandler): Promise<UploadResult | null | undefined> {
+  const [file] = request.files;
+  const task = FileSystem.createUploadTask(
+    request.url,
+    file.uri,
+    {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      fieldName: file.field,
+      mimeType: file.type,
+      parameters: request.fields,
+      headers: authHeaders(request.token),
+      sessionType: FileSystem.FileSystemSessionType.BACKGROUND,
+    },
+    ({ totalBytesSent, totalBytesExpectedToSend }) => onProgress(totalBytesSent, totalBytesExpectedToSend)
+  );
+  activeTasks.set(request.id, task);
+  return task.uploadAsync();
+}
+
+// Beberapa file: upload task native hanya menerima satu file, jadi semua part dikirim lewat XHR
+function sendMultipleFiles(request: UploadTransferRequest, onProgress: UploadProgressHandler): Promise<UploadResult | null | undefined> {
+  const formData = new FormData();
+  Object.entries(request.fields).forEach(([key, value]) => formData.append(key, value));
+  request.files.forEach(file => formData.append(file.field, { uri: file.uri, name: file.name, type: file.type } as any));
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', request.url);
+    Object.entries(authHeaders(request.token)).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.upload.onprogress = event => onProgress(event.loaded, event.total);
+    xhr.onload = () => resolve({ status: xhr.status, body: xhr.responseText });
+    xhr.onerror = () => reject(new Error('upload error'));
+    // Sama seperti uploadAsync: pembatalan resolve tanpa hasil
+    xhr.onabort = () => resolve(undefined);
+    activeTasks.set(request.id, { cancelAsync: async () => xhr.abort() });
+    xhr.send(formData);
+  });
+}
+
+async function sendTransfer(request: UploadTransferRequest): Promise<any> {
+  const onProgress: UploadProgressHandler = (bytesSent, bytesTotal) => updateTransfer(request.id, { bytesSent, bytesTotal });
+  try {
+    const result = request.files.length === 1
+      ? await sendSingleFile(request, onProgress)
+      : await sendMultipleFiles(request, onProgress);
+    // Upload yang dibatalkan resolve tanpa hasil
+    if (!result) throw createAbortError();
+
+    let data: any = null;
+    try {
+      data = JSON.parse(result.body);
+    } catch {
+      // Body bukan JSON (mis. halaman error proxy)
+    }
+    log(`[${request.logLabel}] Upload ${request.files.map(file => file.field).join(', ')} status:`, result.status);
+
+    if (result.status < 200 || result.status >= 300 || data?.meta?.status !== 'success' || data?.meta?.code !== 200) {
+      throw toUploadError(result.status, data);
+    }
+    return data;
+  } catch (error: any) {
+    if (error?.httpStatus || isAbortError(error)) throw error;
+    // Error native (koneksi putus) tidak punya httpStatus: tandai sebagai network error
+    // agar pemanggil bisa memasukkannya ke outbox
+    throw new Error(`Network request failed: ${error?.message || 'upload error'}`);
+  } finally {
+    activeTasks.delete(request.id);
+  }
+}
+
+// File yang sama (field + uri) dianggap sudah terkirim pada percobaan berikutnya
+const fileKey = (file: UploadFile) => `${file.field}|${file.uri}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function sendWithRetry(request: UploadTransferRequest): Promise<any> {
+  const policy = request.retry ? { ...DEFAULT_RETRY_POLICY, ...request.retry } : null;
+  let refreshed = false;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendTransfer(request);
+    } catch (error: any) {
+      const cancelled = transfers.get(request.id)?.status === 'cancelled';
+      // Token kedaluwarsa: request ditolak sebelum diproses, aman dikirim ulang sekali setelah refresh
+      if (!cancelled && error?.httpStatus === 401 && !refreshed) {
+        refreshed = true;
+        const token = await refreshSession();
+        if (token) {
+          request.token = token;
+          attempt--;
+          continue;
+        }
+      }
+      if (cancelled || !policy || attempt >= policy.retries || !isRetryableError(error)) throw error;
+      const delay = getRetryDelay(attempt, policy);
+      log(`[${request.logLabel}] Retry upload ${request.id} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+// Setiap file = satu request (dan retry) sendiri; token hasil refresh dipakai file berikutnya
+async function sendFilesSeparately(request: UploadTransferRequest): Promise<any> {
+  let response = transfers.get(request.id)?.response ?? null;
+  for (const file of request.files) {
+    if (transfers.get(request.id)?.sentFiles.includes(fileKey(file))) continue;
+    const part = { ...request, files: [file] };
+    response = await sendWithRetry(part);
+    request.token = part.token;
+    const sentFiles = [...(transfers.get(request.id)?.sentFiles ?? []), fileKey(file)];
+    updateTransfer(request.id, { sentFiles, bytesSent: 0, bytesTotal: 0, response });
+  }
+  return response;
+}
+
+/**
+ * Mulai transfer, atau kirim ulang transfer yang gagal/dibatalkan dengan id yang sama.
+ */
+export async function startUploadTransfer(request: UploadTransferRequest): Promise<any> {
+  const previous = transfers.get(request.id);
+  if (previous?.status === 'uploading') {
+    throw new Error('Upload masih berjalan');
+  }
+
+  const perFile = !!request.perFile && request.files.length > 1;
+  const keys = request.files.map(fileKey);
+  const resumable = perFile && previous && previous.status !== 'done';
+  transfers.set(request.id, {
+    id: request.id,
+    label: request.label,
+    status: 'uploading',
+    files: request.files,
+    parts: perFile ? request.files.length : 1,
+    sentFiles: resumable ? previous.sentFiles.filter(key => keys.includes(key)) : [],
+    bytesSent: 0,
+    bytesTotal: 0,
+    error: null,
+    response: resumable ? previous.response : null,
+  });
+  notify(request.id);
+
+  // Salinan agar token hasil refresh tidak mengubah request pemanggil
+  const session = { ...request };
+  try {
+    const response = perFile ? await sendFilesSeparately(session) : await sendWithRetry(session);
+    updateTransfer(request.id, { status: 'done', response });
+    log(`[${request.logLabel}] Upload transfer done:`, request.id);
+    return response;
+  } catch (error: any) {
+    if (transfers.get(request.id)?.status !== 'cancelled') {
+      updateTransfer(request.id, { status: 'failed', error: error?.message || 'Upload failed' });
+    }
+    log(`[${request.logLabel}] Upload transfer failed:`, error);
+    throw error;
+  }
+}
+
+export async function cancelUploadTransfer(id: string): Promise<void> {
+  updateTransfer(id, { status: 'cancelled' });
+  await activeTasks.get(id)?.cancelAsync();
+}
+
+export function getUploadTransfer(id: string): UploadTransfer | undefined {
+  return transfers.get(id);
+}
+
+// Hapus transfer yang sudah selesai/dibatalkan dari memori
+export function clearUploadTransfer(id: string) {
+  if (transfers.get(id)?.status === 'uploading') return;
+  transfers.delete(id);
+  notify(id);
+}
+
+export function subscribeUploadTransfer(id: string, listener: TransferListener): () => void {
+  if (!listeners.has(id)) listeners.set(id, new Set());
+  listeners.get(id)!.add(listener);
+  return () => {
+    const transferListeners = listeners.get(id);
+    transferListeners?.delete(listener);
+    if (transferListeners && transferListeners.size === 0) listeners.delete(id);
+  };
+}
+
+/**
+ * Progress 0..1: request yang sudah selesai ditambah byte request yang sedang berjalan.
+ * Request yang gagal atau ukurannya belum diketahui dihitung 0.
+ */
+export function getUploadProgress(transfer: UploadTransfer | undefined | null): number {
+  if (!transfer) return 0;
+  if (transfer.status === 'done') return 1;
+  const current = transfer.status === 'uploading' && transfer.bytesTotal > 0
+    ? transfer.bytesSent / transfer.bytesTotal
+    : 0;
+  return Math.min(1, (transfer.sentFiles.length + current) / transfer.parts);
+}
@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+
+import { getErrorMessage, isNetworkError } from '@/utils/error-handler';
+import { log } from '@/utils/logger';
+
+const OUTBOX_STORAGE_KEY = 'visit_outbox';
+const OUTBOX_DIRECTORY = `${FileSystem.documentDirectory}visit-outbox/`;
+
+export type VisitOutboxKind = 'CHECK_IN' | 'CHECK_OUT';
+export type VisitOutboxStatus = 'pending' | 'failed';
+
+export interface VisitOutboxPhoto {
+  field: string;
+  uri: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * Serializable form of the multipart payload sent by the check-in/check-out screens.
+ * FormData itself cannot be persisted, so fields and the photo are stored separately.
+ */
+export interface VisitOutboxRequest {
+  kind: VisitOutboxKind;
+  visitId?: string;
+  label: string;
+  fields: Record<string, string>;
+  photo: VisitOutboxPhoto;
+  // Additional files sent with the visit photo (e.g. stock audit shelf photos)
+  attachments?: VisitOutboxPhoto[];
+}
+
+export interface OutboxEntry extends VisitOutboxRequest {
+  id: string;
+  status: VisitOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: number;
+}
+
+export interface ReplaySummary {
+  sent: number;
+  failed: number;
+  remaining: number;
+}
+
+export type OutboxSender = (entry: OutboxEntry, formData: FormData) => Promise<any>;
+
+let replayInFlight: Promise<ReplaySummary> | null = null;
+
+/**
+ * Network failures (no HTTP response at all) are worth queueing.
+ * Errors the server answered with are not - replaying them would fail again.
+ */
+export function isQueueableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return isNetworkError(error);
+  if ((error as any).httpStatus) return false;
+  return isNetworkError(error);
+}
+
+export function buildVisitFormData(request: VisitOutboxRequest): FormData {
+  const formData = new FormData();
+  Object.entries(request.fields).forEach(([key, value]) => {
+    formData.append(key, value);
+  });
+  [request.photo, ...(request.attachments ?? [])].forEach(photo => {
+    formData.append(photo.field, {
+      uri: photo.uri,
+      name: photo.name,
+      type: photo.type,
+    } as any);
+  });
+  return formData;
+}
+
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+    const entries: OutboxEntry[] = stored ? JSON.parse(stored) : [];
+    return Array.isArray(entries) ? entries.sort((a, b) => a.createdAt - b.createdAt) : [];
+  } catch (error) {
+    log('[OUTBOX] Failed to load outbox:', error);
+    return [];
+  }
+}
+
+async function saveOutbox(entries: OutboxEntry[]): Promise<void> {
+  await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Copy the photo out of the cache directory so the OS cannot evict it
+ * before the entry has been replayed.
+ */
+async function persistPhoto(id: string, photo: VisitOutboxPhoto): Promise<VisitOutboxPhoto> {
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(OUTBOX_DIRECTORY);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(OUTBOX_DIRECTORY, { intermediates: true });
+    }
+    const target = `${OUTBOX_DIRECTORY}${id}-${photo.name}`;
+    await FileSystem.copyAsync({ from: photo.uri, to: target });
+    return { ...photo, uri: target };
+  } catch (error) {
+    log('[OUTBOX] Failed to persist photo, keeping original uri:', error);
+    return photo;
+  }
+}
+
+async function deletePhoto(photo: VisitOutboxPhoto): Promise<void> {
+  if (!photo.uri.startsWith(OUTBOX_DIRECTORY)) return;
+  try {
+    await FileSystem.deleteAsync(photo.uri, { idempotent: true });
+  } catch (error) {
+    log('[OUTBOX] Failed to delete photo:', error);
+  }
+}
+
+export async function enqueueVisitRequest(request: VisitOutboxRequest): Promise<OutboxEntry> {
+  const id = `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+  const entry: OutboxEntry = {
+    ...request,
+    id,
+    photo: await persistPhoto(id, request.photo),
+    attachments: request.attachments
+      ? await Promise.all(request.attachments.map(attachment => persistPhoto(id, attachment)))
+      : undefined,
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    createdAt: Date.now(),
+  };
+
+  const entries = await loadOutbox();
+  await saveOutbox([...entries, entry]);
+  log('[OUTBOX] Enqueued', { id, kind: entry.kind, visitId: entry.visitId });
+  return entry;
+}
+
+export async function updateOutboxEntry(id: string, patch: Partial<OutboxEntry>): Promise<OutboxEntry[]> {
+  const entries = await loadOutbox();
+  const updated = entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry));
+  await saveOutbox(updated);
+  return updated;
+}
+
+export async function removeOutboxEntry(id: string): Promise<OutboxEntry[]> {
+  const entries = await loadOutbox();
+  const target = entries.find(entry => entry.id === id);
+  if (target) {
+    await Promise.all([target.photo, ...(target.attachments ?? [])].map(deletePhoto));
+  }
+  const remaining = entries.filter(entry => entry.id !== id);
+  await saveOutbox(remaining);
+  return remaining;
+}
+
+async function runReplay(send: OutboxSender): Promise<ReplaySummary> {
+  const summary: ReplaySummary = { sent: 0, failed: 0, remaining: 0 };
+  const entries = await loadOutbox();
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending') continue;
+
+    try {
+      await send(entry, buildVisitFormData(entry));
+      await removeOutboxEntry(entry.id);
+      summary.sent += 1;
+      log('[OUTBOX] Replayed', entry.id);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      if (isQueueableError(error)) {
+        // Still offline - keep order and stop here, the next reconnect resumes.
+        await updateOutboxEntry(entry.id, { attempts: entry.attempts + 1, lastError: message });
+        log('[OUTBOX] Replay interrupted by network error:', message);
+        break;
+      }
+      await updateOutboxEntry(entry.id, {
+        status: 'failed',
+        attempts: entry.attempts + 1,
+        lastError: message,
+      });
+      summary.failed += 1;
+      log('[OUTBOX] Replay rejected by server:', { id: entry.id, message });
+    }
+  }
+
+  summary.remaining = (await loadOutbox()).length;
+  return summary;
+}
+
+/**
+ * Send pending entries oldest-first. Concurrent calls share the same run.
+ */
+export function replayOutbox(send: OutboxSender): Promise<ReplaySummary> {
+  if (!replayInFlight) {
+    replayInFlight = runReplay(send).finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+
+import type { SignedPhotoManifest } from '@/services/photo-manifest';
+import type { VisitOutboxPhoto } from '@/services/visit-outbox';
+import { log } from '@/utils/logger';
+
+const STORAGE_KEY = 'visit_photo_drafts';
+const PHOTO_DIRECTORY = `${FileSystem.documentDirectory}visit-photos/`;
+
+export type VisitPhotoCategory = 'DISPLAY_BEFORE' | 'DISPLAY_AFTER' | 'POSM' | 'COMPETITOR' | 'DAMAGED';
+
+export const VISIT_PHOTO_CATEGORIES: { value: VisitPhotoCategory; label: string }[] = [
+  { value: 'DISPLAY_BEFORE', label: 'Display Sebelum' },
+  { value: 'DISPLAY_AFTER', label: 'Display Sesudah' },
+  { value: 'POSM', label: 'POSM' },
+  { value: 'COMPETITOR', label: 'Rak Kompetitor' },
+  { value: 'DAMAGED', label: 'Barang Rusak' },
+];
+
+/**
+ * Foto tambahan yang diambil selama kunjungan (selain selfie check-in/check-out).
+ * Foto sudah diberi watermark saat diambil.
+ */
+export interface VisitPhotoDraft {
+  id: string;
+  category: VisitPhotoCategory;
+  caption: string;
+  uri: string;
+  takenAt: number;
+  // Manifest bertanda tangan yang tertanam di file (null jika gagal ditandatangani)
+  manifest?: SignedPhotoManifest | null;
+}
+
+// Foto yang dikembalikan backend pada detail visit
+export interface VisitPhoto {
+  id: string | number;
+  category: VisitPhotoCategory | string;
+  caption: string | null;
+  url: string;
+  taken_at?: string | null;
+}
+
+// Payload `photos` yang dikirim bersama check-out; file dikirim sebagai `visit_photos[i]`
+export interface VisitPhotosPayload {
+  photo_field: string;
+  category: VisitPhotoCategory;
+  caption: string;
+  taken_at: string;
+  manifest: SignedPhotoManifest | null;
+}
+
+export function getPhotoCategoryLabel(category: string): string {
+  return VISIT_PHOTO_CATEGORIES.find(option => option.value === category)?.label ?? category;
+}
+
+/**
+ * Foto yang belum diberi keterangan, sebagai pesan siap tampil.
+ */
+export function validateVisitPhotos(photos: VisitPhotoDraft[]): string[] {
+  return photos
+    .map((photo, index) => photo.caption.trim() ? null : `Foto ${index + 1} (${getPhotoCategoryLabel(photo.category)}) belum diberi keterangan`)
+    .filter((message): message is string => message !== null);
+}
+
+const photoField = (index: number) => `visit_photos[${index}]`;
+
+export function buildVisitPhotosPayload(photos: VisitPhotoDraft[]): VisitPhotosPayload[] {
+  return photos.map((photo, index) => ({
+    photo_field: photoField(index),
+    category: photo.category,
+    caption: photo.caption.trim(),
+    taken_at: new Date(photo.takenAt).toISOString(),
+    manifest: photo.manifest ?? null,
+  }));
+}
+
+export function visitPhotoAttachments(visitId: string | number, photos: VisitPhotoDraft[]): VisitOutboxPhoto[] {
+  return photos.map((photo, index) => ({
+    field: photoField(index),
+    uri: photo.uri,
+    name: `visit-photo-${visitId}-${index}.jpg`,
+    type: 'image/jpeg',
+  }));
+}
+
+/**
+ * Kelompokkan foto dari server per kategori, urut sesuai daftar kategori.
+ */
+export function groupVisitPhotos(photos: VisitPhoto[]): { category: string; label: string; photos: VisitPhoto[] }[] {
+  const known: string[] = VISIT_PHOTO_CATEGORIES.map(option => option.value);
+  const categories = [...known, ...photos.map(photo => photo.category).filter(category => !known.includes(category))];
+  return Array.from(new Set(categories))
+    .map(category => ({
+      category,
+      label: getPhotoCategoryLabel(category),
+      photos: photos.filter(photo => photo.category === category),
+    }))
+    .filter(group => group.photos.length > 0);
+}
+
+async function readDrafts(): Promise<Record<string, VisitPhotoDraft[]>> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    log('[VISIT_PHOTOS] Failed to load drafts:', error);
+    return {};
+  }
+}
+
+export async function getVisitPhotoDrafts(visitId: string | number): Promise<VisitPhotoDraft[]> {
+  const drafts = await readDrafts();
+  return drafts[String(visitId)] ?? [];
+}
+
+export async function saveVisitPhotoDrafts(visitId: string | number, photos: VisitPhotoDraft[]): Promise<void> {
+  const drafts = await readDrafts();
+  drafts[String(visitId)] = photos;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  log('[VISIT_PHOTOS] Draft saved', { visitId, photos: photos.length });
+}
+
+/**
+ * Salin foto yang sudah diberi watermark dari cache agar tidak dihapus OS sebelum check-out.
+ */
+export async function persistVisitPhoto(visitId: string | number, uri: string): Promise<string> {
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(PHOTO_DIRECTORY);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(PHOTO_DIRECTORY, { intermediates: true });
+    }
+    const target = `${PHOTO_DIRECTORY}${visitId}-${Date.now()}.jpg`;
+    await FileSystem.copyAsync({ from: uri, to: target });
+    return target;
+  } catch (error) {
+    log('[VISIT_PHOTOS] Failed to persist photo, keeping original uri:', error);
+    return uri;
+  }
+}
+
+export async function deleteVisitPhoto(uri: string): Promise<void> {
+  if (!uri.startsWith(PHOTO_DIRECTORY)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    log('[VISIT_PHOTOS] Failed to delete photo:', error);
+  }
+}
+
+export async function clearVisitPhotoDrafts(visitId: string | number): Promise<void> {
+  const drafts = await readDrafts();
+  const photos = drafts[String(visitId)];
+  if (!photos) return;
+  await Promise.all(photos.map(photo => deleteVisitPhoto(photo.uri)));
+  delete drafts[String(visitId)];
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+}
@@ -0,0 +1,281 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+import { parseServerTime } from '@/services/location-integrity';
+import { AUTO_CLOSE_REASONS } from '@/services/open-visit';
+import { getPhotoCategoryLabel } from '@/services/visit-photos';
+import { formatVisitDuration, getVisitDurationMinutes } from '@/services/visit-stats';
+import type { Visit } from '@/types/visit';
+import { LatLng, parseLatLong } from '@/utils/geo';
+import { describeGeofenceDistance, evaluateGeofence, GeofenceVerdict, getGeofenceRadius, parseBoundary } from '@/utils/geofence';
+import { log } from '@/utils/logger';
+
+const BRAND_COLOR = '#FF6B35';
+
+export type VisitTimelineKind = 'CHECK_IN' | 'PHOTO' | 'CHECK_OUT' | 'AUTO_CLOSE';
+
+export interface VisitTimelineEvent {
+  kind: VisitTimelineKind;
+  label: string;
+  time: number;
+  description: string | null;
+}
+
+export interface VisitReport {
+  outlet: LatLng | null;
+  // Poligon menggantikan radius jika ada (sama seperti validasi geofence)
+  boundary: LatLng[] | null;
+  radius: number | null;
+  checkin: LatLng | null;
+  checkout: LatLng | null;
+  checkinGeofence: GeofenceVerdict | null;
+  checkoutGeofence: GeofenceVerdict | null;
+  timeline: VisitTimelineEvent[];
+  durationMinutes: number | null;
+}
+
+export function formatReportTime(time: number): string {
+  return new Date(time).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Data laporan kunjungan: posisi check-in/check-out terhadap geofence outlet,
+ * urutan kejadian selama kunjungan dan durasinya.
+ */
+export function buildVisitReport(visit: Visit): VisitReport {
+  const target = { location: visit.outlet.location, radius: visit.outlet.radius, boundary: visit.outlet.boundary };
+  const outlet = parseLatLong(visit.outlet.location);
+  const boundary = parseBoundary(visit.outlet.boundary);
+  const checkin = parseLatLong(visit.checkin_location);
+  const checkout = parseLatLong(visit.checkout_location);
+  const checkinGeofence = checkin ? evaluateGeofence(target, checkin) : null;
+  const checkoutGeofence = checkout ? evaluateGeofence(target, checkout) : null;
+
+  const checkinAt = parseServerTime(visit.checkin_time);
+  const checkoutAt = parseServerTime(visit.checkout_time);
+  const autoClosedAt = parseServerTime(visit.auto_closed_at);
+  const timeline: VisitTimelineEvent[] = [];
+
+  if (checkinAt !== null) {
+    timeline.push({
+      kind: 'CHECK_IN',
+      label: 'Check-in',
+      time: checkinAt,
+      description: checkinGeofence ? describeGeofenceDistance(checkinGeofence) : null,
+    });
+  }
+  (visit.photos ?? []).forEach(photo => {
+    const takenAt = parseServerTime(photo.taken_at);
+    if (takenAt === null) return;
+    timeline.push({
+      kind: 'PHOTO',
+      label: `Foto ${getPhotoCategoryLabel(photo.category)}`,
+      time: takenAt,
+      description: photo.caption,
+    });
+  });
+  if (checkoutAt !== null) {
+    timeline.push({
+      kind: 'CHECK_OUT',
+      label: 'Check-out',
+      time: checkoutAt,
+      description: checkoutGeofence ? describeGeofenceDistance(checkoutGeofence) : null,
+    });
+  } else if (autoClosedAt !== null) {
+    timeline.push({
+      kind: 'AUTO_CLOSE',
+      label: 'Ditutup otomatis',
+      time: autoClosedAt,
+      description: AUTO_CLOSE_REASONS.find(reason => reason.value === visit.auto_close_reason)?.label ?? visit.auto_close_reason ?? null,
+    });
+  }
+  timeline.sort((a, b) => a.time - b.time);
+
+  return {
+    outlet,
+    boundary,
+    radius: boundary ? null : getGeofenceRadius(target),
+    checkin,
+    checkout,
+    checkinGeofence,
+    checkoutGeofence,
+    timeline,
+    durationMinutes: getVisitDurationMinutes(visit),
+  };
+}
+
+/**
+ * Peta sederhana dalam SVG (proyeksi equirectangular dalam meter) agar PDF bisa
+ * dirender tanpa tile peta dari internet. Null jika tidak ada titik sama sekali.
+ */
+export function buildReportMapSvg(report: VisitReport, width: number = 480, height: number = 260): string | null {
+  const points = [report.outlet, report.checkin, report.checkout, ...(report.boundary ?? [])].filter((point): point is LatLng => !!point);
+  if (points.length === 0) return null;
+
+  const origin = points[0];
+  const metersPerLng = 111320 * Math.cos((origin.latitude * Math.PI) / 180);
+  const toMeters = (point: LatLng) => ({
+    x: (point.longitude - origin.longitude) * metersPerLng,
+    y: (point.latitude - origin.latitude) * 110540,
+  });
+
+  const projected = points.map(toMeters);
+  const radius = report.outlet && report.radius ? report.radius : 0;
+  const outletMeters = report.outlet ? toMeters(report.outlet) : null;
+  if (outletMeters && radius > 0) {
+    projected.push({ x: outletMeters.x - radius, y: outletMeters.y - radius }, { x: outletMeters.x + radius, y: outletMeters.y + radius });
+  }
+  const xs = projected.map(point => point.x);
+  const ys = projected.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  // Minimal 50 m agar satu titik tidak memenuhi peta
+  const spanX = Math.max(Math.max(...xs) - minX, 50);
+  const spanY = Math.max(Math.max(...ys) - minY, 50);
+  const padding = 24;
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  const toSvg = (point: LatLng) => {
+    const meters = toMeters(point);
+    return { x: +(offsetX + (meters.x - minX) * scale).toFixed(1), y: +(height - offsetY - (meters.y - minY) * scale).toFixed(1) };
+  };
+
+  const shapes: string[] = [];
+  if (report.boundary) {
+    const path = report.boundary.map(toSvg).map(point => `${point.x},${point.y}`).join(' ');
+    shapes.push(`<polygon points="${path}" fill="${BRAND_COLOR}22" stroke="${BRAND_COLOR}" stroke-width="2"/>`);
+  } else if (report.outlet && radius > 0) {
+    const center = toSvg(report.outlet);
+    shapes.push(`<circle cx="${center.x}" cy="${center.y}" r="${(radius * scale).toFixed(1)}" fill="${BRAND_COLOR}22" stroke="${BRAND_COLOR}" stroke-width="2"/>`);
+  }
+  const pin = (point: LatLng | null, color: string, label: string) => {
+    if (!point) return;
+    const { x, y } = toSvg(point);
+    shapes.push(`<circle cx="${x}" cy="${y}" r="6" fill="${color}" stroke="#fff" stroke-width="2"/>`);
+    shapes.push(`<text x="${x + 9}" y="${y + 4}" font-size="11" fill="#111">${label}</text>`);
+  };
+  pin(report.outlet, BRAND_COLOR, 'Outlet');
+  pin(report.checkin, '#4CAF50', 'Check-in');
+  pin(report.checkout, '#2196F3', 'Check-out');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="#f5f5f5"/>${shapes.join('')}</svg>`;
+}
+
+const escapeHtml = (value: string | number | null | undefined) =>
+  String(value ?? '-').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export interface VisitReportImages {
+  checkin?: string | null;
+  checkout?: string | null;
+  photos?: Record<string, string>;
+}
+
+/**
+ * HTML laporan untuk expo-print. Gambar yang diberikan (data URI) menggantikan URL server;
+ * null berarti foto dilewati.
+ */
+export function renderVisitReportHtml(visit: Visit, report: VisitReport, images: VisitReportImages = {}): string {
+  const visitDate = new Date(parseServerTime(visit.visit_date) ?? Date.now())
+    .toLocaleDateString('id-ID', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  const map = buildReportMapSvg(report);
+  const row = (label: string, value: string | number | null | undefined) =>
+    `<tr><td class="label">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`;
+  const photo = (title: string, src: string | null | undefined, caption?: string | null) => src
+    ? `<figure><img src="${escapeHtml(src)}"/><figcaption><b>${escapeHtml(title)}</b>${caption ? `<br/>${escapeHtml(caption)}` : ''}</figcaption></figure>`
+    : '';
+
+  const visitPhotos = (visit.photos ?? [])
+    .map(item => photo(getPhotoCategoryLabel(item.category), images.photos ? images.photos[String(item.id)] : item.url, item.caption))
+    .join('');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"/><style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #111; font-size: 12px; margin: 24px; }
+  header { border-bottom: 4px solid ${BRAND_COLOR}; padding-bottom: 8px; margin-bottom: 16px; }
+  header h1 { color: ${BRAND_COLOR}; font-size: 20px; margin: 0; }
+  header p { margin: 2px 0 0; color: #555; }
+  h2 { font-size: 14px; color: ${BRAND_COLOR}; margin: 18px 0 6px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 4px 6px; border-bottom: 1px solid #eee; vertical-align: top; }
+  td.label { width: 35%; color: #555; }
+  .photos { display: flex; flex-wrap: wrap; gap: 8px; }
+  figure { margin: 0; width: 48%; page-break-inside: avoid; }
+  figure img { width: 100%; max-height: 260px; object-fit: contain; background: #f5f5f5; }
+  figcaption { font-size: 11px; color: #333; margin-top: 2px; }
+  footer { margin-top: 24px; font-size: 10px; color: #888; text-align: center; }
+</style></head><body>
+<header>
+  <h1>Laporan Kunjungan</h1>
+  <p>Sales Assistant Mobile (SAM) • ${escapeHtml(visitDate)}</p>
+</header>
+<h2>Detail Kunjungan</h2>
+<table>
+  ${row('Outlet', `${visit.outlet.name} (${visit.outlet.code})`)}
+  ${row('Alamat', visit.outlet.address)}
+  ${row('Sales', `${visit.user.name} (${visit.user.username})`)}
+  ${row('Tipe Kunjungan', visit.type)}
+  ${row('Transaksi', visit.transaction)}
+  ${row('Durasi', formatVisitDuration(report.durationMinutes))}
+  ${row('Laporan', visit.report)}
+</table>
+<h2>Timeline</h2>
+<table>
+  ${report.timeline.map(event => row(`${formatReportTime(event.time)} • ${event.label}`, event.description ?? '')).join('') || row('Timeline', '-')}
+</table>
+${map ? `<h2>Lokasi</h2>${map}` : ''}
+<h2>Foto Check-in & Check-out</h2>
+<div class="photos">
+  ${photo('Check-in', images.checkin !== undefined ? images.checkin : visit.checkin_photo)}
+  ${photo('Check-out', images.checkout !== undefined ? images.checkout : visit.checkout_photo)}
+</div>
+${visitPhotos ? `<h2>Foto Kunjungan</h2><div class="photos">${visitPhotos}</div>` : ''}
+<footer>Dibuat ${escapeHtml(new Date().toLocaleString('id-ID', { hour12: false }))} dari aplikasi SAM</footer>
+</body></html>`;
+}
+
+// Unduh foto lalu ubah ke data URI; null jika gagal (foto dilewati di PDF)
+async function loadImageDataUri(url: string | null | undefined, name: string): Promise<string | null> {
+  if (!url) return null;
+  try {
+    const target = `${FileSystem.cacheDirectory}report-${name}-${Date.now()}.jpg`;
+    const { uri } = await FileSystem.downloadAsync(url, target);
+    const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    return `data:image/jpeg;base64,${base64}`;
+  } catch (error) {
+    log('[VISIT_REPORT] Failed to load image:', name, error);
+    return null;
+  }
+}
+
+/**
+ * Render laporan menjadi PDF di perangkat (expo-print), tanpa layanan render eksternal.
+ */
+export async function exportVisitReportPdf(visit: Visit): Promise<string> {
+  const photos: Record<string, string> = {};
+  for (const item of visit.photos ?? []) {
+    const dataUri = await loadImageDataUri(item.url, `photo-${item.id}`);
+    if (dataUri) photos[String(item.id)] = dataUri;
+  }
+  const html = renderVisitReportHtml(visit, buildVisitReport(visit), {
+    checkin: await loadImageDataUri(visit.checkin_photo, 'checkin'),
+    checkout: await loadImageDataUri(visit.checkout_photo, 'checkout'),
+    photos,
+  });
+  const { uri } = await Print.printToFileAsync({ html });
+  log('[VISIT_REPORT] PDF created', { visitId: visit.id, uri });
+  return uri;
+}
+
+export async function shareVisitReportPdf(uri: string, visit: Visit): Promise<boolean> {
+  if (!(await Sharing.isAvailableAsync())) return false;
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: `Laporan Kunjungan ${visit.outlet.name}`,
+  });
+  return true;
+}
@@ -0,0 +1,74 @@
+import { parseServerTime } from '@/services/location-integrity';
+import type { Visit } from '@/types/visit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rata-rata panjang bulan, untuk frekuensi kunjungan per bulan
+const MONTH_MS = 30.44 * DAY_MS;
+
+type VisitTiming = Pick<Visit, 'checkin_time' | 'checkout_time' | 'auto_closed_at' | 'duration'>;
+
+export interface VisitSummary {
+  total: number;
+  lastVisitAt: number | null;
+  // Kunjungan per bulan sejak kunjungan tertua pada sampel sampai sekarang
+  visitsPerMonth: number | null;
+  // Persentase kunjungan selesai dengan transaksi (0-100)
+  conversionRate: number | null;
+  averageDurationMinutes: number | null;
+}
+
+/**
+ * Durasi kunjungan dari jam check-in sampai check-out (atau auto-close).
+ * `duration` backend hanya dipakai jika jam tidak lengkap.
+ */
+export function getVisitDurationMinutes(visit: VisitTiming): number | null {
+  const checkinAt = parseServerTime(visit.checkin_time);
+  const endAt = parseServerTime(visit.checkout_time) ?? parseServerTime(visit.auto_closed_at);
+  if (checkinAt !== null && endAt !== null) return Math.max(0, Math.round((endAt - checkinAt) / 60000));
+  return visit.duration ?? null;
+}
+
+const visitTime = (visit: Visit) => parseServerTime(visit.checkin_time) ?? parseServerTime(visit.visit_date);
+
+/**
+ * Ringkasan kunjungan sebuah outlet dari sampel kunjungan terbaru.
+ * `total` dari meta pagination jika tersedia (sampel bisa lebih sedikit dari total).
+ */
+export function summarizeVisits(visits: Visit[], total: number = visits.length, now: number = Date.now()): VisitSummary {
+  const times = visits.map(visitTime).filter((time): time is number => time !== null);
+  const lastVisitAt = times.length > 0 ? Math.max(...times) : null;
+  const oldest = times.length > 0 ? Math.min(...times) : null;
+
+  const completed = visits.filter(visit => visit.transaction === 'YES' || visit.transaction === 'NO');
+  const converted = completed.filter(visit => visit.transaction === 'YES').length;
+
+  const durations = visits.map(getVisitDurationMinutes).filter((minutes): minutes is number => minutes !== null);
+
+  return {
+    total,
+    lastVisitAt,
+    visitsPerMonth: oldest !== null ? times.length / Math.max((now - oldest) / MONTH_MS, 1) : null,
+    conversionRate: completed.length > 0 ? (converted / completed.length) * 100 : null,
+    averageDurationMinutes: durations.length > 0 ? Math.round(durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length) : null,
+  };
+}
+
+export function formatVisitDuration(minutes: number | null): string {
+  if (minutes === null) return '-';
+  if (minutes < 60) return `${minutes} menit`;
+  const rest = minutes % 60;
+  return rest > 0 ? `${Math.floor(minutes / 60)} jam ${rest} menit` : `${Math.floor(minutes / 60)} jam`;
+}
+
+export function formatVisitFrequency(visitsPerMonth: number | null): string {
+  if (visitsPerMonth === null) return '-';
+  return `${visitsPerMonth.toLocaleString('id-ID', { maximumFractionDigits: 1 })}x / bulan`;
+}
+
+export function formatDaysAgo(time: number | null, now: number = Date.now()): string {
+  if (time === null) return '-';
+  const days = Math.floor((new Date(now).setHours(0, 0, 0, 0) - new Date(time).setHours(0, 0, 0, 0)) / DAY_MS);
+  if (days <= 0) return 'Hari ini';
+  if (days === 1) return 'Kemarin';
+  return `${days} hari lalu`;
+}
@@ -52,6 +52,8 @@ jest.mock('@/hooks/utils/useNotification', () => ({
 
 jest.mock('@/utils/api', () => ({
   setAutoLogoutCallback: jest.fn(),
+  setSessionRefreshHandler: jest.fn(),
+  refreshSession: jest.fn(),
 }));
 
 // TypeScript interfaces for context validation
@@ -0,0 +1,149 @@
+/**
+ * Notifications Data Hook Tests
+ * Tests for hooks/data/useNotifications.ts
+ *
+ * Tests cover:
+ * - Paginated fetching with read/unread filter
+ * - Unread count for the tab badge
+ * - Optimistic state updates after mark read / delete
+ * - Push payload routing
+ */
+
+import { act, renderHook } from '@testing-library/react-native';
+import { useNotifications } from '@/hooks/data/useNotifications';
+import { getNotificationRoute } from '@/context/notification-inbox-context';
+import { apiRequest } from '@/utils/api';
+
+jest.mock('@/utils/api', () => ({
+  apiRequest: jest.fn(),
+}));
+
+jest.mock('@/context/auth-context', () => ({
+  useAuth: () => ({ token: 'test_bearer_token' }),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const mockApiRequest = apiRequest as jest.Mock;
+
+const notification = (id: number, read_at: string | null = null) => ({
+  id,
+  title: `Notifikasi ${id}`,
+  message: 'Kunjungan baru telah dijadwalkan',
+  type: 'visit_assignment',
+  read_at,
+  created_at: '2024-01-15T10:00:00Z',
+});
+
+describe('useNotifications', () => {
+  beforeEach(() => {
+    mockApiRequest.mockReset();
+  });
+
+  it('should fetch the first page with the unread filter', async () => {
+    mockApiRequest.mockResolvedValueOnce({
+      meta: { code: 200, current_page: 1, last_page: 2 },
+      data: [notification(1), notification(2)],
+    });
+    const { result } = renderHook(() => useNotifications());
+
+    await act(async () => {
+      await result.current.fetchNotifications({ page: 1, per_page: 20, status: 'unread' });
+    });
+
+    expect(mockApiRequest.mock.calls[0][0].url).toBe(
+      'https://sam.rizqis.com/notifications?page=1&per_page=20&filters%5Bstatus%5D=unread'
+    );
+    expect(result.current.notifications).toHaveLength(2);
+    expect(result.current.meta.last_page).toBe(2);
+  });
+
+  it('should append later pages to the list', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200, last_page: 2 }, data: [notification(1)] })
+      .mockResolvedValueOnce({ meta: { code: 200, last_page: 2 }, data: [notification(2)] });
+    const { result } = renderHook(() => useNotifications());
+
+    await act(async () => {
+      await result.current.fetchNotifications({ page: 1 });
+    });
+    await act(async () => {
+      await result.current.fetchNotifications({ page: 2 });
+    });
+
+    expect(result.current.notifications.map(n => n.id)).toEqual([1, 2]);
+  });
+
+  it('should read the unread count', async () => {
+    mockApiRequest.mockResolvedValueOnce({ meta: { code: 200 }, data: { unread_count: 7 } });
+    const { result } = renderHook(() => useNotifications());
+
+    let response: any;
+    await act(async () => {
+      response = await result.current.fetchUnreadCount();
+    });
+
+    expect(response).toEqual({ success: true, data: 7 });
+    expect(result.current.unreadCount).toBe(7);
+  });
+
+  it('should mark a notification as read locally', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: [notification(1)] })
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: notification(1, '2024-01-15T11:00:00Z') });
+    const { result } = renderHook(() => useNotifications());
+
+    await act(async () => {
+      await result.current.fetchNotifications();
+    });
+    await act(async () => {
+      await result.current.markAsRead(1);
+    });
+
+    expect(mockApiRequest.mock.calls[1][0]).toMatchObject({
+      url: 'https://sam.rizqis.com/notifications/1/read',
+      method: 'POST',
+    });
+    expect(result.current.notifications[0].read_at).toBe('2024-01-15T11:00:00Z');
+  });
+
+  it('should remove a deleted notification from the list', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: [notification(1), notification(2)] })
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: null });
+    const { result } = renderHook(() => useNotifications());
+
+    await act(async () => {
+      await result.current.fetchNotifications();
+    });
+    await act(async () => {
+      await result.current.deleteNotification(1);
+    });
+
+    expect(mockApiRequest.mock.calls[1][0].method).toBe('DELETE');
+    expect(result.current.notifications.map(n => n.id)).toEqual([2]);
+  });
+
+  it('should return the error message when the request fails', async () => {
+    mockApiRequest.mockRejectedValueOnce(new Error('Server error'));
+    const { result } = renderHook(() => useNotifications());
+
+    let response: any;
+    await act(async () => {
+      response = await result.current.markAllAsRead();
+    });
+
+    expect(response).toEqual({ success: false, error: 'Server error' });
+    expect(result.current.error).toBe('Server error');
+  });
+});
+
+describe('getNotificationRoute', () => {
+  it('should prefer the inbox record and fall back to the visit or the inbox', () => {
+    expect(getNotificationRoute({ notification_id: 12, visit_id: 3 })).toBe('/notification/12');
+    expect(getNotificationRoute({ visit_id: 3 })).toBe('/visit/view?id=3');
+    expect(getNotificationRoute({})).toBe('/notifications');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Outlet History Hook Tests
+ * Tests for hooks/data/useOutletHistory.ts
+ *
+ * Tests cover:
+ * - Field-by-field diff against the current outlet
+ * - Submitting history changes one field at a time
+ * - Pending list and approve/reject processing
+ */
+
+import { act, renderHook } from '@testing-library/react-native';
+import { buildOutletChanges, getOutletFieldValue, useOutletHistory } from '@/hooks/data/useOutletHistory';
+import { apiRequest } from '@/utils/api';
+
+jest.mock('@/utils/api', () => ({
+  apiRequest: jest.fn(),
+}));
+
+jest.mock('@/context/auth-context', () => ({
+  useAuth: () => ({ token: 'test_bearer_token' }),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const mockApiRequest = apiRequest as jest.Mock;
+
+const outlet = {
+  id: '1',
+  code: 'OUT001',
+  name: 'Toko Maju',
+  owner_name: 'Budi',
+  owner_phone: '08123',
+  location: '-6.2,106.8',
+  region_id: 3,
+  region: { id: 3, name: 'Jakarta' },
+};
+
+const pendingHistory = (id: string, field: string) => ({
+  id,
+  outlet_id: '1',
+  field,
+  old_value: 'Old',
+  new_value: 'New',
+  changed_by: '2',
+  changed_at: '2024-01-15T10:00:00Z',
+  status: 'pending',
+});
+
+describe('outlet diff helpers', () => {
+  it('should show relation names for relation id fields', () => {
+    expect(getOutletFieldValue(outlet, 'region_id')).toBe('Jakarta');
+    expect(getOutletFieldValue(outlet, 'owner_name')).toBe('Budi');
+    expect(getOutletFieldValue(outlet, 'address')).toBe('');
+  });
+
+  it('should only include fields that changed', () => {
+    const changes = buildOutletChanges(outlet, {
+      owner_name: 'Budi',
+      owner_phone: '08999 ',
+      location: '',
+    }, 'Nomor baru');
+
+    expect(changes).toEqual([
+      { field: 'owner_phone', old_value: '08123', new_value: '08999', reason: 'Nomor baru' },
+    ]);
+  });
+});
+
+describe('useOutletHistory', () => {
+  beforeEach(() => {
+    mockApiRequest.mockReset();
+  });
+
+  it('should post one history-change per field', async () => {
+    mockApiRequest.mockResolvedValue({ meta: { code: 200 }, data: { outlet_id: '1' } });
+    const { result } = renderHook(() => useOutletHistory());
+
+    let response: any;
+    await act(async () => {
+      response = await result.current.submitHistoryChanges('1', [
+        { field: 'owner_name', old_value: 'Budi', new_value: 'Andi' },
+        { field: 'owner_phone', old_value: '08123', new_value: '08999' },
+      ]);
+    });
+
+    expect(response).toEqual({ success: true, data: 2 });
+    expect(mockApiRequest).toHaveBeenCalledTimes(2);
+    expect(mockApiRequest.mock.calls[0][0]).toMatchObject({
+      url: 'https://sam.rizqis.com/outlets/1/history-change',
+      method: 'POST',
+      body: { field: 'owner_name', old_value: 'Budi', new_value: 'Andi' },
+    });
+  });
+
+  it('should report how many changes were sent before a failure', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: {} })
+      .mockRejectedValueOnce(new Error('Validation failed'));
+    const { result } = renderHook(() => useOutletHistory());
+
+    let response: any;
+    await act(async () => {
+      response = await result.current.submitHistoryChanges('1', [
+        { field: 'owner_name', old_value: 'Budi', new_value: 'Andi' },
+        { field: 'owner_phone', old_value: '08123', new_value: '08999' },
+      ]);
+    });
+
+    expect(response).toEqual({ success: false, error: 'Validation failed', data: 1 });
+  });
+
+  it('should drop processed items from the pending list', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200, last_page: 1 }, data: [pendingHistory('1', 'name'), pendingHistory('2', 'owner_name')] })
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: { id: '1', status: 'approve' } });
+    const { result } = renderHook(() => useOutletHistory());
+
+    await act(async () => {
+      await result.current.fetchPendingHistories();
+    });
+    await act(async () => {
+      await result.current.processHistory('1', 'reject', 'Tidak valid');
+    });
+
+    expect(mockApiRequest.mock.calls[1][0]).toMatchObject({
+      url: 'https://sam.rizqis.com/outlet-histories/1/process',
+      body: { action: 'reject', reason: 'Tidak valid' },
+    });
+    expect(result.current.pendingHistories.map(h => h.id)).toEqual(['2']);
+  });
+});
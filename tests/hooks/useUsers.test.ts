@@ -0,0 +1,138 @@
+/**
+ * User Management Hook Tests
+ * Tests for hooks/data/useUsers.ts and hooks/form/useUserForm.ts helpers
+ *
+ * Tests cover:
+ * - Searchable, paginated user list
+ * - Update, deactivate and delete keeping the list in sync
+ * - Prefilling the edit form from an existing user's scope
+ */
+
+import { act, renderHook } from '@testing-library/react-native';
+import { useUsers } from '@/hooks/data/useUsers';
+import { toUserPayload, userToFormData } from '@/hooks/form/useUserForm';
+import { apiRequest } from '@/utils/api';
+
+jest.mock('@/utils/api', () => ({
+  apiRequest: jest.fn(),
+}));
+
+jest.mock('@/context/auth-context', () => ({
+  useAuth: () => ({ token: 'test_bearer_token' }),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const mockApiRequest = apiRequest as jest.Mock;
+
+const user = (id: string, name: string) => ({
+  id,
+  name,
+  username: name.toLowerCase(),
+  phone: '08123',
+  role_id: 2,
+  role: { id: 2, name: 'Sales' },
+  is_active: true,
+});
+
+describe('user form helpers', () => {
+  it('should prefill scope values from single ids, arrays and comma lists', () => {
+    const values = userToFormData({
+      ...user('1', 'Budi'),
+      badan_usaha_id: 1,
+      division_id: [3, 4],
+      region_id: '5,6',
+      cluster_id: null,
+    });
+
+    expect(values).toMatchObject({
+      role: '2',
+      badanusaha: '1',
+      divisi: ['3', '4'],
+      region: ['5', '6'],
+      cluster: '',
+    });
+    expect(toUserPayload(values)).toMatchObject({ divisi: '3,4', region: '5,6', cluster: '' });
+  });
+});
+
+describe('useUsers', () => {
+  beforeEach(() => {
+    mockApiRequest.mockReset();
+  });
+
+  it('should search and append following pages', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200, last_page: 2 }, data: [user('1', 'Budi')] })
+      .mockResolvedValueOnce({ meta: { code: 200, last_page: 2 }, data: [user('2', 'Bima')] });
+    const { result } = renderHook(() => useUsers());
+
+    await act(async () => {
+      await result.current.fetchUsers({ page: 1, per_page: 20, search: 'bi' });
+    });
+    await act(async () => {
+      await result.current.fetchUsers({ page: 2, per_page: 20, search: 'bi' });
+    });
+
+    expect(mockApiRequest.mock.calls[0][0]).toMatchObject({
+      url: 'https://sam.rizqis.com/user?page=1&per_page=20&search=bi',
+      method: 'GET',
+    });
+    expect(result.current.users.map(u => u.id)).toEqual(['1', '2']);
+  });
+
+  it('should deactivate a user with PATCH and update the list', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200, last_page: 1 }, data: [user('1', 'Budi')] })
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: { id: '1' } });
+    const { result } = renderHook(() => useUsers());
+
+    await act(async () => {
+      await result.current.fetchUsers();
+    });
+    await act(async () => {
+      await result.current.setUserActive('1', false);
+    });
+
+    expect(mockApiRequest.mock.calls[1][0]).toMatchObject({
+      url: 'https://sam.rizqis.com/user/1',
+      method: 'PATCH',
+      body: { is_active: false },
+    });
+    expect(result.current.users[0].is_active).toBe(false);
+  });
+
+  it('should drop a deleted user from the list', async () => {
+    mockApiRequest
+      .mockResolvedValueOnce({ meta: { code: 200, last_page: 1 }, data: [user('1', 'Budi'), user('2', 'Bima')] })
+      .mockResolvedValueOnce({ meta: { code: 200 }, data: { message: 'User deleted successfully' } });
+    const { result } = renderHook(() => useUsers());
+
+    await act(async () => {
+      await result.current.fetchUsers();
+    });
+    let response: any;
+    await act(async () => {
+      response = await result.current.deleteUser('1');
+    });
+
+    expect(response.success).toBe(true);
+    expect(mockApiRequest.mock.calls[1][0]).toMatchObject({ url: 'https://sam.rizqis.com/user/1', method: 'DELETE' });
+    expect(result.current.users.map(u => u.id)).toEqual(['2']);
+  });
+
+  it('should return the error when update fails', async () => {
+    mockApiRequest.mockRejectedValueOnce(new Error('Username sudah digunakan'));
+    const { result } = renderHook(() => useUsers());
+
+    let response: any;
+    await act(async () => {
+      response = await result.current.updateUser('1', { name: 'Budi', username: 'budi', phone: '08123', role: '2' });
+    });
+
+    expect(response).toEqual({ success: false, error: 'Username sudah digunakan' });
+    expect(result.current.error).toBe('Username sudah digunakan');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * API Client Tests
+ * Tests for services/api-client.ts
+ *
+ * Tests cover:
+ * - Query string building (empty values, arrays, nested filters)
+ * - Resource endpoints mapping to path, method and log label
+ * - Reference caching and mutation-driven invalidation
+ * - Check-out photos sent as one upload transfer
+ * - ApiResult wrapping
+ */
+
+import { buildQueryString, createApiClient, toApiResult } from '@/services/api-client';
+import { isQueryStale, peekQuery, queryKey, setQueryData } from '@/services/query-cache';
+import { startUploadTransfer } from '@/services/upload-manager';
+import { apiRequest } from '@/utils/api';
+
+jest.mock('@/utils/api', () => ({
+  apiRequest: jest.fn(),
+  uploadFile: jest.fn(),
+}));
+
+jest.mock('@/services/upload-manager', () => ({
+  startUploadTransfer: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const mockApiRequest = apiRequest as jest.Mock;
+const mockStartUploadTransfer = startUploadTransfer as jest.Mock;
+
+describe('buildQueryString', () => {
+  it('should skip empty values and keep zero/false', () => {
+    expect(buildQueryString({ page: 1, search: '', status: null, per_page: undefined, month: 0, active: false }))
+      .toBe('page=1&month=0&active=false');
+  });
+
+  it('should expand arrays and nested filters in the backend format', () => {
+    const query = decodeURIComponent(buildQueryString({
+      'filters[type]': ['EXTRACALL', 'PLANNED'],
+      filters: { status: 'unread', region_id: [1, 2], cluster_id: '' },
+    }));
+
+    expect(query).toBe('filters[type][]=EXTRACALL&filters[type][]=PLANNED&filters[status]=unread&filters[region_id][]=1&filters[region_id][]=2');
+  });
+});
+
+describe('createApiClient', () => {
+  const api = createApiClient('test_bearer_token');
+
+  beforeEach(() => {
+    mockApiRequest.mockReset();
+    mockApiRequest.mockResolvedValue({ meta: { code: 200, status: 'success', message: 'OK' }, data: [] });
+  });
+
+  it('should build resource requests with the bound token', async () => {
+    await api.visits.list({ page: 2, 'filters[date]': '2024-01-15' });
+
+    expect(mockApiRequest).toHaveBeenCalledWith({
+      url: 'https://sam.rizqis.com/visits?page=2&filters%5Bdate%5D=2024-01-15&sort_column=visit_date&sort_direction=desc',
+      method: 'GET',
+      body: null,
+      logLabel: 'FETCH_VISITS',
+      token: 'test_bearer_token',
+    });
+  });
+
+  it('should encode path ids and allow overriding log label and timeout', async () => {
+    const formData = new FormData();
+    await api.outlets.update('OUT/1', formData, { logLabel: 'UPDATE_OUTLET_WITH_FILE', timeout: 60000 });
+
+    expect(mockApiRequest.mock.calls[0][0]).toMatchObject({
+      url: 'https://sam.rizqis.com/outlets/OUT%2F1',
+      method: 'POST',
+      body: formData,
+      logLabel: 'UPDATE_OUTLET_WITH_FILE',
+      timeout: 60000,
+    });
+  });
+
+  it('should update a plan visit with PUT', async () => {
+    await api.planVisits.update(5, { outlet_id: 2, visit_date: '2024-01-16' });
+
+    expect(mockApiRequest.mock.calls[0][0]).toMatchObject({
+      url: 'https://sam.rizqis.com/plan-visits/5',
+      method: 'PUT',
+      body: { outlet_id: 2, visit_date: '2024-01-16' },
+      logLabel: 'UPDATE_PLANVISIT',
+    });
+  });
+
+  it('should only send reference filters that are set', async () => {
+    await api.references.divisions();
+    await api.references.divisions('3');
+
+    expect(mockApiRequest.mock.calls[0][0].url).toBe('https://sam.rizqis.com/references/division');
+    expect(mockApiRequest.mock.calls[1][0].url).toBe('https://sam.rizqis.com/references/division?badan_usaha_id=3');
+  });
+
+  it('should only filter notifications by a read status other than all', async () => {
+    await api.notifications.list({ status: 'all' });
+    await api.notifications.list({ page: 2, status: 'read' });
+
+    expect(mockApiRequest.mock.calls[0][0].url).toBe('https://sam.rizqis.com/notifications?page=1&per_page=20');
+    expect(mockApiRequest.mock.calls[1][0].url).toBe(
+      'https://sam.rizqis.com/notifications?page=2&per_page=20&filters%5Bstatus%5D=read'
+    );
+  });
+
+  it('should send the check-out photo and all attachments in one transfer without retry', async () => {
+    mockStartUploadTransfer.mockResolvedValue({ meta: { code: 200 }, data: { id: 5 } });
+    const photo = { field: 'checkout_photo', uri: 'file:///checkout.jpg', name: 'checkout.jpg', type: 'image/jpeg' };
+    const attachments = [
+      { field: 'visit_photos[0]', uri: 'file:///display.jpg', name: 'display.jpg', type: 'image/jpeg' },
+      { field: 'visit_photos[1]', uri: 'file:///posm.jpg', name: 'posm.jpg', type: 'image/jpeg' },
+    ];
+
+    await api.visits.uploadCheckOut('checkout-5', 'Toko 5', 5, { transaction: 'NO' }, photo, attachments);
+
+    expect(mockStartUploadTransfer).toHaveBeenCalledTimes(1);
+    expect(mockStartUploadTransfer.mock.calls[0][0]).toMatchObject({
+      id: 'checkout-5',
+      url: 'https://sam.rizqis.com/visits/5',
+      fields: { transaction: 'NO' },
+      files: [photo, ...attachments],
+    });
+    expect(mockStartUploadTransfer.mock.calls[0][0].retry).toBeUndefined();
+    expect(mockStartUploadTransfer.mock.calls[0][0].perFile).toBeUndefined();
+  });
+
+  it('should upload outlet files one background request at a time with retry', async () => {
+    mockStartUploadTransfer.mockResolvedValue({ meta: { code: 200 }, data: { id: 1 } });
+
+    await api.outlets.uploadFiles('outlet-1', 1, { owner_name: 'Budi' }, []);
+
+    expect(mockStartUploadTransfer.mock.calls.at(-1)[0]).toMatchObject({ id: 'outlet-1', perFile: true, retry: {} });
+  });
+
+  it('should cache reference data and invalidate lists after mutations', async () => {
+    await api.references.roles();
+    await api.references.roles();
+    expect(mockApiRequest).toHaveBeenCalledTimes(1);
+
+    setQueryData(queryKey('/plan-visits', { date: '2024-01-15' }), { data: [] });
+    await api.planVisits.create({ outlet_id: 2, visit_date: '2024-01-15' });
+
+    expect(isQueryStale(peekQuery(queryKey('/plan-visits', { date: '2024-01-15' })))).toBe(true);
+  });
+});
+
+describe('toApiResult', () => {
+  it('should wrap responses and errors without throwing', async () => {
+    await expect(toApiResult(Promise.resolve({ data: { id: 1 }, meta: { code: 200, status: 'success' as const, message: 'OK' } }), 'fallback'))
+      .resolves.toEqual({ success: true, data: { id: 1 }, meta: { code: 200, status: 'success', message: 'OK' } });
+    await expect(toApiResult(Promise.reject(new Error('Server error')), 'fallback'))
+      .resolves.toEqual({ success: false, error: 'Server error' });
+    await expect(toApiResult(Promise.reject({}), 'fallback'))
+      .resolves.toEqual({ success: false, error: 'fallback' });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Daily Route Tests
+ * Tests for services/daily-route.ts
+ *
+ * Tests cover:
+ * - Ordering plan visits by the saved route
+ * - Optimizing stops with and without coordinates
+ * - Manual reordering
+ * - Persisting the route for the current day only
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  applyRouteOrder,
+  createDailyRoute,
+  getDailyRoute,
+  getRouteDate,
+  moveRouteStop,
+  optimizeStopOrder,
+  saveDailyRoute,
+} from '@/services/daily-route';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const PLANS = [
+  { id: 1, location: '-6.2,106.84' },
+  { id: 2, location: '' },
+  { id: 3, location: '-6.2,106.81' },
+  { id: 4, location: '-6.2,106.82' },
+];
+
+describe('Daily Route', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should format the local date as the route key', () => {
+    expect(getRouteDate(new Date(2026, 2, 5, 23, 30))).toBe('2026-03-05');
+  });
+
+  it('should order items by the route and keep new items at the end', () => {
+    const ordered = applyRouteOrder(PLANS, ['4', '1'], plan => plan.id);
+    expect(ordered.map(plan => plan.id)).toEqual([4, 1, 2, 3]);
+    expect(applyRouteOrder(PLANS, null, plan => plan.id)).toBe(PLANS);
+  });
+
+  it('should optimize located stops and append stops without coordinates', () => {
+    const order = optimizeStopOrder(PLANS, { latitude: -6.2, longitude: 106.8 }, plan => plan.id, plan => plan.location);
+    expect(order).toEqual(['3', '4', '1', '2']);
+  });
+
+  it('should move a stop up or down within bounds', () => {
+    expect(moveRouteStop(['1', '2', '3'], 2, -1)).toEqual(['2', '1', '3']);
+    expect(moveRouteStop(['1', '2', '3'], '3', 1)).toEqual(['1', '2', '3']);
+    expect(moveRouteStop(['1', '2', '3'], 9, 1)).toEqual(['1', '2', '3']);
+  });
+
+  it('should only return the saved route for the same day', async () => {
+    await saveDailyRoute(createDailyRoute('2026-03-05', [3, 1], true));
+
+    const saved = await getDailyRoute('2026-03-05');
+    expect(saved).toMatchObject({ date: '2026-03-05', order: ['3', '1'], locked: true });
+    expect(await getDailyRoute('2026-03-06')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Location Integrity Tests
+ * Tests for services/location-integrity.ts
+ *
+ * Tests cover:
+ * - Mocked flag and implausible accuracy
+ * - Teleport speed between consecutive fixes
+ * - Mismatch against the previous visit
+ * - Backend policy actions (ignore / warn / reject)
+ */
+
+import {
+  DEFAULT_INTEGRITY_POLICY,
+  evaluateLocationIntegrity,
+  integrityFields,
+  LocationFix,
+  normalizeIntegrityPolicy,
+  visitReferenceFix,
+} from '@/services/location-integrity';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const NOW = new Date('2026-03-02T10:00:00').getTime();
+const JAKARTA: LocationFix = { latitude: -6.2, longitude: 106.816666, accuracy: 12, timestamp: NOW };
+
+describe('Location Integrity', () => {
+  it('should accept a normal fix', () => {
+    const verdict = evaluateLocationIntegrity(JAKARTA, {});
+
+    expect(verdict).toEqual({ status: 'ok', signals: [], messages: [] });
+  });
+
+  it('should reject mocked locations and warn on implausible accuracy', () => {
+    expect(evaluateLocationIntegrity({ ...JAKARTA, mocked: true }, {}).status).toBe('reject');
+
+    const verdict = evaluateLocationIntegrity({ ...JAKARTA, accuracy: 0 }, {});
+    expect(verdict.status).toBe('warn');
+    expect(verdict.signals).toEqual(['IMPLAUSIBLE_ACCURACY']);
+  });
+
+  it('should flag a teleport between consecutive fixes but not normal travel', () => {
+    // Bandung (~120 km) 10 menit kemudian
+    const bandung = { latitude: -6.9175, longitude: 107.6191, accuracy: 10, timestamp: NOW + 10 * 60 * 1000 };
+    expect(evaluateLocationIntegrity(bandung, { previousFix: JAKARTA }).signals).toEqual(['TELEPORT']);
+
+    const threeHoursLater = { ...bandung, timestamp: NOW + 3 * 3600 * 1000 };
+    expect(evaluateLocationIntegrity(threeHoursLater, { previousFix: JAKARTA }).status).toBe('ok');
+  });
+
+  it('should flag coordinates replayed from the previous visit', () => {
+    const previousVisit = visitReferenceFix({
+      checkin_location: '-6.1,106.8',
+      checkin_time: '2026-03-02 08:00:00',
+      checkout_location: '-6.200000,106.816666',
+      checkout_time: '2026-03-02 09:00:00',
+    });
+
+    expect(previousVisit).toEqual({ latitude: -6.2, longitude: 106.816666, timestamp: new Date('2026-03-02T09:00:00').getTime() });
+    expect(evaluateLocationIntegrity(JAKARTA, { previousVisit }).signals).toEqual(['PREVIOUS_VISIT_MISMATCH']);
+  });
+
+  it('should follow the backend policy and build form fields', () => {
+    const policy = normalizeIntegrityPolicy({ actions: { ...DEFAULT_INTEGRITY_POLICY.actions, MOCKED: 'ignore', IMPLAUSIBLE_ACCURACY: 'reject' } });
+    const fix = { ...JAKARTA, mocked: true, accuracy: 0.5 };
+
+    const verdict = evaluateLocationIntegrity(fix, {}, policy);
+
+    expect(policy.max_speed_kmh).toBe(DEFAULT_INTEGRITY_POLICY.max_speed_kmh);
+    expect(verdict).toMatchObject({ status: 'reject', signals: ['IMPLAUSIBLE_ACCURACY'] });
+    expect(integrityFields(verdict, fix)).toEqual({
+      location_integrity: 'REJECT',
+      location_integrity_signals: 'IMPLAUSIBLE_ACCURACY',
+      location_accuracy: '1',
+      location_mocked: '1',
+    });
+  });
+});
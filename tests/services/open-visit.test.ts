@@ -0,0 +1,125 @@
+/**
+ * Open Visit Tests
+ * Tests for services/open-visit.ts
+ *
+ * Tests cover:
+ * - Tracking a check-in with dwell-time reminders
+ * - Blocking check-in at another outlet
+ * - Attaching the visit id after an outbox replay
+ * - Releasing a queued check-in that will not be sent
+ * - Closing and syncing with server visits
+ */
+
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  attachOpenVisitId,
+  closeOpenVisit,
+  getOpenVisit,
+  isBlockedByOpenVisit,
+  releasePendingOpenVisit,
+  startOpenVisit,
+  subscribeOpenVisit,
+  syncOpenVisit,
+} from '@/services/open-visit';
+import type { Visit } from '@/types/visit';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const OUTLET = { location: '-6.2,106.8', radius: 100 };
+
+const serverVisit = (overrides: Partial<Visit>): Visit => ({
+  id: 10,
+  checkin_time: '2026-03-02 08:00:00',
+  checkout_time: null,
+  outlet: { id: 5, code: 'OUT-5', name: 'Toko Lima', location: '-6.3,106.9', radius: 50 },
+  ...overrides,
+} as Visit);
+
+describe('Open Visit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Notifications.scheduleNotificationAsync as jest.Mock)
+      .mockResolvedValueOnce('reminder-1')
+      .mockResolvedValueOnce('reminder-2');
+  });
+
+  afterEach(async () => {
+    await closeOpenVisit();
+  });
+
+  it('should track a check-in and schedule only future reminders', async () => {
+    const checkinAt = Date.now() - 90 * 60000;
+
+    const visit = await startOpenVisit(
+      { visitId: '1', outletId: '7', outletName: 'OUT-7 • Toko Tujuh', outlet: OUTLET, checkinAt },
+      { reminder_minutes: [60, 120, 240] }
+    );
+
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(2);
+    expect(visit.reminderIds).toEqual(['reminder-1', 'reminder-2']);
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('open_visit', expect.any(String));
+    expect(isBlockedByOpenVisit(visit, 7)).toBe(false);
+    expect(isBlockedByOpenVisit(visit, 8)).toBe(true);
+    expect(isBlockedByOpenVisit(null, 8)).toBe(false);
+  });
+
+  it('should attach the visit id once the queued check-in is sent', async () => {
+    await startOpenVisit({ visitId: null, outletId: '7', outletName: 'Toko Tujuh', outlet: OUTLET });
+
+    await attachOpenVisitId('8', 99);
+    expect((await getOpenVisit())?.visitId).toBeNull();
+
+    await attachOpenVisitId('7', 42);
+    expect((await getOpenVisit())?.visitId).toBe('42');
+  });
+
+  it('should only release a queued check-in at the same outlet', async () => {
+    await startOpenVisit({ visitId: '1', outletId: '7', outletName: 'Toko Tujuh', outlet: OUTLET });
+    await releasePendingOpenVisit('7');
+    expect((await getOpenVisit())?.visitId).toBe('1');
+
+    await startOpenVisit({ visitId: null, outletId: '7', outletName: 'Toko Tujuh', outlet: OUTLET });
+    await releasePendingOpenVisit('8');
+    expect(await getOpenVisit()).not.toBeNull();
+
+    await releasePendingOpenVisit(7);
+    expect(await getOpenVisit()).toBeNull();
+  });
+
+  it('should cancel reminders and notify subscribers on close', async () => {
+    await startOpenVisit({ visitId: '1', outletId: '7', outletName: 'Toko Tujuh', outlet: OUTLET });
+    const listener = jest.fn();
+    const unsubscribe = subscribeOpenVisit(listener);
+
+    await closeOpenVisit();
+    unsubscribe();
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('reminder-1');
+    expect(AsyncStorage.removeItem).toHaveBeenCalledWith('open_visit');
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+
+  it('should sync with server visits', async () => {
+    await syncOpenVisit([serverVisit({ id: 11, checkout_time: '2026-03-02 09:00:00' }), serverVisit({})]);
+
+    const tracked = await getOpenVisit();
+    expect(tracked).toMatchObject({ visitId: '10', outletId: '5', outletName: 'OUT-5 • Toko Lima' });
+    expect(tracked?.outlet).toEqual({ location: '-6.3,106.9', radius: 50, boundary: undefined });
+
+    await syncOpenVisit([serverVisit({ auto_closed_at: '2026-03-02 20:00:00' })]);
+    expect(await getOpenVisit()).toBeNull();
+  });
+
+  it('should replace a queued check-in with the open visit from the server', async () => {
+    await startOpenVisit({ visitId: null, outletId: '7', outletName: 'Toko Tujuh', outlet: OUTLET });
+
+    await syncOpenVisit([]);
+    expect((await getOpenVisit())?.outletId).toBe('7');
+
+    await syncOpenVisit([serverVisit({})]);
+    expect(await getOpenVisit()).toMatchObject({ visitId: '10', outletId: '5' });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Photo Manifest Tests
+ * Tests for services/photo-manifest.ts
+ *
+ * Tests cover:
+ * - Signing a photo and verifying the embedded manifest
+ * - Detecting edited photos, tampered manifests and re-used photos
+ * - Merging the backend verification result
+ * - Server-synced capture time
+ * - Keeping the signing key in secure storage
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import {
+  applyServerVerification,
+  buildManifestXmp,
+  createSignedPhoto,
+  getPhotoSigningKey,
+  PhotoSigningKey,
+  savePhotoSigningKey,
+  verifyPhotoBytes,
+} from '@/services/photo-manifest';
+import { recordServerDate, resetServerClock } from '@/services/server-clock';
+import { embedXmp, extractXmp } from '@/utils/jpeg-xmp';
+import { bytesToBase64, utf8Encode } from '@/utils/sha256';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const KEY: PhotoSigningKey = { key_id: 'key-1', secret: bytesToBase64(utf8Encode('rahasia-perangkat')) };
+const NOW = Date.parse('2026-03-02T03:00:00.000Z');
+
+const jpeg = (data: number[] = [0x01, 0x02, 0x03]) => new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46,
+  0xff, 0xda, 0x00, 0x02, ...data,
+  0xff, 0xd9,
+]);
+
+const signedPhoto = (key: PhotoSigningKey | null = KEY) =>
+  createSignedPhoto(jpeg(), {
+    kind: 'VISIT_PHOTO',
+    visitId: 10,
+    outletId: 7,
+    fix: { latitude: -6.2, longitude: 106.8, accuracy: 12 },
+  }, { deviceId: 'device-1', key, now: NOW });
+
+describe('Photo Manifest', () => {
+  beforeEach(() => {
+    resetServerClock();
+  });
+
+  it('should sign a photo and verify it as valid', () => {
+    const { bytes, signed } = signedPhoto();
+
+    expect(signed.manifest).toMatchObject({
+      visit_id: '10',
+      outlet_id: '7',
+      device_id: 'device-1',
+      key_id: 'key-1',
+      captured_at: '2026-03-02T03:00:00.000Z',
+      time_source: 'device',
+    });
+    expect(signed.signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyPhotoBytes(bytes, KEY, { visitId: 10, outletId: 7 }).status).toBe('VALID');
+  });
+
+  it('should flag edited photos and tampered manifests', () => {
+    const { bytes, signed } = signedPhoto();
+
+    // Isi gambar diubah, manifest tetap
+    const edited = embedXmp(jpeg([0x09, 0x02, 0x03]), extractXmp(bytes).xmp!);
+    expect(verifyPhotoBytes(edited, KEY).status).toBe('EDITED');
+
+    // Manifest diubah tanpa tanda tangan ulang
+    const tampered = embedXmp(jpeg(), buildManifestXmp({ ...signed, manifest: { ...signed.manifest, visit_id: '11' } }));
+    expect(verifyPhotoBytes(tampered, KEY).status).toBe('INVALID_SIGNATURE');
+
+    expect(verifyPhotoBytes(jpeg(), KEY).status).toBe('NO_MANIFEST');
+  });
+
+  it('should flag photos re-used from another visit or outlet', () => {
+    const { bytes } = signedPhoto();
+
+    const result = verifyPhotoBytes(bytes, KEY, { visitId: 12, outletId: 8 });
+    expect(result.status).toBe('REUSED');
+    expect(result.messages).toEqual(['Foto berasal dari kunjungan #10.', 'Foto berasal dari outlet #7.']);
+
+    expect(verifyPhotoBytes(signedPhoto(null).bytes, KEY, { visitId: 10 }).status).toBe('UNSIGNED');
+    expect(verifyPhotoBytes(bytes, null, { visitId: 10 }).status).toBe('UNVERIFIED');
+  });
+
+  it('should merge the backend verification and use server time when synced', () => {
+    const local = verifyPhotoBytes(signedPhoto().bytes, null, { visitId: 10 });
+
+    expect(applyServerVerification(local, { signature_valid: true, duplicate_visit_ids: [10] }, { visitId: 10 }).status).toBe('VALID');
+    expect(applyServerVerification(local, { signature_valid: false, duplicate_visit_ids: [] }).status).toBe('INVALID_SIGNATURE');
+    expect(applyServerVerification(local, { signature_valid: true, duplicate_visit_ids: [10, 9] }).messages)
+      .toEqual(['Foto yang sama sudah dipakai di kunjungan #9.']);
+
+    // Jam server 5 menit lebih cepat dari perangkat
+    recordServerDate(new Date(NOW + 5 * 60_000).toUTCString(), NOW, NOW);
+    const { signed } = signedPhoto();
+    expect(signed.manifest.captured_at).toBe('2026-03-02T03:05:00.000Z');
+    expect(signed.manifest.time_source).toBe('server');
+  });
+
+  it('should keep the signing key in secure storage only', async () => {
+    await savePhotoSigningKey(KEY);
+
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith('photo_signing_key', JSON.stringify(KEY));
+    expect(AsyncStorage.setItem).not.toHaveBeenCalledWith('photo_signing_key', expect.anything());
+    expect(AsyncStorage.removeItem).toHaveBeenCalledWith('photo_signing_key');
+    await expect(getPhotoSigningKey()).resolves.toEqual(KEY);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Plan Compliance Tests
+ * Tests for services/plan-compliance.ts
+ *
+ * Tests cover:
+ * - Day, week and month period ranges and navigation
+ * - Planned vs actual matching: visited, missed, pending and extra calls
+ * - Strike rate, average duration and check-in/check-out times
+ * - Visit list filters for ranges crossing months and years
+ */
+
+import {
+  ComplianceVisit,
+  computeCompliance,
+  formatClock,
+  formatRate,
+  getPeriodRange,
+  shiftPeriod,
+  visitFiltersForRange,
+} from '@/services/plan-compliance';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const visit = (
+  id: number,
+  outletId: number,
+  date: string,
+  checkin: string,
+  checkout: string | null,
+  transaction: string | null
+): ComplianceVisit => ({
+  id,
+  visit_date: date,
+  checkin_time: `${date}T${checkin}:00`,
+  checkout_time: checkout ? `${date}T${checkout}:00` : null,
+  auto_closed_at: null,
+  duration: null,
+  transaction,
+  outlet: { id: outletId, name: `Toko ${outletId}` },
+});
+
+describe('Plan Compliance', () => {
+  it('should build Monday-based weeks and calendar months', () => {
+    expect(getPeriodRange('day', '2026-03-04')).toEqual({ from: '2026-03-04', to: '2026-03-04' });
+    expect(getPeriodRange('week', '2026-03-08')).toEqual({ from: '2026-03-02', to: '2026-03-08' });
+    expect(getPeriodRange('month', '2026-02-14')).toEqual({ from: '2026-02-01', to: '2026-02-28' });
+  });
+
+  it('should move the anchor by one period', () => {
+    expect(shiftPeriod('day', '2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftPeriod('week', '2026-03-04', 1)).toBe('2026-03-11');
+    expect(shiftPeriod('month', '2026-01-31', 1)).toBe('2026-02-01');
+  });
+
+  it('should filter visits by month and year for a December–January week', () => {
+    const range = getPeriodRange('week', '2026-12-31');
+
+    expect(range).toEqual({ from: '2026-12-28', to: '2027-01-03' });
+    expect(visitFiltersForRange(range, 7)).toEqual([
+      { 'filters[user_id]': 7, 'filters[month]': 12, 'filters[year]': 2026 },
+      { 'filters[user_id]': 7, 'filters[month]': 1, 'filters[year]': 2027 },
+    ]);
+    expect(visitFiltersForRange({ from: '2027-01-01', to: '2027-01-01' })).toEqual([{ 'filters[date]': '2027-01-01' }]);
+  });
+
+  it('should compare plans with actual visits per day', () => {
+    const plans = [
+      { id: 1, outlet_id: 1, visit_date: '2026-03-02', outlet: { name: 'Toko 1' } },
+      { id: 2, outlet_id: 2, visit_date: '2026-03-02', outlet: { name: 'Toko 2' } },
+      // Plan ganda untuk outlet yang sama dihitung sekali
+      { id: 3, outlet_id: 2, visit_date: '2026-03-02' },
+      { id: 4, outlet_id: 3, visit_date: '2026-03-03' },
+      { id: 5, outlet_id: 4, visit_date: '2026-03-04' },
+      { id: 6, outlet_id: 5, visit_date: '2026-03-10' },
+    ];
+    const visits = [
+      visit(10, 1, '2026-03-02', '08:15', '08:45', 'YES'),
+      visit(11, 9, '2026-03-02', '10:00', '10:20', 'NO'),
+      visit(12, 3, '2026-03-03', '09:30', '10:30', 'YES'),
+      visit(13, 4, '2026-03-04', '07:50', null, null),
+    ];
+
+    const summary = computeCompliance(plans, visits, getPeriodRange('week', '2026-03-04'), '2026-03-04');
+
+    expect(summary).toMatchObject({
+      planned: 4,
+      visited: 3,
+      missed: 1,
+      pending: 0,
+      extra: 1,
+      totalVisits: 4,
+      productiveVisits: 2,
+      complianceRate: 75,
+      averageDurationMinutes: 37,
+    });
+    // Strike rate dari kunjungan yang sudah punya hasil transaksi (2 dari 3)
+    expect(summary.strikeRate).toBeCloseTo(66.67, 1);
+    expect(summary.missedPlans.map(plan => plan.id)).toEqual([2]);
+    expect(summary.extraVisits.map(item => item.id)).toEqual([11]);
+    expect(summary.days).toHaveLength(7);
+    expect(summary.days[0]).toMatchObject({ planned: 2, visited: 1, missed: 1, extra: 1, firstCheckIn: 495, lastCheckOut: 620 });
+    // Rata-rata check-in pertama: 08.15, 09.30, 07.50
+    expect(formatClock(summary.averageFirstCheckIn)).toBe('08.32');
+  });
+
+  it('should keep today and future plans pending instead of missed', () => {
+    const plans = [
+      { outlet_id: 1, visit_date: '2026-03-04' },
+      { outlet_id: 2, visit_date: '2026-03-05' },
+    ];
+    const summary = computeCompliance(plans, [], getPeriodRange('week', '2026-03-04'), '2026-03-04');
+
+    expect(summary).toMatchObject({ planned: 2, missed: 0, pending: 2, complianceRate: null, strikeRate: null });
+    expect(formatRate(summary.complianceRate)).toBe('-');
+    expect(formatRate(66.6)).toBe('67%');
+  });
+});
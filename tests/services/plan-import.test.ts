@@ -0,0 +1,163 @@
+/**
+ * Plan Import Tests
+ * Tests for services/plan-import.ts
+ *
+ * Tests cover:
+ * - Reading CSV/XLSX sheets and guessing the column mapping
+ * - Rejecting oversized and legacy XLS files before parsing
+ * - Normalizing spreadsheet dates
+ * - Per-row validation and duplicate detection
+ * - Error report content and sharing
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as XLSX from 'xlsx';
+import {
+  buildImportErrorReport,
+  guessPlanMapping,
+  ImportOutletRef,
+  ImportUserRef,
+  MAX_IMPORT_FILE_BYTES,
+  parseImportDate,
+  parsePlanSheet,
+  readPlanRows,
+  shareImportErrorReport,
+  summarizePlanImport,
+  validatePlanRows,
+} from '@/services/plan-import';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(() => Promise.resolve(true)),
+  shareAsync: jest.fn(() => Promise.resolve()),
+}));
+
+const toBase64 = (text: string) => Buffer.from(text, 'utf8').toString('base64');
+
+const outlets = new Map<string, ImportOutletRef>([
+  ['OUT-1', { id: 1, code: 'OUT-1', name: 'Toko Satu' }],
+  ['OUT-2', { id: 2, code: 'OUT-2', name: 'Toko Dua' }],
+]);
+
+const users = new Map<string, ImportUserRef>([
+  ['budi', { id: 10, name: 'Budi Santoso', username: 'budi' }],
+]);
+
+describe('Plan Import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should read CSV as plain text and skip blank rows', () => {
+    const sheet = parsePlanSheet(toBase64('Kode Outlet,Tanggal,Sales\nOUT-1,03/04/2026,budi\n,,\nout-2,2026-04-05,\n'));
+
+    expect(sheet.headers).toEqual(['Kode Outlet', 'Tanggal', 'Sales']);
+    expect(sheet.rows).toEqual([
+      ['OUT-1', '03/04/2026', 'budi'],
+      ['out-2', '2026-04-05', ''],
+    ]);
+    expect(guessPlanMapping(sheet.headers)).toEqual({ outlet_code: 0, visit_date: 1, user: 2 });
+  });
+
+  it('should read semicolon CSV with quoted cells', () => {
+    const sheet = parsePlanSheet(toBase64('\uFEFFKode Outlet;Tanggal;Catatan\r\nOUT-1;03/04/2026;"Toko ""Maju""; pasar"\r\n'));
+
+    expect(sheet.headers).toEqual(['Kode Outlet', 'Tanggal', 'Catatan']);
+    expect(sheet.rows).toEqual([['OUT-1', '03/04/2026', 'Toko "Maju"; pasar']]);
+  });
+
+  it('should reject oversized and legacy XLS files before parsing', () => {
+    const ole = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).toString('base64');
+    const oversized = Buffer.alloc(MAX_IMPORT_FILE_BYTES + 3, 0x41).toString('base64');
+
+    expect(() => parsePlanSheet(ole)).toThrow('Format XLS lama tidak didukung');
+    expect(() => parsePlanSheet(oversized)).toThrow('Ukuran file maksimal 2 MB.');
+  });
+
+    it('should read XLSX dates as Excel serials', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['outlet_code', 'visit_date'], ['OUT-1', 46115]]), 'Plan');
+    const sheet = parsePlanSheet(XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' }));
+
+    expect(guessPlanMapping(sheet.headers)).toEqual({ outlet_code: 0, visit_date: 1, user: null });
+    expect(readPlanRows(sheet, guessPlanMapping(sheet.headers))[0]).toEqual({
+      row: 2,
+      outlet_code: 'OUT-1',
+      date_text: '46115',
+      user: '',
+      visit_date: '2026-04-03',
+    });
+  });
+
+  it('should prefer the outlet code column over the outlet name column', () => {
+    expect(guessPlanMapping(['Outlet', 'Kode Outlet', 'Tanggal Kunjungan']).outlet_code).toBe(1);
+  });
+
+  it('should normalize supported date formats', () => {
+    expect(parseImportDate('2026-04-03')).toBe('2026-04-03');
+    expect(parseImportDate('3/4/2026')).toBe('2026-04-03');
+    expect(parseImportDate('03-04-2026')).toBe('2026-04-03');
+    expect(parseImportDate('46115.75')).toBe('2026-04-03');
+    expect(parseImportDate('31/02/2026')).toBeNull();
+    expect(parseImportDate('April 3')).toBeNull();
+  });
+
+  it('should validate rows and flag duplicates within the file and against existing plans', () => {
+    const sheet = {
+      headers: ['Kode', 'Tanggal', 'User'],
+      rows: [
+        ['OUT-1', '2026-04-03', 'budi'],
+        ['out-1', '03/04/2026', 'BUDI'],
+        ['OUT-2', '2026-04-06', ''],
+        ['OUT-9', 'besok', 'andi'],
+        ['', '2026-03-01', ''],
+      ],
+    };
+    const rows = validatePlanRows(readPlanRows(sheet, { outlet_code: 0, visit_date: 1, user: 2 }), {
+      outlets,
+      users,
+      existing: [{ id: 5, outlet_id: 2, visit_date: '2026-04-06' }],
+      today: '2026-04-01',
+    });
+
+    expect(rows[0]).toMatchObject({ status: 'valid', data: { outlet_id: 1, visit_date: '2026-04-03', user_id: 10 } });
+    expect(rows[1]).toMatchObject({ status: 'duplicate', errors: ['Duplikat dengan baris 2'] });
+    expect(rows[2]).toMatchObject({ status: 'duplicate', errors: ['Plan untuk outlet ini sudah ada di tanggal tersebut'] });
+    expect(rows[3].errors).toEqual([
+      'Outlet dengan kode OUT-9 tidak ditemukan',
+      'Format tanggal "besok" tidak dikenali',
+      'User andi tidak ditemukan',
+    ]);
+    expect(rows[4].errors).toEqual(['Kode outlet kosong', 'Tanggal sudah lewat']);
+    expect(summarizePlanImport(rows)).toEqual({ valid: 1, invalid: 2, duplicate: 2 });
+  });
+
+  it('should list invalid, duplicate and failed rows in the error report', () => {
+    const rows = validatePlanRows(
+      readPlanRows(
+        { headers: [], rows: [['OUT-1', '2026-04-03'], ['OUT-2', '2026-04-04'], ['OUT-9', '2026-04-05']] },
+        { outlet_code: 0, visit_date: 1, user: null }
+      ),
+      { outlets, today: '2026-04-01' }
+    );
+
+    const report = buildImportErrorReport(rows, [{ row: 3, error: 'Outlet tidak aktif, "cek ulang"' }]);
+    expect(report.split('\n')).toEqual([
+      'Baris,Kode Outlet,Tanggal,User,Status,Keterangan',
+      '3,OUT-2,2026-04-04,,Gagal dibuat,"Outlet tidak aktif, ""cek ulang"""',
+      '4,OUT-9,2026-04-05,,Tidak valid,Outlet dengan kode OUT-9 tidak ditemukan',
+    ]);
+  });
+
+  it('should write the report to the cache directory and share it', async () => {
+    await expect(shareImportErrorReport('Baris\n2')).resolves.toBe(true);
+
+    const uri = (FileSystem.writeAsStringAsync as jest.Mock).mock.calls[0][0];
+    expect(uri).toMatch(/^file:\/\/\/cache\/plan-import-errors-\d+\.csv$/);
+    expect(Sharing.shareAsync).toHaveBeenCalledWith(uri, expect.objectContaining({ mimeType: 'text/csv' }));
+  });
+});
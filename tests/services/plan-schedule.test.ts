@@ -0,0 +1,121 @@
+/**
+ * Plan Schedule Tests
+ * Tests for services/plan-schedule.ts
+ *
+ * Tests cover:
+ * - Local date keys, week and month grids
+ * - Recurring template description and date generation
+ * - Per-day conflict and overload warnings
+ * - Persisting templates
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  checkPlanDate,
+  createPlanTemplate,
+  deletePlanTemplate,
+  describeTemplate,
+  generateTemplateDates,
+  getDayWarnings,
+  getPlanTemplates,
+  monthGrid,
+  monthsInRange,
+  previewTemplatePlans,
+  savePlanTemplate,
+  startOfWeek,
+  weekDates,
+} from '@/services/plan-schedule';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+// 2026-03-02 adalah hari Senin
+const template = createPlanTemplate({
+  outlet_id: 7,
+  outlet_name: 'Toko Maju',
+  outlet_code: 'OUT-7',
+  weekdays: [4, 1],
+  interval_weeks: 2,
+  start_date: '2026-03-03',
+});
+
+describe('Plan Schedule', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should build Monday-based weeks and full-week month grids', () => {
+    expect(startOfWeek('2026-03-08')).toBe('2026-03-02');
+    expect(weekDates('2026-03-04')).toEqual([
+      '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08',
+    ]);
+
+    const grid = monthGrid(2026, 2);
+    expect(grid[0]).toBe('2026-02-23');
+    expect(grid[grid.length - 1]).toBe('2026-04-05');
+    expect(grid.length % 7).toBe(0);
+  });
+
+  it('should list the months covered by a range', () => {
+    expect(monthsInRange('2026-02-23', '2026-04-05')).toEqual([
+      { month: '02', year: '2026' },
+      { month: '03', year: '2026' },
+      { month: '04', year: '2026' },
+    ]);
+  });
+
+  it('should describe recurring templates', () => {
+    expect(describeTemplate({ weekdays: [2], interval_weeks: 1 })).toBe('Setiap Selasa');
+    expect(describeTemplate(template)).toBe('Setiap 2 minggu pada Senin & Kamis');
+  });
+
+  it('should generate dates every N weeks from the start week', () => {
+    // Senin 2 Mar sebelum tanggal mulai, jadi tidak ikut
+    expect(generateTemplateDates(template, '2026-03-01', '2026-03-31')).toEqual([
+      '2026-03-05', '2026-03-16', '2026-03-19', '2026-03-30',
+    ]);
+    expect(generateTemplateDates({ ...template, interval_weeks: 1, weekdays: [2] }, '2026-03-10', '2026-03-24')).toEqual([
+      '2026-03-10', '2026-03-17', '2026-03-24',
+    ]);
+  });
+
+  it('should flag duplicate outlets and overloaded days', () => {
+    const plans = [
+      { id: 1, outlet_id: 7, visit_date: '2026-03-05', outlet: { name: 'Toko Maju' } },
+      { id: 2, outlet_id: 7, visit_date: '2026-03-05', outlet: { name: 'Toko Maju' } },
+      { id: 3, outlet_id: 8, visit_date: '2026-03-06' },
+      { id: 4, outlet_id: 9, visit_date: '2026-03-06' },
+    ];
+
+    const warnings = getDayWarnings(plans, 1);
+    expect(warnings['2026-03-05']).toEqual({ count: 2, overloaded: true, duplicates: ['Toko Maju'] });
+    expect(warnings['2026-03-06'].duplicates).toEqual([]);
+
+    // Plan yang dipindahkan tidak dihitung di hari tujuan
+    expect(checkPlanDate(plans, { id: 3, outlet_id: 8, visit_date: '2026-03-06' }, 2)).toEqual({ duplicate: false, count: 2, overloaded: false });
+    expect(checkPlanDate(plans, { id: 4, outlet_id: 8, visit_date: '2026-03-05' }, 2)).toEqual({ duplicate: false, count: 3, overloaded: true });
+    expect(checkPlanDate(plans, { outlet_id: 9, visit_date: '2026-03-06' }).duplicate).toBe(true);
+  });
+
+  it('should preview generated plans and skip dates the outlet already has', () => {
+    const preview = previewTemplatePlans(template, '2026-03-01', '2026-03-20', [
+      { id: 1, outlet_id: 7, visit_date: '2026-03-05' },
+      { id: 2, outlet_id: 8, visit_date: '2026-03-16' },
+    ], 1);
+
+    expect(preview).toEqual([
+      { date: '2026-03-05', duplicate: true, dayCount: 1, overloaded: false },
+      { date: '2026-03-16', duplicate: false, dayCount: 2, overloaded: true },
+      { date: '2026-03-19', duplicate: false, dayCount: 1, overloaded: false },
+    ]);
+  });
+
+  it('should save and delete templates on the device', async () => {
+    await savePlanTemplate(template);
+    expect(await getPlanTemplates()).toEqual([template]);
+
+    await deletePlanTemplate(template.id);
+    expect(await getPlanTemplates()).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Query Cache Service Tests
+ * Tests for services/query-cache.ts
+ *
+ * Tests cover:
+ * - Normalized keys from endpoint + params
+ * - TTL freshness and in-flight de-duplication
+ * - Prefix invalidation notifying subscribers
+ * - Persisting to and hydrating from AsyncStorage
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearQueryCache,
+  fetchQuery,
+  invalidateQueries,
+  isQueryStale,
+  peekQuery,
+  queryKey,
+  setQueryData,
+  subscribeQuery,
+} from '@/services/query-cache';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const storage: Record<string, string> = {};
+
+const mockStorage = (asyncStorage: typeof AsyncStorage) => {
+  (asyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+  (asyncStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+    storage[key] = value;
+    return Promise.resolve();
+  });
+  (asyncStorage.removeItem as jest.Mock).mockImplementation((key: string) => {
+    delete storage[key];
+    return Promise.resolve();
+  });
+};
+
+describe('Query Cache Service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    Object.keys(storage).forEach(key => delete storage[key]);
+    mockStorage(AsyncStorage);
+    await clearQueryCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should build the same key regardless of param order and skip empty values', () => {
+    expect(queryKey('/plan-visits', { page: 1, date: '2024-01-15', search: '' }))
+      .toBe(queryKey('/plan-visits', { date: '2024-01-15', page: 1, search: undefined }));
+    expect(queryKey('/visits', {})).toBe('/visits');
+  });
+
+  it('should serve fresh data from cache and share in-flight requests', async () => {
+    const fetcher = jest.fn(() => Promise.resolve({ data: [1] }));
+
+    const [first, second] = await Promise.all([
+      fetchQuery('/visits', fetcher, { ttl: 60000 }),
+      fetchQuery('/visits', fetcher, { ttl: 60000 }),
+    ]);
+    const cached = await fetchQuery('/visits', fetcher, { ttl: 60000 });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(cached).toEqual({ data: [1] });
+
+    await fetchQuery('/visits', fetcher, { ttl: 60000, force: true });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refetch once the ttl has passed', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const fetcher = jest.fn(() => Promise.resolve('data'));
+
+    await fetchQuery('/references/role', fetcher, { ttl: 500 });
+    now.mockReturnValue(1600);
+    await fetchQuery('/references/role', fetcher, { ttl: 500 });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+  });
+
+  it('should keep data but mark matching prefixes stale on invalidate', () => {
+    const listener = jest.fn();
+    setQueryData(queryKey('/plan-visits', { date: '2024-01-15' }), ['plan']);
+    setQueryData('/plan-visits-summary', ['summary']);
+    subscribeQuery(queryKey('/plan-visits', { date: '2024-01-15' }), listener);
+
+    invalidateQueries('/plan-visits');
+
+    const invalidated = peekQuery(queryKey('/plan-visits', { date: '2024-01-15' }));
+    expect(invalidated?.data).toEqual(['plan']);
+    expect(isQueryStale(invalidated)).toBe(true);
+    expect(isQueryStale(peekQuery('/plan-visits-summary'))).toBe(false);
+    expect(listener).toHaveBeenCalledWith(invalidated);
+  });
+
+  it('should persist entries and hydrate them in a new session', async () => {
+    jest.useFakeTimers();
+    setQueryData('/outlets', ['outlet']);
+    jest.advanceTimersByTime(1000);
+    jest.useRealTimers();
+
+    expect(JSON.parse(storage.query_cache)['/outlets'].data).toEqual(['outlet']);
+
+    let hydrated: any;
+    await jest.isolateModulesAsync(async () => {
+      mockStorage(require('@react-native-async-storage/async-storage'));
+      const freshCache = require('@/services/query-cache');
+      await freshCache.hydrateQueryCache();
+      hydrated = freshCache.peekQuery('/outlets');
+    });
+
+    expect(hydrated?.data).toEqual(['outlet']);
+  });
+
+  it('should drop the persisted cache on clear', async () => {
+    setQueryData('/user', ['user']);
+    await clearQueryCache();
+
+    expect(peekQuery('/user')).toBeUndefined();
+    expect(AsyncStorage.removeItem).toHaveBeenCalledWith('query_cache');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Sales Order Tests
+ * Tests for services/sales-order.ts
+ *
+ * Tests cover:
+ * - Line and order totals with percent discount
+ * - Adding products and merging the same unit
+ * - Building the check-out payload
+ * - Persisting drafts per visit
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addOrderLine,
+  buildOrderPayload,
+  calculateLineTotal,
+  calculateOrderTotals,
+  clearOrderDraft,
+  createOrderDraft,
+  getOrderDraft,
+  saveOrderDraft,
+} from '@/services/sales-order';
+import type { Product } from '@/types/product';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const PRODUCT: Product = {
+  id: 1,
+  code: 'SKU-1',
+  name: 'Teh Botol 350ml',
+  category: 'Minuman',
+  units: [
+    { name: 'PCS', price: 4000, conversion: 1 },
+    { name: 'KRT', price: 90000, conversion: 24 },
+  ],
+};
+
+describe('Sales Order', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should calculate line and order totals with percent discount', () => {
+    expect(calculateLineTotal({ price: 4000, quantity: 3, discount: 10 })).toEqual({ gross: 12000, discount: 1200, net: 10800 });
+    expect(calculateLineTotal({ price: 4000, quantity: 1, discount: 150 }).net).toBe(0);
+
+    const lines = addOrderLine(addOrderLine([], PRODUCT), PRODUCT, PRODUCT.units[1]);
+    lines[1] = { ...lines[1], quantity: 2, discount: 5 };
+
+    expect(calculateOrderTotals(lines)).toEqual({ items: 2, quantity: 3, gross: 184000, discount: 9000, total: 175000 });
+  });
+
+  it('should merge the same product and unit into one line', () => {
+    const lines = addOrderLine(addOrderLine([], PRODUCT), PRODUCT);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ productId: '1', unit: 'PCS', price: 4000, quantity: 2, discount: 0 });
+  });
+
+  it('should build the payload sent with check-out', () => {
+    const draft = { ...createOrderDraft(10), lines: addOrderLine([], PRODUCT, PRODUCT.units[1]), notes: '  ' };
+
+    expect(buildOrderPayload(draft)).toEqual({
+      lines: [{ product_id: '1', unit: 'KRT', quantity: 1, price: 90000, discount_percent: 0, subtotal: 90000 }],
+      notes: null,
+      total_gross: 90000,
+      total_discount: 0,
+      total: 90000,
+    });
+  });
+
+  it('should persist drafts per visit until cleared', async () => {
+    await saveOrderDraft({ ...createOrderDraft(10), lines: addOrderLine([], PRODUCT) });
+    await saveOrderDraft(createOrderDraft(11));
+
+    expect((await getOrderDraft('10'))?.lines).toHaveLength(1);
+    expect(await getOrderDraft(11)).toMatchObject({ visitId: '11', lines: [] });
+
+    await clearOrderDraft(10);
+    expect(await getOrderDraft(10)).toBeNull();
+    expect(await getOrderDraft(11)).not.toBeNull();
+  });
+});
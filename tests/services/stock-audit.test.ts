@@ -0,0 +1,110 @@
+/**
+ * Stock Audit Tests
+ * Tests for services/stock-audit.ts
+ *
+ * Tests cover:
+ * - Default and per-SKU fields, grouping by shelf
+ * - Required field validation and progress
+ * - Building the check-out payload with shelf photo attachments
+ * - Persisting drafts per visit
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  buildStockAuditPayload,
+  clearStockAuditDraft,
+  countStockAuditProgress,
+  createStockAuditDraft,
+  getStockAuditDraft,
+  groupStockAuditByShelf,
+  isStockAuditStarted,
+  saveStockAuditDraft,
+  setStockAuditValue,
+  StockAuditItem,
+  stockAuditAttachments,
+  validateStockAudit,
+} from '@/services/stock-audit';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const ITEMS: StockAuditItem[] = [
+  { id: 1, code: 'SKU-1', name: 'Teh Botol', shelf: 'Chiller' },
+  { id: 2, code: 'SKU-2', name: 'Air Mineral', shelf: null },
+  {
+    id: 3,
+    code: 'SKU-3',
+    name: 'Kopi Sachet',
+    shelf: 'Chiller',
+    fields: [{ key: 'posm', label: 'POSM terpasang', type: 'boolean', required: true }],
+  },
+];
+
+describe('Stock Audit', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should group SKUs by shelf in checklist order', () => {
+    const shelves = groupStockAuditByShelf(ITEMS);
+
+    expect(shelves.map(shelf => shelf.name)).toEqual(['Chiller', 'Rak Utama']);
+    expect(shelves[0].items.map(item => item.id)).toEqual([1, 3]);
+  });
+
+  it('should validate required fields and count progress', () => {
+    let draft = createStockAuditDraft(10);
+    expect(isStockAuditStarted(draft)).toBe(false);
+
+    draft = setStockAuditValue(draft, 1, 'available', false);
+    draft = setStockAuditValue(draft, 1, 'stock', 0);
+
+    expect(isStockAuditStarted(draft)).toBe(true);
+    expect(validateStockAudit(ITEMS, draft)).toEqual(['Air Mineral: Tersedia di rak', 'Kopi Sachet: POSM terpasang']);
+    expect(countStockAuditProgress(ITEMS, draft)).toEqual({ done: 1, total: 3 });
+  });
+
+  it('should build the payload and attachments for shelf photos', () => {
+    const draft = {
+      ...setStockAuditValue(createStockAuditDraft(10), 2, 'facings', 4),
+      shelfPhotos: { 'Rak Utama': 'file:///documents/stock-audit/rak.jpg' },
+    };
+
+    expect(buildStockAuditPayload(ITEMS, draft)).toEqual({
+      items: [{ sku_id: '2', values: { facings: 4 } }],
+      shelves: [
+        { name: 'Chiller', photo_field: null },
+        { name: 'Rak Utama', photo_field: 'stock_audit_photos[0]' },
+      ],
+    });
+    expect(stockAuditAttachments(draft)).toEqual([{
+      field: 'stock_audit_photos[0]',
+      uri: 'file:///documents/stock-audit/rak.jpg',
+      name: 'stock-audit-10-0.jpg',
+      type: 'image/jpeg',
+    }]);
+  });
+
+  it('should give every shelf photo its own field referenced by the payload', () => {
+    const draft = {
+      ...createStockAuditDraft(10),
+      shelfPhotos: { Chiller: 'file:///documents/stock-audit/chiller.jpg', 'Rak Utama': 'file:///documents/stock-audit/rak.jpg' },
+    };
+
+    const referenced = buildStockAuditPayload(ITEMS, draft).shelves.map(shelf => shelf.photo_field);
+    const fields = stockAuditAttachments(draft).map(photo => photo.field);
+
+    expect(new Set(fields).size).toBe(fields.length);
+    expect([...referenced].sort()).toEqual([...fields].sort());
+  });
+
+  it('should persist drafts per visit until cleared', async () => {
+    await saveStockAuditDraft(setStockAuditValue(createStockAuditDraft(10), 1, 'available', true));
+
+    expect((await getStockAuditDraft('10'))?.values).toEqual({ '1': { available: true } });
+
+    await clearStockAuditDraft(10);
+    expect(await getStockAuditDraft(10)).toBeNull();
+  });
+});
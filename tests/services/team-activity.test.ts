@@ -0,0 +1,103 @@
+/**
+ * Team Activity Tests
+ * Tests for services/team-activity.ts
+ *
+ * Tests cover:
+ * - Detecting supervisors (permission + scope) and reps within their scopes
+ * - Daily rep status, visit counts and last check-in
+ * - Sorting and summarizing the team
+ */
+
+import {
+  getSupervisedScopes,
+  isSupervisor,
+  isUserInScope,
+  scopeUserFilter,
+  sortTeamActivity,
+  summarizeRepDay,
+  summarizeTeam,
+  TEAM_VIEW_PERMISSION,
+} from '@/services/team-activity';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const member = (id: number, name: string) => ({ id, name, username: name.toLowerCase(), region_id: 1, cluster_id: [10, 11] });
+
+const visit = (id: number, outletId: number, checkin: string, checkout: string | null, location: string | null = null) => ({
+  id,
+  checkin_time: `2026-03-04T${checkin}:00`,
+  checkout_time: checkout ? `2026-03-04T${checkout}:00` : null,
+  checkin_location: location,
+  auto_closed_at: null,
+  outlet: { id: outletId, name: `Toko ${outletId}` },
+});
+
+describe('Team Activity', () => {
+  it('should require the team permission on top of a region or cluster scope', () => {
+    const permissions = [TEAM_VIEW_PERMISSION];
+
+    expect(isSupervisor({ region_id: 1, cluster_id: 10 }, permissions)).toBe(true);
+    expect(isSupervisor({ region_id: 1, cluster_id: 10 }, ['create_user'])).toBe(false);
+    expect(isSupervisor({ badan_usaha_id: 1, division_id: 2, region_id: null, cluster_id: null }, permissions)).toBe(false);
+    expect(isSupervisor(null, permissions)).toBe(false);
+    expect(getSupervisedScopes([{ division_id: 2 }, { region_id: 1, cluster_id: null }])).toEqual([{ region_id: 1, cluster_id: null }]);
+  });
+
+  it('should filter the user list by cluster, else by region', () => {
+    expect(scopeUserFilter({ region_id: 1, cluster_id: 10 })).toEqual({ cluster_id: 10 });
+    expect(scopeUserFilter({ region_id: 1, cluster_id: null })).toEqual({ region_id: 1 });
+    expect(scopeUserFilter({ division_id: 2 })).toEqual({});
+  });
+
+  it('should match reps by cluster first, then by region', () => {
+    const rep = { region_id: '1', cluster_id: [10, 11] };
+
+    expect(isUserInScope(rep, [{ region_id: 1, cluster_id: 11 }])).toBe(true);
+    expect(isUserInScope(rep, [{ region_id: 1, cluster_id: 12 }])).toBe(false);
+    expect(isUserInScope(rep, [{ region_id: 1 }])).toBe(true);
+    expect(isUserInScope({ region_id: null, cluster_id: null }, [{ region_id: 1 }])).toBe(false);
+  });
+
+  it('should summarize a rep day from visits and plans', () => {
+    const activity = summarizeRepDay(
+      member(1, 'Budi'),
+      [
+        visit(1, 7, '08:00', '08:30', '-6.2,106.8'),
+        visit(2, 9, '10:15', null, '-6.3,106.9'),
+      ],
+      [
+        { outlet_id: 7, visit_date: '2026-03-04' },
+        { outlet_id: 8, visit_date: '2026-03-04' },
+      ]
+    );
+
+    expect(activity).toMatchObject({
+      status: 'in_visit',
+      visitCount: 2,
+      completedCount: 1,
+      plannedCount: 2,
+      visitedPlanCount: 1,
+    });
+    expect(activity.lastCheckIn).toMatchObject({ location: { latitude: -6.3, longitude: 106.9 }, outletName: 'Toko 9' });
+  });
+
+  it('should sort reps in the field first and count statuses', () => {
+    const activity = sortTeamActivity([
+      summarizeRepDay(member(1, 'Citra'), [], []),
+      summarizeRepDay(member(2, 'Andi'), [visit(3, 7, '08:00', '09:00')], []),
+      summarizeRepDay(member(3, 'Budi'), [visit(4, 7, '08:00', null)], []),
+      summarizeRepDay(member(4, 'Agus'), [], []),
+    ]);
+
+    expect(activity.map(item => [item.member.name, item.status])).toEqual([
+      ['Budi', 'in_visit'],
+      ['Andi', 'done'],
+      ['Agus', 'not_started'],
+      ['Citra', 'not_started'],
+    ]);
+    expect(activity[2].lastCheckIn).toBeNull();
+    expect(summarizeTeam(activity)).toEqual({ not_started: 2, in_visit: 1, done: 1 });
+  });
+});
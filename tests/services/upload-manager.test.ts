@@ -0,0 +1,234 @@
+/**
+ * Upload Manager Tests
+ * Tests for services/upload-manager.ts
+ *
+ * Tests cover:
+ * - One multipart request per transfer with progress
+ * - Per-file background uploads that resume from the first unsent file
+ * - No automatic retry unless the request opts in
+ * - Re-sending a failed transfer as a whole
+ * - Refreshing the session on 401
+ */
+
+import * as FileSystem from 'expo-file-system';
+import {
+  clearUploadTransfer,
+  getUploadProgress,
+  getUploadTransfer,
+  startUploadTransfer,
+  subscribeUploadTransfer,
+  UploadTransferRequest,
+} from '@/services/upload-manager';
+import { refreshSession } from '@/utils/api';
+
+jest.mock('@/utils/api', () => ({
+  ...jest.requireActual('@/utils/api'),
+  getRetryDelay: jest.fn(() => 0),
+  refreshSession: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const mockCreateUploadTask = FileSystem.createUploadTask as jest.Mock;
+const mockRefreshSession = refreshSession as jest.Mock;
+
+const success = { status: 200, body: JSON.stringify({ meta: { code: 200, status: 'success', message: 'OK' }, data: { id: 1 } }) };
+
+type UploadResult = { status: number; body: string } | Error;
+
+// Setiap panggilan createUploadTask memakai hasil berikutnya dan melaporkan progress penuh
+function mockUploads(...results: UploadResult[]) {
+  mockCreateUploadTask.mockImplementation((_url, _uri, _options, onProgress) => ({
+    uploadAsync: jest.fn(async () => {
+      const result = results.shift() ?? success;
+      if (result instanceof Error) throw result;
+      onProgress?.({ totalBytesSent: 100, totalBytesExpectedToSend: 100 });
+      return result;
+    }),
+    cancelAsync: jest.fn(),
+  }));
+}
+
+type XhrResult = { status: number; body: string } | 'error';
+
+// XHR palsu untuk transfer multi-file: simpan request terakhir dan selesaikan dengan hasil berikutnya
+const xhrRequests: { url: string; headers: Record<string, string>; body: any }[] = [];
+function mockXhr(...results: XhrResult[]) {
+  (global as any).XMLHttpRequest = jest.fn(() => {
+    const xhr: any = {
+      upload: {},
+      headers: {} as Record<string, string>,
+      open: jest.fn((_method: string, url: string) => { xhr.url = url; }),
+      setRequestHeader: jest.fn((key: string, value: string) => { xhr.headers[key] = value; }),
+      abort: jest.fn(() => xhr.onabort?.()),
+      send: jest.fn((body: any) => {
+        xhrRequests.push({ url: xhr.url, headers: xhr.headers, body });
+        const result = results.shift() ?? success;
+        setTimeout(() => {
+          if (result === 'error') return xhr.onerror?.();
+          xhr.upload.onprogress?.({ loaded: 100, total: 100 });
+          xhr.status = result.status;
+          xhr.responseText = result.body;
+          xhr.onload?.();
+        }, 0);
+      }),
+    };
+    return xhr;
+  });
+}
+
+const request = (id: string): UploadTransferRequest => ({
+  id,
+  label: 'Outlet 1',
+  url: 'https://sam.rizqis.com/outlets/1',
+  logLabel: 'UPLOAD_OUTLET_FILES',
+  token: 'test_bearer_token',
+  fields: { owner_name: 'Budi' },
+  files: [
+    { field: 'photo_front', uri: 'file:///front.jpg', name: 'front.jpg', type: 'image/jpeg' },
+    { field: 'video', uri: 'file:///video.mp4', name: 'video.mp4', type: 'video/mp4' },
+  ],
+});
+
+describe('Upload Manager Service', () => {
+  const appendSpy = jest.spyOn(FormData.prototype, 'append');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    xhrRequests.length = 0;
+    mockUploads();
+    mockXhr();
+  });
+
+  it('should send all files and fields in a single multipart request', async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeUploadTransfer('upload-1', listener);
+
+    const response = await startUploadTransfer(request('upload-1'));
+    unsubscribe();
+
+    expect(response.data).toEqual({ id: 1 });
+    expect(mockCreateUploadTask).not.toHaveBeenCalled();
+    expect(xhrRequests).toHaveLength(1);
+    expect(xhrRequests[0]).toMatchObject({
+      url: 'https://sam.rizqis.com/outlets/1',
+      headers: expect.objectContaining({ Authorization: 'Bearer test_bearer_token' }),
+    });
+    expect(appendSpy.mock.calls.map(([field]) => field)).toEqual(['owner_name', 'photo_front', 'video']);
+    expect(appendSpy).toHaveBeenCalledWith('video', { uri: 'file:///video.mp4', name: 'video.mp4', type: 'video/mp4' });
+    expect(getUploadTransfer('upload-1')?.status).toBe('done');
+    expect(getUploadProgress(getUploadTransfer('upload-1'))).toBe(1);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('should send check-out fields such as the order once, whatever the number of photos', async () => {
+    const order = JSON.stringify({ lines: [{ product_id: 1, quantity: 2 }] });
+    await startUploadTransfer({
+      ...request('upload-checkout'),
+      url: 'https://sam.rizqis.com/visits/5',
+      fields: { transaction: 'YES', order },
+      files: [
+        { field: 'checkout_photo', uri: 'file:///checkout.jpg', name: 'checkout.jpg', type: 'image/jpeg' },
+        { field: 'visit_photos[0]', uri: 'file:///display.jpg', name: 'display.jpg', type: 'image/jpeg' },
+        { field: 'stock_audit_photos[0]', uri: 'file:///shelf.jpg', name: 'shelf.jpg', type: 'image/jpeg' },
+      ],
+    });
+
+    expect(xhrRequests).toHaveLength(1);
+    expect(appendSpy.mock.calls.filter(([field]) => field === 'order')).toEqual([['order', order]]);
+  });
+
+  it('should upload a single file with a background upload task', async () => {
+    await startUploadTransfer({ ...request('upload-2'), files: [request('upload-2').files[0]] });
+
+    expect(xhrRequests).toHaveLength(0);
+    expect(mockCreateUploadTask).toHaveBeenCalledTimes(1);
+    expect(mockCreateUploadTask).toHaveBeenCalledWith(
+      'https://sam.rizqis.com/outlets/1',
+      'file:///front.jpg',
+      expect.objectContaining({
+        fieldName: 'photo_front',
+        mimeType: 'image/jpeg',
+        parameters: { owner_name: 'Budi' },
+        headers: expect.objectContaining({ Authorization: 'Bearer test_bearer_token' }),
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it('should upload each file in its own background task for per-file transfers', async () => {
+    await startUploadTransfer({ ...request('upload-8'), perFile: true });
+
+    expect(xhrRequests).toHaveLength(0);
+    expect(mockCreateUploadTask.mock.calls.map(([, uri, options]) => [uri, options.fieldName, options.parameters])).toEqual([
+      ['file:///front.jpg', 'photo_front', { owner_name: 'Budi' }],
+      ['file:///video.mp4', 'video', { owner_name: 'Budi' }],
+    ]);
+    expect(mockCreateUploadTask.mock.calls[0][2].sessionType).toBe(FileSystem.FileSystemSessionType.BACKGROUND);
+    expect(getUploadTransfer('upload-8')).toMatchObject({ status: 'done', parts: 2, sentFiles: ['photo_front|file:///front.jpg', 'video|file:///video.mp4'] });
+  });
+
+  it('should resume a per-file transfer from the first file that was not sent', async () => {
+    mockUploads(success, new Error('connection lost'));
+    await expect(startUploadTransfer({ ...request('upload-9'), perFile: true })).rejects.toThrow('Network request failed');
+    expect(getUploadProgress(getUploadTransfer('upload-9'))).toBe(0.5);
+
+    mockCreateUploadTask.mockClear();
+    mockUploads();
+    await startUploadTransfer({ ...request('upload-9'), perFile: true });
+
+    expect(mockCreateUploadTask).toHaveBeenCalledTimes(1);
+    expect(mockCreateUploadTask.mock.calls[0][1]).toBe('file:///video.mp4');
+    expect(getUploadTransfer('upload-9')?.status).toBe('done');
+  });
+
+  it('should not retry network failures unless the request opts in', async () => {
+    mockXhr('error', success);
+
+    await expect(startUploadTransfer(request('upload-3'))).rejects.toThrow('Network request failed');
+    expect(xhrRequests).toHaveLength(1);
+    expect(getUploadTransfer('upload-3')?.status).toBe('failed');
+    expect(getUploadProgress(getUploadTransfer('upload-3'))).toBe(0);
+
+    xhrRequests.length = 0;
+    mockXhr('error', success);
+    await startUploadTransfer({ ...request('upload-4'), retry: {} });
+    expect(xhrRequests).toHaveLength(2);
+  });
+
+  it('should not retry validation errors even when retry is enabled', async () => {
+    mockXhr({ status: 422, body: JSON.stringify({ meta: { code: 422, message: 'Invalid' }, errors: { video: ['validation.uploaded'] } }) });
+
+    await expect(startUploadTransfer({ ...request('upload-5'), retry: {} })).rejects.toMatchObject({ httpStatus: 422 });
+    expect(xhrRequests).toHaveLength(1);
+    expect(getUploadTransfer('upload-5')?.error).toBe('Invalid: validation.uploaded');
+  });
+
+  it('should refresh the session on 401 and re-send with the new token', async () => {
+    mockRefreshSession.mockResolvedValue('refreshed_token');
+    mockXhr({ status: 401, body: JSON.stringify({ meta: { code: 401, message: 'Unauthenticated' } }) });
+
+    await startUploadTransfer(request('upload-6'));
+
+    expect(mockRefreshSession).toHaveBeenCalledTimes(1);
+    expect(xhrRequests).toHaveLength(2);
+    expect(xhrRequests[1].headers.Authorization).toBe('Bearer refreshed_token');
+  });
+
+  it('should re-send every file when a failed transfer is started again', async () => {
+    mockXhr('error');
+    await expect(startUploadTransfer(request('upload-7'))).rejects.toThrow('Network request failed');
+
+    appendSpy.mockClear();
+    await startUploadTransfer(request('upload-7'));
+
+    expect(xhrRequests).toHaveLength(2);
+    expect(appendSpy.mock.calls.map(([field]) => field)).toEqual(['owner_name', 'photo_front', 'video']);
+    expect(getUploadTransfer('upload-7')?.status).toBe('done');
+
+    clearUploadTransfer('upload-7');
+    expect(getUploadTransfer('upload-7')).toBeUndefined();
+  });
+});
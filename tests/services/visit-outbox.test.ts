@@ -0,0 +1,164 @@
+/**
+ * Visit Outbox Service Tests
+ * Tests for services/visit-outbox.ts
+ *
+ * Tests cover:
+ * - Enqueueing check-in/check-out payloads with persisted photos
+ * - In-order replay, stopping on network errors
+ * - Marking server-rejected entries as failed
+ * - Queueable error classification
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import {
+  enqueueVisitRequest,
+  isQueueableError,
+  loadOutbox,
+  removeOutboxEntry,
+  replayOutbox,
+  VisitOutboxRequest,
+} from '@/services/visit-outbox';
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: jest.fn(() => Promise.resolve({ exists: true })),
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  copyAsync: jest.fn(() => Promise.resolve()),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const storage: Record<string, string> = {};
+
+const checkInRequest = (outletId: string): VisitOutboxRequest => ({
+  kind: 'CHECK_IN',
+  label: `Outlet ${outletId}`,
+  fields: { outlet_id: outletId, checkin_location: '-6.2,106.8', type: 'EXTRACALL' },
+  photo: { field: 'checkin_photo', uri: `file:///cache/${outletId}.jpg`, name: `${outletId}.jpg`, type: 'image/jpeg' },
+});
+
+const networkError = { code: 500, message: 'Network request failed' };
+const serverError = Object.assign(new Error('Outlet sudah dikunjungi'), { code: 400, httpStatus: 400 });
+
+describe('Visit Outbox Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.keys(storage).forEach(key => delete storage[key]);
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+    (AsyncStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+      return Promise.resolve();
+    });
+  });
+
+  describe('enqueueVisitRequest', () => {
+    it('should persist the entry and copy the photo out of the cache', async () => {
+      const entry = await enqueueVisitRequest(checkInRequest('1'));
+
+      expect(entry.status).toBe('pending');
+      expect(entry.photo.uri).toMatch(/^file:\/\/\/documents\/visit-outbox\//);
+      expect(FileSystem.copyAsync).toHaveBeenCalledWith({ from: 'file:///cache/1.jpg', to: entry.photo.uri });
+
+      const entries = await loadOutbox();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].fields.outlet_id).toBe('1');
+    });
+
+    it('should keep the original uri when copying fails', async () => {
+      (FileSystem.copyAsync as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+
+      const entry = await enqueueVisitRequest(checkInRequest('2'));
+
+      expect(entry.photo.uri).toBe('file:///cache/2.jpg');
+    });
+
+    it('should persist attachments next to the visit photo', async () => {
+      const entry = await enqueueVisitRequest({
+        ...checkInRequest('3'),
+        attachments: [{ field: 'stock_audit_photos[0]', uri: 'file:///cache/shelf.jpg', name: 'shelf.jpg', type: 'image/jpeg' }],
+      });
+
+      expect(entry.attachments?.[0].uri).toMatch(/^file:\/\/\/documents\/visit-outbox\/.*shelf\.jpg$/);
+
+      await removeOutboxEntry(entry.id);
+      expect(FileSystem.deleteAsync).toHaveBeenCalledWith(entry.attachments?.[0].uri, { idempotent: true });
+    });
+  });
+
+  describe('removeOutboxEntry', () => {
+    it('should delete the persisted photo', async () => {
+      const entry = await enqueueVisitRequest(checkInRequest('1'));
+
+      const remaining = await removeOutboxEntry(entry.id);
+
+      expect(remaining).toHaveLength(0);
+      expect(FileSystem.deleteAsync).toHaveBeenCalledWith(entry.photo.uri, { idempotent: true });
+    });
+  });
+
+  describe('replayOutbox', () => {
+    it('should send pending entries in order and remove them', async () => {
+      await enqueueVisitRequest(checkInRequest('1'));
+      await enqueueVisitRequest(checkInRequest('2'));
+      const send = jest.fn().mockResolvedValue({ meta: { code: 200 } });
+
+      const summary = await replayOutbox(send);
+
+      expect(summary).toEqual({ sent: 2, failed: 0, remaining: 0 });
+      expect(send.mock.calls.map(([entry]) => entry.fields.outlet_id)).toEqual(['1', '2']);
+    });
+
+    it('should stop at the first network error and keep the rest pending', async () => {
+      await enqueueVisitRequest(checkInRequest('1'));
+      await enqueueVisitRequest(checkInRequest('2'));
+      const send = jest.fn().mockRejectedValue(networkError);
+
+      const summary = await replayOutbox(send);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(summary).toEqual({ sent: 0, failed: 0, remaining: 2 });
+      const entries = await loadOutbox();
+      expect(entries[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Network request failed' });
+    });
+
+    it('should mark server rejections as failed and continue', async () => {
+      await enqueueVisitRequest(checkInRequest('1'));
+      await enqueueVisitRequest(checkInRequest('2'));
+      const send = jest.fn()
+        .mockRejectedValueOnce(serverError)
+        .mockResolvedValueOnce({ meta: { code: 200 } });
+
+      const summary = await replayOutbox(send);
+
+      expect(summary).toEqual({ sent: 1, failed: 1, remaining: 1 });
+      const [failed] = await loadOutbox();
+      expect(failed).toMatchObject({ status: 'failed', lastError: 'Outlet sudah dikunjungi' });
+    });
+
+    it('should skip failed entries on later replays', async () => {
+      await enqueueVisitRequest(checkInRequest('1'));
+      await replayOutbox(jest.fn().mockRejectedValue(serverError));
+      const send = jest.fn();
+
+      await replayOutbox(send);
+
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isQueueableError', () => {
+    it('should queue errors without an HTTP response', () => {
+      expect(isQueueableError(networkError)).toBe(true);
+      expect(isQueueableError(new Error('Request timeout'))).toBe(true);
+    });
+
+    it('should not queue errors the server answered', () => {
+      expect(isQueueableError(serverError)).toBe(false);
+      expect(isQueueableError(new Error('Validation failed'))).toBe(false);
+    });
+  });
+});
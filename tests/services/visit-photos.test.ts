@@ -0,0 +1,82 @@
+/**
+ * Visit Photos Tests
+ * Tests for services/visit-photos.ts
+ *
+ * Tests cover:
+ * - Caption validation
+ * - Building the check-out payload and attachments
+ * - Grouping server photos by category
+ * - Persisting drafts per visit
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  buildVisitPhotosPayload,
+  clearVisitPhotoDrafts,
+  getVisitPhotoDrafts,
+  groupVisitPhotos,
+  saveVisitPhotoDrafts,
+  validateVisitPhotos,
+  visitPhotoAttachments,
+  VisitPhotoDraft,
+} from '@/services/visit-photos';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+const draft = (overrides: Partial<VisitPhotoDraft>): VisitPhotoDraft => ({
+  id: 'photo_1',
+  category: 'POSM',
+  caption: 'Banner baru',
+  uri: 'file:///documents/visit-photos/1.jpg',
+  takenAt: Date.UTC(2026, 2, 2, 3, 0, 0),
+  ...overrides,
+});
+
+describe('Visit Photos', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should require a caption for every photo', () => {
+    expect(validateVisitPhotos([draft({}), draft({ id: 'photo_2', category: 'DAMAGED', caption: '  ' })]))
+      .toEqual(['Foto 2 (Barang Rusak) belum diberi keterangan']);
+  });
+
+  it('should build the payload and attachments in the same order', () => {
+    const photos = [draft({}), draft({ id: 'photo_2', category: 'COMPETITOR', caption: ' Rak sebelah ' })];
+
+    expect(buildVisitPhotosPayload(photos)).toEqual([
+      { photo_field: 'visit_photos[0]', category: 'POSM', caption: 'Banner baru', taken_at: '2026-03-02T03:00:00.000Z', manifest: null },
+      { photo_field: 'visit_photos[1]', category: 'COMPETITOR', caption: 'Rak sebelah', taken_at: '2026-03-02T03:00:00.000Z', manifest: null },
+    ]);
+    expect(visitPhotoAttachments(10, photos).map(photo => [photo.field, photo.name])).toEqual([
+      ['visit_photos[0]', 'visit-photo-10-0.jpg'],
+      ['visit_photos[1]', 'visit-photo-10-1.jpg'],
+    ]);
+  });
+
+  it('should group server photos by category order', () => {
+    const groups = groupVisitPhotos([
+      { id: 1, category: 'POSM', caption: null, url: 'https://cdn/1.jpg' },
+      { id: 2, category: 'PROMO', caption: 'Lainnya', url: 'https://cdn/2.jpg' },
+      { id: 3, category: 'DISPLAY_BEFORE', caption: null, url: 'https://cdn/3.jpg' },
+    ]);
+
+    expect(groups.map(group => [group.label, group.photos.length])).toEqual([
+      ['Display Sebelum', 1],
+      ['POSM', 1],
+      ['PROMO', 1],
+    ]);
+  });
+
+  it('should persist drafts per visit until cleared', async () => {
+    await saveVisitPhotoDrafts(10, [draft({})]);
+
+    expect(await getVisitPhotoDrafts('10')).toHaveLength(1);
+
+    await clearVisitPhotoDrafts(10);
+    expect(await getVisitPhotoDrafts(10)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Visit Report Tests
+ * Tests for services/visit-report.ts
+ *
+ * Tests cover:
+ * - Timeline order and visit duration
+ * - Check-in/check-out position against the outlet geofence
+ * - Offline SVG map and HTML rendering for the PDF
+ */
+
+import { buildReportMapSvg, buildVisitReport, renderVisitReportHtml } from '@/services/visit-report';
+import { formatVisitDuration } from '@/services/visit-stats';
+import type { Visit } from '@/types/visit';
+
+jest.mock('@/utils/logger', () => ({
+  log: jest.fn(),
+}));
+
+jest.mock('expo-print', () => ({
+  printToFileAsync: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(),
+  shareAsync: jest.fn(),
+}));
+
+const visit = (overrides: Partial<Visit> = {}): Visit => ({
+  id: 10,
+  visit_date: '2026-03-02',
+  checkin_time: '2026-03-02 09:00:00',
+  checkout_time: '2026-03-02 10:15:00',
+  checkin_location: '-6.2000,106.8000',
+  checkout_location: '-6.2000,106.8030',
+  checkin_photo: 'https://example.com/checkin.jpg',
+  checkout_photo: null,
+  type: 'PLANNED',
+  transaction: 'YES',
+  report: 'Order <ulang> & display rapi',
+  duration: null,
+  photos: [
+    { id: 1, category: 'POSM', caption: 'Banner', url: 'https://example.com/posm.jpg', taken_at: '2026-03-02 09:30:00' },
+  ],
+  outlet: {
+    id: 7,
+    code: 'OUT-7',
+    name: 'Toko Maju',
+    owner_name: 'Budi',
+    address: 'Jl. Merdeka 1',
+    location: '-6.2000,106.8000',
+    radius: 100,
+    badan_usaha: { id: 1, name: 'BU' },
+    division: { id: 1, name: 'Divisi' },
+    region: { id: 1, name: 'Region' },
+    cluster: { id: 1, name: 'Cluster' },
+  },
+  user: { id: 3, name: 'Sari', username: 'sari' },
+  ...overrides,
+});
+
+describe('Visit Report', () => {
+  it('should build the timeline in order with the visit duration', () => {
+    const report = buildVisitReport(visit());
+
+    expect(report.timeline.map(event => event.label)).toEqual(['Check-in', 'Foto POSM', 'Check-out']);
+    expect(report.durationMinutes).toBe(75);
+    expect(formatVisitDuration(report.durationMinutes)).toBe('1 jam 15 menit');
+    expect(formatVisitDuration(45)).toBe('45 menit');
+  });
+
+  it('should check check-in and check-out positions against the outlet geofence', () => {
+    const report = buildVisitReport(visit());
+
+    expect(report.checkinGeofence?.status).toBe('inside');
+    // ±330 m dari outlet dengan radius 100 m
+    expect(report.checkoutGeofence?.status).toBe('outside');
+    expect(report.timeline[2].description).toMatch(/^Jarak: 3\d\d m \(Maks: 100 m\)$/);
+  });
+
+  it('should use the auto-close time and reason when there is no check-out', () => {
+    const report = buildVisitReport(visit({
+      checkout_time: null,
+      checkout_location: null,
+      auto_closed_at: '2026-03-02 13:00:00',
+      auto_close_reason: 'FORGOT_CHECKOUT',
+    }));
+
+    expect(report.timeline[report.timeline.length - 1]).toMatchObject({ kind: 'AUTO_CLOSE', description: 'Lupa check-out' });
+    expect(report.durationMinutes).toBe(240);
+  });
+
+  it('should render an offline map and escaped HTML for the PDF', () => {
+    const item = visit();
+    const report = buildVisitReport(item);
+
+    const svg = buildReportMapSvg(report)!;
+    expect(svg).toContain('<circle');
+    expect(svg).toContain('Check-out');
+    expect(buildReportMapSvg(buildVisitReport(visit({
+      checkin_location: null,
+      checkout_location: null,
+      outlet: { ...item.outlet, location: null },
+    })))).toBeNull();
+
+    const html = renderVisitReportHtml(item, report, { checkin: 'data:image/jpeg;base64,AAA', checkout: null, photos: {} });
+    expect(html).toContain('Order &lt;ulang&gt; &amp; display rapi');
+    expect(html).toContain('src="data:image/jpeg;base64,AAA"');
+    expect(html).not.toContain('https://example.com');
+  });
+});
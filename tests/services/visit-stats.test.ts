@@ -0,0 +1,114 @@
+/**
+ * Visit Stats Tests
+ * Tests for services/visit-stats.ts
+ *
+ * Tests cover:
+ * - Visit duration from check-in/check-out with fallbacks
+ * - Per-outlet summary (last visit, frequency, conversion, average duration)
+ * - Display formatters
+ */
+
+import {
+  formatDaysAgo,
+  formatVisitDuration,
+  formatVisitFrequency,
+  getVisitDurationMinutes,
+  summarizeVisits,
+} from '@/services/visit-stats';
+import type { Visit } from '@/types/visit';
+
+const visit = (overrides: Partial<Visit> = {}): Visit => ({
+  id: 1,
+  visit_date: '2026-03-02',
+  checkin_time: '2026-03-02 09:00:00',
+  checkout_time: '2026-03-02 09:30:00',
+  checkin_location: '-6.2000,106.8000',
+  checkout_location: '-6.2000,106.8000',
+  checkin_photo: null,
+  checkout_photo: null,
+  type: 'PLANNED',
+  transaction: 'YES',
+  report: null,
+  duration: null,
+  outlet: {
+    id: 7,
+    code: 'OUT-7',
+    name: 'Toko Maju',
+    owner_name: 'Budi',
+    address: 'Jl. Merdeka 1',
+    location: '-6.2000,106.8000',
+    radius: 100,
+    badan_usaha: { id: 1, name: 'BU' },
+    division: { id: 1, name: 'Divisi' },
+    region: { id: 1, name: 'Region' },
+    cluster: { id: 1, name: 'Cluster' },
+  },
+  user: { id: 3, name: 'Sari', username: 'sari' },
+  ...overrides,
+});
+
+describe('visit-stats', () => {
+  describe('getVisitDurationMinutes', () => {
+    it('uses check-in to check-out time', () => {
+      expect(getVisitDurationMinutes(visit())).toBe(30);
+    });
+
+    it('falls back to auto-close time, then backend duration', () => {
+      expect(getVisitDurationMinutes(visit({ checkout_time: null, auto_closed_at: '2026-03-02 10:00:00' }))).toBe(60);
+      expect(getVisitDurationMinutes(visit({ checkout_time: null, duration: 12 }))).toBe(12);
+      expect(getVisitDurationMinutes(visit({ checkin_time: null, checkout_time: null }))).toBeNull();
+    });
+  });
+
+  describe('summarizeVisits', () => {
+    const now = new Date('2026-03-31T12:00:00').getTime();
+
+    it('summarizes last visit, frequency, conversion and average duration', () => {
+      const summary = summarizeVisits([
+        visit({ id: 1, checkin_time: '2026-03-30 09:00:00', checkout_time: '2026-03-30 09:20:00', transaction: 'YES' }),
+        visit({ id: 2, checkin_time: '2026-03-15 09:00:00', checkout_time: '2026-03-15 09:40:00', transaction: 'NO' }),
+        visit({ id: 3, checkin_time: '2026-03-01 09:00:00', checkout_time: '2026-03-01 09:30:00', transaction: 'YES' }),
+        visit({ id: 4, checkin_time: '2026-03-31 08:00:00', checkout_time: null, transaction: null }),
+      ], 20, now);
+
+      expect(summary.total).toBe(20);
+      expect(summary.lastVisitAt).toBe(new Date('2026-03-31T08:00:00').getTime());
+      expect(summary.conversionRate).toBeCloseTo(66.67, 1);
+      expect(summary.averageDurationMinutes).toBe(30);
+      // Sampel < 1 bulan dihitung sebagai 1 bulan
+      expect(summary.visitsPerMonth).toBe(4);
+    });
+
+    it('returns empty stats when there are no visits', () => {
+      expect(summarizeVisits([], 0, now)).toEqual({
+        total: 0,
+        lastVisitAt: null,
+        visitsPerMonth: null,
+        conversionRate: null,
+        averageDurationMinutes: null,
+      });
+    });
+  });
+
+  describe('formatters', () => {
+    it('formats duration in hours and minutes', () => {
+      expect(formatVisitDuration(null)).toBe('-');
+      expect(formatVisitDuration(45)).toBe('45 menit');
+      expect(formatVisitDuration(120)).toBe('2 jam');
+      expect(formatVisitDuration(135)).toBe('2 jam 15 menit');
+    });
+
+    it('formats visit frequency per month', () => {
+      expect(formatVisitFrequency(null)).toBe('-');
+      expect(formatVisitFrequency(2)).toBe('2x / bulan');
+    });
+
+    it('formats days since the last visit', () => {
+      const now = new Date('2026-03-31T08:00:00').getTime();
+      expect(formatDaysAgo(null, now)).toBe('-');
+      expect(formatDaysAgo(new Date('2026-03-31T07:00:00').getTime(), now)).toBe('Hari ini');
+      expect(formatDaysAgo(new Date('2026-03-30T23:00:00').getTime(), now)).toBe('Kemarin');
+      expect(formatDaysAgo(new Date('2026-03-21T10:00:00').getTime(), now)).toBe('10 hari lalu');
+    });
+  });
+});
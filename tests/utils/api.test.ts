@@ -9,12 +9,18 @@
  * - FormData/file upload functionality
  * - Response validation and standardization
  * - Auto logout callback functionality
+ * - Session refresh and retry on 401, 403 as permission error
+ * - Retry with jittered backoff, Retry-After and AbortController cancellation
  */
 
 import { 
   apiRequest, 
   uploadFile, 
   setAutoLogoutCallback,
+  setSessionRefreshHandler,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  parseRetryAfter,
   BaseResponse 
 } from '@/utils/api';
 
@@ -566,6 +572,170 @@ describe('API Client Utility Tests', () => {
     });
   });
 
+  describe('Session Refresh', () => {
+    const unauthorized = () => ({
+      ok: false,
+      status: 401,
+      json: async () => ({ meta: { code: 401, status: 'error', message: 'Unauthenticated.' }, data: null }),
+    });
+    const success = (data: any) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ meta: { code: 200, status: 'success', message: 'OK' }, data }),
+    });
+    const authHeader = (call: number) => (global.fetch as jest.Mock).mock.calls[call][1].headers.Authorization;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      setSessionRefreshHandler(null);
+      jest.useRealTimers();
+    });
+
+    it('should refresh the token once and retry concurrent 401 requests', async () => {
+      const logoutCallback = jest.fn();
+      const refreshHandler = jest.fn(async () => 'new-token');
+      setAutoLogoutCallback(logoutCallback);
+      setSessionRefreshHandler(refreshHandler);
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(success({ id: 1 }))
+        .mockResolvedValueOnce(success({ id: 2 }));
+
+      const [first, second] = await Promise.all([
+        apiRequest({ url: 'https://api.example.com/visits/1', method: 'GET', token: 'old-token', logLabel: 'TEST_REFRESH_1' }),
+        apiRequest({ url: 'https://api.example.com/visits/2', method: 'GET', token: 'old-token', logLabel: 'TEST_REFRESH_2' }),
+      ]);
+
+      jest.advanceTimersByTime(100);
+      expect(refreshHandler).toHaveBeenCalledTimes(1);
+      expect([first.data.id, second.data.id].sort()).toEqual([1, 2]);
+      expect(authHeader(2)).toBe('Bearer new-token');
+      expect(authHeader(3)).toBe('Bearer new-token');
+      expect(logoutCallback).not.toHaveBeenCalled();
+    });
+
+    it('should auto logout when the session cannot be refreshed', async () => {
+      const logoutCallback = jest.fn();
+      setAutoLogoutCallback(logoutCallback);
+      setSessionRefreshHandler(jest.fn(async () => { throw new Error('Refresh token expired'); }));
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce(unauthorized());
+
+      await expect(
+        apiRequest({ url: 'https://api.example.com/visits', method: 'GET', token: 'old-token', logLabel: 'TEST_REFRESH_FAILED' })
+      ).rejects.toThrow(/Token is invalid or expired/);
+
+      jest.advanceTimersByTime(100);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(logoutCallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat 403 as a permission error without logging out', async () => {
+      const logoutCallback = jest.fn();
+      setAutoLogoutCallback(logoutCallback);
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        json: async () => ({ meta: { code: 403, status: 'error', message: 'Forbidden' }, data: null }),
+      });
+
+      await expect(
+        apiRequest({ url: 'https://api.example.com/user', method: 'GET', token: 'valid-token', logLabel: 'TEST_403' })
+      ).rejects.toMatchObject({ httpStatus: 403, message: 'You do not have permission to access this resource.' });
+
+      jest.advanceTimersByTime(100);
+      expect(logoutCallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Retry and Cancellation', () => {
+    const failure = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      headers: { get: (name: string) => headers[name] ?? null },
+      json: async () => ({ meta: { code: status, status: 'error', message: `Error ${status}` }, data: null }),
+    });
+    const success = () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ meta: { code: 200, status: 'success', message: 'OK' }, data: { id: 1 } }),
+    });
+    const fastRetry = { baseDelay: 1, maxDelay: 1 };
+
+    it('should retry idempotent requests on transient errors', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(503))
+        .mockRejectedValueOnce(new Error('Network request failed'))
+        .mockResolvedValueOnce(success());
+
+      const response = await apiRequest({
+        url: 'https://api.example.com/visits',
+        method: 'GET',
+        logLabel: 'TEST_RETRY',
+        retry: fastRetry,
+      });
+
+      expect(response.data.id).toBe(1);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry POST by default or 500 errors', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(failure(503)).mockResolvedValueOnce(failure(500));
+
+      await expect(
+        apiRequest({ url: 'https://api.example.com/visits', method: 'POST', logLabel: 'TEST_NO_RETRY_POST' })
+      ).rejects.toMatchObject({ httpStatus: 503 });
+      await expect(
+        apiRequest({ url: 'https://api.example.com/visits', method: 'GET', logLabel: 'TEST_NO_RETRY_500', retry: fastRetry })
+      ).rejects.toMatchObject({ httpStatus: 500 });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expose Retry-After on 429 and use it as the retry delay', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(failure(429, { 'Retry-After': '60' }));
+
+      await expect(
+        apiRequest({ url: 'https://api.example.com/send-otp', method: 'POST', logLabel: 'TEST_429' })
+      ).rejects.toMatchObject({ httpStatus: 429, retryAfter: 60000 });
+
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter('invalid')).toBeUndefined();
+      expect(getRetryDelay(0, DEFAULT_RETRY_POLICY, 2000)).toBe(2000);
+    });
+
+    it('should jitter exponential backoff within bounds', () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const backoff = Math.min(DEFAULT_RETRY_POLICY.maxDelay, DEFAULT_RETRY_POLICY.baseDelay * 2 ** attempt);
+        const delay = getRetryDelay(attempt, DEFAULT_RETRY_POLICY);
+        expect(delay).toBeGreaterThanOrEqual(backoff / 2);
+        expect(delay).toBeLessThanOrEqual(backoff);
+      }
+    });
+
+    it('should abort in-flight requests with an AbortError', async () => {
+      (global.fetch as jest.Mock).mockImplementationOnce(() => new Promise(() => {}));
+      const controller = new AbortController();
+
+      const request = apiRequest({
+        url: 'https://api.example.com/plan-visits',
+        method: 'GET',
+        logLabel: 'TEST_ABORT',
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+      expect((global.fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+    });
+  });
+
   describe('Request Configuration Edge Cases', () => {
     it('should handle undefined body', async () => {
       const mockResponse = {
@@ -15,6 +15,7 @@ import {
   logError,
   isNetworkError,
   isAuthError,
+  isPermissionError,
   isValidationError
 } from '@/utils/error-handler';
 
@@ -255,11 +256,9 @@ describe('Error Handler Utility Tests', () => {
     describe('isAuthError', () => {
       it('should identify authentication errors', () => {
         const authError401 = { code: 401 };
-        const authError403 = { code: 403 };
         const authErrorObject = { code: 401, message: 'Unauthorized' }; // Must have 'code' property, not 'httpStatus'
 
         expect(isAuthError(authError401)).toBe(true);
-        expect(isAuthError(authError403)).toBe(true);
         expect(isAuthError(authErrorObject)).toBe(true);
       });
 
@@ -267,7 +266,9 @@ describe('Error Handler Utility Tests', () => {
         const badRequest = { code: 400 };
         const serverError = { code: 500 };
         const validationError = { code: 422 };
+        const permissionError = { code: 403 };
 
+        expect(isAuthError(permissionError)).toBe(false);
         expect(isAuthError(badRequest)).toBe(false);
         expect(isAuthError(serverError)).toBe(false);
         expect(isAuthError(validationError)).toBe(false);
@@ -275,6 +276,15 @@ describe('Error Handler Utility Tests', () => {
       });
     });
 
+    describe('isPermissionError', () => {
+      it('should identify 403 responses only', () => {
+        expect(isPermissionError({ code: 403 })).toBe(true);
+        expect(isPermissionError({ code: 400, httpStatus: 403 })).toBe(true);
+        expect(isPermissionError({ code: 401 })).toBe(false);
+        expect(isPermissionError(null)).toBe(false);
+      });
+    });
+
     describe('isValidationError', () => {
       it('should identify validation errors', () => {
         const validationError1 = { code: 422 };
@@ -0,0 +1,78 @@
+/**
+ * Geo Utility Tests
+ * Tests for utils/geo.ts
+ *
+ * Tests cover:
+ * - Parsing backend "lat,lng" strings
+ * - Haversine distance and formatting
+ * - Nearest-first sorting
+ * - Grid clustering and region fitting
+ */
+
+import {
+  calculateDistance,
+  clusterByRegion,
+  formatDistance,
+  parseLatLong,
+  regionForPoints,
+  sortByDistance,
+} from '@/utils/geo';
+
+const JAKARTA = { latitude: -6.2, longitude: 106.816666 };
+
+describe('Geo Utility', () => {
+  it('should parse valid coordinates and reject invalid ones', () => {
+    expect(parseLatLong('-6.2, 106.8')).toEqual({ latitude: -6.2, longitude: 106.8 });
+    expect(parseLatLong('')).toBeNull();
+    expect(parseLatLong('abc,def')).toBeNull();
+    expect(parseLatLong('120,500')).toBeNull();
+  });
+
+  it('should calculate distance in meters and format it', () => {
+    const distance = calculateDistance(JAKARTA, { latitude: -6.209, longitude: 106.816666 });
+
+    expect(distance).toBeGreaterThan(990);
+    expect(distance).toBeLessThan(1010);
+    expect(formatDistance(250.4)).toBe('250 m');
+    expect(formatDistance(1500)).toBe('1.5 km');
+    expect(formatDistance(25400)).toBe('25 km');
+  });
+
+  it('should sort nearest first and keep items without location last', () => {
+    const outlets = [
+      { id: 'far', location: '-6.3,106.816666' },
+      { id: 'none', location: '' },
+      { id: 'near', location: '-6.201,106.816666' },
+    ];
+
+    const sorted = sortByDistance(outlets, JAKARTA, outlet => outlet.location);
+
+    expect(sorted.map(outlet => outlet.id)).toEqual(['near', 'far', 'none']);
+    expect(sorted[2].distance).toBeNull();
+  });
+
+  it('should group nearby points into one cluster at their average position', () => {
+    const region = { ...JAKARTA, latitudeDelta: 0.8, longitudeDelta: 0.8 };
+    const outlets = [
+      { id: 1, location: '-6.2001,106.8001' },
+      { id: 2, location: '-6.2003,106.8003' },
+      { id: 3, location: '-6.6,107.2' },
+      { id: 4, location: '' },
+    ];
+
+    const clusters = clusterByRegion(outlets, region, outlet => outlet.location);
+    const grouped = clusters.find(cluster => cluster.items.length === 2);
+
+    expect(clusters).toHaveLength(2);
+    expect(grouped?.items.map(outlet => outlet.id)).toEqual([1, 2]);
+    expect(grouped?.latitude).toBeCloseTo(-6.2002);
+  });
+
+  it('should fit a region around points with a minimum delta', () => {
+    expect(regionForPoints([])).toBeNull();
+    expect(regionForPoints([JAKARTA])).toEqual({ ...JAKARTA, latitudeDelta: 0.005, longitudeDelta: 0.005 });
+
+    const region = regionForPoints([{ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 2 }], 1);
+    expect(region).toEqual({ latitude: 0.5, longitude: 1, latitudeDelta: 1, longitudeDelta: 2 });
+  });
+});
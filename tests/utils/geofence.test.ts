@@ -0,0 +1,73 @@
+/**
+ * Geofence Utility Tests
+ * Tests for utils/geofence.ts
+ *
+ * Tests cover:
+ * - Radius check including the default radius for missing or zero radius
+ * - Accuracy-aware verdicts at the edge of the area
+ * - Polygon boundaries (inside, outside, edge distance)
+ * - Missing outlet location / position
+ */
+
+import {
+  DEFAULT_GEOFENCE_RADIUS,
+  describeGeofenceDistance,
+  evaluateGeofence,
+  parseBoundary,
+} from '@/utils/geofence';
+
+const OUTLET = { location: '-6.2,106.816666', radius: 100 };
+// ~0.000009 derajat lintang per meter
+const metersNorth = (meters: number) => ({ latitude: -6.2 + meters / 111195, longitude: 106.816666 });
+
+// Pasar ~200 m x 200 m
+const MARKET = [
+  [-6.2, 106.8],
+  [-6.2, 106.8018],
+  [-6.2018, 106.8018],
+  [-6.2018, 106.8],
+];
+
+describe('Geofence Utility', () => {
+  it('should validate against the outlet radius', () => {
+    const inside = evaluateGeofence(OUTLET, metersNorth(60));
+    expect(inside).toMatchObject({ status: 'inside', reason: 'INSIDE', shape: 'radius', radius: 100 });
+    expect(inside.distance).toBeCloseTo(60, 0);
+
+    expect(evaluateGeofence(OUTLET, metersNorth(150))).toMatchObject({ status: 'outside', reason: 'OUTSIDE' });
+    expect(evaluateGeofence({ ...OUTLET, radius: null }, metersNorth(150)).radius).toBe(DEFAULT_GEOFENCE_RADIUS);
+    expect(evaluateGeofence({ ...OUTLET, radius: 0 }, metersNorth(150))).toMatchObject({ status: 'outside', radius: DEFAULT_GEOFENCE_RADIUS });
+  });
+
+  it('should let a good accuracy circle cover the edge but not a poor one', () => {
+    expect(evaluateGeofence(OUTLET, { ...metersNorth(120), accuracy: 30 }).reason).toBe('INSIDE_ACCURACY');
+    expect(evaluateGeofence(OUTLET, { ...metersNorth(200), accuracy: 150 })).toMatchObject({ status: 'uncertain', reason: 'LOW_ACCURACY' });
+    expect(evaluateGeofence(OUTLET, { ...metersNorth(200), accuracy: 30 }).status).toBe('outside');
+  });
+
+  it('should use polygon boundaries instead of the radius', () => {
+    const market = { ...OUTLET, location: '-6.2009,106.8009', boundary: JSON.stringify(MARKET) };
+
+    // Sudut pasar ~130 m dari titik tengah: di luar radius, tapi di dalam poligon
+    expect(evaluateGeofence(market, { latitude: -6.2001, longitude: 106.8001 })).toMatchObject({ status: 'inside', shape: 'polygon', distance: 0 });
+
+    const outside = evaluateGeofence(market, { latitude: -6.2009, longitude: 106.8023 });
+    expect(outside.status).toBe('outside');
+    expect(outside.distance).toBeGreaterThan(50);
+    expect(outside.distance).toBeLessThan(60);
+    expect(describeGeofenceDistance(outside)).toBe('55 m di luar area outlet');
+  });
+
+  it('should parse boundary formats and reject invalid ones', () => {
+    expect(parseBoundary(MARKET as [number, number][])).toHaveLength(4);
+    expect(parseBoundary([{ latitude: 1, longitude: 1 }, { latitude: 2, longitude: 2 }, { latitude: 1, longitude: 3 }])).toHaveLength(3);
+    expect(parseBoundary('[[1,1],[2,2]]')).toBeNull();
+    expect(parseBoundary('not-json')).toBeNull();
+  });
+
+  it('should be uncertain without an outlet location or position', () => {
+    expect(evaluateGeofence({ location: '', radius: 100 }, metersNorth(0)).reason).toBe('NO_OUTLET_LOCATION');
+    expect(evaluateGeofence(OUTLET, null)).toMatchObject({ status: 'uncertain', reason: 'NO_POSITION' });
+    expect(describeGeofenceDistance(evaluateGeofence(OUTLET, metersNorth(150)))).toBe('Jarak: 150 m (Maks: 100 m)');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * JPEG XMP Tests
+ * Tests for utils/jpeg-xmp.ts
+ *
+ * Tests cover:
+ * - Embedding and extracting XMP packets in JPEG bytes
+ * - Rejecting non-JPEG input
+ */
+
+import { embedXmp, extractXmp } from '@/utils/jpeg-xmp';
+import { utf8Encode } from '@/utils/sha256';
+
+// SOI + APP0 (JFIF) + SOS + data + EOI
+const jpeg = () => new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46,
+  0xff, 0xda, 0x00, 0x04, 0x01, 0x02, 0x03, 0x04, 0x05,
+  0xff, 0xd9,
+]);
+
+describe('jpeg-xmp', () => {
+  it('should embed XMP after APP0 and strip it back to the original bytes', () => {
+    const original = jpeg();
+    const embedded = embedXmp(original, '<x:xmpmeta>satu</x:xmpmeta>');
+
+    expect(embedded[10]).toBe(0xff);
+    expect(embedded[11]).toBe(0xe1);
+    const { xmp, stripped } = extractXmp(embedded);
+    expect(xmp).toBe('<x:xmpmeta>satu</x:xmpmeta>');
+    expect(stripped).toEqual(original);
+
+    // Menyisipkan ulang mengganti paket lama, bukan menambah
+    const replaced = extractXmp(embedXmp(embedded, '<x:xmpmeta>dua</x:xmpmeta>'));
+    expect(replaced.xmp).toBe('<x:xmpmeta>dua</x:xmpmeta>');
+    expect(replaced.stripped).toEqual(original);
+  });
+
+  it('should reject non-JPEG files', () => {
+    expect(() => embedXmp(utf8Encode('bukan jpeg'), '<x/>')).toThrow('File bukan JPEG');
+    expect(extractXmp(utf8Encode('bukan jpeg')).xmp).toBeNull();
+  });
+});
@@ -1,9 +1,12 @@
 /**
  * Logger Utility Tests - Simple Version
  * Basic tests for utils/logger.ts functionality
+ * plus the in-memory ring buffer, tags, redaction and the session log file
  */
 
-import { log, warn, error } from '@/utils/logger';
+import * as FileSystem from 'expo-file-system';
+import { AppState } from 'react-native';
+import { clearLogs, createLogger, error, exportLogs, flushLogs, getLogEntries, initLogger, log, redact, warn } from '@/utils/logger';
 
 describe('Logger Utility Tests', () => {
   let mockLog: jest.SpyInstance;
@@ -108,4 +111,108 @@ describe('Logger Utility Tests', () => {
       expect(() => log('Function:', () => {})).not.toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('Ring Buffer', () => {
+    beforeEach(async () => {
+      await clearLogs();
+    });
+
+    it('should record entries with level and tag from the label prefix', () => {
+      log('[CHECK_IN_VISIT] error:', 'Check-in failed');
+      warn('no tag');
+      createLogger('UPLOAD').error('retry', { attempt: 1 });
+
+      expect(getLogEntries().map(({ level, tag }) => ({ level, tag }))).toEqual([
+        { level: 'info', tag: 'CHECK_IN_VISIT' },
+        { level: 'warn', tag: null },
+        { level: 'error', tag: 'UPLOAD' },
+      ]);
+      expect(getLogEntries('error')[0].message).toBe('[UPLOAD] retry {"attempt":1}');
+    });
+
+    it('should keep only the latest entries', () => {
+      for (let i = 0; i < 510; i++) log(`entry ${i}`);
+
+      const entries = getLogEntries();
+      expect(entries).toHaveLength(500);
+      expect(entries[0].message).toBe('entry 10');
+    });
+
+    it('should cap large response bodies before storing', () => {
+      const rows = Array.from({ length: 300 }, (_, i) => ({ id: i, name: `Outlet ${i}` }));
+      log('[FETCH_OUTLETS] Response body:', { data: rows });
+
+      const [entry] = getLogEntries();
+      expect(entry.message).toContain('"… 290 more"');
+      expect(entry.message).not.toContain('Outlet 10"');
+    });
+
+    it('should stop serializing arguments past the message limit', () => {
+      const toJSON = jest.fn(() => 'late');
+      log('[FETCH_OUTLETS] Response body:', 'x'.repeat(1500), { toJSON });
+
+      const [entry] = getLogEntries();
+      expect(entry.message.length).toBeLessThanOrEqual(1001);
+      expect(toJSON).not.toHaveBeenCalled();
+    });
+
+    it('should redact tokens and phone numbers before storing', async () => {
+      log('[LOGIN] response', { access_token: 'secret-token', user: { name: 'Budi', phone: '081234567890' } });
+      log('[API] headers Authorization: Bearer abc.def.ghi', 'owner 0812-3456-7890');
+      log('[FETCH_PHOTO_SIGNING_KEY] Response body:', { data: { key_id: 'key-1', secret: 'hmac-device-secret' } });
+
+      const exported = await exportLogs();
+      expect(exported).not.toContain('secret-token');
+      expect(exported).not.toContain('hmac-device-secret');
+      expect(exported).toContain('key-1');
+      expect(exported).not.toContain('abc.def.ghi');
+      expect(exported).not.toContain('081234567890');
+      expect(exported).toContain('Budi');
+      expect(redact('hubungi +62 812 3456 7890')).toBe('hubungi [PHONE]');
+      expect(redact('visit 20240815123456')).toBe('visit 20240815123456');
+      expect(redact('{"secret":"c2VjcmV0"}')).toBe('{"secret":"[REDACTED]"}');
+    });
+  });
+
+  describe('Session Log File', () => {
+    const mockWrite = FileSystem.writeAsStringAsync as jest.Mock;
+
+    beforeEach(async () => {
+      await clearLogs();
+      mockWrite.mockClear();
+    });
+
+    it('should not write the file for every entry', async () => {
+      error('[CHECK_OUT_VISIT] error:', 'Network request failed');
+      for (let i = 0; i < 20; i++) log(`entry ${i}`);
+      await Promise.resolve();
+
+      expect(mockWrite).not.toHaveBeenCalled();
+    });
+
+    it('should write once on flush and skip when nothing changed', async () => {
+      log('first');
+      await flushLogs();
+      await flushLogs();
+
+      expect(mockWrite).toHaveBeenCalledTimes(1);
+      expect(mockWrite.mock.calls[0][0]).toBe('file:///documents/logs/session.log');
+      expect(mockWrite.mock.calls[0][1]).toContain('INFO first');
+    });
+
+    it('should flush when the app leaves the foreground or logs are exported', async () => {
+      const addListener = jest.spyOn(AppState, 'addEventListener');
+      await initLogger();
+      const onChange = addListener.mock.calls[0]?.[1] as ((state: string) => void) | undefined;
+
+      log('before background');
+      onChange?.('background');
+      await flushLogs();
+      expect(mockWrite).toHaveBeenCalledTimes(1);
+
+      log('before share');
+      await exportLogs();
+      expect(mockWrite).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Route Utility Tests
+ * Tests for utils/route.ts
+ *
+ * Tests cover:
+ * - Leg distances for an open route
+ * - Nearest-neighbour ordering from the current location
+ * - 2-opt removing crossings
+ */
+
+import { calculateDistance, LatLng } from '@/utils/geo';
+import { improveWithTwoOpt, nearestNeighbourOrder, optimizeRoute, routeLegs } from '@/utils/route';
+
+const point = (latitude: number, longitude: number): LatLng => ({ latitude, longitude });
+
+// Titik di satu garis lintang, ~1,1 km per 0.01 derajat
+const LINE = [point(-6.2, 106.84), point(-6.2, 106.81), point(-6.2, 106.83), point(-6.2, 106.82)];
+const ORIGIN = point(-6.2, 106.8);
+
+describe('Route Utility', () => {
+  it('should measure each leg from the origin through the points', () => {
+    const { legs, total } = routeLegs(ORIGIN, [LINE[1], LINE[3]]);
+    expect(legs[0]).toBeCloseTo(calculateDistance(ORIGIN, LINE[1]));
+    expect(legs[1]).toBeCloseTo(calculateDistance(LINE[1], LINE[3]));
+    expect(total).toBeCloseTo(legs[0] + legs[1]);
+    expect(routeLegs(null, [LINE[1], LINE[3]]).legs[0]).toBe(0);
+  });
+
+  it('should visit the nearest point first', () => {
+    expect(nearestNeighbourOrder(ORIGIN, LINE)).toEqual([1, 3, 2, 0]);
+    // Tanpa origin dimulai dari titik pertama
+    expect(nearestNeighbourOrder(null, LINE)[0]).toBe(0);
+  });
+
+  it('should untangle a crossing route with 2-opt', () => {
+    // Sudut persegi; urutan 0-2-1-3 menyilang
+    const square = [point(0, 0.01), point(0.01, 0.01), point(0.01, 0), point(0, 0)];
+    const origin = point(0, 0.02);
+    const crossing = [0, 2, 1, 3];
+    const improved = improveWithTwoOpt(origin, square, crossing);
+    expect(routeLegs(origin, improved.map(index => square[index])).total)
+      .toBeLessThan(routeLegs(origin, crossing.map(index => square[index])).total);
+    expect(improved).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should keep every point exactly once', () => {
+    const points = Array.from({ length: 12 }, (_, index) => point(-6.2 + Math.sin(index) * 0.05, 106.8 + Math.cos(index * 2) * 0.05));
+    const order = optimizeRoute(ORIGIN, points);
+    expect([...order].sort((a, b) => a - b)).toEqual(points.map((_, index) => index));
+    expect(routeLegs(ORIGIN, order.map(index => points[index])).total)
+      .toBeLessThanOrEqual(routeLegs(ORIGIN, points).total);
+    expect(optimizeRoute(ORIGIN, [LINE[0]])).toEqual([0]);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * SHA-256 Tests
+ * Tests for utils/sha256.ts
+ *
+ * Tests cover:
+ * - SHA-256 and HMAC-SHA256 against published test vectors
+ * - UTF-8 and base64 round trips
+ */
+
+import { base64ToBytes, bytesToBase64, hmacSha256, sha256, toHex, utf8Decode, utf8Encode } from '@/utils/sha256';
+
+const hex = (value: string) => new Uint8Array(value.match(/../g)!.map(byte => parseInt(byte, 16)));
+
+describe('sha256', () => {
+  it('should match the FIPS 180-2 test vectors', () => {
+    expect(toHex(sha256(utf8Encode('')))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(toHex(sha256(utf8Encode('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(toHex(sha256(utf8Encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('should match the RFC 4231 HMAC-SHA256 test vectors', () => {
+    expect(toHex(hmacSha256(hex('0b'.repeat(20)), utf8Encode('Hi There'))))
+      .toBe('b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7');
+    expect(toHex(hmacSha256(utf8Encode('Jefe'), utf8Encode('what do ya want for nothing?'))))
+      .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+    // Kunci lebih panjang dari block size di-hash terlebih dahulu
+    expect(toHex(hmacSha256(hex('aa'.repeat(131)), utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First'))))
+      .toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+  });
+
+  it('should round trip UTF-8 and base64', () => {
+    const text = 'Kunjungan • Toko Ñ 🚚';
+    expect(utf8Decode(utf8Encode(text))).toBe(text);
+    for (const length of [0, 1, 2, 3, 10]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 37) & 255);
+      expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    }
+    expect(bytesToBase64(utf8Encode('abcd'))).toBe('YWJjZA==');
+  });
+});
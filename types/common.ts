@@ -26,6 +26,37 @@ export interface PaginationMeta {
   per_page: number;
 }
 
+// Result returned by data hooks to screens (never throws)
+export interface ApiResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  meta?: any;
+}
+
+// Query string values accepted by the API client
+export type QueryValue = string | number | boolean | null | undefined;
+export interface QueryParams {
+  [key: string]: QueryValue | QueryValue[] | Record<string, QueryValue | QueryValue[]>;
+}
+
+// Kontrol request dari pemanggil (mis. membatalkan fetch list yang sudah tidak relevan)
+export interface RequestControl {
+  signal?: AbortSignal;
+}
+
+export interface PaginationParams {
+  page?: number;
+  per_page?: number;
+}
+
+export interface ListParams extends PaginationParams {
+  search?: string;
+  sort_column?: string;
+  sort_direction?: 'asc' | 'desc' | string;
+  filters?: Record<string, QueryValue | QueryValue[]>;
+}
+
 // Error Types
 export interface ApiError {
   code: number;
@@ -82,12 +113,21 @@ export interface LoginRequest {
   version: string;
 }
 
-export interface LoginResponse extends ApiResponse<{
+// Token sesi dari login, verifikasi OTP dan refresh token.
+// expires_in (detik) dan refresh_token opsional, tergantung konfigurasi backend.
+export interface SessionToken {
   access_token: string;
   token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+export interface LoginResponse extends ApiResponse<SessionToken & {
   user: User;
 }> {}
 
+export interface RefreshTokenResponse extends ApiResponse<SessionToken> {}
+
 export interface OtpRequest {
   phone: string;
 }
@@ -98,9 +138,7 @@ export interface OtpVerifyRequest {
   notif_id: string;
 }
 
-export interface OtpResponse extends ApiResponse<{
-  access_token: string;
-  token_type: string;
+export interface OtpResponse extends ApiResponse<SessionToken & {
   user: User;
 }> {}
 
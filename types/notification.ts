@@ -0,0 +1,26 @@
+import type { ApiResponse, PaginatedResponse } from '@/types/common';
+
+export type NotificationType = 'visit_assignment' | 'outlet_update' | 'system_message' | 'reminder' | string;
+
+export interface AppNotification {
+  id: string | number;
+  title: string;
+  message: string;
+  type: NotificationType;
+  read_at: string | null;
+  created_at: string;
+  updated_at?: string;
+  data?: Record<string, any>;
+}
+
+export type NotificationReadFilter = 'all' | 'unread' | 'read';
+
+export interface NotificationListParams {
+  page?: number;
+  per_page?: number;
+  status?: NotificationReadFilter;
+}
+
+export interface NotificationListResponse extends PaginatedResponse<AppNotification> {}
+export interface NotificationResponse extends ApiResponse<AppNotification> {}
+export interface UnreadCountResponse extends ApiResponse<{ unread_count: number }> {}
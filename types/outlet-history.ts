@@ -0,0 +1,44 @@
+import type { ApiResponse, PaginatedResponse } from '@/types/common';
+
+export type OutletHistoryStatus = 'pending' | 'approved' | 'rejected';
+export type ProcessHistoryAction = 'approve' | 'reject';
+
+// Satu record history = perubahan satu field outlet
+export interface OutletHistory {
+  id: string | number;
+  outlet_id: string | number;
+  field: string;
+  old_value: any;
+  new_value: any;
+  changed_by: string | number;
+  changed_at: string;
+  status?: OutletHistoryStatus;
+  processed_by?: string | number;
+  processed_at?: string;
+  reason?: string;
+  outlet?: {
+    id: string | number;
+    code: string;
+    name: string;
+  };
+  user?: {
+    id: string | number;
+    name: string;
+    username: string;
+  };
+}
+
+export interface HistoryChangeData {
+  field: string;
+  old_value: any;
+  new_value: any;
+  reason?: string;
+}
+
+export interface PendingHistoryParams {
+  page?: number;
+  per_page?: number;
+}
+
+export interface OutletHistoryListResponse extends ApiResponse<OutletHistory[]> {}
+export interface PendingHistoryListResponse extends PaginatedResponse<OutletHistory> {}
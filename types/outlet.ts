@@ -0,0 +1,56 @@
+import type { ApiResponse, PaginatedResponse } from '@/types/common';
+import type { GeofenceBoundary } from '@/utils/geofence';
+
+// Interface untuk outlet photos
+export interface OutletPhotos {
+  shop_sign: string | null;
+  front: string | null;
+  left: string | null;
+  right: string | null;
+  id_card: string | null;
+}
+
+// Interface untuk outlet API sesuai backend baru
+export interface OutletAPI {
+  id: string | number;
+  code: string;
+  name: string;
+  owner_name: string | null;
+  owner_phone: string | null;
+  address: string | null;
+  location: string;
+  district: string;
+  status: string;
+  // Null jika outlet belum punya radius; geofence memakai radius default
+  radius: number | null;
+  // Batas poligon untuk outlet besar (pasar, dll), lihat utils/geofence
+  boundary?: GeofenceBoundary | null;
+  badan_usaha_id: string | number;
+  division_id: string | number;
+  region_id: string | number;
+  cluster_id: string | number;
+  badan_usaha: {
+    id: string | number;
+    name: string;
+  };
+  division: {
+    id: string | number;
+    name: string;
+  };
+  region: {
+    id: string | number;
+    name: string;
+  };
+  cluster: {
+    id: string | number;
+    name: string;
+  };
+  photos: OutletPhotos;
+  video: string | null;
+}
+
+// Interface untuk response paginated outlets
+export interface OutletsResponse extends PaginatedResponse<OutletAPI> {}
+
+// Interface untuk response single outlet
+export interface OutletResponse extends ApiResponse<OutletAPI> {}
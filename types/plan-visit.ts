@@ -0,0 +1,58 @@
+import type { ApiResponse, PaginatedResponse } from '@/types/common';
+import type { GeofenceBoundary } from '@/utils/geofence';
+
+export interface PlanVisit {
+  id: string | number;
+  visit_date: string;
+  outlet_id: string | number;
+  user_id: string | number;
+  outlet: {
+    id: string | number;
+    code: string;
+    name: string;
+    owner_name: string;
+    address: string;
+    location: string;
+    district: string;
+    status: string;
+    radius?: number; // Optional karena mungkin tidak selalu ada
+    boundary?: GeofenceBoundary | null;
+    badan_usaha_id: string | number;
+    division_id: string | number;
+    region_id: string | number;
+    cluster_id: string | number;
+    badan_usaha: {
+      id: string | number;
+      name: string;
+    };
+    division: {
+      id: string | number;
+      name: string;
+    };
+    region: {
+      id: string | number;
+      name: string;
+    };
+    cluster: {
+      id: string | number;
+      name: string;
+    };
+  };
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CreatePlanVisitData {
+  outlet_id: string | number;
+  visit_date: string;
+  // Diisi supervisor saat membuat plan untuk user lain (mis. dari import spreadsheet)
+  user_id?: string | number;
+}
+
+export interface UpdatePlanVisitData {
+  outlet_id: string | number;
+  visit_date: string;
+}
+
+export interface PlanVisitListResponse extends PaginatedResponse<PlanVisit> {}
+export interface PlanVisitResponse extends ApiResponse<PlanVisit> {}
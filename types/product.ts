@@ -0,0 +1,18 @@
+import type { PaginatedResponse } from '@/types/common';
+
+export interface ProductUnit {
+  name: string;
+  price: number;
+  // Jumlah satuan terkecil per satuan ini (mis. 1 karton = 24 pcs)
+  conversion: number;
+}
+
+export interface Product {
+  id: string | number;
+  code: string;
+  name: string;
+  category?: string | null;
+  units: ProductUnit[];
+}
+
+export interface ProductListResponse extends PaginatedResponse<Product> {}
@@ -0,0 +1,25 @@
+import type { ApiResponse } from '@/types/common';
+
+export interface UpdateProfilePayload {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface UpdatePhotoPayload {
+  photo: string; // File URI
+}
+
+export interface User {
+  id: string;
+  name: string;
+  username: string;
+  email: string;
+  phone: string;
+  photo: string;
+  role: any;
+  userScopes: any[];
+}
+
+export interface UpdateProfileResponse extends ApiResponse<User> {}
+export interface UpdatePhotoResponse extends ApiResponse<User> {}
@@ -0,0 +1,52 @@
+import type { ApiResponse } from '@/types/common';
+
+export interface Role {
+  id: string | number;
+  name: string;
+  scope_required_fields: string[];
+  scope_multiple_fields: string[];
+}
+
+export interface ReferenceItem {
+  id: string | number;
+  name: string;
+}
+
+// Interface untuk ResponseFormatter format sesuai foundation.md
+export interface RolesResponse extends ApiResponse<Role[]> {}
+export interface BadanUsahaResponse extends ApiResponse<ReferenceItem[]> {}
+export interface DivisionsResponse extends ApiResponse<ReferenceItem[]> {}
+export interface RegionsResponse extends ApiResponse<ReferenceItem[]> {}
+export interface ClustersResponse extends ApiResponse<ReferenceItem[]> {}
+
+// Tambahkan interface untuk response outlet-level-fields
+export interface OutletLevelFieldSection {
+  id: string | number | null;
+  code: string;
+  name: string;
+  type: string;
+  description?: string | null;
+  sort_order: number;
+  settings: any;
+  custom_fields: OutletLevelCustomField[];
+}
+
+export interface OutletLevelCustomField {
+  id: string | number | null;
+  code: string;
+  name: string;
+  type: string;
+  width: string;
+  lookup_type: string | null;
+  sort_order: number;
+  validation_rules: any[];
+  settings: any;
+  options: any[];
+  required: boolean;
+  model_field: boolean;
+  custom_field_found: boolean | null;
+  custom_field_note: string | null;
+  source: string;
+}
+
+export interface OutletLevelFieldsResponse extends ApiResponse<OutletLevelFieldSection[]> {}
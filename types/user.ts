@@ -0,0 +1,59 @@
+import type { ApiResponse, PaginatedResponse, PaginationParams } from '@/types/common';
+
+export interface NewUserPayload {
+  name: string;
+  username: string;
+  phone: string;
+  role: string;
+  badanusaha?: string;
+  divisi?: string;
+  region?: string;
+  cluster?: string;
+}
+
+// User interface - extend base pattern
+export interface User {
+  id: string | number;
+  name: string;
+  username: string;
+  phone: string;
+  role: string;
+  badanusaha?: string;
+  divisi?: string;
+  region?: string;
+  cluster?: string;
+}
+
+export interface AddUserResponse extends ApiResponse<User> {}
+
+type ScopeValue = string | number | (string | number)[] | null;
+
+// User yang dikelola admin (GET /user, GET /user/:userId)
+export interface ManagedUser {
+  id: string | number;
+  name: string;
+  username: string;
+  phone: string;
+  email?: string | null;
+  is_active?: boolean;
+  role_id?: string | number;
+  role?: string | { id: string | number; name: string };
+  badan_usaha_id?: ScopeValue;
+  division_id?: ScopeValue;
+  region_id?: ScopeValue;
+  cluster_id?: ScopeValue;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type UpdateUserPayload = NewUserPayload;
+
+export interface UserListParams extends PaginationParams {
+  search?: string;
+  // Dikirim sebagai filters[region_id] / filters[cluster_id]
+  region_id?: string | number;
+  cluster_id?: string | number;
+}
+
+export interface UserListResponse extends PaginatedResponse<ManagedUser> {}
+export interface UserResponse extends ApiResponse<ManagedUser> {}
@@ -0,0 +1,94 @@
+import type { VisitStockAudit } from '@/services/stock-audit';
+import type { VisitPhoto } from '@/services/visit-photos';
+import type { ApiResponse, PaginatedResponse } from '@/types/common';
+import type { GeofenceBoundary } from '@/utils/geofence';
+
+// Types for Visit API
+export interface Visit {
+  id: string | number;
+  visit_date: string;
+  checkin_time: string | null;
+  checkout_time: string | null;
+  checkin_location: string | null;
+  checkout_location: string | null;
+  checkin_photo: string | null;
+  checkout_photo: string | null;
+  type: string;
+  transaction: string | null;
+  report: string | null;
+  duration: number | null;
+  // Diisi backend jika visit ditutup tanpa check-out (lihat services/open-visit)
+  auto_closed_at?: string | null;
+  auto_close_reason?: string | null;
+  // Audit rak/stok yang dikirim bersama check-out (lihat services/stock-audit)
+  stock_audit?: VisitStockAudit | null;
+  // Foto tambahan per kategori (lihat services/visit-photos)
+  photos?: VisitPhoto[];
+  outlet: {
+    id: string | number;
+    code: string;
+    name: string;
+    owner_name: string;
+    address: string;
+    location?: string | null;
+    radius?: number | null;
+    boundary?: GeofenceBoundary | null;
+    badan_usaha: {
+      id: string | number;
+      name: string;
+    };
+    division: {
+      id: string | number;
+      name: string;
+    };
+    region: {
+      id: string | number;
+      name: string;
+    };
+    cluster: {
+      id: string | number;
+      name: string;
+    };
+  };
+  user: {
+    id: string | number;
+    name: string;
+    username: string;
+    role?: {
+      id: string | number;
+      name: string;
+    };
+  };
+}
+
+// Interface untuk response visit list dengan pagination
+export interface VisitListResponse extends PaginatedResponse<Visit> {}
+
+// Interface untuk response single visit
+export interface VisitResponse extends ApiResponse<Visit> {}
+
+// Interface untuk response check visit status
+export interface VisitStatus {
+  outlet_id: string | number;
+  has_active_visit: boolean;
+  today_visit_count: number;
+  last_visit_date?: string;
+  can_checkin: boolean;
+  message?: string;
+}
+
+export interface VisitStatusResponse extends ApiResponse<VisitStatus> {}
+
+export interface VisitListParams {
+  per_page?: number;
+  page?: number;
+  search?: string;
+  'filters[date]'?: string;
+  'filters[month]'?: number;
+  'filters[year]'?: number;
+  'filters[type]'?: string | string[];
+  'filters[outlet_id]'?: string | number;
+  'filters[user_id]'?: string | number;
+  sort_column?: string;
+  sort_direction?: string;
+}
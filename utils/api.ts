@@ -1,3 +1,4 @@
+import { recordServerDate } from '@/services/server-clock';
 import { log } from '@/utils/logger';
 import { createApiError, getErrorMessage, logError } from '@/utils/error-handler';
 import type { ApiResponse, ApiError } from '@/types/common';
@@ -10,6 +11,43 @@ export const setAutoLogoutCallback = (callback: () => void) => {
     autoLogoutCallback = callback;
 };
 
+// Session refresh handler - will be set by AuthProvider.
+// Resolves with the new access token, or null when the session cannot be renewed.
+let sessionRefreshHandler: (() => Promise<string | null>) | null = null;
+let pendingSessionRefresh: Promise<string | null> | null = null;
+
+// Function to set session refresh handler
+export const setSessionRefreshHandler = (handler: (() => Promise<string | null>) | null) => {
+    sessionRefreshHandler = handler;
+};
+
+/**
+ * Refresh token sekali untuk semua request yang membutuhkannya (single flight).
+ * Request lain yang masuk selama refresh berjalan menunggu hasilnya.
+ */
+export function refreshSession(): Promise<string | null> {
+    if (!sessionRefreshHandler) return Promise.resolve(null);
+
+    if (!pendingSessionRefresh) {
+        log('[API] Refreshing session token');
+        pendingSessionRefresh = sessionRefreshHandler()
+            .catch((error) => {
+                log('[API] Session refresh failed:', error);
+                return null;
+            })
+            .finally(() => {
+                pendingSessionRefresh = null;
+            });
+    }
+    return pendingSessionRefresh;
+}
+
+function triggerAutoLogout(reason: string) {
+    if (!autoLogoutCallback) return;
+    log(`[API] Auto logout triggered due to ${reason}`);
+    setTimeout(() => autoLogoutCallback!(), 100);
+}
+
 // Legacy BaseResponse interface for backward compatibility
 // @deprecated Use ApiResponse from types/common.ts instead
 export interface BaseResponse<T = any> {
@@ -31,8 +69,30 @@ export interface BaseResponse<T = any> {
 const API_CONFIG = {
     timeout: 10000, // 10 seconds timeout
     uploadTimeout: 30000, // 30 seconds for file uploads
+    maxRetryAfter: 30000, // Retry-After lebih lama dari ini dikembalikan ke UI, tidak ditunggu
 } as const;
 
+/**
+ * Retry policy dengan exponential backoff + jitter.
+ * Default hanya untuk method idempotent (GET, PUT, DELETE); POST/PATCH harus opt-in lewat `retry`.
+ */
+export interface RetryPolicy {
+    retries: number; // jumlah retry setelah percobaan pertama
+    baseDelay: number; // ms, dikali 2 setiap percobaan
+    maxDelay: number; // ms, batas atas backoff
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 2,
+    baseDelay: 500,
+    maxDelay: 8000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+// 500 tidak di-retry: umumnya error aplikasi, bukan gangguan sementara
+const RETRYABLE_STATUS = [429, 502, 503, 504];
+
 /**
  * Request configuration interface
  */
@@ -44,45 +104,124 @@ interface ApiRequestConfig {
     token?: string | null;
     timeout?: number;
     headers?: Record<string, string>;
+    // Jangan refresh token / retry saat 401 (mis. request refresh token itu sendiri)
+    skipAuthRefresh?: boolean;
+    // Membatalkan request (dan retry yang sedang menunggu) dari pemanggil
+    signal?: AbortSignal;
+    // false = tanpa retry; object = override policy (juga mengaktifkan retry untuk POST/PATCH)
+    retry?: Partial<RetryPolicy> | false;
+}
+
+export function createAbortError(): Error {
+    const error = new Error('Request aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+    return (error as any)?.name === 'AbortError';
 }
 
 /**
- * Helper function for timeout wrapper
+ * Fetch dengan timeout berbasis AbortController: request benar-benar dibatalkan
+ * saat timeout atau saat signal pemanggil di-abort.
  */
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
-    return Promise.race([
-        promise,
-        new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
-        )
-    ]);
+function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+
+    return new Promise<Response>((resolve, reject) => {
+        const abort = (error: Error) => {
+            controller.abort();
+            reject(error);
+        };
+        const onCallerAbort = () => abort(createAbortError());
+
+        if (signal?.aborted) {
+            onCallerAbort();
+            return;
+        }
+
+        const timer = setTimeout(() => abort(new Error('Request timeout')), timeoutMs);
+        signal?.addEventListener('abort', onCallerAbort);
+
+        fetch(url, { ...init, signal: controller.signal })
+            .then(resolve, reject)
+            .finally(() => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onCallerAbort);
+            });
+    });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort);
+    });
+}
+
+/**
+ * Parse header Retry-After (detik atau HTTP date) menjadi milidetik
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function resolveRetryPolicy(config: ApiRequestConfig): RetryPolicy | null {
+    if (config.retry === false) return null;
+    if (!config.retry && !IDEMPOTENT_METHODS.includes(config.method || 'POST')) return null;
+    return { ...DEFAULT_RETRY_POLICY, ...(config.retry || {}) };
+}
+
+// Network error / timeout (tanpa httpStatus) dan status sementara boleh di-retry
+export function isRetryableError(error: any): boolean {
+    if (isAbortError(error)) return false;
+    if (error?.httpStatus === undefined) return true;
+    return RETRYABLE_STATUS.includes(error.httpStatus);
+}
+
+/**
+ * Delay sebelum retry berikutnya: Retry-After dari server jika ada,
+ * selain itu exponential backoff dengan jitter (antara 50%-100% dari backoff).
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, retryAfter?: number): number {
+    if (retryAfter !== undefined) return retryAfter;
+    const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
 }
 
 /**
  * Handle API errors with standardized error processing
  */
-function handleApiError(response: Response, data: any, logLabel: string, url: string): never {
-    const isLogoutEndpoint = url.includes('/logout') || logLabel === 'LOGOUT';
-    
+function handleApiError(response: Response, data: any, logLabel: string): never {
     let errorMessage = data?.meta?.message || 'Request failed';
     
     // Handle specific HTTP status codes
+    // 401 (sesi berakhir) ditangani apiRequest: refresh token lalu retry, atau auto logout
     if (response.status === 401) {
         errorMessage = 'Token is invalid or expired. Please login again.';
-        
-        // Auto logout for 401 errors - EXCEPT for logout endpoint
-        if (autoLogoutCallback && !isLogoutEndpoint) {
-            log('[API] Auto logout triggered due to 401 error');
-            setTimeout(() => autoLogoutCallback!(), 100);
-        }
     } else if (response.status === 403) {
+        // 403 adalah error permission, bukan akhir sesi: user tetap login
         errorMessage = 'You do not have permission to access this resource.';
-        
-        // Auto logout for 403 errors - EXCEPT for logout endpoint
-        if (autoLogoutCallback && !isLogoutEndpoint) {
-            log('[API] Auto logout triggered due to 403 error');
-            setTimeout(() => autoLogoutCallback!(), 100);
-        }
+    } else if (response.status === 429) {
+        errorMessage = data?.meta?.message || 'Too many requests. Please try again later.';
     } else if (data?.meta?.code === 422 && data?.errors) {
         // Handle validation errors
         const errorDetails = Object.values(data.errors).flat().join(', ');
@@ -104,6 +243,7 @@ function handleApiError(response: Response, data: any, logLabel: string, url: st
     (apiError as any).errors = data?.errors;
     (apiError as any).data = data?.data;
     (apiError as any).httpStatus = response.status;
+    (apiError as any).retryAfter = parseRetryAfter(response.headers?.get?.('Retry-After'));
     
     logError(apiError, logLabel);
     
@@ -115,8 +255,61 @@ function handleApiError(response: Response, data: any, logLabel: string, url: st
 /**
  * Main API client function with standardized error handling and timeout
  * Follows KISS principles with clean separation of concerns
+ *
+ * Saat 401, token di-refresh lalu request diulang sekali dengan token baru.
+ * Auto logout hanya terjadi jika refresh gagal.
  */
 export async function apiRequest(config: ApiRequestConfig): Promise<any> {
+    const { url, logLabel, token, skipAuthRefresh } = config;
+    const isLogoutEndpoint = url.includes('/logout') || logLabel === 'LOGOUT';
+    const canRefresh = !!token && !skipAuthRefresh && !isLogoutEndpoint;
+
+    // Tahan request selama refresh token berjalan, lalu kirim dengan token terbaru
+    let requestToken = token;
+    if (canRefresh && pendingSessionRefresh) {
+        requestToken = (await pendingSessionRefresh) || token;
+    }
+
+    try {
+        return await sendWithRetry({ ...config, token: requestToken });
+    } catch (error: any) {
+        if (error?.httpStatus !== 401 || isLogoutEndpoint) throw error;
+
+        const refreshedToken = canRefresh ? await refreshSession() : null;
+        if (!refreshedToken) {
+            triggerAutoLogout('401 error');
+            throw error;
+        }
+
+        log(`[${logLabel}] Retrying with refreshed token`);
+        try {
+            return await sendWithRetry({ ...config, token: refreshedToken });
+        } catch (retryError: any) {
+            if (retryError?.httpStatus === 401) triggerAutoLogout('401 error after token refresh');
+            throw retryError;
+        }
+    }
+}
+
+async function sendWithRetry(config: ApiRequestConfig): Promise<any> {
+    const policy = resolveRetryPolicy(config);
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await sendRequest(config);
+        } catch (error: any) {
+            if (!policy || attempt >= policy.retries || !isRetryableError(error)) throw error;
+
+            const delay = getRetryDelay(attempt, policy, error?.retryAfter);
+            if (delay > API_CONFIG.maxRetryAfter) throw error;
+
+            log(`[${config.logLabel}] Retry ${attempt + 1}/${policy.retries} in ${delay}ms`);
+            await sleep(delay, config.signal);
+        }
+    }
+}
+
+async function sendRequest(config: ApiRequestConfig): Promise<any> {
     const {
         url,
         method = 'POST',
@@ -124,7 +317,8 @@ export async function apiRequest(config: ApiRequestConfig): Promise<any> {
         logLabel,
         token,
         timeout = API_CONFIG.timeout,
-        headers: customHeaders
+        headers: customHeaders,
+        signal
     } = config;
 
     log(`[${logLabel}] Request:`, { 
@@ -167,21 +361,23 @@ export async function apiRequest(config: ApiRequestConfig): Promise<any> {
     
     try {
         // Execute request with timeout
-        const response = await withTimeout(fetch(url, fetchConfig), timeout);
+        const startedAt = Date.now();
+        const response = await fetchWithTimeout(url, fetchConfig, timeout, signal);
         log(`[${logLabel}] Response status:`, response.status);
+        recordServerDate(response.headers?.get?.('Date'), startedAt);
         
         const data = await response.json();
         log(`[${logLabel}] Response body:`, data);
         
         // Validate response according to ResponseFormatter
         if (!response.ok || data?.meta?.status !== 'success' || data?.meta?.code !== 200) {
-            handleApiError(response, data, logLabel, url);
+            handleApiError(response, data, logLabel);
         }
         
         return data;
     } catch (error) {
-        // Re-throw API errors, handle unexpected errors
-        if (error instanceof Error && (error as any).code) {
+        // Re-throw API errors and cancellations, handle unexpected errors
+        if (error instanceof Error && ((error as any).code || isAbortError(error))) {
             throw error;
         }
         
@@ -206,6 +402,7 @@ export async function uploadFile(config: {
     logLabel: string;
     token?: string | null;
     timeout?: number;
+    signal?: AbortSignal;
 }): Promise<any> {
     const {
         url,
@@ -213,7 +410,8 @@ export async function uploadFile(config: {
         formData,
         logLabel,
         token,
-        timeout = API_CONFIG.uploadTimeout
+        timeout = API_CONFIG.uploadTimeout,
+        signal
     } = config;
 
     return apiRequest({
@@ -222,6 +420,7 @@ export async function uploadFile(config: {
         body: formData,
         logLabel,
         token,
-        timeout
+        timeout,
+        signal
     });
 } 
\ No newline at end of file
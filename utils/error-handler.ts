@@ -62,14 +62,30 @@ export function isNetworkError(error: unknown): boolean {
 }
 
 /**
- * Check if error is an authentication error
+ * Check if error is an authentication error (401, sesi berakhir).
+ * 403 bukan auth error, lihat isPermissionError.
  */
 export function isAuthError(error: unknown): boolean {
   if (!error) return false;
   
   if (typeof error === 'object' && error !== null) {
     const apiError = error as any;
-    return apiError.code === 401 || apiError.code === 403;
+    return apiError.code === 401;
+  }
+  
+  return false;
+}
+
+/**
+ * Check if error is a permission error (403).
+ * User tetap login; hanya aksi/resource tersebut yang tidak diizinkan.
+ */
+export function isPermissionError(error: unknown): boolean {
+  if (!error) return false;
+  
+  if (typeof error === 'object' && error !== null) {
+    const apiError = error as any;
+    return apiError.httpStatus === 403 || apiError.code === 403;
   }
   
   return false;
@@ -124,6 +140,7 @@ export interface UseErrorHandlerResult {
   logError: (error: unknown, context: string) => void;
   isNetworkError: (error: unknown) => boolean;
   isAuthError: (error: unknown) => boolean;
+  isPermissionError: (error: unknown) => boolean;
   isValidationError: (error: unknown) => boolean;
 }
 
@@ -144,6 +161,7 @@ export function useErrorHandler(): UseErrorHandlerResult {
     logError,
     isNetworkError,
     isAuthError,
+    isPermissionError,
     isValidationError,
   };
 }
\ No newline at end of file
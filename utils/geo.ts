@@ -0,0 +1,122 @@
+// utils/geo.ts
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapRegion extends LatLng {
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface GeoCluster<T> extends LatLng {
+  id: string;
+  items: T[];
+}
+
+/**
+ * Parse string lokasi backend "lat,lng". Null jika kosong atau tidak valid.
+ */
+export function parseLatLong(latlong: string | null | undefined): LatLng | null {
+  if (!latlong) return null;
+  const [lat, lng] = latlong.split(',').map(part => Number(part.trim()));
+  if (isNaN(lat) || isNaN(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { latitude: lat, longitude: lng };
+}
+
+/**
+ * Jarak haversine dalam meter.
+ */
+export function calculateDistance(from: LatLng, to: LatLng): number {
+  const R = 6371e3;
+  const φ1 = (from.latitude * Math.PI) / 180;
+  const φ2 = (to.latitude * Math.PI) / 180;
+  const Δφ = ((to.latitude - from.latitude) * Math.PI) / 180;
+  const Δλ = ((to.longitude - from.longitude) * Math.PI) / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) *
+    Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0)} km`;
+}
+
+/**
+ * Urutkan item dari yang terdekat. Item tanpa koordinat valid ditaruh di akhir
+ * dengan urutan semula.
+ */
+export function sortByDistance<T extends object>(items: T[], origin: LatLng, getLocation: (item: T) => string | null | undefined): (T & { distance: number | null })[] {
+  return items
+    .map((item, index) => {
+      const coords = parseLatLong(getLocation(item));
+      return { item, index, distance: coords ? calculateDistance(origin, coords) : null };
+    })
+    .sort((a, b) => {
+      if (a.distance === null && b.distance === null) return a.index - b.index;
+      if (a.distance === null) return 1;
+      if (b.distance === null) return -1;
+      return a.distance - b.distance;
+    })
+    .map(({ item, distance }) => ({ ...item, distance }));
+}
+
+/**
+ * Clustering grid sederhana: region yang terlihat dibagi `divisions` x `divisions` sel,
+ * item dalam sel yang sama digabung menjadi satu cluster di titik rata-ratanya.
+ */
+export function clusterByRegion<T>(
+  items: T[],
+  region: MapRegion,
+  getLocation: (item: T) => string | null | undefined,
+  divisions: number = 8
+): GeoCluster<T>[] {
+  const cellLat = region.latitudeDelta / divisions;
+  const cellLng = region.longitudeDelta / divisions;
+  const cells = new Map<string, { items: T[]; latitude: number; longitude: number }>();
+
+  items.forEach(item => {
+    const coords = parseLatLong(getLocation(item));
+    if (!coords) return;
+    const key = `${Math.floor(coords.latitude / cellLat)}:${Math.floor(coords.longitude / cellLng)}`;
+    const cell = cells.get(key) ?? { items: [], latitude: 0, longitude: 0 };
+    cell.items.push(item);
+    cell.latitude += coords.latitude;
+    cell.longitude += coords.longitude;
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells.entries()).map(([key, cell]) => ({
+    id: key,
+    items: cell.items,
+    latitude: cell.latitude / cell.items.length,
+    longitude: cell.longitude / cell.items.length,
+  }));
+}
+
+/**
+ * Region yang memuat semua titik, dengan padding dan delta minimum.
+ */
+export function regionForPoints(points: LatLng[], padding: number = 1.4, minDelta: number = 0.005): MapRegion | null {
+  if (points.length === 0) return null;
+  const lats = points.map(point => point.latitude);
+  const lngs = points.map(point => point.longitude);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * padding, minDelta),
+    longitudeDelta: Math.max((maxLng - minLng) * padding, minDelta),
+  };
+}
@@ -0,0 +1,196 @@
+// utils/geofence.ts
+
+import { calculateDistance, formatDistance, LatLng, parseLatLong } from '@/utils/geo';
+
+// Radius jika outlet tidak punya radius (null/undefined/0)
+export const DEFAULT_GEOFENCE_RADIUS = 100;
+
+// Akurasi GPS terburuk (meter) yang masih boleh menutup selisih di tepi area
+export const MAX_GEOFENCE_ACCURACY = 50;
+
+export type GeofenceStatus = 'inside' | 'outside' | 'uncertain';
+
+export type GeofenceReason =
+  | 'INSIDE'
+  | 'INSIDE_ACCURACY'
+  | 'OUTSIDE'
+  | 'LOW_ACCURACY'
+  | 'NO_OUTLET_LOCATION'
+  | 'NO_POSITION';
+
+// Batas poligon dari backend: array titik, pasangan [lat, lng], atau JSON string keduanya
+export type GeofenceBoundary = LatLng[] | [number, number][] | string;
+
+export interface GeofenceTarget {
+  location?: string | null;
+  // null/undefined/0 = DEFAULT_GEOFENCE_RADIUS
+  radius?: number | null;
+  // Jika ada, poligon dipakai menggantikan radius (mis. pasar / outlet besar)
+  boundary?: GeofenceBoundary | null;
+}
+
+export interface GeofencePosition extends LatLng {
+  accuracy?: number | null;
+}
+
+export interface GeofenceVerdict {
+  status: GeofenceStatus;
+  reason: GeofenceReason;
+  shape: 'radius' | 'polygon' | null;
+  // Radius: jarak ke titik outlet. Poligon: jarak ke tepi area (0 jika di dalam)
+  distance: number | null;
+  radius: number | null;
+  accuracy: number | null;
+  message: string;
+}
+
+const REASON_MESSAGES: Record<GeofenceReason, string> = {
+  INSIDE: 'Lokasi valid',
+  INSIDE_ACCURACY: 'Lokasi valid (dalam batas akurasi GPS)',
+  OUTSIDE: 'Lokasi terlalu jauh',
+  LOW_ACCURACY: 'Akurasi GPS rendah, perbarui lokasi',
+  NO_OUTLET_LOCATION: 'Lokasi outlet belum diatur',
+  NO_POSITION: 'Lokasi Anda belum tersedia',
+};
+
+const STATUS_BY_REASON: Record<GeofenceReason, GeofenceStatus> = {
+  INSIDE: 'inside',
+  INSIDE_ACCURACY: 'inside',
+  OUTSIDE: 'outside',
+  LOW_ACCURACY: 'uncertain',
+  NO_OUTLET_LOCATION: 'uncertain',
+  NO_POSITION: 'uncertain',
+};
+
+/**
+ * Parse batas poligon. Null jika kosong atau kurang dari 3 titik valid.
+ */
+export function parseBoundary(boundary: GeofenceBoundary | null | undefined): LatLng[] | null {
+  if (!boundary) return null;
+  let raw: unknown = boundary;
+  if (typeof boundary === 'string') {
+    try {
+      raw = JSON.parse(boundary);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(raw)) return null;
+
+  const points = raw
+    .map((point): LatLng | null => {
+      if (Array.isArray(point)) return parseLatLong(`${point[0]},${point[1]}`);
+      if (point && typeof point === 'object') return parseLatLong(`${point.latitude},${point.longitude}`);
+      return null;
+    })
+    .filter((point): point is LatLng => point !== null);
+
+  return points.length >= 3 ? points : null;
+}
+
+/**
+ * Ray casting di bidang lat/lng; cukup akurat untuk area seukuran outlet.
+ */
+export function isPointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude)
+      && point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Jarak terdekat (meter) dari titik ke tepi poligon, memakai proyeksi datar di sekitar titik.
+ */
+export function distanceToPolygonEdge(point: LatLng, polygon: LatLng[]): number {
+  const metersPerLat = 111320;
+  const metersPerLng = metersPerLat * Math.cos((point.latitude * Math.PI) / 180);
+  const project = (p: LatLng) => ({
+    x: (p.longitude - point.longitude) * metersPerLng,
+    y: (p.latitude - point.latitude) * metersPerLat,
+  });
+
+  let nearest = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = project(polygon[j]);
+    const b = project(polygon[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+    nearest = Math.min(nearest, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return nearest;
+}
+
+function verdict(reason: GeofenceReason, details: Partial<GeofenceVerdict> = {}): GeofenceVerdict {
+  return {
+    status: STATUS_BY_REASON[reason],
+    reason,
+    shape: null,
+    distance: null,
+    radius: null,
+    accuracy: null,
+    message: REASON_MESSAGES[reason],
+    ...details,
+  };
+}
+
+/**
+ * Radius yang dipakai untuk outlet tanpa poligon; radius kosong atau 0 memakai default.
+ */
+export function getGeofenceRadius(target: GeofenceTarget | null | undefined): number {
+  return target?.radius && target.radius > 0 ? target.radius : DEFAULT_GEOFENCE_RADIUS;
+}
+
+/**
+ * Cek posisi user terhadap area outlet (poligon jika ada, selain itu radius).
+ *
+ * Posisi di luar area tetap dianggap di dalam jika lingkaran akurasi GPS menyentuh area
+ * dan akurasinya tidak lebih buruk dari MAX_GEOFENCE_ACCURACY; jika lebih buruk hasilnya
+ * `uncertain` agar user memperbarui lokasi, bukan langsung ditolak.
+ */
+export function evaluateGeofence(target: GeofenceTarget | null | undefined, position: GeofencePosition | null | undefined): GeofenceVerdict {
+  const polygon = parseBoundary(target?.boundary);
+  const center = parseLatLong(target?.location);
+  if (!polygon && !center) return verdict('NO_OUTLET_LOCATION');
+  if (!position) return verdict('NO_POSITION');
+
+  const accuracy = position.accuracy ?? null;
+  let details: Partial<GeofenceVerdict>;
+  let overshoot: number;
+
+  if (polygon) {
+    const distance = isPointInPolygon(position, polygon) ? 0 : distanceToPolygonEdge(position, polygon);
+    details = { shape: 'polygon', distance, accuracy };
+    overshoot = distance;
+  } else {
+    const radius = getGeofenceRadius(target);
+    const distance = calculateDistance(position, center!);
+    details = { shape: 'radius', distance, radius, accuracy };
+    overshoot = distance - radius;
+  }
+
+  if (overshoot <= 0) return verdict('INSIDE', details);
+  if (accuracy !== null && overshoot <= accuracy) {
+    return verdict(accuracy <= MAX_GEOFENCE_ACCURACY ? 'INSIDE_ACCURACY' : 'LOW_ACCURACY', details);
+  }
+  return verdict('OUTSIDE', details);
+}
+
+/**
+ * Keterangan jarak untuk UI, mis. "Jarak: 120 m (Maks: 100 m)". Null jika tidak relevan.
+ */
+export function describeGeofenceDistance(result: GeofenceVerdict): string | null {
+  if (result.distance === null) return null;
+  const accuracy = result.accuracy !== null ? ` • Akurasi ±${Math.round(result.accuracy)} m` : '';
+  if (result.shape === 'polygon') {
+    const position = result.distance === 0 ? 'Di dalam area outlet' : `${formatDistance(result.distance)} di luar area outlet`;
+    return `${position}${accuracy}`;
+  }
+  return `Jarak: ${formatDistance(result.distance)} (Maks: ${formatDistance(result.radius ?? 0)})${accuracy}`;
+}
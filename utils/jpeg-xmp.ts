@@ -0,0 +1,77 @@
+import { utf8Decode, utf8Encode } from '@/utils/sha256';
+
+// Segment APP1 XMP diawali namespace ini (null-terminated), lihat spesifikasi XMP part 3
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_HEADER_BYTES = utf8Encode(XMP_HEADER);
+const MAX_SEGMENT_LENGTH = 0xffff - 2;
+
+const isJpeg = (bytes: Uint8Array) => bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+interface Segment {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+// Segment metadata sebelum data gambar (berhenti di SOS)
+function readSegments(bytes: Uint8Array): Segment[] {
+  const segments: Segment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return segments;
+}
+
+function isXmpSegment(bytes: Uint8Array, segment: Segment): boolean {
+  if (segment.marker !== 0xe1) return false;
+  const header = bytes.subarray(segment.start + 4, segment.start + 4 + XMP_HEADER_BYTES.length);
+  return header.length === XMP_HEADER_BYTES.length && header.every((byte, i) => byte === XMP_HEADER_BYTES[i]);
+}
+
+/**
+ * Ambil paket XMP dari JPEG. `stripped` adalah byte JPEG tanpa segment XMP,
+ * sama persis dengan file sebelum XMP disisipkan.
+ */
+export function extractXmp(bytes: Uint8Array): { xmp: string | null; stripped: Uint8Array } {
+  if (!isJpeg(bytes)) return { xmp: null, stripped: bytes };
+  const segment = readSegments(bytes).find(candidate => isXmpSegment(bytes, candidate));
+  if (!segment) return { xmp: null, stripped: bytes };
+
+  const xmp = utf8Decode(bytes.subarray(segment.start + 4 + XMP_HEADER_BYTES.length, segment.end));
+  const stripped = new Uint8Array(bytes.length - (segment.end - segment.start));
+  stripped.set(bytes.subarray(0, segment.start));
+  stripped.set(bytes.subarray(segment.end), segment.start);
+  return { xmp, stripped };
+}
+
+/**
+ * Sisipkan (atau ganti) paket XMP setelah segment APP0/APP1 EXIF yang sudah ada.
+ */
+export function embedXmp(bytes: Uint8Array, xmp: string): Uint8Array {
+  if (!isJpeg(bytes)) throw new Error('File bukan JPEG');
+  const { stripped } = extractXmp(bytes);
+
+  const payload = utf8Encode(xmp);
+  const length = 2 + XMP_HEADER_BYTES.length + payload.length;
+  if (length > MAX_SEGMENT_LENGTH) throw new Error('Paket XMP terlalu besar');
+
+  const insertAt = readSegments(stripped)
+    .filter(segment => segment.marker === 0xe0 || segment.marker === 0xe1)
+    .reduce((offset, segment) => (segment.start === offset ? segment.end : offset), 2);
+
+  const segment = new Uint8Array(2 + length);
+  segment.set([0xff, 0xe1, length >> 8, length & 0xff]);
+  segment.set(XMP_HEADER_BYTES, 4);
+  segment.set(payload, 4 + XMP_HEADER_BYTES.length);
+
+  const out = new Uint8Array(stripped.length + segment.length);
+  out.set(stripped.subarray(0, insertAt));
+  out.set(segment, insertAt);
+  out.set(stripped.subarray(insertAt), insertAt + segment.length);
+  return out;
+}
@@ -1,12 +1,204 @@
 // utils/logger.ts
+import * as FileSystem from 'expo-file-system';
+import { AppState } from 'react-native';
 
 const isProd = process.env.EXPO_PUBLIC_ENV === 'production';
 
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  // Label dari prefix `[CHECK_IN_VISIT]` atau createLogger(tag)
+  tag: string | null;
+  message: string;
+}
+
+// Ring buffer: hanya N entry terakhir yang disimpan
+const MAX_ENTRIES = 500;
+const MAX_MESSAGE_LENGTH = 1000;
+// Body response list bisa ratusan item: cukup beberapa item pertama yang diserialisasi
+const MAX_ARRAY_ITEMS = 10;
+
+const LOG_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}logs/` : null;
+const SESSION_LOG_FILE = 'session.log';
+const PREVIOUS_LOG_FILE = 'previous.log';
+
+const entries: LogEntry[] = [];
+// Ada entry baru sejak session.log terakhir ditulis
+let dirty = false;
+let flushing: Promise<void> = Promise.resolve();
+let initialization: Promise<void> | null = null;
+
+const SENSITIVE_KEYS = /^(token|access_token|refresh_token|authorization|password|password_confirmation|current_password|otp|phone|owner_phone|secret)$/i;
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const TOKEN_FIELD_PATTERN = /("?(?:access_token|refresh_token|token|password|secret)"?\s*[:=]\s*"?)[^",\s}]+/gi;
+// Nomor HP Indonesia: 08xx, 628xx, +628xx (dengan/tanpa spasi atau strip)
+const PHONE_PATTERN = /(?:\+62[\s-]?|\b62|\b0)8[\d\s-]{7,13}\d/g;
+
+/**
+ * Samarkan token dan nomor HP sebelum disimpan atau diekspor.
+ */
+export function redact(text: string): string {
+  return text
+    .replace(BEARER_PATTERN, 'Bearer [REDACTED]')
+    .replace(TOKEN_FIELD_PATTERN, '$1[REDACTED]')
+    .replace(PHONE_PATTERN, '[PHONE]');
+}
+
+function serialize(value: any): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}${value.stack ? `\n${value.stack}` : ''}`;
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (typeof value === 'symbol' || typeof value === 'bigint') return value.toString();
+  if (value === undefined) return 'undefined';
+
+  const seen = new WeakSet();
+  try {
+    return JSON.stringify(value, (key, item) => {
+      if (key && SENSITIVE_KEYS.test(key) && item) return '[REDACTED]';
+      if (typeof item === 'string' && item.length > MAX_MESSAGE_LENGTH) return `${item.slice(0, MAX_MESSAGE_LENGTH)}…`;
+      if (Array.isArray(item) && item.length > MAX_ARRAY_ITEMS) {
+        if (seen.has(item)) return '[Circular]';
+        seen.add(item);
+        return [...item.slice(0, MAX_ARRAY_ITEMS), `… ${item.length - MAX_ARRAY_ITEMS} more`];
+      }
+      if (typeof item === 'object' && item !== null) {
+        if (seen.has(item)) return '[Circular]';
+        seen.add(item);
+      }
+      return item;
+    });
+  } catch {
+    return String(value);
+  }
+}
+
+function extractTag(args: any[]): string | null {
+  const match = typeof args[0] === 'string' ? args[0].match(/^\[([^\]]+)\]/) : null;
+  return match ? match[1] : null;
+}
+
+// Argumen setelah batas panjang tidak diserialisasi; redaksi hanya atas teks yang disimpan
+function record(level: LogLevel, args: any[]) {
+  const tag = extractTag(args);
+  let message = '';
+  for (const arg of args) {
+    message += (message ? ' ' : '') + serialize(arg);
+    if (message.length > MAX_MESSAGE_LENGTH) break;
+  }
+  message = message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+  message = redact(message);
+
+  entries.push({ time: new Date().toISOString(), level, tag, message });
+  if (entries.length > MAX_ENTRIES) entries.splice(0, entries.length - MAX_ENTRIES);
+  dirty = true;
+}
+
+const formatEntry = (entry: LogEntry) => `${entry.time} ${entry.level.toUpperCase()} ${entry.message}`;
+
+async function writeSessionLog() {
+  if (!LOG_DIRECTORY || !dirty) return;
+  dirty = false;
+  try {
+    await (initialization ?? initLogger());
+    await FileSystem.writeAsStringAsync(`${LOG_DIRECTORY}${SESSION_LOG_FILE}`, entries.map(formatEntry).join('\n'));
+  } catch {
+    // Logger tidak boleh membuat app error; abaikan kegagalan tulis file
+  }
+}
+
+/**
+ * Tulis ring buffer ke session.log jika ada entry baru. Tidak dipanggil per entry:
+ * hanya saat app ke background (lihat initLogger) dan sebelum log diekspor.
+ */
+export function flushLogs(): Promise<void> {
+  flushing = flushing.then(writeSessionLog);
+  return flushing;
+}
+
+async function rotateLogFiles() {
+  if (!LOG_DIRECTORY) return;
+  try {
+    await FileSystem.makeDirectoryAsync(LOG_DIRECTORY, { intermediates: true });
+  } catch {
+    // Direktori sudah ada
+  }
+  const session = `${LOG_DIRECTORY}${SESSION_LOG_FILE}`;
+  const info = await FileSystem.getInfoAsync(session);
+  if (info.exists) {
+    await FileSystem.deleteAsync(`${LOG_DIRECTORY}${PREVIOUS_LOG_FILE}`, { idempotent: true });
+    await FileSystem.moveAsync({ from: session, to: `${LOG_DIRECTORY}${PREVIOUS_LOG_FILE}` });
+  }
+}
+
+/**
+ * Dipanggil sekali saat app start: log sesi sebelumnya dipindah ke previous.log
+ * (rotasi) sehingga sesi yang terputus tetap bisa dikirim lewat diagnostik.
+ * Setelah itu session.log ditulis setiap app meninggalkan foreground.
+ */
+export function initLogger(): Promise<void> {
+  if (!initialization) {
+    initialization = rotateLogFiles().catch(() => undefined);
+    AppState.addEventListener('change', state => {
+      if (state !== 'active') flushLogs();
+    });
+  }
+  return initialization;
+}
+
+/**
+ * Entry di memori untuk sesi ini (sudah disamarkan).
+ */
+export function getLogEntries(level?: LogLevel): LogEntry[] {
+  return level ? entries.filter(entry => entry.level === level) : [...entries];
+}
+
+/**
+ * Gabungan log sesi sebelumnya dan sesi ini sebagai teks, untuk dikirim sebagai diagnostik.
+ */
+export async function exportLogs(): Promise<string> {
+  await flushLogs();
+  let previous = '';
+  if (LOG_DIRECTORY) {
+    try {
+      const file = `${LOG_DIRECTORY}${PREVIOUS_LOG_FILE}`;
+      const info = await FileSystem.getInfoAsync(file);
+      if (info.exists) previous = await FileSystem.readAsStringAsync(file);
+    } catch {
+      // File log lama tidak terbaca; kirim log sesi ini saja
+    }
+  }
+
+  const current = entries.map(formatEntry).join('\n');
+  return previous ? `--- Sesi sebelumnya ---\n${previous}\n--- Sesi ini ---\n${current}` : current;
+}
+
+export async function clearLogs(): Promise<void> {
+  entries.length = 0;
+  dirty = false;
+  if (!LOG_DIRECTORY) return;
+  await FileSystem.deleteAsync(`${LOG_DIRECTORY}${SESSION_LOG_FILE}`, { idempotent: true }).catch(() => undefined);
+  await FileSystem.deleteAsync(`${LOG_DIRECTORY}${PREVIOUS_LOG_FILE}`, { idempotent: true }).catch(() => undefined);
+}
+
+/**
+ * Console hanya aktif di luar production; entry selalu dicatat ke ring buffer
+ * agar laporan masalah dari lapangan tetap punya jejak.
+ */
+export function debug(...args: any[]) {
+  if (!isProd) {
+    console.debug(...args);
+  }
+  record('debug', args);
+}
+
 export function log(...args: any[]) {
   if (!isProd) {
     // eslint-disable-next-line no-console
     console.log(...args);
   }
+  record('info', args);
 }
 
 export function warn(...args: any[]) {
@@ -14,6 +206,7 @@ export function warn(...args: any[]) {
     // eslint-disable-next-line no-console
     console.warn(...args);
   }
+  record('warn', args);
 }
 
 export function error(...args: any[]) {
@@ -21,6 +214,20 @@ export function error(...args: any[]) {
     // eslint-disable-next-line no-console
     console.error(...args);
   }
+  record('error', args);
+}
+
+/**
+ * Logger dengan tag tetap, mis. createLogger('UPLOAD').warn('retry') -> "[UPLOAD] retry".
+ */
+export function createLogger(tag: string) {
+  const prefix = `[${tag}]`;
+  return {
+    debug: (...args: any[]) => debug(prefix, ...args),
+    log: (...args: any[]) => log(prefix, ...args),
+    warn: (...args: any[]) => warn(prefix, ...args),
+    error: (...args: any[]) => error(prefix, ...args),
+  };
 }
 
-export default { log, warn, error };
+export default { debug, log, warn, error };
@@ -0,0 +1,90 @@
+// utils/route.ts
+
+import { calculateDistance, LatLng } from '@/utils/geo';
+
+export interface RouteLegs {
+  // legs[i] = jarak (meter) dari titik sebelumnya (atau origin) ke points[i]
+  legs: number[];
+  total: number;
+}
+
+/**
+ * Jarak tiap ruas rute terbuka origin -> points[0] -> points[1] -> ...
+ * Tanpa origin, ruas pertama bernilai 0.
+ */
+export function routeLegs(origin: LatLng | null, points: LatLng[]): RouteLegs {
+  const legs = points.map((point, index) => {
+    const from = index === 0 ? origin : points[index - 1];
+    return from ? calculateDistance(from, point) : 0;
+  });
+  return { legs, total: legs.reduce((sum, leg) => sum + leg, 0) };
+}
+
+/**
+ * Urutan awal: selalu ke titik terdekat berikutnya, mulai dari origin
+ * (atau titik pertama jika origin tidak ada).
+ */
+export function nearestNeighbourOrder(origin: LatLng | null, points: LatLng[]): number[] {
+  const remaining = points.map((_, index) => index);
+  const order: number[] = [];
+  let current = origin;
+
+  while (remaining.length > 0) {
+    let best = 0;
+    if (current) {
+      let bestDistance = calculateDistance(current, points[remaining[0]]);
+      for (let i = 1; i < remaining.length; i++) {
+        const distance = calculateDistance(current, points[remaining[i]]);
+        if (distance < bestDistance) {
+          best = i;
+          bestDistance = distance;
+        }
+      }
+    }
+    const [next] = remaining.splice(best, 1);
+    order.push(next);
+    current = points[next];
+  }
+
+  return order;
+}
+
+/**
+ * Perbaikan 2-opt untuk rute terbuka (tidak kembali ke origin): balik segmen
+ * order[i..k] selama total jarak masih berkurang.
+ */
+export function improveWithTwoOpt(origin: LatLng | null, points: LatLng[], order: number[], maxPasses: number = 50): number[] {
+  const best = [...order];
+  const toPoint = points.map(from => points.map(to => calculateDistance(from, to)));
+  const fromOrigin = points.map(point => (origin ? calculateDistance(origin, point) : 0));
+  // Jarak ke titik sebelumnya di rute; sebelum titik pertama adalah origin
+  const before = (position: number, index: number) => (position === 0 ? fromOrigin[index] : toPoint[best[position - 1]][index]);
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const next = k + 1 < best.length ? best[k + 1] : null;
+        const removed = before(i, best[i]) + (next !== null ? toPoint[best[k]][next] : 0);
+        const added = before(i, best[k]) + (next !== null ? toPoint[best[i]][next] : 0);
+        // Toleransi kecil agar tidak berputar karena selisih pembulatan
+        if (added < removed - 0.01) {
+          best.splice(i, k - i + 1, ...best.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return best;
+}
+
+/**
+ * Urutan kunjungan efisien dari origin melewati semua titik (nearest neighbour + 2-opt).
+ * Mengembalikan indeks `points` sesuai urutan kunjungan.
+ */
+export function optimizeRoute(origin: LatLng | null, points: LatLng[]): number[] {
+  if (points.length < 2) return points.map((_, index) => index);
+  return improveWithTwoOpt(origin, points, nearestNeighbourOrder(origin, points));
+}